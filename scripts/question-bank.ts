@@ -0,0 +1,146 @@
+// Imports and exports question packs against the questions table.
+//
+//   npm run questions -- import <pack.csv|pack.json> [--dry-run] [--approve]
+//   npm run questions -- export <pack.csv|pack.json> [--category <name>]
+//   npm run questions -- difficulty [--min-answers <n>]
+//
+// Clients cannot read answers, so this needs the service role key:
+// SUPABASE_URL (or VITE_SUPABASE_URL) and SUPABASE_SERVICE_ROLE_KEY.
+// Imported questions are drafts for an admin to review unless --approve is given.
+// difficulty re-rates every question from its answers; schedule it where pg_cron isn't available.
+
+import { readFileSync, writeFileSync } from 'fs';
+import { createClient } from '@supabase/supabase-js';
+import {
+  importQuestionPack,
+  exportQuestionPack,
+  detectQuestionPackFormat,
+  type QuestionDraft,
+  type QuestionPackFormat,
+} from '../src/lib/questionBank';
+
+const PAGE_SIZE = 1000;
+const INSERT_BATCH_SIZE = 500;
+
+function connect() {
+  const url = process.env.SUPABASE_URL ?? process.env.VITE_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!url || !serviceRoleKey) {
+    throw new Error('Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY to use the question bank');
+  }
+
+  return createClient(url, serviceRoleKey, { auth: { persistSession: false } });
+}
+
+type Client = ReturnType<typeof connect>;
+
+function formatFor(file: string): QuestionPackFormat {
+  const format = detectQuestionPackFormat(file);
+  if (!format) {
+    throw new Error(`Unsupported file type: ${file} (expected .csv or .json)`);
+  }
+  return format;
+}
+
+// PostgREST caps each response, so read the table a page at a time
+async function fetchAll<T>(client: Client, columns: string, category?: string): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = client.from('questions').select(columns).order('id').range(from, from + PAGE_SIZE - 1);
+    if (category) {
+      query = query.eq('category', category);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    rows.push(...(data as T[]));
+    if (!data || data.length < PAGE_SIZE) {
+      return rows;
+    }
+  }
+}
+
+async function importPack(file: string, dryRun: boolean, approve: boolean) {
+  const client = connect();
+  const existing = await fetchAll<{ question: string; category: string }>(client, 'question, category');
+
+  const result = importQuestionPack(readFileSync(file, 'utf8'), formatFor(file), {
+    existingQuestions: existing.map(row => row.question),
+    knownCategories: new Set(existing.map(row => row.category)),
+  });
+
+  for (const error of result.errors) {
+    console.error(`Row ${error.row}${error.field ? ` (${error.field})` : ''}: ${error.message}`);
+  }
+  for (const duplicate of result.duplicates) {
+    const original = duplicate.duplicate_of === 'existing' ? 'a question already in the bank' : `row ${duplicate.duplicate_of}`;
+    console.warn(`Row ${duplicate.row}: duplicate of ${original}: ${duplicate.question}`);
+  }
+
+  console.log(
+    `${result.total_rows} rows: ${result.questions.length} to import, ` +
+    `${result.duplicates.length} duplicates, ${result.errors.length} errors`
+  );
+
+  if (dryRun || result.questions.length === 0) {
+    return;
+  }
+
+  for (let start = 0; start < result.questions.length; start += INSERT_BATCH_SIZE) {
+    const batch = result.questions.slice(start, start + INSERT_BATCH_SIZE);
+    const { error } = await client.from('questions').insert(batch.map(question => ({
+      ...question,
+      status: approve ? 'approved' : 'draft',
+    })));
+    if (error) throw error;
+  }
+
+  console.log(`Imported ${result.questions.length} questions as ${approve ? 'approved' : 'drafts'}`);
+}
+
+async function exportPack(file: string, category?: string) {
+  const format = formatFor(file);
+  const questions = await fetchAll<QuestionDraft>(connect(), 'category, question, a, b, c, d, metadata, question_type', category);
+
+  writeFileSync(file, exportQuestionPack(questions, format));
+  console.log(`Exported ${questions.length} questions to ${file}`);
+}
+
+async function refreshDifficulty(minAnswers?: string) {
+  const { data, error } = await connect().rpc('refresh_question_difficulty', {
+    p_min_answers: minAnswers ? Number(minAnswers) : 5,
+  });
+  if (error) throw error;
+
+  console.log(`Updated the difficulty of ${data} questions`);
+}
+
+async function main(args: string[]) {
+  const [command, file] = args;
+  const option = (name: string) => {
+    const index = args.indexOf(name);
+    return index === -1 ? undefined : args[index + 1];
+  };
+
+  if (command === 'import' && file) {
+    await importPack(file, args.includes('--dry-run'), args.includes('--approve'));
+  } else if (command === 'export' && file) {
+    await exportPack(file, option('--category'));
+  } else if (command === 'difficulty') {
+    await refreshDifficulty(option('--min-answers'));
+  } else {
+    console.error(
+      'Usage: question-bank import <file> [--dry-run] [--approve] | export <file> [--category <name>]' +
+      ' | difficulty [--min-answers <n>]'
+    );
+    process.exitCode = 1;
+  }
+}
+
+main(process.argv.slice(2)).catch(error => {
+  console.error(`Question bank ${process.argv[2]} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  process.exitCode = 1;
+});
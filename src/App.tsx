@@ -6,8 +6,11 @@ import { Layout } from '@/components/layout/Layout';
 import { ProtectedRoute } from '@/components/ProtectedRoute';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
 import { Dashboard } from '@/components/Dashboard';
-import { Login, Register, Profile } from '@/components/auth';
+import { Login, Register, Profile, GuestSignIn, UpgradeAccount } from '@/components/auth';
 import { GameSetup, QuestionDisplay, GameResults } from '@/components/game';
+import { HostControl, TVDisplay, GameReport } from '@/components/host';
+import { AnswerPad, JoinGame } from '@/components/player';
+import { QuestionEditor, QuestionReports } from '@/components/admin';
 import { Toaster } from '@/components/ui/sonner';
 
 function App() {
@@ -31,6 +34,7 @@ function App() {
                         {/* Public Routes */}
                         <Route path="/login" element={<ErrorBoundary><Login /></ErrorBoundary>} />
                         <Route path="/register" element={<ErrorBoundary><Register /></ErrorBoundary>} />
+                        <Route path="/guest" element={<ErrorBoundary><GuestSignIn /></ErrorBoundary>} />
 
                         {/* Protected Routes */}
                         <Route
@@ -43,6 +47,16 @@ function App() {
                             </ProtectedRoute>
                           }
                         />
+                        <Route
+                          path="/upgrade"
+                          element={
+                            <ProtectedRoute allowGuests>
+                              <ErrorBoundary>
+                                <UpgradeAccount />
+                              </ErrorBoundary>
+                            </ProtectedRoute>
+                          }
+                        />
                         <Route
                           path="/profile"
                           element={
@@ -84,6 +98,82 @@ function App() {
                           }
                         />
 
+                        {/* Multi-User Host Routes */}
+                        <Route
+                          path="/host/:gameId/control"
+                          element={
+                            <ProtectedRoute>
+                              <ErrorBoundary>
+                                <HostControl />
+                              </ErrorBoundary>
+                            </ProtectedRoute>
+                          }
+                        />
+                        <Route
+                          path="/host/:gameId/display"
+                          element={
+                            <ProtectedRoute>
+                              <ErrorBoundary>
+                                <TVDisplay />
+                              </ErrorBoundary>
+                            </ProtectedRoute>
+                          }
+                        />
+                        <Route
+                          path="/host/:gameId/report"
+                          element={
+                            <ProtectedRoute>
+                              <ErrorBoundary>
+                                <GameReport />
+                              </ErrorBoundary>
+                            </ProtectedRoute>
+                          }
+                        />
+
+                        {/* Multi-User Player Routes */}
+                        <Route
+                          path="/join/:joinCode?"
+                          element={
+                            <ProtectedRoute allowGuests>
+                              <ErrorBoundary>
+                                <JoinGame />
+                              </ErrorBoundary>
+                            </ProtectedRoute>
+                          }
+                        />
+                        <Route
+                          path="/play/:gameId"
+                          element={
+                            <ProtectedRoute allowGuests>
+                              <ErrorBoundary>
+                                <AnswerPad />
+                              </ErrorBoundary>
+                            </ProtectedRoute>
+                          }
+                        />
+
+                        {/* Admin Routes */}
+                        <Route
+                          path="/admin/questions"
+                          element={
+                            <ProtectedRoute requireAdmin>
+                              <ErrorBoundary>
+                                <QuestionEditor />
+                              </ErrorBoundary>
+                            </ProtectedRoute>
+                          }
+                        />
+                        <Route
+                          path="/admin/reports"
+                          element={
+                            <ProtectedRoute requireAdmin>
+                              <ErrorBoundary>
+                                <QuestionReports />
+                              </ErrorBoundary>
+                            </ProtectedRoute>
+                          }
+                        />
+
                         {/* Fallback Route */}
                         <Route path="*" element={<Navigate to="/" replace />} />
                       </Routes>
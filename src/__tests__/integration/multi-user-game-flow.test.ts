@@ -112,13 +112,13 @@ describe('Multi-User Game Flow Integration', () => {
 
       // Step 2: Create teams
       const team1Request: CreateTeamRequest = {
-        game_id: testGame.id,
+        join_code: testGame.join_code,
         name: 'Team Alpha',
         display_color: '#FF0000',
       };
 
       const team2Request: CreateTeamRequest = {
-        game_id: testGame.id,
+        join_code: testGame.join_code,
         name: 'Team Beta',
         display_color: '#0000FF',
       };
@@ -143,12 +143,12 @@ describe('Multi-User Game Flow Integration', () => {
       // Step 3: Players join teams
       const joinTeam1Request: JoinTeamRequest = {
         team_id: testTeam1.id,
-        player_id: testPlayer1Id,
+        join_code: testGame.join_code,
       };
 
       const joinTeam2Request: JoinTeamRequest = {
         team_id: testTeam2.id,
-        player_id: testPlayer2Id,
+        join_code: testGame.join_code,
       };
 
       await gameService.joinTeam(joinTeam1Request);
@@ -305,7 +305,7 @@ describe('Multi-User Game Flow Integration', () => {
 
       // Create a team
       testTeam1 = await gameService.createTeam({
-        game_id: testGame.id,
+        join_code: testGame.join_code,
         name: 'Test Team',
         display_color: '#FF0000',
       });
@@ -313,21 +313,21 @@ describe('Multi-User Game Flow Integration', () => {
       // Player joins team
       await gameService.joinTeam({
         team_id: testTeam1.id,
-        player_id: testPlayer1Id,
+        join_code: testGame.join_code,
       });
 
       // Try to add second player to team (should fail - max 1 player per team)
       await expect(
         gameService.joinTeam({
           team_id: testTeam1.id,
-          player_id: testPlayer2Id,
+          join_code: testGame.join_code,
         })
       ).rejects.toThrow('Team is full');
 
       // Try to create duplicate team name (should fail)
       await expect(
         gameService.createTeam({
-          game_id: testGame.id,
+          join_code: testGame.join_code,
           name: 'Test Team', // Duplicate name
           display_color: '#00FF00',
         })
@@ -352,7 +352,7 @@ describe('Multi-User Game Flow Integration', () => {
 
       // Start first game (this will mark questions as used)
       await gameService.createTeam({
-        game_id: game1.id,
+        join_code: game1.join_code,
         name: 'Team 1',
       });
 
@@ -424,7 +424,7 @@ describe('Multi-User Game Flow Integration', () => {
       testGame = await gameService.createGame(testHostId, gameRequest);
 
       await gameService.createTeam({
-        game_id: testGame.id,
+        join_code: testGame.join_code,
         name: 'Test Team',
       });
 
@@ -446,13 +446,13 @@ describe('Multi-User Game Flow Integration', () => {
 
       testGame = await gameService.createGame(testHostId, gameRequest);
       testTeam1 = await gameService.createTeam({
-        game_id: testGame.id,
+        join_code: testGame.join_code,
         name: 'Test Team',
       });
 
       await gameService.joinTeam({
         team_id: testTeam1.id,
-        player_id: testPlayer1Id,
+        join_code: testGame.join_code,
       });
 
       const startResponse = await gameService.startMultiUserGame(testGame.id);
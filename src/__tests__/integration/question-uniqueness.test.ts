@@ -347,7 +347,7 @@ describe('Question Uniqueness Integration Tests', () => {
 
       // Create a team and start the game (this should mark questions as used)
       await gameService.createTeam({
-        game_id: game.id,
+        join_code: game.join_code,
         name: 'Test Team',
       });
 
@@ -395,7 +395,7 @@ describe('Question Uniqueness Integration Tests', () => {
       const game = await gameService.createGame(testHost1Id, gameRequest);
 
       await gameService.createTeam({
-        game_id: game.id,
+        join_code: game.join_code,
         name: 'Test Team',
       });
 
@@ -416,7 +416,7 @@ describe('Question Uniqueness Integration Tests', () => {
       };
 
       const game1 = await gameService.createGame(testHost1Id, game1Request);
-      await gameService.createTeam({ game_id: game1.id, name: 'Team 1' });
+      await gameService.createTeam({ join_code: game1.join_code, name: 'Team 1' });
       await gameService.startMultiUserGame(game1.id);
 
       // Verify 1 question is used
@@ -433,7 +433,7 @@ describe('Question Uniqueness Integration Tests', () => {
       };
 
       const game2 = await gameService.createGame(testHost1Id, game2Request);
-      await gameService.createTeam({ game_id: game2.id, name: 'Team 2' });
+      await gameService.createTeam({ join_code: game2.join_code, name: 'Team 2' });
       await gameService.startMultiUserGame(game2.id);
 
       // Verify 2 questions are used total
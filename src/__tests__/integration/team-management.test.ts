@@ -95,7 +95,7 @@ describe('Team Management Integration Tests', () => {
   describe('Team Creation', () => {
     it('should create teams with valid data', async () => {
       const teamRequest: CreateTeamRequest = {
-        game_id: testGame.id,
+        join_code: testGame.join_code,
         name: 'Alpha Team',
         display_color: '#FF0000',
       };
@@ -114,7 +114,7 @@ describe('Team Management Integration Tests', () => {
 
     it('should create team with default color when not specified', async () => {
       const teamRequest: CreateTeamRequest = {
-        game_id: testGame.id,
+        join_code: testGame.join_code,
         name: 'Default Color Team',
       };
 
@@ -126,7 +126,7 @@ describe('Team Management Integration Tests', () => {
     it('should enforce unique team names within a game', async () => {
       // Create first team
       await gameService.createTeam({
-        game_id: testGame.id,
+        join_code: testGame.join_code,
         name: 'Unique Team',
         display_color: '#FF0000',
       });
@@ -134,7 +134,7 @@ describe('Team Management Integration Tests', () => {
       // Try to create second team with same name (should fail)
       await expect(
         gameService.createTeam({
-          game_id: testGame.id,
+          join_code: testGame.join_code,
           name: 'Unique Team', // Duplicate name
           display_color: '#00FF00',
         })
@@ -153,14 +153,14 @@ describe('Team Management Integration Tests', () => {
 
       // Create team with same name in first game
       const team1 = await gameService.createTeam({
-        game_id: testGame.id,
+        join_code: testGame.join_code,
         name: 'Common Name',
         display_color: '#FF0000',
       });
 
       // Create team with same name in second game (should succeed)
       const team2 = await gameService.createTeam({
-        game_id: game2.id,
+        join_code: game2.join_code,
         name: 'Common Name',
         display_color: '#00FF00',
       });
@@ -178,13 +178,13 @@ describe('Team Management Integration Tests', () => {
 
     beforeEach(async () => {
       testTeam1 = await gameService.createTeam({
-        game_id: testGame.id,
+        join_code: testGame.join_code,
         name: 'Team Alpha',
         display_color: '#FF0000',
       });
 
       testTeam2 = await gameService.createTeam({
-        game_id: testGame.id,
+        join_code: testGame.join_code,
         name: 'Team Beta',
         display_color: '#0000FF',
       });
@@ -193,7 +193,7 @@ describe('Team Management Integration Tests', () => {
     it('should allow player to join a team', async () => {
       const joinRequest: JoinTeamRequest = {
         team_id: testTeam1.id,
-        player_id: testPlayer1Id,
+        join_code: testGame.join_code,
       };
 
       const teamPlayer = await gameService.joinTeam(joinRequest);
@@ -214,17 +214,17 @@ describe('Team Management Integration Tests', () => {
       // Add players to teams
       await gameService.joinTeam({
         team_id: testTeam1.id,
-        player_id: testPlayer1Id,
+        join_code: testGame.join_code,
       });
 
       await gameService.joinTeam({
         team_id: testTeam1.id,
-        player_id: testPlayer2Id,
+        join_code: testGame.join_code,
       });
 
       await gameService.joinTeam({
         team_id: testTeam2.id,
-        player_id: testPlayer3Id,
+        join_code: testGame.join_code,
       });
 
       const gameTeams = await gameService.getGameTeams(testGame.id);
@@ -250,7 +250,7 @@ describe('Team Management Integration Tests', () => {
       // Player joins team
       await gameService.joinTeam({
         team_id: testTeam1.id,
-        player_id: testPlayer1Id,
+        join_code: testGame.join_code,
       });
 
       // Verify player is in team
@@ -274,14 +274,14 @@ describe('Team Management Integration Tests', () => {
       // Player joins first team
       await gameService.joinTeam({
         team_id: testTeam1.id,
-        player_id: testPlayer1Id,
+        join_code: testGame.join_code,
       });
 
       // Player tries to join second team (should fail)
       await expect(
         gameService.joinTeam({
           team_id: testTeam2.id,
-          player_id: testPlayer1Id,
+          join_code: testGame.join_code,
         })
       ).rejects.toThrow('Player is already in a team for this game');
     });
@@ -290,22 +290,22 @@ describe('Team Management Integration Tests', () => {
       // Add 4 players to team (should succeed)
       await gameService.joinTeam({
         team_id: testTeam1.id,
-        player_id: testPlayer1Id,
+        join_code: testGame.join_code,
       });
 
       await gameService.joinTeam({
         team_id: testTeam1.id,
-        player_id: testPlayer2Id,
+        join_code: testGame.join_code,
       });
 
       await gameService.joinTeam({
         team_id: testTeam1.id,
-        player_id: testPlayer3Id,
+        join_code: testGame.join_code,
       });
 
       await gameService.joinTeam({
         team_id: testTeam1.id,
-        player_id: testPlayer4Id,
+        join_code: testGame.join_code,
       });
 
       // Verify team has 4 players
@@ -317,7 +317,7 @@ describe('Team Management Integration Tests', () => {
       await expect(
         gameService.joinTeam({
           team_id: testTeam1.id,
-          player_id: testPlayer5Id,
+          join_code: testGame.join_code,
         })
       ).rejects.toThrow('Team is full');
     });
@@ -326,14 +326,14 @@ describe('Team Management Integration Tests', () => {
       // Player joins team
       await gameService.joinTeam({
         team_id: testTeam1.id,
-        player_id: testPlayer1Id,
+        join_code: testGame.join_code,
       });
 
       // Player tries to join same team again (should fail)
       await expect(
         gameService.joinTeam({
           team_id: testTeam1.id,
-          player_id: testPlayer1Id,
+          join_code: testGame.join_code,
         })
       ).rejects.toThrow();
     });
@@ -350,14 +350,14 @@ describe('Team Management Integration Tests', () => {
     it('should handle team deletion cascade when game is deleted', async () => {
       // Create team
       const team = await gameService.createTeam({
-        game_id: testGame.id,
+        join_code: testGame.join_code,
         name: 'Cascade Test Team',
       });
 
       // Add player to team
       await gameService.joinTeam({
         team_id: team.id,
-        player_id: testPlayer1Id,
+        join_code: testGame.join_code,
       });
 
       // Delete game (should cascade delete team and team_players)
@@ -390,7 +390,7 @@ describe('Team Management Integration Tests', () => {
       await expect(
         gameService.joinTeam({
           team_id: fakeTeamId,
-          player_id: testPlayer1Id,
+          join_code: testGame.join_code,
         })
       ).rejects.toThrow('Team not found');
 
@@ -414,19 +414,19 @@ describe('Team Management Integration Tests', () => {
   describe('Team Workflow Scenarios', () => {
     it('should support dynamic team roster changes before game starts', async () => {
       const team = await gameService.createTeam({
-        game_id: testGame.id,
+        join_code: testGame.join_code,
         name: 'Dynamic Team',
       });
 
       // Add players
       await gameService.joinTeam({
         team_id: team.id,
-        player_id: testPlayer1Id,
+        join_code: testGame.join_code,
       });
 
       await gameService.joinTeam({
         team_id: team.id,
-        player_id: testPlayer2Id,
+        join_code: testGame.join_code,
       });
 
       // Verify initial roster
@@ -440,7 +440,7 @@ describe('Team Management Integration Tests', () => {
       // Player 3 joins
       await gameService.joinTeam({
         team_id: team.id,
-        player_id: testPlayer3Id,
+        join_code: testGame.join_code,
       });
 
       // Verify updated roster
@@ -454,14 +454,14 @@ describe('Team Management Integration Tests', () => {
 
     it('should support minimum viable team configuration (1 player)', async () => {
       const team = await gameService.createTeam({
-        game_id: testGame.id,
+        join_code: testGame.join_code,
         name: 'Solo Team',
       });
 
       // Add single player
       await gameService.joinTeam({
         team_id: team.id,
-        player_id: testPlayer1Id,
+        join_code: testGame.join_code,
       });
 
       const gameTeams = await gameService.getGameTeams(testGame.id);
@@ -476,7 +476,7 @@ describe('Team Management Integration Tests', () => {
 
     it('should handle concurrent team operations', async () => {
       const team = await gameService.createTeam({
-        game_id: testGame.id,
+        join_code: testGame.join_code,
         name: 'Concurrent Test Team',
       });
 
@@ -484,19 +484,19 @@ describe('Team Management Integration Tests', () => {
       const joinPromises = [
         gameService.joinTeam({
           team_id: team.id,
-          player_id: testPlayer1Id,
+          join_code: testGame.join_code,
         }),
         gameService.joinTeam({
           team_id: team.id,
-          player_id: testPlayer2Id,
+          join_code: testGame.join_code,
         }),
         gameService.joinTeam({
           team_id: team.id,
-          player_id: testPlayer3Id,
+          join_code: testGame.join_code,
         }),
         gameService.joinTeam({
           team_id: team.id,
-          player_id: testPlayer4Id,
+          join_code: testGame.join_code,
         }),
       ];
 
@@ -513,7 +513,7 @@ describe('Team Management Integration Tests', () => {
       const beforeCreate = new Date();
 
       const team = await gameService.createTeam({
-        game_id: testGame.id,
+        join_code: testGame.join_code,
         name: 'Timestamp Test Team',
       });
 
@@ -526,7 +526,7 @@ describe('Team Management Integration Tests', () => {
 
     it('should track player join times', async () => {
       const team = await gameService.createTeam({
-        game_id: testGame.id,
+        join_code: testGame.join_code,
         name: 'Join Time Test Team',
       });
 
@@ -534,7 +534,7 @@ describe('Team Management Integration Tests', () => {
 
       await gameService.joinTeam({
         team_id: team.id,
-        player_id: testPlayer1Id,
+        join_code: testGame.join_code,
       });
 
       const afterJoin = new Date();
@@ -552,7 +552,7 @@ describe('Team Management Integration Tests', () => {
 
     it('should maintain team score initialization', async () => {
       const team = await gameService.createTeam({
-        game_id: testGame.id,
+        join_code: testGame.join_code,
         name: 'Score Test Team',
       });
 
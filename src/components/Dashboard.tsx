@@ -16,6 +16,7 @@ import {
   BarChart3,
   Clock,
   Award,
+  Users,
   Loader2
 } from 'lucide-react';
 
@@ -102,6 +103,13 @@ export function Dashboard() {
           </Link>
         </Button>
 
+        <Button asChild variant="outline" size="lg" className="flex-1 sm:flex-none">
+          <Link to="/join">
+            <Users className="w-5 h-5 mr-2" />
+            Join a Game
+          </Link>
+        </Button>
+
         <Button asChild variant="outline" size="lg" className="flex-1 sm:flex-none">
           <Link to="/profile">
             <BarChart3 className="w-5 h-5 mr-2" />
@@ -5,9 +5,13 @@ import { Loader2 } from 'lucide-react';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  // Guest players may use this route; otherwise a full account is required
+  allowGuests?: boolean;
+  // Only admins may use this route, e.g. the question editor
+  requireAdmin?: boolean;
 }
 
-export function ProtectedRoute({ children }: ProtectedRouteProps) {
+export function ProtectedRoute({ children, allowGuests = false, requireAdmin = false }: ProtectedRouteProps) {
   const { state } = useAuth();
   const location = useLocation();
 
@@ -23,9 +27,18 @@ export function ProtectedRoute({ children }: ProtectedRouteProps) {
     );
   }
 
-  // Redirect to login if not authenticated
+  // Redirect to login if not authenticated; players only need a guest name
   if (!state.user) {
-    return <Navigate to="/login" state={{ from: location }} replace />;
+    return <Navigate to={allowGuests ? '/guest' : '/login'} state={{ from: location }} replace />;
+  }
+
+  // Guests must create an account before hosting or using full-account pages
+  if (state.user.is_anonymous && !allowGuests) {
+    return <Navigate to="/upgrade" state={{ from: location }} replace />;
+  }
+
+  if (requireAdmin && !state.user.is_admin) {
+    return <Navigate to="/" replace />;
   }
 
   return <>{children}</>;
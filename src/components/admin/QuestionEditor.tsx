@@ -0,0 +1,559 @@
+import { useState, useEffect, useCallback } from 'react';
+import { gameService } from '@/services/game';
+import { validateQuestionDraft } from '@/lib/questionBank';
+import { describeDifficulty } from '@/lib/difficulty';
+import { QUESTION_TYPE_LABELS, QUESTION_TYPES, TRUE_FALSE_ANSWERS } from '@/lib/questionTypes';
+import type { Question, QuestionAuditEntry, QuestionStatus, QuestionType } from '@/contracts/game';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  BookOpen,
+  Search,
+  Plus,
+  Save,
+  CheckCircle,
+  Archive,
+  RotateCcw,
+  History,
+  ChevronLeft,
+  ChevronRight,
+  Loader2
+} from 'lucide-react';
+
+const PAGE_SIZE = 20;
+
+const STATUS_LABELS: Record<QuestionStatus, string> = {
+  draft: 'Draft',
+  approved: 'Approved',
+  retired: 'Retired',
+};
+
+const STATUS_VARIANTS: Record<QuestionStatus, 'default' | 'secondary' | 'outline'> = {
+  draft: 'secondary',
+  approved: 'default',
+  retired: 'outline',
+};
+
+const AUDIT_ACTION_LABELS: Record<QuestionAuditEntry['action'], string> = {
+  created: 'Created',
+  edited: 'Edited',
+  approved: 'Approved',
+  retired: 'Retired',
+  reopened: 'Reopened as draft',
+};
+
+const ANSWER_FIELDS = [
+  { field: 'a', label: 'Correct answer' },
+  { field: 'b', label: 'Wrong answer 1' },
+  { field: 'c', label: 'Wrong answer 2' },
+  { field: 'd', label: 'Wrong answer 3' },
+] as const;
+
+// Only multiple choice has wrong answers; true/false picks one from a list
+const TYPED_ANSWER_LABELS: Partial<Record<QuestionType, string>> = {
+  numeric: 'Correct number',
+  free_text: 'Accepted answer',
+};
+
+interface EditorForm {
+  id?: string;
+  status?: QuestionStatus;
+  category: string;
+  question: string;
+  question_type: QuestionType;
+  a: string;
+  b: string;
+  c: string;
+  d: string;
+  metadata: string; // JSON text
+}
+
+const emptyForm: EditorForm = {
+  category: '',
+  question: '',
+  question_type: 'multiple_choice',
+  a: '',
+  b: '',
+  c: '',
+  d: '',
+  metadata: '{}',
+};
+
+const toForm = (question: Question): EditorForm => ({
+  id: question.id,
+  status: question.status,
+  category: question.category,
+  question: question.question,
+  question_type: question.question_type,
+  a: question.a,
+  b: question.b ?? '',
+  c: question.c ?? '',
+  d: question.d ?? '',
+  metadata: JSON.stringify(question.metadata ?? {}, null, 2),
+});
+
+const formatValue = (value: unknown) =>
+  typeof value === 'string' ? value : JSON.stringify(value);
+
+export function QuestionEditor() {
+  // Search state
+  const [search, setSearch] = useState('');
+  const [appliedSearch, setAppliedSearch] = useState('');
+  const [status, setStatus] = useState<QuestionStatus | 'all'>('all');
+  const [category, setCategory] = useState('all');
+  const [categories, setCategories] = useState<string[]>([]);
+  const [page, setPage] = useState(0);
+  const [results, setResults] = useState<Question[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isSearching, setIsSearching] = useState(false);
+
+  // Editor state
+  const [form, setForm] = useState<EditorForm | null>(null);
+  const [formErrors, setFormErrors] = useState<string[]>([]);
+  const [auditLog, setAuditLog] = useState<QuestionAuditEntry[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    gameService.getAvailableCategories()
+      .then(setCategories)
+      .catch(err => console.error('Failed to load categories:', err));
+  }, []);
+
+  const loadResults = useCallback(async () => {
+    setIsSearching(true);
+    try {
+      const result = await gameService.searchQuestions({
+        search: appliedSearch,
+        category: category === 'all' ? undefined : category,
+        status: status === 'all' ? undefined : status,
+        limit: PAGE_SIZE,
+        offset: page * PAGE_SIZE,
+      });
+      setResults(result.questions);
+      setTotal(result.total);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to search questions');
+    } finally {
+      setIsSearching(false);
+    }
+  }, [appliedSearch, category, status, page]);
+
+  useEffect(() => {
+    loadResults();
+  }, [loadResults]);
+
+  const openQuestion = async (question: Question | null) => {
+    setForm(question ? toForm(question) : emptyForm);
+    setFormErrors([]);
+    setAuditLog([]);
+
+    if (question) {
+      try {
+        setAuditLog(await gameService.getQuestionAuditLog(question.id));
+      } catch (err) {
+        console.error('Failed to load question history:', err);
+      }
+    }
+  };
+
+  // Refresh the list and the open question's history after a change
+  const afterChange = async (question: Question) => {
+    await Promise.all([loadResults(), openQuestion(question)]);
+  };
+
+  const handleSearch = (event: React.FormEvent) => {
+    event.preventDefault();
+    setPage(0);
+    setAppliedSearch(search);
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    let metadata: unknown;
+    try {
+      metadata = form.metadata.trim() ? JSON.parse(form.metadata) : {};
+    } catch {
+      setFormErrors(['Metadata must be a JSON object']);
+      return;
+    }
+
+    // Same rules as a question pack import, so the editor and imports agree.
+    // Wrong answers left over from switching away from multiple choice are dropped
+    const answers = form.question_type === 'multiple_choice' ? {} : { b: '', c: '', d: '' };
+    const { question, errors } = validateQuestionDraft({ ...form, ...answers, metadata }, categories);
+    if (!question) {
+      setFormErrors(errors.map(e => e.message));
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = await gameService.saveQuestion({
+        id: form.id,
+        ...question,
+        question_type: form.question_type,
+        b: question.b ?? '',
+        c: question.c ?? '',
+        d: question.d ?? '',
+      });
+      await afterChange(saved);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save question');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleStatusChange = async (newStatus: QuestionStatus) => {
+    if (!form?.id) return;
+
+    setIsSaving(true);
+    try {
+      await afterChange(await gameService.setQuestionStatus(form.id, newStatus));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update question status');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateField = (field: keyof EditorForm, value: string) => {
+    setForm(current => current && { ...current, [field]: value });
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-6xl mx-auto space-y-8">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            <div className="flex items-center justify-center w-12 h-12 bg-primary/10 rounded-full">
+              <BookOpen className="w-6 h-6 text-primary" />
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold">Question Bank</h1>
+              <p className="text-muted-foreground">
+                Edits go back to draft until approved; only approved questions are used in games
+              </p>
+            </div>
+          </div>
+          <Button onClick={() => openQuestion(null)}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Question
+          </Button>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          {/* Search */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Search className="w-5 h-5 mr-2" />
+                Find Questions
+              </CardTitle>
+              <CardDescription>
+                {total} question{total === 1 ? '' : 's'} found
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <form onSubmit={handleSearch} className="flex gap-2">
+                <Input
+                  aria-label="Search questions"
+                  placeholder="Search questions and answers"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                />
+                <Button type="submit" variant="outline">Search</Button>
+              </form>
+
+              <div className="grid grid-cols-2 gap-2">
+                <Select
+                  value={status}
+                  onValueChange={(value) => { setPage(0); setStatus(value as QuestionStatus | 'all'); }}
+                >
+                  <SelectTrigger aria-label="Status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All statuses</SelectItem>
+                    {(Object.keys(STATUS_LABELS) as QuestionStatus[]).map(value => (
+                      <SelectItem key={value} value={value}>{STATUS_LABELS[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={category}
+                  onValueChange={(value) => { setPage(0); setCategory(value); }}
+                >
+                  <SelectTrigger aria-label="Category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All categories</SelectItem>
+                    {categories.map(value => (
+                      <SelectItem key={value} value={value}>{value}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <Separator />
+
+              {isSearching ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="w-6 h-6 animate-spin" />
+                </div>
+              ) : results.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">No questions match</p>
+              ) : (
+                <div className="space-y-2">
+                  {results.map(question => (
+                    <button
+                      key={question.id}
+                      type="button"
+                      onClick={() => openQuestion(question)}
+                      className={`w-full text-left rounded-md border p-3 transition-colors hover:bg-muted ${form?.id === question.id ? 'border-primary' : ''}`}
+                    >
+                      <div className="flex items-center justify-between gap-2 mb-1">
+                        <span className="text-xs text-muted-foreground">{question.category}</span>
+                        <Badge variant={STATUS_VARIANTS[question.status]}>{STATUS_LABELS[question.status]}</Badge>
+                      </div>
+                      <p className="font-medium">{question.question}</p>
+                      <p className="text-sm text-muted-foreground">Answer: {question.a}</p>
+                      <p className="text-xs text-muted-foreground">{describeDifficulty(question)}</p>
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex items-center justify-between">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page === 0 || isSearching}
+                  onClick={() => setPage(page - 1)}
+                >
+                  <ChevronLeft className="w-4 h-4 mr-1" />
+                  Previous
+                </Button>
+                <span className="text-sm text-muted-foreground">
+                  Page {page + 1} of {pageCount}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page + 1 >= pageCount || isSearching}
+                  onClick={() => setPage(page + 1)}
+                >
+                  Next
+                  <ChevronRight className="w-4 h-4 ml-1" />
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Editor */}
+          {form && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  <span>{form.id ? 'Edit Question' : 'New Question'}</span>
+                  {form.status && (
+                    <Badge variant={STATUS_VARIANTS[form.status]}>{STATUS_LABELS[form.status]}</Badge>
+                  )}
+                </CardTitle>
+                <CardDescription>
+                  Saving a change puts the question back in draft
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {formErrors.length > 0 && (
+                  <Alert variant="destructive">
+                    <AlertDescription>
+                      <ul className="list-disc pl-4">
+                        {formErrors.map(message => <li key={message}>{message}</li>)}
+                      </ul>
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="question-category">Category</Label>
+                  <Input
+                    id="question-category"
+                    list="question-categories"
+                    value={form.category}
+                    onChange={(e) => updateField('category', e.target.value)}
+                  />
+                  <datalist id="question-categories">
+                    {categories.map(value => <option key={value} value={value} />)}
+                  </datalist>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="question-text">Question</Label>
+                  <Input
+                    id="question-text"
+                    value={form.question}
+                    onChange={(e) => updateField('question', e.target.value)}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="question-type">Type</Label>
+                  <Select
+                    value={form.question_type}
+                    onValueChange={(value) => updateField('question_type', value)}
+                  >
+                    <SelectTrigger id="question-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {QUESTION_TYPES.map(value => (
+                        <SelectItem key={value} value={value}>{QUESTION_TYPE_LABELS[value]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {form.question_type === 'multiple_choice' && ANSWER_FIELDS.map(({ field, label }) => (
+                  <div key={field} className="space-y-2">
+                    <Label htmlFor={`question-${field}`}>{label}</Label>
+                    <Input
+                      id={`question-${field}`}
+                      value={form[field]}
+                      onChange={(e) => updateField(field, e.target.value)}
+                    />
+                  </div>
+                ))}
+
+                {form.question_type === 'true_false' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="question-a">Correct answer</Label>
+                    <Select value={form.a} onValueChange={(value) => updateField('a', value)}>
+                      <SelectTrigger id="question-a">
+                        <SelectValue placeholder="True or False" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {TRUE_FALSE_ANSWERS.map(value => (
+                          <SelectItem key={value} value={value}>{value}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {TYPED_ANSWER_LABELS[form.question_type] && (
+                  <div className="space-y-2">
+                    <Label htmlFor="question-a">{TYPED_ANSWER_LABELS[form.question_type]}</Label>
+                    <Input
+                      id="question-a"
+                      inputMode={form.question_type === 'numeric' ? 'decimal' : 'text'}
+                      value={form.a}
+                      onChange={(e) => updateField('a', e.target.value)}
+                    />
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="question-metadata">Metadata (JSON)</Label>
+                  <textarea
+                    id="question-metadata"
+                    rows={3}
+                    className="flex w-full rounded-md border border-input bg-transparent px-3 py-2 font-mono text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                    value={form.metadata}
+                    onChange={(e) => updateField('metadata', e.target.value)}
+                  />
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  <Button onClick={handleSave} disabled={isSaving}>
+                    {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+                    Save
+                  </Button>
+                  {form.id && form.status !== 'approved' && (
+                    <Button variant="outline" onClick={() => handleStatusChange('approved')} disabled={isSaving}>
+                      <CheckCircle className="w-4 h-4 mr-2" />
+                      Approve
+                    </Button>
+                  )}
+                  {form.id && form.status !== 'retired' && (
+                    <Button variant="outline" onClick={() => handleStatusChange('retired')} disabled={isSaving}>
+                      <Archive className="w-4 h-4 mr-2" />
+                      Retire
+                    </Button>
+                  )}
+                  {form.id && form.status === 'retired' && (
+                    <Button variant="outline" onClick={() => handleStatusChange('draft')} disabled={isSaving}>
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                      Reopen as Draft
+                    </Button>
+                  )}
+                </div>
+
+                {/* History */}
+                {auditLog.length > 0 && (
+                  <>
+                    <Separator />
+                    <div className="space-y-3">
+                      <h3 className="flex items-center font-medium">
+                        <History className="w-4 h-4 mr-2" />
+                        History
+                      </h3>
+                      {auditLog.map(entry => (
+                        <div key={entry.id} className="text-sm">
+                          <div className="flex justify-between">
+                            <span className="font-medium">{AUDIT_ACTION_LABELS[entry.action]}</span>
+                            <span className="text-muted-foreground">
+                              {entry.changed_by_name ?? 'Service role'} · {new Date(entry.created_at).toLocaleString()}
+                            </span>
+                          </div>
+                          {entry.action === 'edited' && (
+                            <ul className="text-muted-foreground pl-4 list-disc">
+                              {Object.entries(entry.changes)
+                                .filter(([field]) => field !== 'status')
+                                .map(([field, change]) => (
+                                  <li key={field}>
+                                    {field}: {formatValue(change.old)} → {formatValue(change.new)}
+                                  </li>
+                                ))}
+                            </ul>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
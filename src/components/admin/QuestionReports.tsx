@@ -0,0 +1,310 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { gameService } from '@/services/game';
+import { REPORT_REASON_LABELS, REPORT_RESOLUTION_LABELS, REPORT_STATUS_LABELS } from '@/lib/questionReports';
+import type {
+  QuestionDispute,
+  QuestionReport,
+  QuestionReportResolution,
+  ResolveQuestionReportsResponse,
+} from '@/contracts/game';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Separator } from '@/components/ui/separator';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Flag,
+  CheckCircle,
+  XCircle,
+  Wrench,
+  BookOpen,
+  Loader2
+} from 'lucide-react';
+
+type ReportStatus = QuestionReport['status'];
+
+// Choices that can replace the stored correct answer (a); numeric and
+// free-text questions have none, so the new answer is typed in
+const WRONG_ANSWER_FIELDS = ['b', 'c', 'd'] as const;
+
+const describeResult = (result: ResolveQuestionReportsResponse) => {
+  const parts = [`Closed ${result.resolved_reports} report${result.resolved_reports === 1 ? '' : 's'}`];
+  if (result.rescored_game_questions > 0 || result.rescored_team_answers > 0) {
+    parts.push(
+      `re-scored ${result.rescored_game_questions} single-player answers across ${result.updated_sessions} games` +
+      ` and ${result.rescored_team_answers} team answers across ${result.updated_teams} teams`
+    );
+  }
+  return parts.join('; ');
+};
+
+interface DisputeCardProps {
+  dispute: QuestionDispute;
+  onResolved: (result: ResolveQuestionReportsResponse) => void;
+}
+
+function DisputeCard({ dispute, onResolved }: DisputeCardProps) {
+  const { question, reports } = dispute;
+  const isOpen = reports.some(report => report.status === 'open');
+  const wrongChoices = WRONG_ANSWER_FIELDS.flatMap(field => {
+    const answer = question[field];
+    return answer === null ? [] : [{ field, answer }];
+  });
+  const typedAnswer = question.question_type === 'numeric' || question.question_type === 'free_text';
+
+  const [correctAnswer, setCorrectAnswer] = useState('');
+  const [rescore, setRescore] = useState(true);
+  const [note, setNote] = useState('');
+  const [resolving, setResolving] = useState<QuestionReportResolution | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleResolve = async (resolution: QuestionReportResolution) => {
+    setResolving(resolution);
+    setError(null);
+    try {
+      onResolved(await gameService.resolveQuestionReports({
+        question_id: question.id,
+        resolution,
+        correct_answer: resolution === 'answer_was_wrong' ? correctAnswer : undefined,
+        rescore: resolution === 'answer_was_wrong' && rescore,
+        note,
+      }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resolve reports');
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs text-muted-foreground">{question.category}</span>
+          <Badge variant="secondary">
+            {dispute.report_count} report{dispute.report_count === 1 ? '' : 's'}
+          </Badge>
+        </div>
+        <CardTitle className="text-lg leading-snug">{question.question}</CardTitle>
+        <CardDescription>
+          Last reported {new Date(dispute.last_reported_at).toLocaleString()}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ul className="text-sm space-y-1">
+          <li className="flex items-center">
+            <CheckCircle className="w-4 h-4 mr-2 text-green-600 dark:text-green-400" />
+            {question.a}
+          </li>
+          {wrongChoices.map(({ field, answer }) => (
+            <li key={field} className="flex items-center text-muted-foreground">
+              <XCircle className="w-4 h-4 mr-2" />
+              {answer}
+            </li>
+          ))}
+        </ul>
+
+        <Separator />
+
+        <div className="space-y-2">
+          {reports.map(report => (
+            <div key={report.id} className="text-sm">
+              <div className="flex justify-between gap-2">
+                <span className="font-medium">{REPORT_REASON_LABELS[report.reason]}</span>
+                <span className="text-muted-foreground">
+                  {report.reporter_name ?? 'Player'} · {new Date(report.created_at).toLocaleString()}
+                </span>
+              </div>
+              {report.comment && <p className="text-muted-foreground">{report.comment}</p>}
+              {report.resolution && (
+                <p className="text-muted-foreground">
+                  {REPORT_RESOLUTION_LABELS[report.resolution]}
+                  {report.resolution_note && `: ${report.resolution_note}`}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {isOpen && (
+          <>
+            <Separator />
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-2">
+              {typedAnswer ? (
+                <>
+                  <Label htmlFor={`${question.id}-correct`}>If the answer was wrong, what is right?</Label>
+                  <Input
+                    id={`${question.id}-correct`}
+                    inputMode={question.question_type === 'numeric' ? 'decimal' : undefined}
+                    maxLength={200}
+                    value={correctAnswer}
+                    onChange={(e) => setCorrectAnswer(e.target.value)}
+                  />
+                </>
+              ) : (
+                <>
+                  <Label>If the answer was wrong, which choice is right?</Label>
+                  <RadioGroup value={correctAnswer} onValueChange={setCorrectAnswer} aria-label="Correct answer">
+                    {wrongChoices.map(({ field, answer }) => (
+                      <div key={field} className="flex items-center space-x-2">
+                        <RadioGroupItem value={answer} id={`${question.id}-correct-${field}`} />
+                        <Label htmlFor={`${question.id}-correct-${field}`}>{answer}</Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                </>
+              )}
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id={`${question.id}-rescore`}
+                  checked={rescore}
+                  onCheckedChange={(checked) => setRescore(checked as boolean)}
+                />
+                <Label htmlFor={`${question.id}-rescore`}>Re-score answers already given</Label>
+              </div>
+            </div>
+
+            <Input
+              aria-label="Resolution note"
+              placeholder="Note for the record (optional)"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+
+            <div className="flex flex-wrap gap-2">
+              <Button
+                onClick={() => handleResolve('answer_was_wrong')}
+                disabled={!correctAnswer.trim() || resolving !== null}
+              >
+                {resolving === 'answer_was_wrong' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <CheckCircle className="w-4 h-4 mr-2" />}
+                Answer was wrong
+              </Button>
+              <Button variant="outline" onClick={() => handleResolve('fixed')} disabled={resolving !== null}>
+                {resolving === 'fixed' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Wrench className="w-4 h-4 mr-2" />}
+                Mark fixed
+              </Button>
+              <Button variant="outline" onClick={() => handleResolve('dismissed')} disabled={resolving !== null}>
+                {resolving === 'dismissed' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <XCircle className="w-4 h-4 mr-2" />}
+                Dismiss
+              </Button>
+              <Button variant="ghost" asChild>
+                <Link to="/admin/questions">
+                  <BookOpen className="w-4 h-4 mr-2" />
+                  Edit in question bank
+                </Link>
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function QuestionReports() {
+  const [status, setStatus] = useState<ReportStatus>('open');
+  const [disputes, setDisputes] = useState<QuestionDispute[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastResult, setLastResult] = useState<string | null>(null);
+
+  const loadDisputes = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setDisputes(await gameService.getQuestionDisputes(status));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load question reports');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    loadDisputes();
+  }, [loadDisputes]);
+
+  const handleResolved = (result: ResolveQuestionReportsResponse) => {
+    setLastResult(describeResult(result));
+    loadDisputes();
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-4xl mx-auto space-y-8">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            <div className="flex items-center justify-center w-12 h-12 bg-primary/10 rounded-full">
+              <Flag className="w-6 h-6 text-primary" />
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold">Question Reports</h1>
+              <p className="text-muted-foreground">
+                Reports from players, grouped by question
+              </p>
+            </div>
+          </div>
+          <Select value={status} onValueChange={(value) => setStatus(value as ReportStatus)}>
+            <SelectTrigger aria-label="Status" className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(REPORT_STATUS_LABELS) as ReportStatus[]).map(value => (
+                <SelectItem key={value} value={value}>{REPORT_STATUS_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {lastResult && (
+          <Alert>
+            <CheckCircle className="h-4 w-4" />
+            <AlertDescription>{lastResult}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : disputes.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            No {REPORT_STATUS_LABELS[status].toLowerCase()} reports
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {disputes.map(dispute => (
+              <DisputeCard key={dispute.question.id} dispute={dispute} onResolved={handleResolved} />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter, Routes, Route } from 'react-router-dom';
+import type { AuthUser } from '@/contracts/auth';
+import type { Question, QuestionAuditEntry } from '@/contracts/game';
+
+const { gameService, auth } = vi.hoisted(() => ({
+  gameService: {
+    getAvailableCategories: vi.fn(),
+    searchQuestions: vi.fn(),
+    saveQuestion: vi.fn(),
+    setQuestionStatus: vi.fn(),
+    getQuestionAuditLog: vi.fn(),
+  },
+  auth: {
+    state: { user: null as AuthUser | null, session: null, loading: false, initialized: true },
+  },
+}));
+
+vi.mock('@/services/game', () => ({ gameService }));
+
+vi.mock('@/contexts/AuthContext', () => ({
+  useAuth: () => auth,
+}));
+
+import { ProtectedRoute } from '../../ProtectedRoute';
+import { QuestionEditor } from '../QuestionEditor';
+
+const user = (isAdmin: boolean): AuthUser => ({
+  id: 'user-1',
+  email: 'host@example.com',
+  is_anonymous: false,
+  is_admin: isAdmin,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+});
+
+const question: Question = {
+  id: 'q-1',
+  category: 'Science',
+  question: 'What is the chemical symbol for gold?',
+  a: 'Au',
+  b: 'Ag',
+  c: 'Gd',
+  d: 'Go',
+  question_type: 'multiple_choice',
+  metadata: {},
+  status: 'approved',
+  difficulty: 0.42,
+  correct_rate: 0.55,
+  average_time_ms: 9000,
+  answer_count: 40,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+const history: QuestionAuditEntry[] = [
+  {
+    id: 'log-1',
+    question_id: 'q-1',
+    action: 'edited',
+    changes: { c: { old: 'Gb', new: 'Gd' }, status: { old: 'approved', new: 'draft' } },
+    changed_by: 'user-2',
+    changed_by_name: 'Quizmaster',
+    created_at: '2024-01-02T00:00:00Z',
+  },
+];
+
+const renderAt = (path: string) =>
+  render(
+    <MemoryRouter initialEntries={[path]}>
+      <Routes>
+        <Route path="/" element={<div>Dashboard</div>} />
+        <Route path="/admin/questions" element={<ProtectedRoute requireAdmin><QuestionEditor /></ProtectedRoute>} />
+      </Routes>
+    </MemoryRouter>
+  );
+
+describe('QuestionEditor', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    auth.state.user = user(true);
+    gameService.getAvailableCategories.mockResolvedValue(['Science']);
+    gameService.searchQuestions.mockResolvedValue({ questions: [question], total: 1 });
+    gameService.getQuestionAuditLog.mockResolvedValue(history);
+  });
+
+  it('should keep non-admins out', () => {
+    auth.state.user = user(false);
+    renderAt('/admin/questions');
+
+    expect(screen.getByText('Dashboard')).toBeInTheDocument();
+    expect(gameService.searchQuestions).not.toHaveBeenCalled();
+  });
+
+  it('should show a question with its history', async () => {
+    const userActions = userEvent.setup();
+    renderAt('/admin/questions');
+
+    await userActions.click(await screen.findByText(question.question));
+
+    expect(screen.getByLabelText('Correct answer')).toHaveValue('Au');
+    expect(await screen.findByText('c: Gb → Gd')).toBeInTheDocument();
+    expect(gameService.getQuestionAuditLog).toHaveBeenCalledWith('q-1');
+  });
+
+  it('should check answers before saving', async () => {
+    const userActions = userEvent.setup();
+    renderAt('/admin/questions');
+
+    await userActions.click(await screen.findByText(question.question));
+    await userActions.clear(screen.getByLabelText('Wrong answer 3'));
+    await userActions.type(screen.getByLabelText('Wrong answer 3'), 'ag');
+    await userActions.click(screen.getByRole('button', { name: 'Save' }));
+
+    expect(screen.getByText('Answers must all be different')).toBeInTheDocument();
+    expect(gameService.saveQuestion).not.toHaveBeenCalled();
+  });
+
+  it('should save edits and approve them', async () => {
+    const userActions = userEvent.setup();
+    gameService.saveQuestion.mockResolvedValue({ ...question, d: 'Gl', status: 'draft' });
+    gameService.setQuestionStatus.mockResolvedValue({ ...question, d: 'Gl' });
+    renderAt('/admin/questions');
+
+    await userActions.click(await screen.findByText(question.question));
+    await userActions.clear(screen.getByLabelText('Wrong answer 3'));
+    await userActions.type(screen.getByLabelText('Wrong answer 3'), 'Gl');
+    await userActions.click(screen.getByRole('button', { name: 'Save' }));
+
+    expect(gameService.saveQuestion).toHaveBeenCalledWith({
+      id: 'q-1',
+      category: 'Science',
+      question: 'What is the chemical symbol for gold?',
+      question_type: 'multiple_choice',
+      a: 'Au',
+      b: 'Ag',
+      c: 'Gd',
+      d: 'Gl',
+      metadata: {},
+    });
+
+    await userActions.click(await screen.findByRole('button', { name: 'Approve' }));
+
+    expect(gameService.setQuestionStatus).toHaveBeenCalledWith('q-1', 'approved');
+    await waitFor(() => {
+      expect(screen.queryByRole('button', { name: 'Approve' })).not.toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter } from 'react-router-dom';
+import type { QuestionDispute } from '@/contracts/game';
+
+const { gameService } = vi.hoisted(() => ({
+  gameService: {
+    getQuestionDisputes: vi.fn(),
+    resolveQuestionReports: vi.fn(),
+  },
+}));
+
+vi.mock('@/services/game', () => ({ gameService }));
+
+import { QuestionReports } from '../QuestionReports';
+
+const dispute: QuestionDispute = {
+  question: {
+    id: 'q-1',
+    category: 'Science',
+    question: 'How many planets are in the solar system?',
+    a: '9',
+    b: '8',
+    c: '10',
+    d: '7',
+    question_type: 'multiple_choice',
+    metadata: {},
+    status: 'approved',
+    difficulty: 0.42,
+    correct_rate: 0.55,
+    average_time_ms: 9000,
+    answer_count: 40,
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+  },
+  report_count: 1,
+  last_reported_at: '2024-01-02T00:00:00Z',
+  reports: [
+    {
+      id: 'report-1',
+      question_id: 'q-1',
+      reason: 'outdated',
+      comment: 'Pluto was reclassified',
+      reported_by: 'user-2',
+      reporter_name: 'Quizzer',
+      game_question_id: 'gq-1',
+      round_question_id: null,
+      status: 'open',
+      resolution: null,
+      resolution_note: null,
+      resolved_at: null,
+      created_at: '2024-01-02T00:00:00Z',
+    },
+  ],
+};
+
+const renderPage = () =>
+  render(
+    <MemoryRouter>
+      <QuestionReports />
+    </MemoryRouter>
+  );
+
+describe('QuestionReports', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    gameService.getQuestionDisputes.mockResolvedValue([dispute]);
+  });
+
+  it('should list open reports grouped by question', async () => {
+    renderPage();
+
+    expect(await screen.findByText(dispute.question.question)).toBeInTheDocument();
+    expect(screen.getByText('Pluto was reclassified')).toBeInTheDocument();
+    expect(gameService.getQuestionDisputes).toHaveBeenCalledWith('open');
+  });
+
+  it('should fix the answer and re-score past games', async () => {
+    const userActions = userEvent.setup();
+    gameService.resolveQuestionReports.mockResolvedValue({
+      resolved_reports: 1,
+      rescored_game_questions: 2,
+      rescored_team_answers: 1,
+      updated_sessions: 2,
+      updated_teams: 1,
+    });
+    renderPage();
+
+    await screen.findByText(dispute.question.question);
+    expect(screen.getByRole('button', { name: 'Answer was wrong' })).toBeDisabled();
+
+    await userActions.click(screen.getByRole('radio', { name: '8' }));
+    await userActions.click(screen.getByRole('button', { name: 'Answer was wrong' }));
+
+    expect(gameService.resolveQuestionReports).toHaveBeenCalledWith({
+      question_id: 'q-1',
+      resolution: 'answer_was_wrong',
+      correct_answer: '8',
+      rescore: true,
+      note: '',
+    });
+    expect(await screen.findByText(
+      'Closed 1 report; re-scored 2 single-player answers across 2 games and 1 team answers across 1 teams'
+    )).toBeInTheDocument();
+    expect(gameService.getQuestionDisputes).toHaveBeenCalledTimes(2);
+  });
+
+  it('should take a typed answer for a free-text question', async () => {
+    const userActions = userEvent.setup();
+    gameService.getQuestionDisputes.mockResolvedValue([{
+      ...dispute,
+      question: { ...dispute.question, question_type: 'free_text', a: 'Nine', b: null, c: null, d: null },
+    }]);
+    gameService.resolveQuestionReports.mockResolvedValue({
+      resolved_reports: 1,
+      rescored_game_questions: 0,
+      rescored_team_answers: 3,
+      updated_sessions: 0,
+      updated_teams: 3,
+    });
+    renderPage();
+
+    await userActions.type(await screen.findByLabelText('If the answer was wrong, what is right?'), 'Eight');
+    await userActions.click(screen.getByRole('button', { name: 'Answer was wrong' }));
+
+    expect(gameService.resolveQuestionReports).toHaveBeenCalledWith(expect.objectContaining({
+      resolution: 'answer_was_wrong',
+      correct_answer: 'Eight',
+    }));
+  });
+});
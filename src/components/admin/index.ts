@@ -0,0 +1,2 @@
+export { QuestionEditor } from './QuestionEditor';
+export { QuestionReports } from './QuestionReports';
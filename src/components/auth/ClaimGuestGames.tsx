@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { KeyRound, Loader2 } from 'lucide-react';
+
+interface ClaimGuestGamesProps {
+  onClaimed: () => void;
+}
+
+// A guest who lost their session gets a code from the host and enters it
+// here, from a full account, to keep the game they played
+export function ClaimGuestGames({ onClaimed }: ClaimGuestGamesProps) {
+  const [code, setCode] = useState('');
+  const [claiming, setClaiming] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const { claimGuestHistory } = useAuth();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setMessage('');
+
+    if (!code.trim()) {
+      setError('Enter the code the host gave you');
+      return;
+    }
+
+    setClaiming(true);
+    const result = await claimGuestHistory(code);
+    setClaiming(false);
+
+    if (!result.success || !result.claimed) {
+      setError(result.error || 'Claiming guest games failed');
+      return;
+    }
+
+    setMessage(`Added your game with ${result.claimed.team_name} to your account.`);
+    setCode('');
+    onClaimed();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <KeyRound className="w-5 h-5 mr-2" />
+          Claim Guest Games
+        </CardTitle>
+        <CardDescription>
+          Played as a guest? Ask the host for an upgrade code to move that game to this account.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+          {message && (
+            <Alert>
+              <AlertDescription>{message}</AlertDescription>
+            </Alert>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="upgrade-code">Upgrade code</Label>
+            <Input
+              id="upgrade-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className="font-mono uppercase tracking-widest"
+              maxLength={8}
+              disabled={claiming}
+            />
+          </div>
+          <Button type="submit" disabled={claiming}>
+            {claiming && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Claim Games
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
+import type { Location } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2 } from 'lucide-react';
+
+// Players joining a live game only need a name for the TV; no email or password
+export function GuestSignIn() {
+  const [displayName, setDisplayName] = useState('');
+  const [error, setError] = useState('');
+
+  const { signInAsGuest, state } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  // Send players back to the join link they scanned
+  const from = (location.state as { from?: Location } | null)?.from;
+  const redirectTo = from ? `${from.pathname}${from.search}` : '/join';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const name = displayName.trim();
+    if (!name || name.length > 50) {
+      setError('Display name must be between 1 and 50 characters');
+      return;
+    }
+
+    const result = await signInAsGuest(name);
+    if (!result.success) {
+      setError(result.error || 'Guest sign in failed');
+    } else {
+      navigate(redirectTo, { replace: true });
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl text-center">Play as a guest</CardTitle>
+          <CardDescription className="text-center">
+            Pick the name your team and the TV will see
+          </CardDescription>
+        </CardHeader>
+        <form onSubmit={handleSubmit}>
+          <CardContent className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="displayName">Display name</Label>
+              <Input
+                id="displayName"
+                type="text"
+                placeholder="Enter your name"
+                value={displayName}
+                onChange={(e) => setDisplayName(e.target.value)}
+                maxLength={50}
+                disabled={state.loading}
+                required
+              />
+            </div>
+          </CardContent>
+
+          <CardFooter className="flex flex-col space-y-4">
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={state.loading}
+            >
+              {state.loading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Joining...
+                </>
+              ) : (
+                'Continue as guest'
+              )}
+            </Button>
+
+            <div className="text-center text-sm text-muted-foreground">
+              Have an account?{' '}
+              <Link
+                to="/login"
+                className="font-medium text-primary hover:underline"
+              >
+                Sign in
+              </Link>
+            </div>
+          </CardFooter>
+        </form>
+      </Card>
+    </div>
+  );
+}
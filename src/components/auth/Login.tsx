@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
@@ -15,6 +15,7 @@ export function Login() {
 
   const { signIn, state } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -103,6 +104,17 @@ export function Login() {
                 Create one
               </Link>
             </div>
+
+            <div className="text-center text-sm text-muted-foreground">
+              Just joining a game?{' '}
+              <Link
+                to="/guest"
+                state={location.state}
+                className="font-medium text-primary hover:underline"
+              >
+                Play as a guest
+              </Link>
+            </div>
           </CardFooter>
         </form>
       </Card>
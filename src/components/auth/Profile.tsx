@@ -7,6 +7,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ClaimGuestGames } from './ClaimGuestGames';
 import {
   User,
   Trophy,
@@ -244,6 +245,16 @@ export function Profile() {
           )}
         </CardContent>
       </Card>
+
+      {/* Guests upgrade themselves; full accounts can take over a lost guest's games */}
+      {authState.user && !authState.user.is_anonymous && (
+        <ClaimGuestGames
+          onClaimed={() => {
+            loadUserProfile(authState.user!.id);
+            loadGameHistory(authState.user!.id);
+          }}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
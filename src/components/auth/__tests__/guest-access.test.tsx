@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter, Routes, Route } from 'react-router-dom';
+import type { AuthUser } from '@/contracts/auth';
+
+const { auth } = vi.hoisted(() => ({
+  auth: {
+    state: { user: null as AuthUser | null, session: null, loading: false, initialized: true },
+    signInAsGuest: vi.fn(),
+    claimGuestHistory: vi.fn(),
+  },
+}));
+
+vi.mock('@/contexts/AuthContext', () => ({
+  useAuth: () => auth,
+}));
+
+import { ProtectedRoute } from '../../ProtectedRoute';
+import { GuestSignIn } from '../GuestSignIn';
+import { ClaimGuestGames } from '../ClaimGuestGames';
+
+const guest: AuthUser = {
+  id: 'guest-1',
+  email: '',
+  is_anonymous: true,
+  display_name: 'Sam',
+  is_admin: false,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+const renderAt = (path: string) =>
+  render(
+    <MemoryRouter initialEntries={[path]}>
+      <Routes>
+        <Route path="/login" element={<div>Sign in page</div>} />
+        <Route path="/guest" element={<GuestSignIn />} />
+        <Route path="/upgrade" element={<div>Upgrade page</div>} />
+        <Route path="/" element={<ProtectedRoute><div>Host dashboard</div></ProtectedRoute>} />
+        <Route path="/join/:joinCode?" element={<ProtectedRoute allowGuests><div>Join page</div></ProtectedRoute>} />
+      </Routes>
+    </MemoryRouter>
+  );
+
+describe('Guest access', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    auth.state.user = null;
+  });
+
+  it('should send signed-out players to guest sign in', () => {
+    renderAt('/join/ABC123');
+
+    expect(screen.getByLabelText('Display name')).toBeInTheDocument();
+  });
+
+  it('should still send signed-out users to sign in for host pages', () => {
+    renderAt('/');
+
+    expect(screen.getByText('Sign in page')).toBeInTheDocument();
+  });
+
+  it('should let guests into player routes', () => {
+    auth.state.user = guest;
+    renderAt('/join/ABC123');
+
+    expect(screen.getByText('Join page')).toBeInTheDocument();
+  });
+
+  it('should ask guests to upgrade before using host pages', () => {
+    auth.state.user = guest;
+    renderAt('/');
+
+    expect(screen.getByText('Upgrade page')).toBeInTheDocument();
+  });
+
+  it('should sign in with a display name and return to the join link', async () => {
+    const user = userEvent.setup();
+    auth.signInAsGuest.mockImplementation(async () => {
+      auth.state.user = guest;
+      return { success: true };
+    });
+    renderAt('/join/ABC123');
+
+    await user.type(screen.getByLabelText('Display name'), '  Sam  ');
+    await user.click(screen.getByRole('button', { name: 'Continue as guest' }));
+
+    expect(auth.signInAsGuest).toHaveBeenCalledWith('Sam');
+    await waitFor(() => {
+      expect(screen.getByText('Join page')).toBeInTheDocument();
+    });
+  });
+
+  it('should claim a lost guest\'s game with the host\'s upgrade code', async () => {
+    const user = userEvent.setup();
+    const onClaimed = vi.fn();
+    auth.claimGuestHistory.mockResolvedValue({
+      success: true,
+      claimed: { game_id: 'game-1', team_id: 't-1', team_name: 'Quizzly Bears' },
+    });
+    render(<ClaimGuestGames onClaimed={onClaimed} />);
+
+    await user.type(screen.getByLabelText('Upgrade code'), 'abcd2345');
+    await user.click(screen.getByRole('button', { name: 'Claim Games' }));
+
+    expect(auth.claimGuestHistory).toHaveBeenCalledWith('abcd2345');
+    expect(await screen.findByText('Added your game with Quizzly Bears to your account.')).toBeInTheDocument();
+    expect(onClaimed).toHaveBeenCalled();
+  });
+
+  it('should show why a code was refused', async () => {
+    const user = userEvent.setup();
+    auth.claimGuestHistory.mockResolvedValue({ success: false, error: 'Upgrade code is invalid or has expired' });
+    render(<ClaimGuestGames onClaimed={vi.fn()} />);
+
+    await user.type(screen.getByLabelText('Upgrade code'), 'ZZZZZZZZ');
+    await user.click(screen.getByRole('button', { name: 'Claim Games' }));
+
+    expect(await screen.findByText('Upgrade code is invalid or has expired')).toBeInTheDocument();
+  });
+});
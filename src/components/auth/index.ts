@@ -1,3 +1,6 @@
 export { Login } from './Login';
 export { Register } from './Register';
-export { Profile } from './Profile';
\ No newline at end of file
+export { Profile } from './Profile';
+export { GuestSignIn } from './GuestSignIn';
+export { UpgradeAccount } from './UpgradeAccount';
+export { ClaimGuestGames } from './ClaimGuestGames';
@@ -0,0 +1,50 @@
+import { useState, useEffect, useRef } from 'react';
+import { Progress } from '@/components/ui/progress';
+import { cn } from '@/lib/utils';
+
+interface CountdownProps {
+  startedAt: number; // epoch ms when the clock started
+  durationMs: number;
+  className?: string;
+  labelClassName?: string;
+  onExpire?: () => void; // called once when the clock reaches zero
+}
+
+export function Countdown({ startedAt, durationMs, className, labelClassName, onExpire }: CountdownProps) {
+  const [now, setNow] = useState(Date.now());
+
+  // Keep the latest callback without restarting the clock when it changes
+  const onExpireRef = useRef(onExpire);
+  useEffect(() => {
+    onExpireRef.current = onExpire;
+  });
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [startedAt]);
+
+  const remainingMs = Math.max(0, startedAt + durationMs - now);
+  const remainingSeconds = Math.ceil(remainingMs / 1000);
+  const progress = durationMs > 0 ? (remainingMs / durationMs) * 100 : 0;
+  const urgent = remainingSeconds <= 5;
+  const expired = remainingMs === 0;
+
+  useEffect(() => {
+    if (expired) {
+      onExpireRef.current?.();
+    }
+  }, [expired]);
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div
+        className={cn('font-bold tabular-nums', urgent ? 'text-red-500' : 'text-foreground', labelClassName)}
+        data-testid="countdown-seconds"
+      >
+        {remainingSeconds}s
+      </div>
+      <Progress value={progress} className="h-2" />
+    </div>
+  );
+}
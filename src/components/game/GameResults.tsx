@@ -7,6 +7,8 @@ import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { LIFELINE_LABELS } from '@/lib/lifelines';
+import type { LifelineType } from '@/contracts/game';
 import {
   Trophy,
   Star,
@@ -19,6 +21,7 @@ import {
   Award,
   Zap,
   CheckCircle,
+  LifeBuoy,
   Loader2
 } from 'lucide-react';
 
@@ -64,6 +67,10 @@ export function GameResults() {
   const accuracy = totalQuestions > 0 ? Math.round((correctAnswers / totalQuestions) * 100) : 0;
   const totalDuration = gameSummary?.total_duration_ms || 0;
   const averageTimePerQuestion = totalQuestions > 0 ? Math.round(totalDuration / totalQuestions / 1000) : 0;
+  const lifelinesUsed = gameSummary?.lifelines_used;
+  const usedLifelineTypes = lifelinesUsed
+    ? (Object.keys(lifelinesUsed) as LifelineType[]).filter(lifeline => lifelinesUsed[lifeline] > 0)
+    : [];
 
   // Performance evaluation
   const getPerformanceLevel = (accuracy: number) => {
@@ -233,6 +240,35 @@ export function GameResults() {
           </Card>
         )}
 
+        {/* Lifelines */}
+        {lifelinesUsed && usedLifelineTypes.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <LifeBuoy className="w-5 h-5 mr-2" />
+                Lifelines Used
+              </CardTitle>
+              <CardDescription>
+                Correct answers helped by 50/50 or extra time don't add to your score
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex flex-wrap gap-2">
+                {usedLifelineTypes.map((lifeline) => (
+                  <Badge key={lifeline} variant="secondary">
+                    {LIFELINE_LABELS[lifeline]} × {lifelinesUsed[lifeline]}
+                  </Badge>
+                ))}
+              </div>
+              {gameSummary.lifeline_points_forfeited > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  {gameSummary.lifeline_points_forfeited} point{gameSummary.lifeline_points_forfeited === 1 ? '' : 's'} forfeited to lifelines
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Categories Performance */}
         {currentSession?.selected_categories && (
           <Card>
@@ -3,6 +3,10 @@ import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { useGame } from '@/contexts/GameContext';
 import { gameService } from '@/services/game';
+import { QUESTION_TIME_LIMIT_OPTIONS } from '@/lib/questionTimer';
+import { DIFFICULTY_CURVE_LABELS } from '@/lib/difficulty';
+import { QUESTION_TYPE_LABELS, SINGLE_PLAYER_QUESTION_TYPES } from '@/lib/questionTypes';
+import type { DifficultyCurve, QuestionType } from '@/contracts/game';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
@@ -36,6 +40,10 @@ export function GameSetup() {
   const [totalRounds, setTotalRounds] = useState(3);
   const [questionsPerRound, setQuestionsPerRound] = useState(10);
   const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
+  const [timeLimitSeconds, setTimeLimitSeconds] = useState<number | null>(null);
+  const [lifelinesEach, setLifelinesEach] = useState(1);
+  const [difficultyCurve, setDifficultyCurve] = useState<DifficultyCurve>('flat');
+  const [questionTypes, setQuestionTypes] = useState<QuestionType[]>(['multiple_choice']);
   const [isCreating, setIsCreating] = useState(false);
 
   // Load available categories on mount
@@ -51,7 +59,7 @@ export function GameSetup() {
   }, [authState.user?.id, gameState.userProfile, loadUserProfile]);
 
   // Validation
-  const isValid = selectedCategories.length > 0 && totalRounds > 0 && questionsPerRound > 0;
+  const isValid = selectedCategories.length > 0 && questionTypes.length > 0 && totalRounds > 0 && questionsPerRound > 0;
   const totalQuestions = totalRounds * questionsPerRound;
 
   const handleCategoryToggle = (category: string, checked: boolean) => {
@@ -62,6 +70,10 @@ export function GameSetup() {
     }
   };
 
+  const handleQuestionTypeToggle = (questionType: QuestionType, checked: boolean) => {
+    setQuestionTypes(prev => checked ? [...prev, questionType] : prev.filter(t => t !== questionType));
+  };
+
   const handleStartGame = async () => {
     if (!authState.user?.id || !isValid) return;
 
@@ -91,7 +103,11 @@ export function GameSetup() {
       const sessionResponse = await gameService.createGameSession(authState.user.id, {
         total_rounds: totalRounds,
         questions_per_round: questionsPerRound,
-        selected_categories: selectedCategories
+        selected_categories: selectedCategories,
+        question_time_limit_seconds: timeLimitSeconds,
+        lifelines: { fifty_fifty: lifelinesEach, skip: lifelinesEach, extra_time: lifelinesEach },
+        difficulty_curve: difficultyCurve,
+        question_types: questionTypes
       });
       console.log('🎮 Game session created:', sessionResponse);
 
@@ -259,6 +275,83 @@ export function GameSetup() {
                     </SelectContent>
                   </Select>
                 </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="time-limit">Time per Question</Label>
+                  <Select
+                    value={timeLimitSeconds?.toString() ?? 'off'}
+                    onValueChange={(value) => setTimeLimitSeconds(value === 'off' ? null : parseInt(value))}
+                  >
+                    <SelectTrigger id="time-limit">
+                      <SelectValue placeholder="Select time limit" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="off">No time limit</SelectItem>
+                      {QUESTION_TIME_LIMIT_OPTIONS.map((seconds) => (
+                        <SelectItem key={seconds} value={seconds.toString()}>
+                          {seconds} seconds
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="lifelines">Lifelines</Label>
+                  <Select
+                    value={lifelinesEach.toString()}
+                    onValueChange={(value) => setLifelinesEach(parseInt(value))}
+                  >
+                    <SelectTrigger id="lifelines">
+                      <SelectValue placeholder="Select lifelines" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="0">No lifelines</SelectItem>
+                      {[1, 2, 3].map((num) => (
+                        <SelectItem key={num} value={num.toString()}>
+                          {num} of each
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor="difficulty-curve">Difficulty</Label>
+                  <Select
+                    value={difficultyCurve}
+                    onValueChange={(value) => setDifficultyCurve(value as DifficultyCurve)}
+                  >
+                    <SelectTrigger id="difficulty-curve">
+                      <SelectValue placeholder="Select difficulty" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(DIFFICULTY_CURVE_LABELS) as DifficultyCurve[]).map((curve) => (
+                        <SelectItem key={curve} value={curve}>
+                          {DIFFICULTY_CURVE_LABELS[curve]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2 md:col-span-2">
+                  <Label>Question Types</Label>
+                  <div className="flex flex-wrap gap-4">
+                    {SINGLE_PLAYER_QUESTION_TYPES.map((questionType) => (
+                      <div key={questionType} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`question-type-${questionType}`}
+                          checked={questionTypes.includes(questionType)}
+                          onCheckedChange={(checked) => handleQuestionTypeToggle(questionType, checked as boolean)}
+                        />
+                        <Label htmlFor={`question-type-${questionType}`} className="text-sm font-normal cursor-pointer">
+                          {QUESTION_TYPE_LABELS[questionType]}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
               </div>
 
               {/* Game Summary */}
@@ -1,39 +1,61 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useGame } from '@/contexts/GameContext';
+import { getElapsedMs, getEffectiveStart } from '@/lib/questionTimer';
+import { LIFELINE_LABELS } from '@/lib/lifelines';
+import { MAX_TYPED_ANSWER_LENGTH, QUESTION_TYPE_DESCRIPTIONS } from '@/lib/questionTypes';
+import type { LifelineType } from '@/contracts/game';
+import { Countdown } from './Countdown';
+import { ReportQuestion } from './ReportQuestion';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import {
   CheckCircle,
   XCircle,
   Clock,
+  TimerOff,
   Pause,
   Play,
   ArrowRight,
   Trophy,
-  Loader2
+  Loader2,
+  Divide,
+  SkipForward,
+  AlarmClockPlus
 } from 'lucide-react';
 
+const LIFELINE_ICONS: Record<LifelineType, typeof Divide> = {
+  fifty_fifty: Divide,
+  skip: SkipForward,
+  extra_time: AlarmClockPlus,
+};
+
+const LIFELINE_ORDER: LifelineType[] = ['fifty_fifty', 'skip', 'extra_time'];
+
 export function QuestionDisplay() {
   const navigate = useNavigate();
-  const { state: gameState, submitAnswer, pauseGame, resumeGame } = useGame();
+  const { state: gameState, submitAnswer, applyLifeline, pauseGame, resumeGame } = useGame();
 
   // Component state
   const [selectedAnswer, setSelectedAnswer] = useState<string>('');
-  const [timeStarted, setTimeStarted] = useState<number>(Date.now());
   const [isPaused, setIsPaused] = useState(false);
 
   const currentQuestion = gameState.currentQuestion;
   const currentSession = gameState.currentSession;
+  const questionClock = gameState.questionClock;
+  const timeLimitSeconds = currentSession?.question_time_limit_seconds ?? null;
+  const removedAnswers = currentQuestion?.removed_answers ?? [];
+  const extraTimeSeconds = currentQuestion?.extra_time_seconds ?? 0;
+  const lifelinesRemaining = currentSession?.lifelines_remaining;
 
   // Reset state when new question appears
   useEffect(() => {
     if (currentQuestion && !gameState.showResult) {
       setSelectedAnswer('');
-      setTimeStarted(Date.now());
       setIsPaused(false);
     }
   }, [currentQuestion, gameState.showResult]);
@@ -47,25 +69,40 @@ export function QuestionDisplay() {
 
 
   const handleAnswerSelect = (answerText: string) => {
-    if (gameState.answering || gameState.showResult || isPaused) return;
+    if (gameState.answering || gameState.showResult || isPaused || removedAnswers.includes(answerText)) return;
     setSelectedAnswer(answerText);
   };
 
   const handleSubmitAnswer = async () => {
-    if (!selectedAnswer || !currentQuestion || gameState.answering) return;
+    if (!selectedAnswer.trim() || !currentQuestion || gameState.answering) return;
 
-    const timeToAnswer = Date.now() - timeStarted;
+    const timeToAnswer = questionClock ? getElapsedMs(questionClock, Date.now()) : 0;
     await submitAnswer(selectedAnswer, timeToAnswer);
   };
 
+  // Out of time: the question is submitted unanswered, whatever was selected
+  const handleTimeout = async () => {
+    if (!currentQuestion || !timeLimitSeconds || gameState.answering || gameState.showResult) return;
+
+    await submitAnswer(null, (timeLimitSeconds + extraTimeSeconds) * 1000);
+  };
+
+  const isLifelineAvailable = (lifeline: LifelineType) => {
+    if (!lifelinesRemaining || lifelinesRemaining[lifeline] < 1) return false;
+    // 50/50 needs four choices to remove two of
+    if (lifeline === 'fifty_fifty') return currentQuestion?.question_type === 'multiple_choice' && removedAnswers.length === 0;
+    if (lifeline === 'extra_time') return timeLimitSeconds !== null && extraTimeSeconds === 0;
+    return true;
+  };
+
   const handlePause = async () => {
     setIsPaused(true);
     await pauseGame();
   };
 
+  // Resuming reloads the question with the time already spent on it
   const handleResume = async () => {
     setIsPaused(false);
-    setTimeStarted(Date.now()); // Reset timer
     await resumeGame();
   };
 
@@ -79,6 +116,10 @@ export function QuestionDisplay() {
     );
   }
 
+  const countdownStartedAt = questionClock && questionClock.questionId === currentQuestion.id
+    ? getEffectiveStart(questionClock)
+    : null;
+
   const questionProgress = currentSession.questions_per_round > 0
     ? (((currentSession.current_question_index % currentSession.questions_per_round) + 1) / currentSession.questions_per_round) * 100
     : 0;
@@ -176,10 +217,38 @@ export function QuestionDisplay() {
                 </h2>
               </div>
 
+              {timeLimitSeconds !== null && countdownStartedAt !== null && !gameState.showResult && (
+                <Countdown
+                  startedAt={countdownStartedAt}
+                  durationMs={(timeLimitSeconds + extraTimeSeconds) * 1000}
+                  labelClassName="text-2xl text-center"
+                  onExpire={handleTimeout}
+                />
+              )}
+
+              {/* Free-text questions have no options; the typed text is the answer */}
+              {currentQuestion.question_type === 'free_text' && (
+                <div className="space-y-2">
+                  <p className="text-sm text-muted-foreground">{QUESTION_TYPE_DESCRIPTIONS.free_text}</p>
+                  <Input
+                    aria-label="Your answer"
+                    maxLength={MAX_TYPED_ANSWER_LENGTH}
+                    autoComplete="off"
+                    value={selectedAnswer}
+                    onChange={(e) => handleAnswerSelect(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleSubmitAnswer();
+                    }}
+                    disabled={gameState.answering || gameState.showResult || isPaused}
+                  />
+                </div>
+              )}
+
               {/* Answer Options */}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 {currentQuestion.answers.map((answer, index) => {
                   const isSelected = selectedAnswer === answer;
+                  const isRemoved = removedAnswers.includes(answer);
                   const answerLabel = String.fromCharCode(65 + index); // A, B, C, D
                   let buttonVariant: "default" | "outline" | "secondary" | "destructive" = "outline";
                   let Icon = null;
@@ -200,9 +269,9 @@ export function QuestionDisplay() {
                     <Button
                       key={`${currentQuestion.id}-${index}`}
                       variant={buttonVariant}
-                      className="h-auto p-4 text-left justify-start"
+                      className={`h-auto p-4 text-left justify-start ${isRemoved ? 'line-through opacity-40' : ''}`}
                       onClick={() => handleAnswerSelect(answer)}
-                      disabled={gameState.answering || gameState.showResult}
+                      disabled={gameState.answering || gameState.showResult || isRemoved}
                     >
                       <div className="flex items-center space-x-3 w-full">
                         <div className="flex-shrink-0 w-8 h-8 rounded-full bg-background border-2 flex items-center justify-center font-bold">
@@ -218,6 +287,32 @@ export function QuestionDisplay() {
                 })}
               </div>
 
+              {/* Lifelines */}
+              {lifelinesRemaining && !gameState.showResult && (
+                <div className="flex flex-wrap gap-2">
+                  {LIFELINE_ORDER.map((lifeline) => {
+                    const Icon = LIFELINE_ICONS[lifeline];
+
+                    return (
+                      <Button
+                        key={lifeline}
+                        variant="outline"
+                        size="sm"
+                        onClick={() => applyLifeline(lifeline)}
+                        disabled={!isLifelineAvailable(lifeline) || gameState.answering || gameState.usingLifeline !== null}
+                      >
+                        {gameState.usingLifeline === lifeline ? (
+                          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        ) : (
+                          <Icon className="w-4 h-4 mr-2" />
+                        )}
+                        {LIFELINE_LABELS[lifeline]} ({lifelinesRemaining[lifeline]})
+                      </Button>
+                    );
+                  })}
+                </div>
+              )}
+
               {/* Result Display */}
               {gameState.showResult && (
                 <Card className={`border-2 ${gameState.lastAnswerCorrect ? 'border-green-500 bg-green-50 dark:bg-green-950' : 'border-red-500 bg-red-50 dark:bg-red-950'}`}>
@@ -225,12 +320,14 @@ export function QuestionDisplay() {
                     <div className="flex items-center space-x-3">
                       {gameState.lastAnswerCorrect ? (
                         <CheckCircle className="w-6 h-6 text-green-600 dark:text-green-400" />
+                      ) : gameState.lastAnswerTimedOut ? (
+                        <TimerOff className="w-6 h-6 text-red-600 dark:text-red-400" />
                       ) : (
                         <XCircle className="w-6 h-6 text-red-600 dark:text-red-400" />
                       )}
                       <div>
                         <p className={`font-medium ${gameState.lastAnswerCorrect ? 'text-green-800 dark:text-green-100' : 'text-red-800 dark:text-red-100'}`}>
-                          {gameState.lastAnswerCorrect ? 'Correct!' : 'Incorrect!'}
+                          {gameState.lastAnswerCorrect ? 'Correct!' : gameState.lastAnswerTimedOut ? "Time's up!" : 'Incorrect!'}
                         </p>
                         {!gameState.lastAnswerCorrect && (
                           <p className="text-sm text-red-700 dark:text-red-200">
@@ -246,7 +343,7 @@ export function QuestionDisplay() {
               {/* Action Buttons */}
               <div className="flex justify-between items-center pt-4">
                 <div>
-                  {selectedAnswer && !gameState.showResult && (
+                  {selectedAnswer && !gameState.showResult && currentQuestion.question_type !== 'free_text' && (
                     <p className="text-sm text-muted-foreground">
                       Selected: {selectedAnswer}
                     </p>
@@ -257,7 +354,7 @@ export function QuestionDisplay() {
                   {!gameState.showResult ? (
                     <Button
                       onClick={handleSubmitAnswer}
-                      disabled={!selectedAnswer || gameState.answering}
+                      disabled={!selectedAnswer.trim() || gameState.answering || gameState.usingLifeline !== null}
                       size="lg"
                     >
                       {gameState.answering ? (
@@ -290,6 +387,8 @@ export function QuestionDisplay() {
                   )}
                 </div>
               </div>
+
+              <ReportQuestion key={currentQuestion.id} gameQuestionId={currentQuestion.id} />
             </CardContent>
           </Card>
         )}
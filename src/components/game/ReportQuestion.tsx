@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { gameService } from '@/services/game';
+import { REPORT_REASON_LABELS } from '@/lib/questionReports';
+import type { QuestionReportReason } from '@/contracts/game';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Flag, Loader2 } from 'lucide-react';
+
+interface ReportQuestionProps {
+  // Pass the id of whichever question is on screen; key the component by it so the form resets
+  gameQuestionId?: string;
+  roundQuestionId?: string;
+}
+
+export function ReportQuestion({ gameQuestionId, roundQuestionId }: ReportQuestionProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [reason, setReason] = useState<QuestionReportReason | ''>('');
+  const [comment, setComment] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async () => {
+    if (!reason) return;
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      await gameService.reportQuestion({
+        game_question_id: gameQuestionId,
+        round_question_id: roundQuestionId,
+        reason,
+        comment,
+      });
+      setSubmitted(true);
+      setIsOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to report question');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (submitted) {
+    return (
+      <p className="text-sm text-muted-foreground flex items-center">
+        <Flag className="w-4 h-4 mr-2" />
+        Thanks, an admin will review this question
+      </p>
+    );
+  }
+
+  if (!isOpen) {
+    return (
+      <Button variant="ghost" size="sm" className="text-muted-foreground" onClick={() => setIsOpen(true)}>
+        <Flag className="w-4 h-4 mr-2" />
+        Report question
+      </Button>
+    );
+  }
+
+  return (
+    <div className="space-y-3 rounded-md border p-4">
+      <p className="text-sm font-medium">What's wrong with this question?</p>
+      <RadioGroup
+        value={reason}
+        onValueChange={(value) => setReason(value as QuestionReportReason)}
+        className="grid-cols-2"
+        aria-label="Reason"
+      >
+        {(Object.keys(REPORT_REASON_LABELS) as QuestionReportReason[]).map(value => (
+          <div key={value} className="flex items-center space-x-2">
+            <RadioGroupItem value={value} id={`report-${value}`} />
+            <Label htmlFor={`report-${value}`}>{REPORT_REASON_LABELS[value]}</Label>
+          </div>
+        ))}
+      </RadioGroup>
+      <Input
+        aria-label="Comment"
+        placeholder="Anything else? (optional)"
+        maxLength={500}
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+      />
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={() => setIsOpen(false)} disabled={submitting}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSubmit} disabled={!reason || submitting}>
+          {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Send report
+        </Button>
+      </div>
+    </div>
+  );
+}
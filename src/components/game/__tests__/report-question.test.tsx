@@ -0,0 +1,53 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+
+const { gameService } = vi.hoisted(() => ({
+  gameService: {
+    reportQuestion: vi.fn(),
+  },
+}));
+
+vi.mock('@/services/game', () => ({ gameService }));
+
+import { ReportQuestion } from '../ReportQuestion';
+
+describe('ReportQuestion', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should send a report with the chosen reason', async () => {
+    const userActions = userEvent.setup();
+    gameService.reportQuestion.mockResolvedValue('report-1');
+    render(<ReportQuestion roundQuestionId="rq-1" />);
+
+    await userActions.click(screen.getByRole('button', { name: 'Report question' }));
+    expect(screen.getByRole('button', { name: 'Send report' })).toBeDisabled();
+
+    await userActions.click(screen.getByRole('radio', { name: 'Outdated' }));
+    await userActions.type(screen.getByLabelText('Comment'), 'Pluto was reclassified');
+    await userActions.click(screen.getByRole('button', { name: 'Send report' }));
+
+    expect(gameService.reportQuestion).toHaveBeenCalledWith({
+      game_question_id: undefined,
+      round_question_id: 'rq-1',
+      reason: 'outdated',
+      comment: 'Pluto was reclassified',
+    });
+    expect(await screen.findByText('Thanks, an admin will review this question')).toBeInTheDocument();
+  });
+
+  it('should keep the form open when the report fails', async () => {
+    const userActions = userEvent.setup();
+    gameService.reportQuestion.mockRejectedValue(new Error('Failed to report question: Question not found'));
+    render(<ReportQuestion gameQuestionId="gq-1" />);
+
+    await userActions.click(screen.getByRole('button', { name: 'Report question' }));
+    await userActions.click(screen.getByRole('radio', { name: 'Wrong answer' }));
+    await userActions.click(screen.getByRole('button', { name: 'Send report' }));
+
+    expect(await screen.findByText('Failed to report question: Question not found')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Send report' })).toBeEnabled();
+  });
+});
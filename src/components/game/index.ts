@@ -1,3 +1,4 @@
 export { GameSetup } from './GameSetup';
 export { QuestionDisplay } from './QuestionDisplay';
-export { GameResults } from './GameResults';
\ No newline at end of file
+export { GameResults } from './GameResults';
+export { Countdown } from './Countdown';export { ReportQuestion } from './ReportQuestion';
@@ -0,0 +1,292 @@
+import { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { gameService } from '@/services/game';
+import { DIFFICULTY_LABELS, difficultyLevel } from '@/lib/difficulty';
+import { formatResponseTime } from '@/lib/gameAnalytics';
+import { answerLetters, QUESTION_TYPE_LABELS } from '@/lib/questionTypes';
+import { exportGameResults, renderResultsSheet } from '@/lib/gameResults';
+import type { ResultsExportFormat } from '@/lib/gameResults';
+import type { Game, GameAnalytics, GameResults, QuestionAnalytics } from '@/contracts/multi-user-types';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { BarChart3, ChevronLeft, CheckCircle, Download, Printer, Trophy, Loader2 } from 'lucide-react';
+
+const formatPercentage = (value: number) => `${Math.round(value)}%`;
+
+const describeRating = (difficulty: number | null) => {
+  const level = difficultyLevel(difficulty);
+  return level ? `Rated ${DIFFICULTY_LABELS[level].toLowerCase()}` : 'Not rated yet';
+};
+
+function QuestionBreakdown({ question }: { question: QuestionAnalytics }) {
+  return (
+    <div className="space-y-2 rounded-md border p-3" data-testid={`report-question-${question.round_question_id}`}>
+      <div className="flex items-start justify-between gap-3">
+        <p className="font-medium">
+          {question.question_order}. {question.question}
+        </p>
+        <Badge variant="outline" className="shrink-0">{question.category}</Badge>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {formatPercentage(question.correct_percentage)} correct · {question.answer_count} answer{question.answer_count === 1 ? '' : 's'}
+        {' · '}{formatResponseTime(question.average_response_time)} average · {describeRating(question.difficulty)}
+        {question.question_type !== 'multiple_choice' && ` · ${QUESTION_TYPE_LABELS[question.question_type]}`}
+      </p>
+      {/* Typed answers have no choices to chart */}
+      {answerLetters(question.question_type).length === 0 && (
+        <p className="flex items-center text-sm text-green-600 dark:text-green-400">
+          <CheckCircle className="w-4 h-4 mr-1" />
+          {question.correct_answer}
+        </p>
+      )}
+      <div className="space-y-1">
+        {answerLetters(question.question_type).map((letter, index) => {
+          const count = question.answer_distribution[letter];
+          const correct = letter === question.correct_answer;
+          return (
+            <div key={letter} className="grid grid-cols-[1.5rem_1fr_3rem] items-center gap-2 text-sm">
+              <span className="font-bold">{letter}</span>
+              <div className="space-y-1">
+                <span className={`flex items-center ${correct ? 'text-green-600 dark:text-green-400' : ''}`}>
+                  {correct && <CheckCircle className="w-4 h-4 mr-1" />}
+                  {question.presented_answers[index]}
+                </span>
+                <Progress
+                  value={question.answer_count > 0 ? (count / question.answer_count) * 100 : 0}
+                  aria-label={`Teams answering ${letter}`}
+                />
+              </div>
+              <span className="text-right text-muted-foreground">{count}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+const EXPORT_TYPES: Record<ResultsExportFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+};
+
+const downloadResults = (results: GameResults, title: string, format: ResultsExportFormat) => {
+  const url = URL.createObjectURL(new Blob([exportGameResults(results, format)], { type: EXPORT_TYPES[format] }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${title.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-results.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const printResults = (results: GameResults) => {
+  const sheet = window.open('', '_blank');
+  if (!sheet) return;
+  sheet.document.write(renderResultsSheet(results));
+  sheet.document.close();
+  sheet.focus();
+  sheet.print();
+};
+
+function FinalResults({ game, results }: { game: Game; results: GameResults }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Trophy className="w-5 h-5 mr-2 text-yellow-500" />
+          Final Results
+        </CardTitle>
+        <CardDescription>
+          Recorded {new Date(results.recorded_at).toLocaleString()} when the game ended. Later corrections don't change them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-wrap gap-2">
+        <Button variant="outline" onClick={() => downloadResults(results, game.title, 'csv')}>
+          <Download className="w-4 h-4 mr-2" />
+          Download CSV
+        </Button>
+        <Button variant="outline" onClick={() => downloadResults(results, game.title, 'json')}>
+          <Download className="w-4 h-4 mr-2" />
+          Download JSON
+        </Button>
+        <Button variant="outline" onClick={() => printResults(results)}>
+          <Printer className="w-4 h-4 mr-2" />
+          Print Results Sheet
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Post-game report for the host: how teams did on each question and category,
+// to help tune the next quiz
+export function GameReport() {
+  const { gameId } = useParams<{ gameId: string }>();
+  const { state: authState } = useAuth();
+
+  const [game, setGame] = useState<Game | null>(null);
+  const [analytics, setAnalytics] = useState<GameAnalytics | null>(null);
+  const [results, setResults] = useState<GameResults | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!gameId) return;
+
+    const loadReport = async () => {
+      try {
+        const [loadedGame, loadedAnalytics, loadedResults] = await Promise.all([
+          gameService.getGame(gameId),
+          gameService.getGameAnalytics(gameId),
+          gameService.getGameResults(gameId),
+        ]);
+        setGame(loadedGame);
+        setAnalytics(loadedAnalytics);
+        setResults(loadedResults);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load report');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadReport();
+  }, [gameId]);
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !game || !analytics) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-2xl">
+        <Alert variant="destructive">
+          <AlertDescription>{error || 'Game not found'}</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  if (game.host_id !== authState.user?.id) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-2xl">
+        <Alert variant="destructive">
+          <AlertDescription>Only the host can view this report.</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  // Questions come in play order, so each round starts where its number first appears
+  const rounds = analytics.questions.filter(
+    (question, index) => index === 0 || analytics.questions[index - 1].round_number !== question.round_number
+  );
+  const summary = [
+    { label: 'Teams', value: String(analytics.total_teams) },
+    { label: 'Players', value: String(analytics.total_players) },
+    { label: 'Average score', value: String(Math.round(analytics.average_score)) },
+    { label: 'Questions answered', value: formatPercentage(analytics.completion_rate) },
+    { label: 'Average answer time', value: formatResponseTime(analytics.average_response_time) },
+  ];
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div className="flex items-center space-x-4">
+          <div className="flex items-center justify-center w-12 h-12 bg-primary/10 rounded-full">
+            <BarChart3 className="w-6 h-6 text-primary" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold">Game Report</h1>
+            <p className="text-muted-foreground">
+              {game.title} · {new Date(game.scheduled_date).toLocaleDateString()}
+            </p>
+          </div>
+        </div>
+        <Button variant="outline" asChild>
+          <Link to={`/host/${game.id}/control`}>
+            <ChevronLeft className="w-4 h-4 mr-2" />
+            Host Console
+          </Link>
+        </Button>
+      </div>
+
+      {game.status !== 'completed' && (
+        <Alert>
+          <AlertDescription>The game isn't over yet, so this report is still changing.</AlertDescription>
+        </Alert>
+      )}
+
+      {results && <FinalResults game={game} results={results} />}
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-5">
+        {summary.map(item => (
+          <Card key={item.label}>
+            <CardContent className="pt-6 text-center">
+              <p className="text-2xl font-bold">{item.value}</p>
+              <p className="text-xs text-muted-foreground">{item.label}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Categories */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Categories</CardTitle>
+          <CardDescription>Hardest for these teams first</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {analytics.categories.length === 0 && (
+            <p className="text-sm text-muted-foreground">No questions were asked</p>
+          )}
+          {analytics.categories.map(category => {
+            const level = difficultyLevel(category.average_difficulty);
+            return (
+              <div key={category.category} className="space-y-1" data-testid={`report-category-${category.category}`}>
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium">{category.category}</span>
+                  <span className="text-muted-foreground">{formatPercentage(category.correct_percentage)} correct</span>
+                </div>
+                <Progress value={category.correct_percentage} aria-label={`${category.category} correct`} />
+                <p className="text-xs text-muted-foreground">
+                  {category.question_count} question{category.question_count === 1 ? '' : 's'}
+                  {' · '}{formatResponseTime(category.average_response_time)} average
+                  {' · '}{level ? `Usually ${DIFFICULTY_LABELS[level].toLowerCase()}` : 'Not rated yet'}
+                </p>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      {/* Questions */}
+      {rounds.map(({ round_number: roundNumber, round_title: roundTitle }) => (
+        <Card key={roundNumber}>
+          <CardHeader>
+            <CardTitle>Round {roundNumber}{roundTitle && `: ${roundTitle}`}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {analytics.questions
+              .filter(question => question.round_number === roundNumber)
+              .map(question => (
+                <QuestionBreakdown key={question.round_question_id} question={question} />
+              ))}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
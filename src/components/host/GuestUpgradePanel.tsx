@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { gameService } from '@/services/game';
+import type { Game, TeamWithPlayers } from '@/contracts/multi-user-types';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { KeyRound, Loader2 } from 'lucide-react';
+
+interface GuestUpgradePanelProps {
+  game: Pick<Game, 'id'>;
+  teams: Pick<TeamWithPlayers, 'id' | 'name' | 'players'>[];
+}
+
+// Guests who still have their session upgrade themselves. One who lost it asks
+// the host for a code, then claims their games from a full account's profile
+export function GuestUpgradePanel({ game, teams }: GuestUpgradePanelProps) {
+  const [issuingFor, setIssuingFor] = useState<string | null>(null);
+  const [codes, setCodes] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const players = teams.flatMap(team => team.players.map(player => ({ ...player, teamName: team.name })));
+
+  if (players.length === 0) {
+    return null;
+  }
+
+  const handleIssue = async (playerId: string) => {
+    setIssuingFor(playerId);
+    setError(null);
+    try {
+      const code = await gameService.createGuestUpgradeCode(game.id, playerId);
+      setCodes(current => ({ ...current, [playerId]: code }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create upgrade code');
+    } finally {
+      setIssuingFor(null);
+    }
+  };
+
+  return (
+    <Card data-testid="guest-upgrade-panel">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <KeyRound className="w-5 h-5 mr-2" />
+          Guest Accounts
+        </CardTitle>
+        <CardDescription>
+          Give a guest a code to keep their games. They sign in or register, then enter it on their profile.
+          Codes expire after 7 days.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {players.map(player => (
+          <div key={player.id} className="flex items-center justify-between text-sm">
+            <span>
+              {player.display_name} <span className="text-muted-foreground">· {player.teamName}</span>
+            </span>
+            {codes[player.id] ? (
+              <span className="font-mono font-bold tracking-widest" data-testid={`upgrade-code-${player.id}`}>
+                {codes[player.id]}
+              </span>
+            ) : (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleIssue(player.id)}
+                disabled={issuingFor !== null}
+              >
+                {issuingFor === player.id && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+                Upgrade Code
+              </Button>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
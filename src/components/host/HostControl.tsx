@@ -0,0 +1,505 @@
+import { useEffect, useState } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { LiveGameProvider } from '@/contexts/LiveGameContext';
+import { useLiveGame } from '@/contexts/useLiveGame';
+import { gameService } from '@/services/game';
+import { getRoundMultiplier, isWagerRound } from '@/lib/scoring';
+import { orderStandings } from '@/lib/tieBreaker';
+import { formatAnswer, QUESTION_TYPE_LABELS } from '@/lib/questionTypes';
+import { Countdown } from '@/components/game/Countdown';
+import { RoundPlanner } from './RoundPlanner';
+import { TieBreakerPanel } from './TieBreakerPanel';
+import { GuestUpgradePanel } from './GuestUpgradePanel';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import type { AnswerLetter, QuestionState, RoundQuestionDetail } from '@/contracts/multi-user-types';
+import {
+  Play,
+  Square,
+  ChevronLeft,
+  ChevronRight,
+  Lock,
+  Unlock,
+  Eye,
+  Flag,
+  Monitor,
+  Trophy,
+  BarChart3,
+  Users,
+  CheckCircle,
+  XCircle,
+  Loader2
+} from 'lucide-react';
+
+const ANSWER_LABELS: AnswerLetter[] = ['A', 'B', 'C', 'D'];
+
+const QUESTION_STATE_LABELS: Record<QuestionState, string> = {
+  pending: 'Not open yet',
+  open: 'Answering open',
+  closed: 'Answering closed',
+  revealed: 'Answer revealed',
+};
+
+// Where a round question got to, from the stamps the rounds trigger keeps
+function roundQuestionState(roundQuestion: RoundQuestionDetail): QuestionState {
+  if (roundQuestion.revealed_at) return 'revealed';
+  if (roundQuestion.closed_at) return 'closed';
+  if (roundQuestion.opened_at) return 'open';
+  return 'pending';
+}
+
+// Host console for running a live game: start the game, step through
+// questions, open and close answering, reveal answers and move between rounds
+export function HostControl() {
+  const { gameId } = useParams<{ gameId: string }>();
+
+  if (!gameId) {
+    return null;
+  }
+
+  return (
+    <LiveGameProvider gameId={gameId}>
+      <HostControlScreen gameId={gameId} />
+    </LiveGameProvider>
+  );
+}
+
+interface HostControlScreenProps {
+  gameId: string;
+}
+
+function HostControlScreen({ gameId }: HostControlScreenProps) {
+  const { state: authState } = useAuth();
+  const { state, refresh, getTeamAnswer } = useLiveGame();
+  const { game, rounds, currentRound, roundQuestions, currentQuestion, teams, tieBreaker } = state;
+
+  const [busy, setBusy] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  // Real-time changes carry no grading, so reload when an answer arrives without it
+  const ungradedAnswers = state.teamAnswers.filter(answer => answer.is_correct === undefined).length;
+  useEffect(() => {
+    if (ungradedAnswers > 0) {
+      refresh();
+    }
+  }, [ungradedAnswers, refresh]);
+
+  // Run a host action, then reload so the console reflects it immediately
+  const runAction = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    setActionError(null);
+
+    try {
+      await action();
+      await refresh();
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : 'Action failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (state.loading && !game) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      </div>
+    );
+  }
+
+  if (state.error || !game) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-2xl">
+        <Alert variant="destructive">
+          <AlertDescription>{state.error || 'Game not found'}</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  if (game.host_id !== authState.user?.id) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-2xl">
+        <Alert variant="destructive">
+          <AlertDescription>Only the host can control this game.</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const standings = orderStandings(teams, tieBreaker?.winner_team_id);
+  const questionState = currentRound?.question_state ?? 'pending';
+  const questionIndex = currentQuestion ? roundQuestions.findIndex(rq => rq.id === currentQuestion.id) : -1;
+  const previousQuestion = questionIndex > 0 ? roundQuestions[questionIndex - 1] : null;
+  const nextQuestion = questionIndex >= 0 ? roundQuestions[questionIndex + 1] ?? null : null;
+  // Earlier questions can be shown again, but answering only ever opens once
+  const currentQuestionOpened = questionIndex >= 0 && roundQuestionState(roundQuestions[questionIndex]) !== 'pending';
+  const nextRound = rounds.find(round => round.status === 'pending') ?? null;
+  const answeredCount = teams.filter(team => getTeamAnswer(team.id)).length;
+  const wagerRound = !!currentRound && isWagerRound(game.scoring_rules, currentRound.round_number, game.total_rounds);
+  const multiplier = currentRound ? getRoundMultiplier(game.scoring_rules, currentRound.round_number) : 1;
+
+  const handleStartGame = () => runAction(() => gameService.startMultiUserGame(gameId));
+  const handleEndGame = () => runAction(() => gameService.completeMultiUserGame(gameId));
+  const handleStartRound = (roundId: string) => runAction(() => gameService.startRound(roundId));
+  const handleCompleteRound = (roundId: string) => runAction(() => gameService.completeRound(roundId));
+  const handleSelectQuestion = (roundId: string, roundQuestionId: string) =>
+    runAction(() => gameService.setCurrentQuestion(roundId, roundQuestionId));
+  const handleSetQuestionState = (roundId: string, nextState: QuestionState) =>
+    runAction(() => gameService.setQuestionState(roundId, nextState));
+  const handleOverrideAnswer = (teamAnswerId: string, isCorrect: boolean) =>
+    runAction(() => gameService.overrideTeamAnswer(teamAnswerId, isCorrect));
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-6xl space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">{game.title}</h1>
+          <p className="text-muted-foreground">
+            Host console
+            {currentRound && ` · Round ${currentRound.round_number} of ${game.total_rounds}`}
+            {currentRound?.title && `: ${currentRound.title}`}
+            {wagerRound && ' · Wager round'}
+            {!wagerRound && multiplier !== 1 && ` · ${multiplier}x points`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Badge variant="outline">{game.status.replace('_', ' ')}</Badge>
+          <Button variant="outline" asChild>
+            <Link to={`/host/${gameId}/display`} target="_blank">
+              <Monitor className="w-4 h-4 mr-2" />
+              Open TV Display
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      {actionError && (
+        <Alert variant="destructive">
+          <AlertDescription>{actionError}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="lg:col-span-2 space-y-6">
+          {game.status === 'setup' && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Ready to start?</CardTitle>
+                <p className="text-sm">
+                  Join code: <span className="font-mono text-lg font-bold tracking-widest">{game.join_code}</span>
+                </p>
+                <CardDescription>
+                  {teams.length === 0
+                    ? 'No teams have joined yet.'
+                    : `${teams.length} team${teams.length === 1 ? '' : 's'} joined. Starting the game opens round 1.`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Button onClick={handleStartGame} disabled={busy || teams.length === 0}>
+                  {busy ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+                  Start Game
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          {game.status === 'setup' && <RoundPlanner game={game} onGameChange={refresh} />}
+
+          {game.status === 'in_progress' && currentRound && (
+            <>
+              {/* Live Question */}
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <CardTitle>
+                      {currentQuestion
+                        ? `Question ${currentQuestion.question_order} of ${roundQuestions.length}`
+                        : 'No question selected'}
+                    </CardTitle>
+                    <Badge variant={questionState === 'open' ? 'default' : 'secondary'}>
+                      {QUESTION_STATE_LABELS[questionState]}
+                    </Badge>
+                  </div>
+                  {currentQuestion && (
+                    <CardDescription>
+                      {currentQuestion.question.category} · {QUESTION_TYPE_LABELS[currentQuestion.question_type]}
+                    </CardDescription>
+                  )}
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {currentQuestion && (
+                    <>
+                      <p className="text-lg font-medium">{currentQuestion.question.question}</p>
+                      {currentQuestion.correct_answer !== undefined && (
+                        <p className="text-sm text-muted-foreground">
+                          Correct answer:{' '}
+                          <strong className="text-foreground">
+                            {currentQuestion.question_type === 'multiple_choice'
+                              ? `${currentQuestion.correct_answer}. ${currentQuestion.presented_answers[ANSWER_LABELS.indexOf(currentQuestion.correct_answer as AnswerLetter)]}`
+                              : formatAnswer(currentQuestion, currentQuestion.correct_answer)}
+                          </strong>
+                        </p>
+                      )}
+                    </>
+                  )}
+
+                  {/* Answering closes by itself when the clock runs out */}
+                  {questionState === 'open' && game.question_time_limit_seconds !== null && currentRound.question_opened_at && (
+                    <Countdown
+                      startedAt={Date.parse(currentRound.question_opened_at)}
+                      durationMs={game.question_time_limit_seconds * 1000}
+                      labelClassName="text-2xl"
+                      onExpire={() => handleSetQuestionState(currentRound.id, 'closed')}
+                    />
+                  )}
+
+                  <div className="flex flex-wrap gap-2">
+                    <Button
+                      variant="outline"
+                      onClick={() => previousQuestion && handleSelectQuestion(currentRound.id, previousQuestion.id)}
+                      disabled={busy || !previousQuestion}
+                    >
+                      <ChevronLeft className="w-4 h-4 mr-1" />
+                      Previous
+                    </Button>
+                    {questionState === 'pending' && (
+                      <Button
+                        onClick={() => handleSetQuestionState(currentRound.id, 'open')}
+                        disabled={busy || !currentQuestion || currentQuestionOpened}
+                      >
+                        <Unlock className="w-4 h-4 mr-2" />
+                        Open Answering
+                      </Button>
+                    )}
+                    {questionState === 'open' && (
+                      <Button onClick={() => handleSetQuestionState(currentRound.id, 'closed')} disabled={busy}>
+                        <Lock className="w-4 h-4 mr-2" />
+                        Close Answering
+                      </Button>
+                    )}
+                    {questionState === 'closed' && (
+                      <Button onClick={() => handleSetQuestionState(currentRound.id, 'revealed')} disabled={busy}>
+                        <Eye className="w-4 h-4 mr-2" />
+                        Reveal Answer
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      onClick={() => nextQuestion && handleSelectQuestion(currentRound.id, nextQuestion.id)}
+                      disabled={busy || !nextQuestion}
+                    >
+                      Next
+                      <ChevronRight className="w-4 h-4 ml-1" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Round Questions */}
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <CardTitle>
+                      Round {currentRound.round_number}{currentRound.title && `: ${currentRound.title}`}
+                    </CardTitle>
+                    <Button
+                      variant="outline"
+                      onClick={() => handleCompleteRound(currentRound.id)}
+                      disabled={busy}
+                    >
+                      <Flag className="w-4 h-4 mr-2" />
+                      Complete Round
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {roundQuestions.map(rq => {
+                    const rqState = roundQuestionState(rq);
+                    return (
+                      <button
+                        key={rq.id}
+                        type="button"
+                        className={`w-full text-left rounded-md border p-3 text-sm transition-colors ${
+                          rq.id === currentQuestion?.id ? 'border-primary bg-primary/5' : 'hover:bg-accent'
+                        }`}
+                        onClick={() => handleSelectQuestion(currentRound.id, rq.id)}
+                        disabled={busy || rq.id === currentQuestion?.id}
+                        data-testid={`round-question-${rq.id}`}
+                      >
+                        <span className="font-semibold mr-2">{rq.question_order}.</span>
+                        {rq.question.question}
+                        {rqState !== 'pending' && (
+                          <Badge variant="outline" className="ml-2">{QUESTION_STATE_LABELS[rqState]}</Badge>
+                        )}
+                      </button>
+                    );
+                  })}
+                </CardContent>
+              </Card>
+            </>
+          )}
+
+          {game.status === 'in_progress' && !currentRound && (
+            <Card>
+              <CardHeader>
+                <CardTitle>{nextRound ? 'Between rounds' : 'All rounds complete'}</CardTitle>
+                <CardDescription>
+                  {nextRound
+                    ? `Round ${nextRound.round_number} of ${game.total_rounds}${nextRound.title ? ` (${nextRound.title})` : ''} is up next.`
+                    : 'End the game to show the final results.'}
+                </CardDescription>
+              </CardHeader>
+              {nextRound && (
+                <CardContent>
+                  <Button onClick={() => handleStartRound(nextRound.id)} disabled={busy}>
+                    <Play className="w-4 h-4 mr-2" />
+                    Start Round {nextRound.round_number}
+                  </Button>
+                </CardContent>
+              )}
+            </Card>
+          )}
+
+          {game.status === 'in_progress' && !currentRound && !nextRound && (
+            <TieBreakerPanel game={game} teams={teams} tieBreaker={tieBreaker} onChange={refresh} />
+          )}
+
+          {game.status === 'in_progress' && (
+            <Button variant="destructive" onClick={handleEndGame} disabled={busy}>
+              <Square className="w-4 h-4 mr-2" />
+              End Game
+            </Button>
+          )}
+
+          {game.status === 'completed' && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Trophy className="w-5 h-5 mr-2 text-yellow-500" />
+                  Final Results
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {standings.map((team, index) => (
+                  <div key={team.id} className="flex items-center justify-between">
+                    <span>
+                      <span className="font-semibold mr-2">{index + 1}.</span>
+                      <span style={{ color: team.display_color }}>{team.name}</span>
+                      {team.id === tieBreaker?.winner_team_id && (
+                        <Badge variant="secondary" className="ml-2">Won tie-breaker</Badge>
+                      )}
+                    </span>
+                    <span className="font-bold">{team.current_score}</span>
+                  </div>
+                ))}
+                <Button variant="outline" className="mt-2" asChild>
+                  <Link to={`/host/${gameId}/report`}>
+                    <BarChart3 className="w-4 h-4 mr-2" />
+                    View Report
+                  </Link>
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          {game.status === 'completed' && <GuestUpgradePanel game={game} teams={teams} />}
+        </div>
+
+        {/* Teams */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Users className="w-5 h-5 mr-2" />
+              Teams
+            </CardTitle>
+            {currentQuestion && game.status === 'in_progress' && (
+              <CardDescription>
+                {answeredCount} of {teams.length} answered
+              </CardDescription>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {teams.length === 0 && (
+              <p className="text-sm text-muted-foreground">No teams yet</p>
+            )}
+            {standings.map(team => {
+              const answer = currentQuestion ? getTeamAnswer(team.id) : undefined;
+              return (
+                <div
+                  key={team.id}
+                  className="flex items-center justify-between rounded-md border-l-4 pl-3"
+                  style={{ borderLeftColor: team.display_color }}
+                  data-testid={`host-team-${team.id}`}
+                >
+                  <div>
+                    <p className="font-medium">{team.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {team.players.length} player{team.players.length === 1 ? '' : 's'} · {team.current_score} pts
+                    </p>
+                  </div>
+                  {currentQuestion && game.status === 'in_progress' && (
+                    answer ? (
+                      <div className="flex flex-col items-end gap-1">
+                        <span className="flex items-center text-sm text-green-600 dark:text-green-400">
+                          <CheckCircle className="w-4 h-4 mr-1" />
+                          {formatAnswer(currentQuestion, answer.answer)}
+                        </span>
+                        {/* Numeric answers are scored when answering closes */}
+                        {currentQuestion.question_type === 'numeric' && answer.distance != null && (
+                          <span className="text-xs text-muted-foreground">
+                            Off by {answer.distance}{answer.is_correct && ' · closest'}
+                          </span>
+                        )}
+                        {/* Fuzzy matching can miss aliases and odd spellings, so the host can regrade */}
+                        {currentQuestion.question_type === 'free_text' && (
+                          <>
+                            <span className="text-xs text-muted-foreground">
+                              {Math.round((answer.match_score ?? 0) * 100)}% match ·{' '}
+                              {answer.is_correct ? 'correct' : 'incorrect'}
+                              {answer.overridden_at && ' (overridden)'}
+                            </span>
+                            <div className="flex gap-1">
+                              <Button
+                                size="sm"
+                                variant={answer.is_correct ? 'default' : 'outline'}
+                                onClick={() => handleOverrideAnswer(answer.id, true)}
+                                disabled={busy || answer.is_correct}
+                                data-testid={`override-correct-${team.id}`}
+                              >
+                                <CheckCircle className="w-3 h-3 mr-1" />
+                                Correct
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant={answer.is_correct ? 'outline' : 'default'}
+                                onClick={() => handleOverrideAnswer(answer.id, false)}
+                                disabled={busy || !answer.is_correct}
+                                data-testid={`override-incorrect-${team.id}`}
+                              >
+                                <XCircle className="w-3 h-3 mr-1" />
+                                Incorrect
+                              </Button>
+                            </div>
+                          </>
+                        )}
+                      </div>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">Waiting</span>
+                    )
+                  )}
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,307 @@
+import { useState, useEffect, useCallback } from 'react';
+import { gameService } from '@/services/game';
+import { DIFFICULTY_CURVE_LABELS, DIFFICULTY_LABELS, difficultyLevel, getCurveTarget } from '@/lib/difficulty';
+import { QUESTION_TYPE_LABELS, QUESTION_TYPES } from '@/lib/questionTypes';
+import type { DifficultyCurve, QuestionType } from '@/contracts/game';
+import { TIE_BREAKER_DESCRIPTIONS, TIE_BREAKER_LABELS } from '@/lib/tieBreaker';
+import type { Game, Round, RoundQuestionDetail, RoundTheme, TieBreakerMode } from '@/contracts/multi-user-types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ListOrdered, RefreshCw, Shuffle, Loader2 } from 'lucide-react';
+
+interface PlannedRound {
+  round: Round;
+  questions: RoundQuestionDetail[];
+}
+
+type ThemeDraft = Required<RoundTheme>;
+
+// Select items can't have an empty value, so "no tie-breaker" gets its own
+const NO_TIE_BREAKER = 'none';
+
+// One theme per round of the game, starting from whatever is already planned
+const toThemeDrafts = (rounds: Round[], totalRounds: number): ThemeDraft[] =>
+  Array.from({ length: totalRounds }, (_, index) => {
+    const round = rounds.find(r => r.round_number === index + 1);
+    return { title: round?.title ?? '', categories: round?.categories ?? [] };
+  });
+
+interface RoundPlannerProps {
+  game: Game;
+  onGameChange: () => Promise<void> | void;
+}
+
+// Lets the host theme and plan the rounds before the game starts, check the
+// difficulty and category mix, and swap out individual questions
+export function RoundPlanner({ game, onGameChange }: RoundPlannerProps) {
+  const [plan, setPlan] = useState<PlannedRound[]>([]);
+  const [themes, setThemes] = useState<ThemeDraft[]>(() => toThemeDrafts([], game.total_rounds));
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null); // what is being changed
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPlan = useCallback(async () => {
+    try {
+      const rounds = await gameService.getGameRounds(game.id);
+      setPlan(await Promise.all(rounds.map(async round => ({
+        round,
+        questions: await gameService.getRoundQuestions(round.id),
+      }))));
+      return rounds;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load rounds');
+    } finally {
+      setLoading(false);
+    }
+  }, [game.id]);
+
+  // Themes only come from the saved plan on first load, so swapping a
+  // question doesn't throw away edits the host hasn't planned yet
+  useEffect(() => {
+    loadPlan().then(rounds => {
+      if (rounds) {
+        setThemes(toThemeDrafts(rounds, game.total_rounds));
+      }
+    });
+  }, [loadPlan, game.total_rounds]);
+
+  const updateTheme = (index: number, changes: Partial<ThemeDraft>) => {
+    setThemes(current => current.map((theme, i) => (i === index ? { ...theme, ...changes } : theme)));
+  };
+
+  const toggleCategory = (index: number, category: string, checked: boolean) => {
+    const { categories } = themes[index];
+    updateTheme(index, {
+      categories: checked ? [...categories, category] : categories.filter(c => c !== category),
+    });
+  };
+
+  const themesToSave = (): RoundTheme[] =>
+    themes.map(theme => ({ title: theme.title.trim() || undefined, categories: theme.categories }));
+
+  const runChange = async (label: string, change: () => Promise<unknown>) => {
+    setBusy(label);
+    setError(null);
+    try {
+      await change();
+      await loadPlan();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update rounds');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handlePlan = () => runChange('plan', () => gameService.createRounds(game.id, themesToSave()));
+
+  // A new curve only matters for a fresh plan, so re-plan straight away
+  const handleCurveChange = (curve: DifficultyCurve) => runChange('plan', async () => {
+    await gameService.updateGame(game.id, { difficulty_curve: curve });
+    await onGameChange();
+    await gameService.createRounds(game.id, themesToSave());
+  });
+
+  // Like the curve, the types only matter for a fresh plan
+  const handleQuestionTypeToggle = (questionType: QuestionType, checked: boolean) => runChange('plan', async () => {
+    const questionTypes = checked
+      ? [...game.question_types, questionType]
+      : game.question_types.filter(t => t !== questionType);
+    await gameService.updateGame(game.id, { question_types: questionTypes });
+    await onGameChange();
+    await gameService.createRounds(game.id, themesToSave());
+  });
+
+  const handleTieBreakerChange = (value: string) => runChange('tie-breaker', async () => {
+    await gameService.updateGame(game.id, {
+      tie_breaker: value === NO_TIE_BREAKER ? null : (value as TieBreakerMode),
+    });
+    await onGameChange();
+  });
+
+  const handleSwap = (roundQuestionId: string) =>
+    runChange(roundQuestionId, () => gameService.reshuffleRoundQuestion(roundQuestionId));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ListOrdered className="w-5 h-5 mr-2" />
+          Rounds
+        </CardTitle>
+        <CardDescription>
+          Questions follow the difficulty curve and mix {game.selected_categories.join(', ')} evenly.
+          Give rounds a theme to draw them from fewer categories, and swap any questions you don't want before starting.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-end">
+          <div className="space-y-2 flex-1">
+            <Label htmlFor="difficulty-curve">Difficulty</Label>
+            <Select
+              value={game.difficulty_curve}
+              onValueChange={(value) => handleCurveChange(value as DifficultyCurve)}
+              disabled={busy !== null}
+            >
+              <SelectTrigger id="difficulty-curve">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(DIFFICULTY_CURVE_LABELS) as DifficultyCurve[]).map(curve => (
+                  <SelectItem key={curve} value={curve}>{DIFFICULTY_CURVE_LABELS[curve]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button variant="outline" onClick={handlePlan} disabled={busy !== null}>
+            {busy === 'plan' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+            {plan.length > 0 ? 'Regenerate Rounds' : 'Plan Rounds'}
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Question types</Label>
+          <div className="flex flex-wrap gap-4">
+            {QUESTION_TYPES.map(questionType => {
+              const checked = game.question_types.includes(questionType);
+              return (
+                <div key={questionType} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`question-type-${questionType}`}
+                    checked={checked}
+                    onCheckedChange={(value) => handleQuestionTypeToggle(questionType, value === true)}
+                    disabled={busy !== null || (checked && game.question_types.length === 1)}
+                  />
+                  <Label htmlFor={`question-type-${questionType}`} className="font-normal">
+                    {QUESTION_TYPE_LABELS[questionType]}
+                  </Label>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="tie-breaker">Tie-breaker</Label>
+          <Select
+            value={game.tie_breaker ?? NO_TIE_BREAKER}
+            onValueChange={handleTieBreakerChange}
+            disabled={busy !== null}
+          >
+            <SelectTrigger id="tie-breaker">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_TIE_BREAKER}>None, tied teams share the win</SelectItem>
+              {(Object.keys(TIE_BREAKER_LABELS) as TieBreakerMode[]).map(mode => (
+                <SelectItem key={mode} value={mode}>{TIE_BREAKER_LABELS[mode]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {game.tie_breaker && (
+            <p className="text-sm text-muted-foreground">
+              {TIE_BREAKER_DESCRIPTIONS[game.tie_breaker]}, played by the teams tied for first after the last round.
+            </p>
+          )}
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : (
+          <>
+            {plan.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                No rounds planned yet. Plan them now to preview the questions, or they'll be picked when the game starts.
+              </p>
+            )}
+            {themes.map((theme, index) => {
+              const roundNumber = index + 1;
+              const planned = plan.find(p => p.round.round_number === roundNumber);
+              const target = difficultyLevel(getCurveTarget(game.difficulty_curve, roundNumber, game.total_rounds));
+              return (
+                <div key={roundNumber} className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <h3 className="font-medium">
+                      Round {roundNumber}{planned?.round.title && `: ${planned.round.title}`}
+                    </h3>
+                    {target && <Badge variant="outline">Aiming for {DIFFICULTY_LABELS[target].toLowerCase()}</Badge>}
+                  </div>
+                  <Input
+                    aria-label={`Round ${roundNumber} theme`}
+                    placeholder="Theme, e.g. Music (optional)"
+                    maxLength={100}
+                    value={theme.title}
+                    onChange={(e) => updateTheme(index, { title: e.target.value })}
+                    disabled={busy !== null}
+                  />
+                  <div className="flex flex-wrap gap-x-4 gap-y-2 text-sm">
+                    {game.selected_categories.map(category => (
+                      <div key={category} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`round-${roundNumber}-category-${category}`}
+                          checked={theme.categories.includes(category)}
+                          onCheckedChange={(checked) => toggleCategory(index, category, checked === true)}
+                          disabled={busy !== null}
+                        />
+                        <Label htmlFor={`round-${roundNumber}-category-${category}`}>{category}</Label>
+                      </div>
+                    ))}
+                    {theme.categories.length === 0 && (
+                      <span className="text-muted-foreground">All categories</span>
+                    )}
+                  </div>
+                  {planned?.questions.map(roundQuestion => {
+                    const level = difficultyLevel(roundQuestion.question.difficulty);
+                    return (
+                      <div
+                        key={roundQuestion.id}
+                        className="flex items-center justify-between gap-3 rounded-md border p-2 text-sm"
+                        data-testid={`planned-question-${roundQuestion.id}`}
+                      >
+                        <div className="min-w-0">
+                          <p className="truncate">{roundQuestion.question_order}. {roundQuestion.question.question}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {roundQuestion.question.category} · {level ? DIFFICULTY_LABELS[level] : 'Not rated yet'}
+                            {roundQuestion.question_type !== 'multiple_choice' && ` · ${QUESTION_TYPE_LABELS[roundQuestion.question_type]}`}
+                          </p>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleSwap(roundQuestion.id)}
+                          disabled={busy !== null}
+                          aria-label={`Swap question ${roundQuestion.question_order} of round ${roundNumber}`}
+                        >
+                          {busy === roundQuestion.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Shuffle className="w-4 h-4" />}
+                        </Button>
+                      </div>
+                    );
+                  })}
+                </div>
+              );
+            })}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,244 @@
+import { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+import { QRCodeSVG } from 'qrcode.react';
+import { LiveGameProvider } from '@/contexts/LiveGameContext';
+import { useLiveGame } from '@/contexts/useLiveGame';
+import { Countdown } from '@/components/game/Countdown';
+import { getRoundMultiplier, isWagerRound } from '@/lib/scoring';
+import { orderStandings } from '@/lib/tieBreaker';
+import { QUESTION_TYPE_DESCRIPTIONS } from '@/lib/questionTypes';
+import {
+  Lock,
+  CheckCircle,
+  Trophy,
+  Users,
+  Loader2
+} from 'lucide-react';
+
+const ANSWER_LABELS = ['A', 'B', 'C', 'D'] as const;
+
+// Big screen view for a hosted game. Everything here is driven by live game
+// state; the host runs the game from the control console, never from the TV.
+export function TVDisplay() {
+  const { gameId } = useParams<{ gameId: string }>();
+
+  if (!gameId) {
+    return null;
+  }
+
+  return (
+    <LiveGameProvider gameId={gameId}>
+      <TVDisplayScreen />
+    </LiveGameProvider>
+  );
+}
+
+function TVDisplayScreen() {
+  const { state, hasTeamAnswered } = useLiveGame();
+  const { game, currentRound, currentQuestion, roundQuestions, teams, tieBreaker } = state;
+
+  const questionState = currentRound?.question_state ?? 'pending';
+
+  const questionOpenedAt = currentRound?.question_opened_at;
+
+  // Restart the clock whenever the host opens answering, using the server's
+  // open time so late-joining screens show the same clock
+  const [questionStartedAt, setQuestionStartedAt] = useState(Date.now());
+  useEffect(() => {
+    if (questionState === 'open') {
+      setQuestionStartedAt(questionOpenedAt ? Date.parse(questionOpenedAt) : Date.now());
+    }
+  }, [currentQuestion?.id, questionState, questionOpenedAt]);
+
+  if (state.loading && !game) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-950 text-white">
+        <Loader2 className="h-16 w-16 animate-spin" />
+      </div>
+    );
+  }
+
+  if (state.error || !game) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-950 text-white">
+        <p className="text-4xl">{state.error || 'Game not found'}</p>
+      </div>
+    );
+  }
+
+  const standings = orderStandings(teams, tieBreaker?.winner_team_id);
+  const answerChoices = currentQuestion?.presented_answers ?? [];
+  const revealed = questionState === 'revealed';
+  const wagerRound = !!currentRound && isWagerRound(game.scoring_rules, currentRound.round_number, game.total_rounds);
+  const multiplier = currentRound ? getRoundMultiplier(game.scoring_rules, currentRound.round_number) : 1;
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-white p-10 flex flex-col gap-8">
+      {/* Header */}
+      <header className="flex items-center justify-between">
+        <div>
+          <h1 className="text-5xl font-bold">{game.title}</h1>
+          {game.location && <p className="text-2xl text-slate-400 mt-2">{game.location}</p>}
+        </div>
+        {currentRound && currentQuestion && (
+          <div className="text-right">
+            <p className="text-4xl font-semibold">
+              Round {currentRound.round_number} of {game.total_rounds}
+            </p>
+            {currentRound.title && <p className="text-3xl font-semibold text-slate-300">{currentRound.title}</p>}
+            <p className="text-2xl text-slate-400">
+              Question {currentQuestion.question_order} of {roundQuestions.length}
+            </p>
+            {wagerRound && <p className="text-2xl font-semibold text-yellow-400">Wager round</p>}
+            {!wagerRound && multiplier !== 1 && (
+              <p className="text-2xl font-semibold text-yellow-400">{multiplier}x points</p>
+            )}
+          </div>
+        )}
+      </header>
+
+      <div className="flex-1 grid grid-cols-3 gap-10">
+        {/* Question */}
+        <main className="col-span-2 flex flex-col justify-center gap-10">
+          {game.status === 'setup' && (
+            <div className="flex items-center justify-center gap-16">
+              <div className="rounded-3xl bg-white p-6">
+                <QRCodeSVG
+                  value={`${window.location.origin}/join/${game.join_code}`}
+                  size={320}
+                  data-testid="join-qr-code"
+                />
+              </div>
+              <div className="space-y-6">
+                <p className="text-6xl font-bold flex items-center gap-4">
+                  <Users className="w-16 h-16 text-slate-400" />
+                  Join a team!
+                </p>
+                <p className="text-3xl text-slate-400">Scan the code or enter</p>
+                <p className="text-8xl font-mono font-bold tracking-widest" data-testid="join-code">
+                  {game.join_code}
+                </p>
+                <p className="text-3xl text-slate-400">at {window.location.host}/join</p>
+              </div>
+            </div>
+          )}
+
+          {game.status === 'completed' && (
+            <div className="text-center space-y-6">
+              <Trophy className="w-24 h-24 mx-auto text-yellow-400" />
+              <p className="text-6xl font-bold">Final Results</p>
+              {standings[0] && (
+                <p className="text-5xl" style={{ color: standings[0].display_color }}>
+                  {standings[0].name} wins!
+                </p>
+              )}
+            </div>
+          )}
+
+          {game.status === 'in_progress' && !currentQuestion && (
+            <p className="text-center text-5xl text-slate-400">Get ready for the next round...</p>
+          )}
+
+          {game.status === 'in_progress' && currentQuestion && (
+            <>
+              <div className="space-y-4">
+                <p className="text-3xl uppercase tracking-wide text-slate-400">
+                  {currentQuestion.question.category}
+                </p>
+                <h2 className="text-6xl font-bold leading-tight">{currentQuestion.question.question}</h2>
+              </div>
+
+              {/* Numeric and free-text questions have no choices; teams type the answer */}
+              {answerChoices.length === 0 && (
+                revealed ? (
+                  <div
+                    className="flex items-center justify-center gap-6 rounded-2xl bg-green-600 p-6"
+                    data-testid="tv-typed-answer"
+                  >
+                    <span className="text-5xl font-bold">{currentQuestion.correct_answer}</span>
+                    <CheckCircle className="w-12 h-12" />
+                  </div>
+                ) : (
+                  <p className="text-center text-4xl text-slate-300">
+                    {QUESTION_TYPE_DESCRIPTIONS[currentQuestion.question_type]}
+                  </p>
+                )
+              )}
+
+              <div className="grid grid-cols-2 gap-6">
+                {answerChoices.map((answer, index) => {
+                  const isCorrect = revealed && ANSWER_LABELS[index] === currentQuestion.correct_answer;
+                  return (
+                    <div
+                      key={ANSWER_LABELS[index]}
+                      className={`flex items-center gap-6 rounded-2xl p-6 ${
+                        isCorrect ? 'bg-green-600' : revealed ? 'bg-slate-800 opacity-40' : 'bg-slate-800'
+                      }`}
+                      data-testid={`tv-choice-${ANSWER_LABELS[index]}`}
+                    >
+                      <span className="flex-shrink-0 w-16 h-16 rounded-full bg-slate-100 text-slate-950 flex items-center justify-center text-4xl font-bold">
+                        {ANSWER_LABELS[index]}
+                      </span>
+                      <span className="flex-1 text-4xl">{answer}</span>
+                      {isCorrect && <CheckCircle className="w-12 h-12" />}
+                    </div>
+                  );
+                })}
+              </div>
+
+              {questionState === 'pending' && (
+                <p className="text-center text-4xl text-slate-400">Get ready...</p>
+              )}
+              {questionState === 'open' && game.question_time_limit_seconds !== null && (
+                <Countdown
+                  startedAt={questionStartedAt}
+                  durationMs={game.question_time_limit_seconds * 1000}
+                  labelClassName="text-6xl text-center"
+                />
+              )}
+              {questionState === 'open' && game.question_time_limit_seconds === null && (
+                <p className="text-center text-5xl font-bold">Answering is open!</p>
+              )}
+              {questionState === 'closed' && (
+                <p className="text-center text-5xl font-bold text-slate-300">Answers are locked!</p>
+              )}
+            </>
+          )}
+        </main>
+
+        {/* Scoreboard */}
+        <aside className="rounded-2xl bg-slate-900 p-8 space-y-4">
+          <h3 className="text-4xl font-bold flex items-center gap-3">
+            <Trophy className="w-10 h-10 text-yellow-400" />
+            Scoreboard
+          </h3>
+          {standings.length === 0 && (
+            <p className="text-2xl text-slate-400">No teams yet</p>
+          )}
+          <ol className="space-y-3">
+            {standings.map((team, index) => (
+              <li
+                key={team.id}
+                className="flex items-center gap-4 rounded-xl bg-slate-800 p-4 border-l-8"
+                style={{ borderColor: team.display_color }}
+                data-testid={`scoreboard-team-${team.id}`}
+              >
+                <span className="text-3xl font-bold text-slate-400 w-10">{index + 1}</span>
+                <span className="flex-1 text-3xl font-semibold truncate" style={{ color: team.display_color }}>
+                  {team.name}
+                </span>
+                {currentQuestion && game.status === 'in_progress' && (
+                  <Lock
+                    className={`w-8 h-8 ${hasTeamAnswered(team.id) ? 'text-green-400' : 'text-slate-700'}`}
+                    aria-label={hasTeamAnswered(team.id) ? 'Answer locked' : 'Waiting for answer'}
+                  />
+                )}
+                <span className="text-4xl font-bold tabular-nums">{team.current_score}</span>
+              </li>
+            ))}
+          </ol>
+        </aside>
+      </div>
+    </div>
+  );
+}
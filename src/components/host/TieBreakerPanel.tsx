@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { gameService } from '@/services/game';
+import { TIE_BREAKER_DESCRIPTIONS, TIE_BREAKER_LABELS, findTiedLeaders, rankTieBreakerAnswers } from '@/lib/tieBreaker';
+import type { Game, Team, TieBreakerDetail } from '@/contracts/multi-user-types';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Swords, Flag, Trophy, Loader2 } from 'lucide-react';
+
+interface TieBreakerPanelProps {
+  game: Game;
+  teams: Pick<Team, 'id' | 'name' | 'display_color' | 'current_score'>[];
+  tieBreaker: TieBreakerDetail | null;
+  onChange: () => Promise<void> | void;
+}
+
+// Lets the host settle a tie for first once the rounds are over: start a
+// tie-breaker for the tied teams, close it once they've answered, and play
+// another if they're still level
+export function TieBreakerPanel({ game, teams, tieBreaker, onChange }: TieBreakerPanelProps) {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const tiedLeaders = findTiedLeaders(teams);
+
+  if (!game.tie_breaker || (!tieBreaker && tiedLeaders.length === 0)) {
+    return null;
+  }
+
+  const runChange = async (change: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await change();
+      await onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the tie-breaker');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleStart = () => runChange(() => gameService.startTieBreaker(game.id));
+  const handleResolve = (tieBreakerId: string) => runChange(() => gameService.resolveTieBreaker(tieBreakerId));
+
+  const teamName = (teamId: string) => teams.find(team => team.id === teamId)?.name ?? 'Unknown team';
+  const teamNames = (teamIds: string[]) => teamIds.map(teamName).join(', ');
+
+  const stillTied = tieBreaker?.status === 'resolved' && !tieBreaker.winner_team_id;
+  const ranked = tieBreaker?.status === 'resolved' && tieBreaker.correct_answer !== null
+    ? rankTieBreakerAnswers(tieBreaker, tieBreaker.correct_answer, tieBreaker.answers).answers
+    : [];
+
+  return (
+    <Card data-testid="tie-breaker-panel">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Swords className="w-5 h-5 mr-2" />
+          Tie-Breaker
+          <Badge variant="outline" className="ml-2">{TIE_BREAKER_LABELS[game.tie_breaker]}</Badge>
+        </CardTitle>
+        <CardDescription>{TIE_BREAKER_DESCRIPTIONS[game.tie_breaker]}.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {!tieBreaker && (
+          <p className="text-sm">{teamNames(tiedLeaders)} are tied for first.</p>
+        )}
+
+        {tieBreaker && (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              {tieBreaker.question.category} · {teamNames(tieBreaker.team_ids)}
+            </p>
+            <p className="text-lg font-medium">{tieBreaker.question.question}</p>
+            {tieBreaker.presented_answers && (
+              <ol className="grid grid-cols-1 gap-1 text-sm sm:grid-cols-2">
+                {tieBreaker.presented_answers.map((answer, index) => (
+                  <li key={index}>
+                    <span className="font-semibold mr-1">{String.fromCharCode(65 + index)}.</span>
+                    {answer}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        )}
+
+        {tieBreaker?.status === 'open' && (
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">
+              {tieBreaker.answers.length} of {tieBreaker.team_ids.length} answered
+            </span>
+            <Button onClick={() => handleResolve(tieBreaker.id)} disabled={busy}>
+              {busy ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Flag className="w-4 h-4 mr-2" />}
+              Resolve
+            </Button>
+          </div>
+        )}
+
+        {tieBreaker?.status === 'resolved' && (
+          <div className="space-y-2">
+            <p className="text-sm">
+              Answer: <span className="font-semibold">{tieBreaker.correct_answer}</span>
+            </p>
+            {ranked.map(answer => (
+              <div key={answer.id} className="flex items-center justify-between text-sm">
+                <span>{teamName(answer.team_id)}</span>
+                <span className={answer.is_correct ? 'font-semibold text-green-600 dark:text-green-400' : ''}>
+                  {answer.answer}
+                  {answer.distance !== null && answer.distance > 0 && ` (off by ${answer.distance})`}
+                </span>
+              </div>
+            ))}
+            {tieBreaker.team_ids
+              .filter(teamId => !tieBreaker.answers.some(answer => answer.team_id === teamId))
+              .map(teamId => (
+                <div key={teamId} className="flex items-center justify-between text-sm text-muted-foreground">
+                  <span>{teamName(teamId)}</span>
+                  <span>No answer</span>
+                </div>
+              ))}
+            {tieBreaker.winner_team_id ? (
+              <p className="flex items-center font-semibold">
+                <Trophy className="w-4 h-4 mr-2 text-yellow-500" />
+                {teamName(tieBreaker.winner_team_id)} wins the tie-breaker
+              </p>
+            ) : (
+              <p className="text-sm">
+                Still tied: {teamNames(tieBreaker.leading_team_ids ?? tieBreaker.team_ids)}
+              </p>
+            )}
+          </div>
+        )}
+
+        {(!tieBreaker || stillTied) && (
+          <Button onClick={handleStart} disabled={busy}>
+            {busy ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Swords className="w-4 h-4 mr-2" />}
+            {tieBreaker ? 'Play Another Tie-Breaker' : 'Start Tie-Breaker'}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, within, fireEvent } from '@testing-library/react';
+import { MemoryRouter, Routes, Route } from 'react-router-dom';
+import { DEFAULT_SCORING_RULES } from '@/lib/scoring';
+import type { Game, GameAnalytics, GameResults, GameSummaryResponse } from '@/contracts/multi-user-types';
+
+const { gameService } = vi.hoisted(() => ({
+  gameService: {
+    getGame: vi.fn(),
+    getGameAnalytics: vi.fn(),
+    getGameResults: vi.fn(),
+  },
+}));
+
+vi.mock('@/services/game', () => ({ gameService }));
+
+vi.mock('@/contexts/AuthContext', () => ({
+  useAuth: () => ({ state: { user: { id: 'host-1' } } }),
+}));
+
+import { GameReport } from '../GameReport';
+
+const game: Game = {
+  id: 'game-1',
+  host_id: 'host-1',
+  title: 'Pub Night',
+  join_code: 'ABC123',
+  scheduled_date: '2024-01-01',
+  max_teams: 20,
+  max_players_per_team: 4,
+  status: 'completed',
+  total_rounds: 1,
+  questions_per_round: 1,
+  selected_categories: ['Science', 'Music'],
+  scoring_rules: DEFAULT_SCORING_RULES,
+  question_time_limit_seconds: 30,
+  difficulty_curve: 'flat',
+  question_types: ['multiple_choice'],
+  tie_breaker: null,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+const analytics: GameAnalytics = {
+  total_questions: 1,
+  total_teams: 4,
+  total_players: 11,
+  average_score: 17.5,
+  completion_rate: 100,
+  average_response_time: 8420,
+  questions: [
+    {
+      round_question_id: 'rq-1',
+      question_id: 'q-1',
+      round_number: 1,
+      round_title: 'Lab Work',
+      question_order: 1,
+      question: 'What is the chemical symbol for gold?',
+      category: 'Science',
+      question_type: 'multiple_choice',
+      presented_answers: ['Ag', 'Au', 'Gd', 'Go'],
+      correct_answer: 'B',
+      answer_count: 4,
+      correct_percentage: 75,
+      answer_distribution: { A: 1, B: 3, C: 0, D: 0 },
+      average_response_time: 8420,
+      difficulty: 0.2,
+    },
+  ],
+  categories: [
+    {
+      category: 'Science',
+      question_count: 1,
+      answer_count: 4,
+      correct_percentage: 75,
+      average_response_time: 8420,
+      average_difficulty: 0.2,
+    },
+  ],
+  question_difficulty_stats: {},
+};
+
+const results: GameResults = {
+  game_id: 'game-1',
+  summary: {
+    game,
+    teams: [],
+    rounds: [],
+    overall_stats: { total_questions: 0, total_correct_answers: 0, average_accuracy: 0, duration_ms: 0 },
+  } as unknown as GameSummaryResponse,
+  recorded_at: '2024-01-01T22:00:00Z',
+};
+
+const renderReport = () =>
+  render(
+    <MemoryRouter initialEntries={['/host/game-1/report']}>
+      <Routes>
+        <Route path="/host/:gameId/report" element={<GameReport />} />
+      </Routes>
+    </MemoryRouter>
+  );
+
+describe('GameReport', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    gameService.getGame.mockResolvedValue(game);
+    gameService.getGameAnalytics.mockResolvedValue(analytics);
+    gameService.getGameResults.mockResolvedValue(results);
+  });
+
+  it('should summarize the game and each category', async () => {
+    renderReport();
+
+    expect(await screen.findByText('Game Report')).toBeInTheDocument();
+    expect(gameService.getGameAnalytics).toHaveBeenCalledWith('game-1');
+    expect(screen.getByText('11')).toBeInTheDocument();
+    expect(screen.getAllByText('8.4s').length).toBeGreaterThan(0);
+
+    const category = screen.getByTestId('report-category-Science');
+    expect(within(category).getByText('75% correct')).toBeInTheDocument();
+    expect(within(category).getByText(/Usually easy/)).toBeInTheDocument();
+  });
+
+  it('should show how teams answered each question', async () => {
+    renderReport();
+
+    expect(await screen.findByText('Round 1: Lab Work')).toBeInTheDocument();
+    const question = screen.getByTestId('report-question-rq-1');
+    expect(within(question).getByText('1. What is the chemical symbol for gold?')).toBeInTheDocument();
+    expect(within(question).getByText(/4 answers · 8.4s average · Rated easy/)).toBeInTheDocument();
+    expect(within(question).getByText('3')).toBeInTheDocument();
+  });
+
+  it('should print the recorded results sheet', async () => {
+    const sheet = { document: { write: vi.fn(), close: vi.fn() }, focus: vi.fn(), print: vi.fn() };
+    const open = vi.spyOn(window, 'open').mockReturnValue(sheet as unknown as Window);
+    renderReport();
+
+    fireEvent.click(await screen.findByRole('button', { name: /Print Results Sheet/ }));
+
+    expect(gameService.getGameResults).toHaveBeenCalledWith('game-1');
+    expect(sheet.document.write).toHaveBeenCalledWith(expect.stringContaining('<h1>Pub Night</h1>'));
+    expect(sheet.print).toHaveBeenCalled();
+    open.mockRestore();
+  });
+
+  it('should not offer exports before results are recorded', async () => {
+    gameService.getGameResults.mockResolvedValue(null);
+    renderReport();
+
+    expect(await screen.findByText('Game Report')).toBeInTheDocument();
+    expect(screen.queryByText('Final Results')).not.toBeInTheDocument();
+  });
+
+  it('should only show the report to the host', async () => {
+    gameService.getGame.mockResolvedValue({ ...game, host_id: 'someone-else' });
+    renderReport();
+
+    expect(await screen.findByText('Only the host can view this report.')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import type { TeamWithPlayers } from '@/contracts/multi-user-types';
+
+const { gameService } = vi.hoisted(() => ({
+  gameService: {
+    createGuestUpgradeCode: vi.fn(),
+  },
+}));
+
+vi.mock('@/services/game', () => ({ gameService }));
+
+import { GuestUpgradePanel } from '../GuestUpgradePanel';
+
+const teams: Pick<TeamWithPlayers, 'id' | 'name' | 'players'>[] = [
+  {
+    id: 't-1',
+    name: 'Quizzly Bears',
+    players: [
+      { id: 'guest-1', display_name: 'Sam', joined_at: '2024-01-01T00:00:00Z' },
+      { id: 'player-2', display_name: 'Alex', joined_at: '2024-01-01T00:00:00Z' },
+    ],
+  },
+];
+
+describe('GuestUpgradePanel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should issue an upgrade code for a guest', async () => {
+    const userActions = userEvent.setup();
+    gameService.createGuestUpgradeCode.mockResolvedValue('ABCD2345');
+    render(<GuestUpgradePanel game={{ id: 'game-1' }} teams={teams} />);
+
+    await userActions.click(screen.getAllByRole('button', { name: 'Upgrade Code' })[0]);
+
+    expect(gameService.createGuestUpgradeCode).toHaveBeenCalledWith('game-1', 'guest-1');
+    expect(await screen.findByTestId('upgrade-code-guest-1')).toHaveTextContent('ABCD2345');
+  });
+
+  it('should say when a player already has a full account', async () => {
+    const userActions = userEvent.setup();
+    gameService.createGuestUpgradeCode.mockRejectedValue(
+      new Error('Failed to create upgrade code: Only guests can be upgraded')
+    );
+    render(<GuestUpgradePanel game={{ id: 'game-1' }} teams={teams} />);
+
+    await userActions.click(screen.getAllByRole('button', { name: 'Upgrade Code' })[1]);
+
+    expect(await screen.findByText('Failed to create upgrade code: Only guests can be upgraded')).toBeInTheDocument();
+  });
+});
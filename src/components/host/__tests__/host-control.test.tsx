@@ -0,0 +1,272 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter, Routes, Route } from 'react-router-dom';
+import { DEFAULT_SCORING_RULES } from '@/lib/scoring';
+import type {
+  Game,
+  GameStateUpdate,
+  QuestionState,
+  Round,
+  RoundQuestionDetail,
+  TeamAnswer,
+  TeamWithPlayers,
+} from '@/contracts/multi-user-types';
+
+const { gameService } = vi.hoisted(() => ({
+  gameService: {
+    getGameState: vi.fn(),
+    getGameRounds: vi.fn(),
+    getTieBreaker: vi.fn(),
+    getRoundQuestions: vi.fn(),
+    subscribeToGameEvents: vi.fn(),
+    startMultiUserGame: vi.fn(),
+    setCurrentQuestion: vi.fn(),
+    setQuestionState: vi.fn(),
+    overrideTeamAnswer: vi.fn(),
+  },
+}));
+
+vi.mock('@/services/game', () => ({ gameService }));
+
+vi.mock('@/contexts/AuthContext', () => ({
+  useAuth: () => ({ state: { user: { id: 'host-1' } } }),
+}));
+
+// Planning and tie-breakers have their own tests
+vi.mock('../RoundPlanner', () => ({ RoundPlanner: () => null }));
+vi.mock('../TieBreakerPanel', () => ({ TieBreakerPanel: () => null }));
+
+import { HostControl } from '../HostControl';
+
+const game: Game = {
+  id: 'game-1',
+  host_id: 'host-1',
+  title: 'Pub Night',
+  join_code: 'ABC123',
+  scheduled_date: '2024-01-01',
+  max_teams: 20,
+  max_players_per_team: 4,
+  status: 'in_progress',
+  total_rounds: 3,
+  questions_per_round: 2,
+  selected_categories: ['Science'],
+  scoring_rules: DEFAULT_SCORING_RULES,
+  question_time_limit_seconds: null,
+  difficulty_curve: 'flat',
+  question_types: ['multiple_choice'],
+  tie_breaker: null,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+const round: Round = {
+  id: 'round-1',
+  game_id: 'game-1',
+  round_number: 1,
+  categories: [],
+  status: 'in_progress',
+  current_round_question_id: 'rq-1',
+  question_state: 'pending',
+  created_at: '2024-01-01T00:00:00Z',
+};
+
+const questions: RoundQuestionDetail[] = [
+  {
+    id: 'rq-1',
+    round_id: 'round-1',
+    question_id: 'q-1',
+    question_order: 1,
+    question: { category: 'Science', question: 'What is the chemical symbol for gold?' },
+    question_type: 'multiple_choice',
+    presented_answers: ['Ag', 'Au', 'Gd', 'Go'],
+    correct_answer: 'B',
+    created_at: '2024-01-01T00:00:00Z',
+  },
+  {
+    id: 'rq-2',
+    round_id: 'round-1',
+    question_id: 'q-2',
+    question_order: 2,
+    question: { category: 'Music', question: 'Who recorded Abbey Road?' },
+    question_type: 'free_text',
+    presented_answers: [],
+    correct_answer: 'The Beatles',
+    created_at: '2024-01-01T00:00:00Z',
+  },
+];
+
+const teams: TeamWithPlayers[] = [
+  { id: 't-1', game_id: 'game-1', name: 'Quizzly Bears', display_color: '#FF0000', current_score: 10, created_at: '2024-01-01T00:00:00Z', players: [] },
+  { id: 't-2', game_id: 'game-1', name: 'Know-It-Owls', display_color: '#0000FF', current_score: 20, created_at: '2024-01-01T00:00:00Z', players: [] },
+];
+
+const answer = (overrides: Partial<TeamAnswer> = {}): TeamAnswer => ({
+  id: 'answer-1',
+  team_id: 't-1',
+  round_question_id: 'rq-1',
+  submitted_by: 'player-1',
+  answer: 'B',
+  is_correct: false,
+  points_earned: 0,
+  base_points: 0,
+  speed_bonus: 0,
+  submitted_at: '2024-01-01T20:00:00Z',
+  ...overrides,
+});
+
+const snapshot = (questionState: QuestionState, overrides: Partial<GameStateUpdate> = {}): GameStateUpdate => ({
+  game,
+  current_round: { ...round, question_state: questionState },
+  teams,
+  current_question: questions[0],
+  team_answers: [],
+  ...overrides,
+});
+
+const renderConsole = () =>
+  render(
+    <MemoryRouter initialEntries={['/host/game-1/control']}>
+      <Routes>
+        <Route path="/host/:gameId/control" element={<HostControl />} />
+      </Routes>
+    </MemoryRouter>
+  );
+
+describe('HostControl', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    gameService.getGameState.mockResolvedValue(snapshot('pending'));
+    gameService.getGameRounds.mockResolvedValue([round]);
+    gameService.getTieBreaker.mockResolvedValue(null);
+    gameService.getRoundQuestions.mockResolvedValue(questions);
+    gameService.subscribeToGameEvents.mockReturnValue(vi.fn());
+    // The console reloads after each action, so let the server move the question on
+    gameService.setQuestionState.mockImplementation(async (_roundId: string, next: QuestionState) => {
+      gameService.getGameState.mockResolvedValue(snapshot(next));
+    });
+  });
+
+  it('should start the game once a team has joined', async () => {
+    const userActions = userEvent.setup();
+    gameService.getGameState.mockResolvedValue(snapshot('pending', {
+      game: { ...game, status: 'setup' },
+      current_round: undefined,
+      current_question: undefined,
+    }));
+    renderConsole();
+
+    await userActions.click(await screen.findByRole('button', { name: /Start Game/ }));
+
+    expect(gameService.startMultiUserGame).toHaveBeenCalledWith('game-1');
+    expect(gameService.getGameState).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not start a game nobody has joined', async () => {
+    gameService.getGameState.mockResolvedValue(snapshot('pending', {
+      game: { ...game, status: 'setup' },
+      teams: [],
+      current_round: undefined,
+      current_question: undefined,
+    }));
+    renderConsole();
+
+    expect(await screen.findByRole('button', { name: /Start Game/ })).toBeDisabled();
+    expect(screen.getByText('No teams have joined yet.')).toBeInTheDocument();
+  });
+
+  it('should open, close and reveal the live question', async () => {
+    const userActions = userEvent.setup();
+    renderConsole();
+
+    expect(await screen.findByText('Not open yet')).toBeInTheDocument();
+    await userActions.click(screen.getByRole('button', { name: /Open Answering/ }));
+    expect(gameService.setQuestionState).toHaveBeenLastCalledWith('round-1', 'open');
+
+    expect(await screen.findByText('Answering open')).toBeInTheDocument();
+    await userActions.click(screen.getByRole('button', { name: /Close Answering/ }));
+    expect(gameService.setQuestionState).toHaveBeenLastCalledWith('round-1', 'closed');
+
+    expect(await screen.findByText('Answering closed')).toBeInTheDocument();
+    await userActions.click(screen.getByRole('button', { name: /Reveal Answer/ }));
+    expect(gameService.setQuestionState).toHaveBeenLastCalledWith('round-1', 'revealed');
+
+    expect(await screen.findByText('Answer revealed')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /Open Answering|Close Answering|Reveal Answer/ })).not.toBeInTheDocument();
+  });
+
+  it('should advance to the next question in the round', async () => {
+    const userActions = userEvent.setup();
+    renderConsole();
+
+    expect(await screen.findByRole('button', { name: /Previous/ })).toBeDisabled();
+    await userActions.click(screen.getByRole('button', { name: /Next/ }));
+
+    expect(gameService.setCurrentQuestion).toHaveBeenCalledWith('round-1', 'rq-2');
+  });
+
+  it('should let the host go back to a question without opening it again', async () => {
+    const userActions = userEvent.setup();
+    const played = { ...questions[0], opened_at: '2024-01-01T20:00:00Z', closed_at: '2024-01-01T20:01:00Z', revealed_at: '2024-01-01T20:02:00Z' };
+    gameService.getRoundQuestions.mockResolvedValue([played, questions[1]]);
+    gameService.getGameState.mockResolvedValue(snapshot('pending', {
+      current_round: { ...round, current_round_question_id: 'rq-2' },
+      current_question: questions[1],
+    }));
+    gameService.setCurrentQuestion.mockImplementation(async () => {
+      // A stale snapshot still saying pending mustn't offer to open it either
+      gameService.getGameState.mockResolvedValue(snapshot('pending', { current_question: played }));
+    });
+    renderConsole();
+
+    expect(within(await screen.findByTestId('round-question-rq-1')).getByText('Answer revealed')).toBeInTheDocument();
+    await userActions.click(screen.getByRole('button', { name: /Previous/ }));
+
+    expect(gameService.setCurrentQuestion).toHaveBeenCalledWith('round-1', 'rq-1');
+    expect(await screen.findByText('Question 1 of 2')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /Open Answering/ })).toBeDisabled();
+  });
+
+  it('should show the answer and which teams have locked in', async () => {
+    gameService.getGameState.mockResolvedValue(snapshot('open', { team_answers: [answer()] }));
+    renderConsole();
+
+    expect(await screen.findByText('1 of 2 answered')).toBeInTheDocument();
+    expect(screen.getByText('B. Au')).toBeInTheDocument();
+    expect(within(screen.getByTestId('host-team-t-1')).getByText('B')).toBeInTheDocument();
+    expect(within(screen.getByTestId('host-team-t-2')).getByText('Waiting')).toBeInTheDocument();
+  });
+
+  it('should let the host regrade free-text answers', async () => {
+    const userActions = userEvent.setup();
+    gameService.getGameState.mockResolvedValue(snapshot('closed', {
+      current_round: { ...round, current_round_question_id: 'rq-2', question_state: 'closed' },
+      current_question: questions[1],
+      team_answers: [answer({ round_question_id: 'rq-2', answer: 'Beetles', match_score: 0.6 })],
+    }));
+    renderConsole();
+
+    expect(await screen.findByTestId('override-incorrect-t-1')).toBeDisabled();
+    await userActions.click(screen.getByTestId('override-correct-t-1'));
+
+    expect(gameService.overrideTeamAnswer).toHaveBeenCalledWith('answer-1', true);
+  });
+
+  it('should show why an action failed', async () => {
+    const userActions = userEvent.setup();
+    gameService.setQuestionState.mockRejectedValue(new Error('Failed to set question state: Only the host can change question state'));
+    renderConsole();
+
+    await userActions.click(await screen.findByRole('button', { name: /Open Answering/ }));
+
+    expect(await screen.findByText('Failed to set question state: Only the host can change question state')).toBeInTheDocument();
+    expect(screen.getByText('Not open yet')).toBeInTheDocument();
+  });
+
+  it('should only let the host run the game', async () => {
+    gameService.getGameState.mockResolvedValue(snapshot('pending', { game: { ...game, host_id: 'someone-else' } }));
+    renderConsole();
+
+    expect(await screen.findByText('Only the host can control this game.')).toBeInTheDocument();
+  });
+});
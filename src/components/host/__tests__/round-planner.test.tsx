@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { DEFAULT_SCORING_RULES } from '@/lib/scoring';
+import type { Game, Round, RoundQuestionDetail } from '@/contracts/multi-user-types';
+
+const { gameService } = vi.hoisted(() => ({
+  gameService: {
+    getGameRounds: vi.fn(),
+    getRoundQuestions: vi.fn(),
+    createRounds: vi.fn(),
+    reshuffleRoundQuestion: vi.fn(),
+    updateGame: vi.fn(),
+  },
+}));
+
+vi.mock('@/services/game', () => ({ gameService }));
+
+import { RoundPlanner } from '../RoundPlanner';
+
+const game: Game = {
+  id: 'game-1',
+  host_id: 'host-1',
+  title: 'Pub Night',
+  join_code: 'ABC123',
+  scheduled_date: '2024-01-01',
+  max_teams: 20,
+  max_players_per_team: 4,
+  status: 'setup',
+  total_rounds: 2,
+  questions_per_round: 1,
+  selected_categories: ['Science', 'Music'],
+  scoring_rules: DEFAULT_SCORING_RULES,
+  question_time_limit_seconds: 30,
+  difficulty_curve: 'warm_up',
+  question_types: ['multiple_choice'],
+  tie_breaker: null,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+const round = (roundNumber: number): Round => ({
+  id: `round-${roundNumber}`,
+  game_id: game.id,
+  round_number: roundNumber,
+  categories: [],
+  status: 'pending',
+  question_state: 'pending',
+  created_at: '2024-01-01T00:00:00Z',
+});
+
+const plannedQuestion = (id: string, question: string, difficulty: number | null): RoundQuestionDetail => ({
+  id,
+  round_id: 'round-1',
+  question_id: `q-${id}`,
+  question_order: 1,
+  question: { category: 'Science', question, difficulty },
+  question_type: 'multiple_choice',
+  presented_answers: ['Au', 'Ag', 'Gd', 'Go'],
+  correct_answer: 'A',
+  created_at: '2024-01-01T00:00:00Z',
+});
+
+describe('RoundPlanner', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    gameService.getGameRounds.mockResolvedValue([round(1), round(2)]);
+    gameService.getRoundQuestions.mockImplementation(async (roundId: string) =>
+      roundId === 'round-1'
+        ? [plannedQuestion('rq-1', 'What is the chemical symbol for gold?', 0.2)]
+        : [plannedQuestion('rq-2', 'What is the half-life of carbon-14?', null)]
+    );
+  });
+
+  it('should preview each round against its target difficulty', async () => {
+    render(<RoundPlanner game={game} onGameChange={vi.fn()} />);
+
+    expect(await screen.findByText('1. What is the chemical symbol for gold?')).toBeInTheDocument();
+    expect(screen.getByText('Aiming for easy')).toBeInTheDocument();
+    expect(screen.getByText('Aiming for hard')).toBeInTheDocument();
+    expect(screen.getByText('Science · Easy')).toBeInTheDocument();
+    expect(screen.getByText('Science · Not rated yet')).toBeInTheDocument();
+  });
+
+  it('should plan rounds with the themes the host sets', async () => {
+    const userActions = userEvent.setup();
+    gameService.createRounds.mockResolvedValue([]);
+    render(<RoundPlanner game={game} onGameChange={vi.fn()} />);
+
+    await userActions.type(await screen.findByRole('textbox', { name: 'Round 2 theme' }), 'Music');
+    await userActions.click(screen.getAllByRole('checkbox', { name: 'Music' })[1]);
+    await userActions.click(screen.getByRole('button', { name: /Regenerate Rounds/ }));
+
+    expect(gameService.createRounds).toHaveBeenCalledWith(game.id, [
+      { title: undefined, categories: [] },
+      { title: 'Music', categories: ['Music'] },
+    ]);
+  });
+
+  it('should show saved themes', async () => {
+    gameService.getGameRounds.mockResolvedValue([round(1), { ...round(2), title: 'Music', categories: ['Music'] }]);
+    render(<RoundPlanner game={game} onGameChange={vi.fn()} />);
+
+    expect(await screen.findByText('Round 2: Music')).toBeInTheDocument();
+    expect(screen.getByRole('textbox', { name: 'Round 2 theme' })).toHaveValue('Music');
+  });
+
+  it('should swap a single question and reload the plan', async () => {
+    const userActions = userEvent.setup();
+    gameService.reshuffleRoundQuestion.mockResolvedValue('rq-3');
+    render(<RoundPlanner game={game} onGameChange={vi.fn()} />);
+
+    await userActions.click(await screen.findByRole('button', { name: 'Swap question 1 of round 2' }));
+
+    expect(gameService.reshuffleRoundQuestion).toHaveBeenCalledWith('rq-2');
+    await waitFor(() => expect(gameService.getGameRounds).toHaveBeenCalledTimes(2));
+    expect(gameService.createRounds).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, within, act } from '@testing-library/react';
+import { MemoryRouter, Routes, Route } from 'react-router-dom';
+import { DEFAULT_SCORING_RULES } from '@/lib/scoring';
+import type { GameEvent, GameEventCallback } from '@/contracts/multi-user-game';
+import type {
+  Game,
+  GameStateUpdate,
+  QuestionState,
+  Round,
+  RoundQuestionDetail,
+  TeamAnswer,
+  TeamWithPlayers,
+} from '@/contracts/multi-user-types';
+
+const { gameService } = vi.hoisted(() => ({
+  gameService: {
+    getGameState: vi.fn(),
+    getGameRounds: vi.fn(),
+    getTieBreaker: vi.fn(),
+    getRoundQuestions: vi.fn(),
+    subscribeToGameEvents: vi.fn(),
+  },
+}));
+
+vi.mock('@/services/game', () => ({ gameService }));
+
+import { TVDisplay } from '../TVDisplay';
+
+const game: Game = {
+  id: 'game-1',
+  host_id: 'host-1',
+  title: 'Pub Night',
+  join_code: 'ABC123',
+  scheduled_date: '2024-01-01',
+  max_teams: 20,
+  max_players_per_team: 4,
+  status: 'in_progress',
+  total_rounds: 3,
+  questions_per_round: 5,
+  selected_categories: ['Science'],
+  scoring_rules: DEFAULT_SCORING_RULES,
+  question_time_limit_seconds: 30,
+  difficulty_curve: 'flat',
+  question_types: ['multiple_choice'],
+  tie_breaker: null,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+const round: Round = {
+  id: 'round-1',
+  game_id: 'game-1',
+  round_number: 1,
+  categories: [],
+  status: 'in_progress',
+  current_round_question_id: 'rq-1',
+  question_state: 'pending',
+  created_at: '2024-01-01T00:00:00Z',
+};
+
+const question: RoundQuestionDetail = {
+  id: 'rq-1',
+  round_id: 'round-1',
+  question_id: 'q-1',
+  question_order: 1,
+  question: { category: 'Science', question: 'What is the chemical symbol for gold?' },
+  question_type: 'multiple_choice',
+  presented_answers: ['Ag', 'Au', 'Gd', 'Go'],
+  correct_answer: 'B',
+  created_at: '2024-01-01T00:00:00Z',
+};
+
+const teams: TeamWithPlayers[] = [
+  { id: 't-1', game_id: 'game-1', name: 'Quizzly Bears', display_color: '#FF0000', current_score: 10, created_at: '2024-01-01T00:00:00Z', players: [] },
+  { id: 't-2', game_id: 'game-1', name: 'Know-It-Owls', display_color: '#0000FF', current_score: 20, created_at: '2024-01-01T00:00:00Z', players: [] },
+];
+
+const lockedAnswer: TeamAnswer = {
+  id: 'answer-1',
+  team_id: 't-1',
+  round_question_id: 'rq-1',
+  submitted_by: 'player-1',
+  answer: 'B',
+  is_correct: false,
+  points_earned: 0,
+  base_points: 0,
+  speed_bonus: 0,
+  submitted_at: '2024-01-01T20:00:00Z',
+};
+
+const snapshot = (questionState: QuestionState, overrides: Partial<GameStateUpdate> = {}): GameStateUpdate => ({
+  game,
+  current_round: { ...round, question_state: questionState, question_opened_at: new Date().toISOString() },
+  teams,
+  current_question: question,
+  team_answers: [],
+  ...overrides,
+});
+
+let emit: GameEventCallback;
+
+const renderTV = () =>
+  render(
+    <MemoryRouter initialEntries={['/tv/game-1']}>
+      <Routes>
+        <Route path="/tv/:gameId" element={<TVDisplay />} />
+      </Routes>
+    </MemoryRouter>
+  );
+
+// The host moved the live question on; the display reloads the snapshot
+const hostUpdates = async (next: GameStateUpdate, event?: GameEvent) => {
+  gameService.getGameState.mockResolvedValue(next);
+  await act(async () => {
+    emit(event ?? { type: 'question_updated', round: next.current_round! });
+  });
+};
+
+describe('TVDisplay', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    gameService.getGameState.mockResolvedValue(snapshot('pending'));
+    gameService.getGameRounds.mockResolvedValue([round]);
+    gameService.getTieBreaker.mockResolvedValue(null);
+    gameService.getRoundQuestions.mockResolvedValue([question]);
+    gameService.subscribeToGameEvents.mockImplementation((_gameId: string, callback: GameEventCallback) => {
+      emit = callback;
+      return vi.fn();
+    });
+  });
+
+  it('should show the join code while the game is being set up', async () => {
+    gameService.getGameState.mockResolvedValue(snapshot('pending', {
+      game: { ...game, status: 'setup' },
+      current_round: undefined,
+      current_question: undefined,
+    }));
+    renderTV();
+
+    expect(await screen.findByTestId('join-code')).toHaveTextContent('ABC123');
+    expect(screen.getByTestId('join-qr-code')).toBeInTheDocument();
+  });
+
+  it('should follow the question from pending through open and closed to revealed', async () => {
+    renderTV();
+
+    expect(await screen.findByText('What is the chemical symbol for gold?')).toBeInTheDocument();
+    expect(screen.getByText('Get ready...')).toBeInTheDocument();
+    expect(screen.queryByTestId('countdown-seconds')).not.toBeInTheDocument();
+
+    await hostUpdates(snapshot('open'));
+    expect(await screen.findByTestId('countdown-seconds')).toHaveTextContent('30s');
+    expect(screen.queryByText('Get ready...')).not.toBeInTheDocument();
+
+    await hostUpdates(snapshot('closed'));
+    expect(await screen.findByText('Answers are locked!')).toBeInTheDocument();
+    expect(screen.queryByTestId('countdown-seconds')).not.toBeInTheDocument();
+    expect(screen.getByTestId('tv-choice-B')).not.toHaveClass('bg-green-600');
+
+    await hostUpdates(snapshot('revealed'));
+    expect(await screen.findByTestId('tv-choice-B')).toHaveClass('bg-green-600');
+    expect(screen.getByTestId('tv-choice-A')).toHaveClass('opacity-40');
+    expect(screen.queryByText('Answers are locked!')).not.toBeInTheDocument();
+  });
+
+  it('should reveal typed answers only once the host reveals them', async () => {
+    const typed: RoundQuestionDetail = {
+      ...question,
+      question_type: 'numeric',
+      question: { category: 'History', question: 'In what year did Apollo 11 land?' },
+      presented_answers: [],
+      correct_answer: '1969',
+    };
+    gameService.getGameState.mockResolvedValue(snapshot('open', { current_question: typed }));
+    renderTV();
+
+    expect(await screen.findByText('In what year did Apollo 11 land?')).toBeInTheDocument();
+    expect(screen.queryByTestId('tv-typed-answer')).not.toBeInTheDocument();
+
+    await hostUpdates(snapshot('revealed', { current_question: typed }));
+    expect(await screen.findByTestId('tv-typed-answer')).toHaveTextContent('1969');
+  });
+
+  it('should mark teams as they lock in answers', async () => {
+    gameService.getGameState.mockResolvedValue(snapshot('open'));
+    renderTV();
+
+    const bears = await screen.findByTestId('scoreboard-team-t-1');
+    expect(within(bears).getByLabelText('Waiting for answer')).toBeInTheDocument();
+
+    act(() => emit({ type: 'answer_submitted', teamAnswer: lockedAnswer }));
+
+    expect(within(bears).getByLabelText('Answer locked')).toBeInTheDocument();
+    expect(within(screen.getByTestId('scoreboard-team-t-2')).getByLabelText('Waiting for answer')).toBeInTheDocument();
+  });
+
+  it('should keep the scoreboard in score order as scores change', async () => {
+    renderTV();
+
+    await screen.findByTestId('scoreboard-team-t-1');
+    const order = () => screen.getAllByTestId(/^scoreboard-team-/).map(row => row.dataset.testid);
+    expect(order()).toEqual(['scoreboard-team-t-2', 'scoreboard-team-t-1']);
+
+    act(() => emit({ type: 'team_updated', team: { ...teams[0], current_score: 30 } }));
+
+    expect(order()).toEqual(['scoreboard-team-t-1', 'scoreboard-team-t-2']);
+  });
+});
@@ -0,0 +1,6 @@
+export { HostControl } from './HostControl';
+export { TVDisplay } from './TVDisplay';
+export { RoundPlanner } from './RoundPlanner';
+export { GameReport } from './GameReport';
+export { TieBreakerPanel } from './TieBreakerPanel';
+export { GuestUpgradePanel } from './GuestUpgradePanel';
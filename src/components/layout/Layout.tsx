@@ -19,9 +19,12 @@ import { Link, useLocation } from 'react-router-dom';
 import {
   Gamepad2,
   User,
+  UserPlus,
   LogOut,
   Trophy,
-  Home
+  Home,
+  BookOpen,
+  Flag
 } from 'lucide-react';
 
 interface LayoutProps {
@@ -34,7 +37,9 @@ export function Layout({ children }: LayoutProps) {
   const location = useLocation();
 
   const isAuthenticated = state.user && !state.loading;
-  const initials = state.user?.email ? state.user.email.substring(0, 2).toUpperCase() : 'U';
+  const isGuest = !!state.user?.is_anonymous;
+  const userLabel = isGuest ? state.user?.display_name : state.user?.email;
+  const initials = userLabel ? userLabel.substring(0, 2).toUpperCase() : 'U';
 
   const handleSignOut = async () => {
     await signOut();
@@ -54,8 +59,9 @@ export function Layout({ children }: LayoutProps) {
     }
   };
 
-  // Don't show navigation on auth pages
-  const hideNavigation = ['/login', '/register'].includes(location.pathname);
+  // Don't show navigation on auth pages or the full-screen TV display
+  const hideNavigation = ['/login', '/register', '/guest'].includes(location.pathname) ||
+    /^\/host\/[^/]+\/display$/.test(location.pathname);
 
   return (
     <div className="min-h-screen bg-background">
@@ -65,7 +71,7 @@ export function Layout({ children }: LayoutProps) {
           <div className="container mx-auto px-4">
             <div className="flex h-16 items-center justify-between">
               {/* Logo/Brand */}
-              <Link to="/" className="flex items-center space-x-2">
+              <Link to={isGuest ? '/join' : '/'} className="flex items-center space-x-2">
                 <div className="flex items-center justify-center w-8 h-8 bg-primary rounded-lg">
                   <Gamepad2 className="w-5 h-5 text-primary-foreground" />
                 </div>
@@ -73,7 +79,8 @@ export function Layout({ children }: LayoutProps) {
               </Link>
 
               {/* Navigation Menu */}
-              {isAuthenticated && (
+              {/* Guests can only join games, so the host pages stay hidden */}
+              {isAuthenticated && !isGuest && (
                 <NavigationMenu className="hidden md:flex">
                   <NavigationMenuList className="space-x-1">
                     <NavigationMenuItem>
@@ -114,6 +121,35 @@ export function Layout({ children }: LayoutProps) {
                         </Link>
                       </Button>
                     </NavigationMenuItem>
+
+                    {state.user?.is_admin && (
+                      <>
+                        <NavigationMenuItem>
+                          <Button
+                            asChild
+                            variant={location.pathname === '/admin/questions' ? 'default' : 'ghost'}
+                            className="px-4"
+                          >
+                            <Link to="/admin/questions" onClick={() => handleNavigation('/admin/questions')}>
+                              <BookOpen className="w-4 h-4 mr-2" />
+                              Questions
+                            </Link>
+                          </Button>
+                        </NavigationMenuItem>
+                        <NavigationMenuItem>
+                          <Button
+                            asChild
+                            variant={location.pathname === '/admin/reports' ? 'default' : 'ghost'}
+                            className="px-4"
+                          >
+                            <Link to="/admin/reports" onClick={() => handleNavigation('/admin/reports')}>
+                              <Flag className="w-4 h-4 mr-2" />
+                              Reports
+                            </Link>
+                          </Button>
+                        </NavigationMenuItem>
+                      </>
+                    )}
                   </NavigationMenuList>
                 </NavigationMenu>
               )}
@@ -137,22 +173,50 @@ export function Layout({ children }: LayoutProps) {
                     <DropdownMenuContent className="w-56" align="end" forceMount>
                       <div className="flex items-center justify-start gap-2 p-2">
                         <div className="flex flex-col space-y-1 leading-none">
-                          <p className="font-medium text-sm">{state.user?.email}</p>
+                          <p className="font-medium text-sm">{userLabel}</p>
+                          {isGuest && <p className="text-xs text-muted-foreground">Guest</p>}
                         </div>
                       </div>
                       <DropdownMenuSeparator />
-                      <DropdownMenuItem asChild>
-                        <Link to="/profile" className="cursor-pointer" onClick={() => handleNavigation('/profile')}>
-                          <User className="w-4 h-4 mr-2" />
-                          Profile
-                        </Link>
-                      </DropdownMenuItem>
-                      <DropdownMenuItem asChild>
-                        <Link to="/game/setup" className="cursor-pointer" onClick={() => handleNavigation('/game/setup')}>
-                          <Gamepad2 className="w-4 h-4 mr-2" />
-                          New Game
-                        </Link>
-                      </DropdownMenuItem>
+                      {isGuest ? (
+                        <DropdownMenuItem asChild>
+                          <Link to="/upgrade" className="cursor-pointer">
+                            <UserPlus className="w-4 h-4 mr-2" />
+                            Create Account
+                          </Link>
+                        </DropdownMenuItem>
+                      ) : (
+                        <>
+                          <DropdownMenuItem asChild>
+                            <Link to="/profile" className="cursor-pointer" onClick={() => handleNavigation('/profile')}>
+                              <User className="w-4 h-4 mr-2" />
+                              Profile
+                            </Link>
+                          </DropdownMenuItem>
+                          <DropdownMenuItem asChild>
+                            <Link to="/game/setup" className="cursor-pointer" onClick={() => handleNavigation('/game/setup')}>
+                              <Gamepad2 className="w-4 h-4 mr-2" />
+                              New Game
+                            </Link>
+                          </DropdownMenuItem>
+                          {state.user?.is_admin && (
+                            <>
+                              <DropdownMenuItem asChild>
+                                <Link to="/admin/questions" className="cursor-pointer" onClick={() => handleNavigation('/admin/questions')}>
+                                  <BookOpen className="w-4 h-4 mr-2" />
+                                  Question Bank
+                                </Link>
+                              </DropdownMenuItem>
+                              <DropdownMenuItem asChild>
+                                <Link to="/admin/reports" className="cursor-pointer" onClick={() => handleNavigation('/admin/reports')}>
+                                  <Flag className="w-4 h-4 mr-2" />
+                                  Question Reports
+                                </Link>
+                              </DropdownMenuItem>
+                            </>
+                          )}
+                        </>
+                      )}
                       <DropdownMenuSeparator />
                       <DropdownMenuItem onClick={handleSignOut} className="cursor-pointer">
                         <LogOut className="w-4 h-4 mr-2" />
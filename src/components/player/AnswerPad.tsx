@@ -0,0 +1,401 @@
+import { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { LiveGameProvider } from '@/contexts/LiveGameContext';
+import { useLiveGame } from '@/contexts/useLiveGame';
+import { gameService } from '@/services/game';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { getRoundMultiplier, isWagerRound } from '@/lib/scoring';
+import {
+  answerLetters,
+  formatAnswer,
+  isNumericAnswer,
+  MAX_TYPED_ANSWER_LENGTH,
+  QUESTION_TYPE_DESCRIPTIONS,
+} from '@/lib/questionTypes';
+import { Countdown } from '@/components/game/Countdown';
+import { ReportQuestion } from '@/components/game/ReportQuestion';
+import { TieBreakerPad } from './TieBreakerPad';
+import type { Team } from '@/contracts/multi-user-types';
+import {
+  Lock,
+  Users,
+  Trophy,
+  CheckCircle,
+  XCircle,
+  Loader2
+} from 'lucide-react';
+
+// Phone-first answer pad for players in a hosted game
+export function AnswerPad() {
+  const { gameId } = useParams<{ gameId: string }>();
+
+  if (!gameId) {
+    return null;
+  }
+
+  return (
+    <LiveGameProvider gameId={gameId}>
+      <AnswerPadScreen gameId={gameId} />
+    </LiveGameProvider>
+  );
+}
+
+interface AnswerPadScreenProps {
+  gameId: string;
+}
+
+function AnswerPadScreen({ gameId }: AnswerPadScreenProps) {
+  const { state: authState } = useAuth();
+  const { state, addTeamAnswer, getTeamAnswer, refresh } = useLiveGame();
+
+  const [playerTeam, setPlayerTeam] = useState<Team | null>(null);
+  const [teamLoading, setTeamLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [wager, setWager] = useState(0);
+  const [typedAnswer, setTypedAnswer] = useState('');
+
+  const playerId = authState.user?.id;
+
+  // Look up which team this player is on
+  useEffect(() => {
+    if (!playerId) return;
+
+    let mounted = true;
+    setTeamLoading(true);
+
+    gameService.getPlayerTeam(gameId, playerId)
+      .then(team => {
+        if (mounted) setPlayerTeam(team);
+      })
+      .catch(error => {
+        console.error('Failed to load player team:', error);
+      })
+      .finally(() => {
+        if (mounted) setTeamLoading(false);
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, [gameId, playerId]);
+
+  // Clear stale errors, wagers and typed answers when the question changes
+  useEffect(() => {
+    setSubmitError(null);
+    setWager(0);
+    setTypedAnswer('');
+  }, [state.currentQuestion?.id]);
+
+  const { game, currentRound, currentQuestion, tieBreaker } = state;
+  const questionState = currentRound?.question_state ?? 'pending';
+
+  if ((state.loading && !game) || teamLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      </div>
+    );
+  }
+
+  if (state.error || !game) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-md">
+        <Alert variant="destructive">
+          <AlertDescription>{state.error || 'Game not found'}</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  if (!playerTeam) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-md">
+        <Alert>
+          <AlertDescription>
+            You're not on a team for {game.title} yet. Join a team to play.
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const team = state.teams.find(t => t.id === playerTeam.id);
+  const teammates = team?.players ?? [];
+  const lockedAnswer = getTeamAnswer(playerTeam.id);
+  const lockedBy = lockedAnswer
+    ? teammates.find(player => player.id === lockedAnswer.submitted_by)?.display_name ?? 'A teammate'
+    : null;
+  const answerChoices = currentQuestion?.presented_answers ?? [];
+  const questionType = currentQuestion?.question_type ?? 'multiple_choice';
+  const letters = answerLetters(questionType);
+  const typed = questionType === 'numeric' || questionType === 'free_text';
+  const typedAnswerValid = questionType === 'numeric' ? isNumericAnswer(typedAnswer) : typedAnswer.trim() !== '';
+  const teamScore = team?.current_score ?? playerTeam.current_score;
+  const wagerRound = !!currentRound && isWagerRound(game.scoring_rules, currentRound.round_number, game.total_rounds);
+  const maxWager = Math.max(teamScore, 0);
+  const multiplier = currentRound ? getRoundMultiplier(game.scoring_rules, currentRound.round_number) : 1;
+
+  const handleAnswer = async (answer: string) => {
+    if (!playerId || !currentQuestion || lockedAnswer || submitting || questionState !== 'open' || !answer) return;
+
+    setSubmitting(true);
+    setSubmitError(null);
+
+    try {
+      const teamAnswer = await gameService.submitTeamAnswer({
+        team_id: playerTeam.id,
+        round_question_id: currentQuestion.id,
+        answer,
+        submitted_by: playerId,
+        wager: wagerRound ? wager : undefined,
+      });
+      addTeamAnswer(teamAnswer);
+    } catch (error) {
+      // A teammate most likely locked in first; reload to show their answer
+      setSubmitError(error instanceof Error ? error.message : 'Failed to submit answer');
+      await refresh();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-6 max-w-md space-y-4">
+      {/* Team Header */}
+      <Card className="border-l-8" style={{ borderLeftColor: playerTeam.display_color }}>
+        <CardHeader className="pb-2">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-2xl">{playerTeam.name}</CardTitle>
+            <div className="text-right">
+              <div className="text-2xl font-bold text-primary">{teamScore}</div>
+              <div className="text-xs text-muted-foreground">Score</div>
+            </div>
+          </div>
+          <CardDescription>{game.title}</CardDescription>
+        </CardHeader>
+      </Card>
+
+      {submitError && !lockedAnswer && (
+        <Alert variant="destructive">
+          <AlertDescription>{submitError}</AlertDescription>
+        </Alert>
+      )}
+
+      {game.status === 'setup' && (
+        <Card>
+          <CardContent className="py-8 text-center">
+            <Users className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+            <p className="text-lg font-medium">Waiting for the host to start the game</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {game.status === 'completed' && (
+        <Card>
+          <CardContent className="py-8 text-center">
+            <Trophy className="w-12 h-12 mx-auto mb-4 text-yellow-500" />
+            <p className="text-lg font-medium">Game over!</p>
+            <p className="text-muted-foreground">Final score: {teamScore}</p>
+            {tieBreaker?.winner_team_id === playerTeam.id && (
+              <p className="text-muted-foreground">Your team won the tie-breaker</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {game.status === 'in_progress' && !currentQuestion && tieBreaker && (
+        <TieBreakerPad
+          key={tieBreaker.id}
+          tieBreaker={tieBreaker}
+          teamId={playerTeam.id}
+          teammates={teammates}
+          teams={state.teams}
+          onSubmitted={refresh}
+        />
+      )}
+
+      {game.status === 'in_progress' && !currentQuestion && !tieBreaker && (
+        <Card>
+          <CardContent className="py-8 text-center">
+            <Loader2 className="w-8 h-8 mx-auto mb-4 animate-spin text-muted-foreground" />
+            <p className="text-lg font-medium">Get ready for the next question</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {game.status === 'in_progress' && currentQuestion && (
+        <>
+          {/* Question */}
+          <Card>
+            <CardHeader className="pb-2">
+              <div className="flex items-center gap-2">
+                <Badge variant="outline" className="w-fit">{currentQuestion.question.category}</Badge>
+                {wagerRound && <Badge>Wager round</Badge>}
+                {!wagerRound && multiplier !== 1 && <Badge>{multiplier}x points</Badge>}
+              </div>
+              <CardTitle className="text-lg leading-snug">{currentQuestion.question.question}</CardTitle>
+              {questionType !== 'multiple_choice' && (
+                <CardDescription>{QUESTION_TYPE_DESCRIPTIONS[questionType]}</CardDescription>
+              )}
+            </CardHeader>
+            {questionType === 'multiple_choice' && (
+              <CardContent className="space-y-2">
+                {answerChoices.map((answer, index) => (
+                  <div key={letters[index]} className="flex items-start space-x-3 text-sm">
+                    <span className="font-bold">{letters[index]}</span>
+                    <span>{answer}</span>
+                  </div>
+                ))}
+              </CardContent>
+            )}
+          </Card>
+
+          {/* Wager */}
+          {wagerRound && !lockedAnswer && questionState === 'open' && (
+            <Card>
+              <CardContent className="pt-6 space-y-2">
+                <Label htmlFor="wager">Wager (0 to {maxWager})</Label>
+                <Input
+                  id="wager"
+                  type="number"
+                  inputMode="numeric"
+                  min={0}
+                  max={maxWager}
+                  value={wager}
+                  onChange={(e) => setWager(Math.min(maxWager, Math.max(0, Number(e.target.value) || 0)))}
+                  disabled={submitting}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Answer Pad */}
+          {!typed && (
+            <div className="grid grid-cols-2 gap-3">
+              {letters.map((label, index) => {
+                const isLocked = lockedAnswer?.answer === label;
+                return (
+                  <Button
+                    key={label}
+                    variant={isLocked ? 'default' : 'outline'}
+                    className={`h-24 font-bold ${questionType === 'true_false' ? 'text-2xl' : 'text-4xl'}`}
+                    onClick={() => handleAnswer(label)}
+                    disabled={!!lockedAnswer || submitting || questionState !== 'open'}
+                    data-testid={`answer-pad-${label}`}
+                  >
+                    {submitting && !lockedAnswer
+                      ? <Loader2 className="h-6 w-6 animate-spin" />
+                      : questionType === 'true_false' ? answerChoices[index] : label}
+                  </Button>
+                );
+              })}
+            </div>
+          )}
+
+          {typed && !lockedAnswer && questionState === 'open' && (
+            <Card>
+              <CardContent className="pt-6 space-y-2">
+                <Label htmlFor="typed-answer">Your answer</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="typed-answer"
+                    type={questionType === 'numeric' ? 'number' : 'text'}
+                    inputMode={questionType === 'numeric' ? 'decimal' : 'text'}
+                    maxLength={MAX_TYPED_ANSWER_LENGTH}
+                    autoComplete="off"
+                    value={typedAnswer}
+                    onChange={(e) => setTypedAnswer(e.target.value)}
+                    disabled={submitting}
+                  />
+                  <Button
+                    onClick={() => handleAnswer(typedAnswer.trim())}
+                    disabled={submitting || !typedAnswerValid}
+                    data-testid="answer-pad-lock-in"
+                  >
+                    {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Lock In'}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {questionState === 'open' && !lockedAnswer && game.question_time_limit_seconds !== null && currentRound?.question_opened_at && (
+            <Countdown
+              startedAt={Date.parse(currentRound.question_opened_at)}
+              durationMs={game.question_time_limit_seconds * 1000}
+              labelClassName="text-xl text-center"
+            />
+          )}
+
+          {questionState === 'pending' && (
+            <p className="text-center text-sm text-muted-foreground">Answering opens when the host is ready</p>
+          )}
+
+          {!lockedAnswer && (questionState === 'closed' || questionState === 'revealed') && (
+            <p className="text-center text-sm text-muted-foreground">Answering is closed for this question</p>
+          )}
+
+          {lockedAnswer && questionState !== 'revealed' && (
+            <Alert>
+              <Lock className="h-4 w-4" />
+              <AlertDescription>
+                Answer <strong>{formatAnswer(currentQuestion, lockedAnswer.answer)}</strong> locked in by <strong>{lockedBy}</strong>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {lockedAnswer && questionState === 'revealed' && (
+            <Alert variant={lockedAnswer.is_correct ? 'default' : 'destructive'}>
+              {lockedAnswer.is_correct ? <CheckCircle className="h-4 w-4" /> : <XCircle className="h-4 w-4" />}
+              <AlertDescription>
+                {lockedAnswer.is_correct
+                  ? `${questionType === 'numeric' ? 'Closest!' : 'Correct!'} +${lockedAnswer.points_earned} points`
+                  : `Answer ${formatAnswer(currentQuestion, lockedAnswer.answer)} was ${
+                    questionType === 'numeric' ? `off by ${lockedAnswer.distance}, not the closest` : 'incorrect'
+                  }${(lockedAnswer.points_earned ?? 0) < 0 ? ` (${lockedAnswer.points_earned} points)` : ''}`}
+                {typed && currentQuestion.correct_answer !== undefined && ` The answer was ${currentQuestion.correct_answer}.`}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <ReportQuestion key={currentQuestion.id} roundQuestionId={currentQuestion.id} />
+        </>
+      )}
+
+      {/* Teammates */}
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base flex items-center">
+            <Users className="w-4 h-4 mr-2" />
+            Your Team
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {teammates.map(player => (
+            <div key={player.id} className="flex items-center justify-between text-sm">
+              <span>
+                {player.display_name}
+                {player.id === playerId && <span className="text-muted-foreground"> (you)</span>}
+              </span>
+              {lockedAnswer?.submitted_by === player.id && (
+                <span className="flex items-center text-green-600 dark:text-green-400">
+                  <CheckCircle className="w-4 h-4 mr-1" />
+                  Locked {currentQuestion ? formatAnswer(currentQuestion, lockedAnswer.answer) : lockedAnswer.answer}
+                </span>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,283 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { gameService } from '@/services/game';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import type { GameLobby, Team } from '@/contracts/multi-user-types';
+import {
+  Users,
+  Plus,
+  Search,
+  Loader2
+} from 'lucide-react';
+
+const TEAM_COLORS = ['#EF4444', '#3B82F6', '#22C55E', '#EAB308', '#A855F7', '#F97316', '#EC4899', '#14B8A6'];
+
+// Players find a game by its join code (typed or scanned from the TV),
+// then create a team or join an existing one while the game is in setup
+export function JoinGame() {
+  const { joinCode: codeParam } = useParams<{ joinCode?: string }>();
+  const { state: authState } = useAuth();
+  const navigate = useNavigate();
+
+  const [joinCode, setJoinCode] = useState(codeParam ?? '');
+  const [lobby, setLobby] = useState<GameLobby | null>(null);
+  const [currentTeam, setCurrentTeam] = useState<Team | null>(null);
+  const [teamName, setTeamName] = useState('');
+  const [teamColor, setTeamColor] = useState(TEAM_COLORS[0]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const playerId = authState.user?.id;
+
+  const lookUpGame = useCallback(async (code: string) => {
+    if (!playerId) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const found = await gameService.getGameLobby(code);
+      if (!found) {
+        setLobby(null);
+        setError(`No game found for code ${code.trim().toUpperCase()}`);
+        return;
+      }
+
+      setLobby(found);
+      setCurrentTeam(await gameService.getPlayerTeam(found.game.id, playerId));
+
+      // Suggest a color no other team has taken
+      const usedColors = found.teams.map(team => team.display_color.toUpperCase());
+      setTeamColor(TEAM_COLORS.find(color => !usedColors.includes(color)) ?? TEAM_COLORS[0]);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to find game');
+    } finally {
+      setLoading(false);
+    }
+  }, [playerId]);
+
+  // Scanning the TV's QR code lands here with the code already filled in
+  useEffect(() => {
+    if (codeParam) {
+      lookUpGame(codeParam);
+    }
+  }, [codeParam, lookUpGame]);
+
+  const handleLookUp = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!joinCode.trim()) {
+      setError('Enter the code shown on the TV');
+      return;
+    }
+    lookUpGame(joinCode);
+  };
+
+  const handleJoinTeam = async (teamId: string) => {
+    if (!playerId || !lobby) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      await gameService.joinTeam({ join_code: lobby.game.join_code, team_id: teamId });
+      navigate(`/play/${lobby.game.id}`);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to join team');
+      await lookUpGame(lobby.game.join_code);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreateTeam = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!playerId || !lobby) return;
+
+    const name = teamName.trim();
+    if (!name || name.length > 50) {
+      setError('Team name must be between 1 and 50 characters');
+      return;
+    }
+
+    if (lobby.teams.some(team => team.name.toLowerCase() === name.toLowerCase())) {
+      setError('That team name is already taken');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const team = await gameService.createTeam({
+        join_code: lobby.game.join_code,
+        name,
+        display_color: teamColor,
+      });
+      await gameService.joinTeam({ join_code: lobby.game.join_code, team_id: team.id });
+      navigate(`/play/${lobby.game.id}`);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to create team');
+      await lookUpGame(lobby.game.join_code);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inSetup = lobby?.game.status === 'setup';
+  const gameFull = !!lobby && lobby.teams.length >= lobby.game.max_teams;
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-md space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-2xl">Join a Game</CardTitle>
+          <CardDescription>Enter the code shown on the TV</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleLookUp} className="flex gap-2">
+            <Input
+              value={joinCode}
+              onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+              placeholder="ABC123"
+              maxLength={6}
+              autoCapitalize="characters"
+              autoComplete="off"
+              className="text-center text-2xl font-mono tracking-widest uppercase h-12"
+              aria-label="Join code"
+            />
+            <Button type="submit" className="h-12" disabled={loading} aria-label="Find game">
+              {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {lobby && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>{lobby.game.title}</CardTitle>
+              {lobby.game.location && <CardDescription>{lobby.game.location}</CardDescription>}
+            </CardHeader>
+            {currentTeam && (
+              <CardContent className="space-y-3">
+                <p>
+                  You're on <strong style={{ color: currentTeam.display_color }}>{currentTeam.name}</strong>.
+                </p>
+                <Button asChild className="w-full">
+                  <Link to={`/play/${lobby.game.id}`}>Go to Game</Link>
+                </Button>
+              </CardContent>
+            )}
+            {!currentTeam && !inSetup && (
+              <CardContent>
+                <p className="text-muted-foreground">
+                  {lobby.game.status === 'in_progress'
+                    ? 'This game has already started. Teams can no longer change.'
+                    : 'This game is over.'}
+                </p>
+              </CardContent>
+            )}
+          </Card>
+
+          {!currentTeam && inSetup && (
+            <>
+              {/* Existing Teams */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center">
+                    <Users className="w-5 h-5 mr-2" />
+                    Teams ({lobby.teams.length} of {lobby.game.max_teams})
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {lobby.teams.length === 0 && (
+                    <p className="text-sm text-muted-foreground">No teams yet. Create the first one!</p>
+                  )}
+                  {lobby.teams.map(team => {
+                    const full = team.player_count >= lobby.game.max_players_per_team;
+                    return (
+                      <div
+                        key={team.id}
+                        className="flex items-center justify-between rounded-md border-l-4 pl-3"
+                        style={{ borderLeftColor: team.display_color }}
+                      >
+                        <div>
+                          <p className="font-medium">{team.name}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {team.player_count} of {lobby.game.max_players_per_team} players
+                          </p>
+                        </div>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleJoinTeam(team.id)}
+                          disabled={loading || full}
+                        >
+                          {full ? 'Full' : 'Join'}
+                        </Button>
+                      </div>
+                    );
+                  })}
+                </CardContent>
+              </Card>
+
+              {/* New Team */}
+              {!gameFull && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">Create a Team</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <form onSubmit={handleCreateTeam} className="space-y-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="team-name">Team name</Label>
+                        <Input
+                          id="team-name"
+                          value={teamName}
+                          onChange={(e) => setTeamName(e.target.value)}
+                          maxLength={50}
+                          placeholder="Quizzly Bears"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Team color</Label>
+                        <div className="flex flex-wrap gap-2">
+                          {TEAM_COLORS.map(color => (
+                            <button
+                              key={color}
+                              type="button"
+                              className={`w-8 h-8 rounded-full border-2 ${teamColor === color ? 'border-foreground' : 'border-transparent'}`}
+                              style={{ backgroundColor: color }}
+                              onClick={() => setTeamColor(color)}
+                              aria-label={`Team color ${color}`}
+                            />
+                          ))}
+                        </div>
+                      </div>
+                      <Button type="submit" className="w-full" disabled={loading}>
+                        <Plus className="w-4 h-4 mr-2" />
+                        Create and Join
+                      </Button>
+                    </form>
+                  </CardContent>
+                </Card>
+              )}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
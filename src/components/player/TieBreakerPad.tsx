@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { gameService } from '@/services/game';
+import type { Team, TeamWithPlayers, TieBreakerDetail } from '@/contracts/multi-user-types';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Lock, Swords, Trophy, Loader2 } from 'lucide-react';
+
+const ANSWER_LABELS = ['A', 'B', 'C', 'D'] as const;
+
+interface TieBreakerPadProps {
+  tieBreaker: TieBreakerDetail;
+  teamId: string;
+  teammates: TeamWithPlayers['players'];
+  teams: Pick<Team, 'id' | 'name'>[];
+  onSubmitted: () => Promise<void> | void;
+}
+
+// Answer pad for a tie-breaker: a number or a letter for the tied teams, and
+// the outcome for everyone once the host resolves it
+export function TieBreakerPad({ tieBreaker, teamId, teammates, teams, onSubmitted }: TieBreakerPadProps) {
+  const [answer, setAnswer] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const playing = tieBreaker.team_ids.includes(teamId);
+  const lockedAnswer = tieBreaker.answers.find(a => a.team_id === teamId);
+  const lockedBy = lockedAnswer
+    ? teammates.find(player => player.id === lockedAnswer.submitted_by)?.display_name ?? 'A teammate'
+    : null;
+  const open = tieBreaker.status === 'open';
+  const teamName = (id: string) => teams.find(team => team.id === id)?.name ?? 'Another team';
+  const stillPlaying = !tieBreaker.winner_team_id && (tieBreaker.leading_team_ids ?? []).includes(teamId);
+  const lost = !open && tieBreaker.winner_team_id !== teamId && !stillPlaying;
+
+  const handleSubmit = async (value: string) => {
+    if (!value.trim() || lockedAnswer || submitting || !open) return;
+
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      await gameService.submitTieBreakerAnswer(tieBreaker.id, value.trim());
+    } catch (err) {
+      // A teammate may have answered first; the reload shows their answer
+      setError(err instanceof Error ? err.message : 'Failed to submit answer');
+    } finally {
+      setSubmitting(false);
+      await onSubmitted();
+    }
+  };
+
+  if (!playing) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center">
+          <Swords className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+          <p className="text-lg font-medium">
+            {tieBreaker.winner_team_id
+              ? `${teamName(tieBreaker.winner_team_id)} won the tie-breaker`
+              : `${tieBreaker.team_ids.map(teamName).join(', ')} are playing a tie-breaker for first place`}
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="pb-2">
+          <div className="flex items-center gap-2">
+            <Badge>Tie-breaker</Badge>
+            <Badge variant="outline" className="w-fit">{tieBreaker.question.category}</Badge>
+          </div>
+          <CardTitle className="text-lg leading-snug">{tieBreaker.question.question}</CardTitle>
+          {tieBreaker.mode === 'closest_number' && (
+            <CardDescription>The closest answer wins</CardDescription>
+          )}
+        </CardHeader>
+        {tieBreaker.presented_answers && (
+          <CardContent className="space-y-2">
+            {tieBreaker.presented_answers.map((choice, index) => (
+              <div key={ANSWER_LABELS[index]} className="flex items-start space-x-3 text-sm">
+                <span className="font-bold">{ANSWER_LABELS[index]}</span>
+                <span>{choice}</span>
+              </div>
+            ))}
+          </CardContent>
+        )}
+      </Card>
+
+      {error && !lockedAnswer && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {open && !lockedAnswer && tieBreaker.mode === 'sudden_death' && (
+        <div className="grid grid-cols-2 gap-3">
+          {ANSWER_LABELS.map(label => (
+            <Button
+              key={label}
+              variant="outline"
+              className="h-24 text-4xl font-bold"
+              onClick={() => handleSubmit(label)}
+              disabled={submitting}
+              data-testid={`tie-breaker-pad-${label}`}
+            >
+              {submitting ? <Loader2 className="h-6 w-6 animate-spin" /> : label}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {open && !lockedAnswer && tieBreaker.mode === 'closest_number' && (
+        <Card>
+          <CardContent className="pt-6 space-y-2">
+            <Label htmlFor="tie-breaker-answer">Your answer</Label>
+            <div className="flex gap-2">
+              <Input
+                id="tie-breaker-answer"
+                type="number"
+                inputMode="decimal"
+                value={answer}
+                onChange={(e) => setAnswer(e.target.value)}
+                disabled={submitting}
+              />
+              <Button onClick={() => handleSubmit(answer)} disabled={submitting || !answer.trim()}>
+                {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Lock In'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {lockedAnswer && open && (
+        <Alert>
+          <Lock className="h-4 w-4" />
+          <AlertDescription>
+            Answer <strong>{lockedAnswer.answer}</strong> locked in by <strong>{lockedBy}</strong>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {!open && (
+        <Alert variant={lost ? 'destructive' : 'default'}>
+          <Trophy className="h-4 w-4" />
+          <AlertDescription>
+            The answer was <strong>{tieBreaker.correct_answer}</strong>.{' '}
+            {tieBreaker.winner_team_id === teamId && 'Your team wins the tie-breaker!'}
+            {stillPlaying && 'Still tied, get ready for another one.'}
+            {lost && (tieBreaker.winner_team_id
+              ? `${teamName(tieBreaker.winner_team_id)} wins the tie-breaker.`
+              : 'Another team did better.')}
+          </AlertDescription>
+        </Alert>
+      )}
+    </>
+  );
+}
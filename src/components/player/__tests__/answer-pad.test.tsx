@@ -0,0 +1,285 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, act } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter, Routes, Route } from 'react-router-dom';
+import { DEFAULT_SCORING_RULES } from '@/lib/scoring';
+import type { GameEventCallback } from '@/contracts/multi-user-game';
+import type {
+  Game,
+  GameStateUpdate,
+  QuestionState,
+  Round,
+  RoundQuestionDetail,
+  TeamAnswer,
+  TeamWithPlayers,
+} from '@/contracts/multi-user-types';
+
+const { gameService } = vi.hoisted(() => ({
+  gameService: {
+    getGameState: vi.fn(),
+    getGameRounds: vi.fn(),
+    getTieBreaker: vi.fn(),
+    getRoundQuestions: vi.fn(),
+    subscribeToGameEvents: vi.fn(),
+    getPlayerTeam: vi.fn(),
+    submitTeamAnswer: vi.fn(),
+  },
+}));
+
+vi.mock('@/services/game', () => ({ gameService }));
+
+vi.mock('@/contexts/AuthContext', () => ({
+  useAuth: () => ({ state: { user: { id: 'player-1' } } }),
+}));
+
+import { AnswerPad } from '../AnswerPad';
+
+const game: Game = {
+  id: 'game-1',
+  host_id: 'host-1',
+  title: 'Pub Night',
+  join_code: 'ABC123',
+  scheduled_date: '2024-01-01',
+  max_teams: 20,
+  max_players_per_team: 4,
+  status: 'in_progress',
+  total_rounds: 3,
+  questions_per_round: 5,
+  selected_categories: ['Science'],
+  scoring_rules: DEFAULT_SCORING_RULES,
+  question_time_limit_seconds: null,
+  difficulty_curve: 'flat',
+  question_types: ['multiple_choice'],
+  tie_breaker: null,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+const round: Round = {
+  id: 'round-1',
+  game_id: 'game-1',
+  round_number: 1,
+  categories: [],
+  status: 'in_progress',
+  current_round_question_id: 'rq-1',
+  question_state: 'pending',
+  created_at: '2024-01-01T00:00:00Z',
+};
+
+const question: RoundQuestionDetail = {
+  id: 'rq-1',
+  round_id: 'round-1',
+  question_id: 'q-1',
+  question_order: 1,
+  question: { category: 'Science', question: 'What is the chemical symbol for gold?' },
+  question_type: 'multiple_choice',
+  presented_answers: ['Ag', 'Au', 'Gd', 'Go'],
+  correct_answer: 'B',
+  created_at: '2024-01-01T00:00:00Z',
+};
+
+const team: TeamWithPlayers = {
+  id: 't-1',
+  game_id: 'game-1',
+  name: 'Quizzly Bears',
+  display_color: '#FF0000',
+  current_score: 10,
+  created_at: '2024-01-01T00:00:00Z',
+  players: [
+    { id: 'player-1', display_name: 'Sam', joined_at: '2024-01-01T00:00:00Z' },
+    { id: 'player-2', display_name: 'Alex', joined_at: '2024-01-01T00:00:00Z' },
+  ],
+};
+
+const answer = (overrides: Partial<TeamAnswer> = {}): TeamAnswer => ({
+  id: 'answer-1',
+  team_id: 't-1',
+  round_question_id: 'rq-1',
+  submitted_by: 'player-1',
+  answer: 'B',
+  is_correct: false,
+  points_earned: 0,
+  base_points: 0,
+  speed_bonus: 0,
+  submitted_at: '2024-01-01T20:00:00Z',
+  ...overrides,
+});
+
+// Like get_game_state, players only get the answer once it's revealed
+const snapshot = (
+  questionState: QuestionState,
+  { current_question = question, ...overrides }: Partial<GameStateUpdate> = {}
+): GameStateUpdate => {
+  const shown: RoundQuestionDetail = { ...current_question };
+  if (questionState !== 'revealed') {
+    delete shown.correct_answer;
+  }
+  return {
+    game,
+    current_round: { ...round, question_state: questionState },
+    teams: [team],
+    current_question: shown,
+    team_answers: [],
+    ...overrides,
+  };
+};
+
+let emit: GameEventCallback;
+
+const renderPad = () =>
+  render(
+    <MemoryRouter initialEntries={['/play/game-1']}>
+      <Routes>
+        <Route path="/play/:gameId" element={<AnswerPad />} />
+      </Routes>
+    </MemoryRouter>
+  );
+
+// The host moved the live question on; the pad reloads the snapshot
+const hostUpdates = async (next: GameStateUpdate) => {
+  gameService.getGameState.mockResolvedValue(next);
+  await act(async () => {
+    emit({ type: 'question_updated', round: next.current_round! });
+  });
+};
+
+const letterButtons = () => ['A', 'B', 'C', 'D'].map(letter => screen.getByTestId(`answer-pad-${letter}`));
+
+describe('AnswerPad', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    gameService.getGameState.mockResolvedValue(snapshot('pending'));
+    gameService.getGameRounds.mockResolvedValue([round]);
+    gameService.getTieBreaker.mockResolvedValue(null);
+    gameService.getRoundQuestions.mockResolvedValue([question]);
+    gameService.getPlayerTeam.mockResolvedValue(team);
+    gameService.subscribeToGameEvents.mockImplementation((_gameId: string, callback: GameEventCallback) => {
+      emit = callback;
+      return vi.fn();
+    });
+  });
+
+  it('should only enable the pad while answering is open', async () => {
+    renderPad();
+
+    expect(await screen.findByText('What is the chemical symbol for gold?')).toBeInTheDocument();
+    expect(screen.getByText('Answering opens when the host is ready')).toBeInTheDocument();
+    letterButtons().forEach(button => expect(button).toBeDisabled());
+
+    await hostUpdates(snapshot('open'));
+    letterButtons().forEach(button => expect(button).toBeEnabled());
+    expect(screen.queryByText('Answering opens when the host is ready')).not.toBeInTheDocument();
+
+    await hostUpdates(snapshot('closed'));
+    letterButtons().forEach(button => expect(button).toBeDisabled());
+    expect(screen.getByText('Answering is closed for this question')).toBeInTheDocument();
+  });
+
+  it('should lock in the tapped answer for the team', async () => {
+    const userActions = userEvent.setup();
+    gameService.getGameState.mockResolvedValue(snapshot('open'));
+    gameService.submitTeamAnswer.mockResolvedValue(answer());
+    renderPad();
+
+    await userActions.click(await screen.findByTestId('answer-pad-B'));
+
+    expect(gameService.submitTeamAnswer).toHaveBeenCalledWith({
+      team_id: 't-1',
+      round_question_id: 'rq-1',
+      answer: 'B',
+      submitted_by: 'player-1',
+      wager: undefined,
+    });
+    expect(await screen.findByText(/locked in by/)).toHaveTextContent('Answer B locked in by Sam');
+    letterButtons().forEach(button => expect(button).toBeDisabled());
+  });
+
+  it('should show an answer a teammate locked in', async () => {
+    gameService.getGameState.mockResolvedValue(snapshot('open'));
+    renderPad();
+    await screen.findByTestId('answer-pad-A');
+
+    act(() => emit({ type: 'answer_submitted', teamAnswer: answer({ answer: 'C', submitted_by: 'player-2' }) }));
+
+    expect(screen.getByText(/locked in by/)).toHaveTextContent('Answer C locked in by Alex');
+    expect(gameService.submitTeamAnswer).not.toHaveBeenCalled();
+  });
+
+  it('should reload when a submission is refused', async () => {
+    const userActions = userEvent.setup();
+    gameService.getGameState.mockResolvedValue(snapshot('open'));
+    gameService.submitTeamAnswer.mockRejectedValue(new Error('Failed to submit team answer: answering is closed'));
+    renderPad();
+
+    await userActions.click(await screen.findByTestId('answer-pad-A'));
+
+    expect(await screen.findByText('Failed to submit team answer: answering is closed')).toBeInTheDocument();
+    expect(gameService.getGameState).toHaveBeenCalledTimes(2);
+  });
+
+  it('should show the result once the host reveals the answer', async () => {
+    gameService.getGameState.mockResolvedValue(snapshot('closed', {
+      team_answers: [answer({ is_correct: true, points_earned: 10, base_points: 10 })],
+    }));
+    renderPad();
+
+    expect(await screen.findByText(/locked in by/)).toBeInTheDocument();
+
+    await hostUpdates(snapshot('revealed', {
+      team_answers: [answer({ is_correct: true, points_earned: 10, base_points: 10 })],
+    }));
+
+    expect(screen.getByText('Correct! +10 points')).toBeInTheDocument();
+    expect(screen.queryByText(/locked in by/)).not.toBeInTheDocument();
+  });
+
+  it('should submit typed answers for numeric questions', async () => {
+    const userActions = userEvent.setup();
+    const numeric: RoundQuestionDetail = {
+      ...question,
+      question_type: 'numeric',
+      question: { category: 'History', question: 'In what year did Apollo 11 land?' },
+      presented_answers: [],
+      correct_answer: '1969',
+    };
+    gameService.getGameState.mockResolvedValue(snapshot('open', { current_question: numeric }));
+    gameService.submitTeamAnswer.mockResolvedValue(answer({ answer: '1970' }));
+    renderPad();
+
+    const lockIn = await screen.findByTestId('answer-pad-lock-in');
+    expect(lockIn).toBeDisabled();
+
+    await userActions.type(screen.getByLabelText('Your answer'), '1970');
+    await userActions.click(lockIn);
+
+    expect(gameService.submitTeamAnswer).toHaveBeenCalledWith(expect.objectContaining({ answer: '1970' }));
+    expect(await screen.findByText(/locked in by/)).toHaveTextContent('Answer 1970 locked in by Sam');
+  });
+
+  it('should only show a typed answer once the host reveals it', async () => {
+    const numeric: RoundQuestionDetail = {
+      ...question,
+      question_type: 'numeric',
+      question: { category: 'History', question: 'In what year did Apollo 11 land?' },
+      presented_answers: [],
+      correct_answer: '1969',
+    };
+    const locked = [answer({ answer: '1970', distance: 1 })];
+    gameService.getGameState.mockResolvedValue(snapshot('closed', { current_question: numeric, team_answers: locked }));
+    renderPad();
+
+    expect(await screen.findByText(/locked in by/)).toBeInTheDocument();
+    expect(screen.queryByText(/1969/)).not.toBeInTheDocument();
+
+    await hostUpdates(snapshot('revealed', { current_question: numeric, team_answers: locked }));
+
+    expect(screen.getByText(/The answer was 1969\./)).toHaveTextContent('Answer 1970 was off by 1, not the closest');
+  });
+
+  it('should ask players without a team to join one', async () => {
+    gameService.getPlayerTeam.mockResolvedValue(null);
+    renderPad();
+
+    expect(await screen.findByText("You're not on a team for Pub Night yet. Join a team to play.")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter, Routes, Route } from 'react-router-dom';
+import type { GameLobby, Team } from '@/contracts/multi-user-types';
+
+const { gameService } = vi.hoisted(() => ({
+  gameService: {
+    getGameLobby: vi.fn(),
+    getPlayerTeam: vi.fn(),
+    createTeam: vi.fn(),
+    joinTeam: vi.fn(),
+  },
+}));
+
+vi.mock('@/services/game', () => ({ gameService }));
+
+vi.mock('@/contexts/AuthContext', () => ({
+  useAuth: () => ({ state: { user: { id: 'player-1' } } }),
+}));
+
+import { JoinGame } from '../JoinGame';
+
+const lobby: GameLobby = {
+  game: {
+    id: 'game-1',
+    title: 'Pub Night',
+    scheduled_date: '2024-01-01',
+    status: 'setup',
+    join_code: 'ABC123',
+    max_teams: 2,
+    max_players_per_team: 2,
+  },
+  teams: [
+    { id: 'team-1', name: 'Quizzly Bears', display_color: '#EF4444', player_count: 1 },
+    { id: 'team-2', name: 'Trivia Newton John', display_color: '#3B82F6', player_count: 2 },
+  ],
+};
+
+const renderJoinGame = (path: string) =>
+  render(
+    <MemoryRouter initialEntries={[path]}>
+      <Routes>
+        <Route path="/join/:joinCode?" element={<JoinGame />} />
+        <Route path="/play/:gameId" element={<div>Answer pad</div>} />
+      </Routes>
+    </MemoryRouter>
+  );
+
+describe('JoinGame', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    gameService.getGameLobby.mockResolvedValue(lobby);
+    gameService.getPlayerTeam.mockResolvedValue(null);
+  });
+
+  it('should look up the game from a scanned join code', async () => {
+    renderJoinGame('/join/ABC123');
+
+    expect(await screen.findByText('Pub Night')).toBeInTheDocument();
+    expect(gameService.getGameLobby).toHaveBeenCalledWith('ABC123');
+    expect(screen.getByText('Quizzly Bears')).toBeInTheDocument();
+    expect(screen.getByText('1 of 2 players')).toBeInTheDocument();
+  });
+
+  it('should disable full teams and hide team creation when the game is full', async () => {
+    renderJoinGame('/join/ABC123');
+
+    expect(await screen.findByRole('button', { name: 'Full' })).toBeDisabled();
+    expect(screen.queryByText('Create a Team')).not.toBeInTheDocument();
+  });
+
+  it('should join a team and go to the answer pad', async () => {
+    const user = userEvent.setup();
+    gameService.joinTeam.mockResolvedValue({});
+    renderJoinGame('/join/ABC123');
+
+    await user.click(await screen.findByRole('button', { name: 'Join' }));
+
+    expect(gameService.joinTeam).toHaveBeenCalledWith({ join_code: 'ABC123', team_id: 'team-1' });
+    expect(await screen.findByText('Answer pad')).toBeInTheDocument();
+  });
+
+  it('should create a team and join it', async () => {
+    const user = userEvent.setup();
+    gameService.getGameLobby.mockResolvedValue({ ...lobby, teams: [] });
+    gameService.createTeam.mockResolvedValue({ id: 'team-3' } as Team);
+    gameService.joinTeam.mockResolvedValue({});
+    renderJoinGame('/join');
+
+    await user.type(screen.getByLabelText('Join code'), 'abc123');
+    await user.click(screen.getByRole('button', { name: 'Find game' }));
+    await user.type(await screen.findByLabelText('Team name'), 'Les Quizerables');
+    await user.click(screen.getByRole('button', { name: /Create and Join/ }));
+
+    await waitFor(() => {
+      expect(gameService.createTeam).toHaveBeenCalledWith({
+        join_code: 'ABC123',
+        name: 'Les Quizerables',
+        display_color: '#EF4444',
+      });
+    });
+    expect(gameService.getGameLobby).toHaveBeenCalledWith('ABC123');
+    expect(gameService.joinTeam).toHaveBeenCalledWith({ join_code: 'ABC123', team_id: 'team-3' });
+    expect(await screen.findByText('Answer pad')).toBeInTheDocument();
+  });
+
+  it('should send players already on a team to the game', async () => {
+    gameService.getPlayerTeam.mockResolvedValue({ id: 'team-1', name: 'Quizzly Bears', display_color: '#EF4444' } as Team);
+    renderJoinGame('/join/ABC123');
+
+    expect(await screen.findByRole('link', { name: 'Go to Game' })).toHaveAttribute('href', '/play/game-1');
+    expect(screen.queryByRole('button', { name: 'Join' })).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,2 @@
+export { AnswerPad } from './AnswerPad';
+export { JoinGame } from './JoinGame';
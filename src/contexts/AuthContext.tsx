@@ -1,7 +1,7 @@
 import { createContext, useContext, useReducer, useEffect } from 'react';
 import type { ReactNode } from 'react';
 import { authService } from '@/services/auth';
-import type { AuthUser, AuthSession } from '@/contracts/auth';
+import type { AuthUser, AuthSession, ClaimedGuestHistory } from '@/contracts/auth';
 
 // Auth State Types
 interface AuthState {
@@ -23,6 +23,9 @@ interface AuthContextType {
   state: AuthState;
   signUp: (email: string, password: string, username?: string) => Promise<{ success: boolean; error?: string }>;
   signIn: (email: string, password: string) => Promise<{ success: boolean; error?: string }>;
+  signInAsGuest: (displayName: string) => Promise<{ success: boolean; error?: string }>;
+  upgradeAccount: (email: string, password: string, username: string) => Promise<{ success: boolean; error?: string }>;
+  claimGuestHistory: (code: string) => Promise<{ success: boolean; claimed?: ClaimedGuestHistory; error?: string }>;
   signOut: () => Promise<{ success: boolean; error?: string }>;
   refreshSession: () => Promise<void>;
 }
@@ -186,6 +189,70 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
+  // Guest sign in function
+  const signInAsGuest = async (displayName: string) => {
+    dispatch({ type: 'SET_LOADING', payload: true });
+
+    try {
+      const response = await authService.signInAnonymously({ display_name: displayName });
+
+      if (response.error) {
+        dispatch({ type: 'SET_LOADING', payload: false });
+        return { success: false, error: response.error.message };
+      }
+
+      // Session will be updated via onAuthStateChange
+      return { success: true };
+    } catch (error) {
+      dispatch({ type: 'SET_LOADING', payload: false });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Guest sign in failed'
+      };
+    }
+  };
+
+  // Upgrade guest account function
+  const upgradeAccount = async (email: string, password: string, username: string) => {
+    dispatch({ type: 'SET_LOADING', payload: true });
+
+    try {
+      const response = await authService.upgradeAccount({ email, password, username });
+      dispatch({ type: 'SET_LOADING', payload: false });
+
+      if (response.error) {
+        return { success: false, error: response.error.message };
+      }
+
+      // The guest flag clears via onAuthStateChange once the email is confirmed
+      return { success: true };
+    } catch (error) {
+      dispatch({ type: 'SET_LOADING', payload: false });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Account upgrade failed'
+      };
+    }
+  };
+
+  // Claim a guest's games with a host-issued upgrade code
+  const claimGuestHistory = async (code: string) => {
+    try {
+      const response = await authService.claimGuestHistory(code);
+
+      if (response.error || !response.claimed) {
+        return { success: false, error: response.error?.message ?? 'Claiming guest games failed' };
+      }
+
+      return { success: true, claimed: response.claimed };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Claiming guest games failed'
+      };
+    }
+  };
+
   // Sign out function
   const signOut = async () => {
     dispatch({ type: 'SET_LOADING', payload: true });
@@ -236,6 +303,9 @@ export function AuthProvider({ children }: AuthProviderProps) {
     state,
     signUp,
     signIn,
+    signInAsGuest,
+    upgradeAccount,
+    claimGuestHistory,
     signOut,
     refreshSession,
   };
@@ -1,12 +1,15 @@
 import { createContext, useContext, useReducer, useCallback } from 'react';
 import type { ReactNode } from 'react';
 import { gameService } from '@/services/game';
+import { startQuestionClock, pauseQuestionClock } from '@/lib/questionTimer';
+import type { QuestionClock } from '@/lib/questionTimer';
 import type {
   GameSession,
   UserProfile,
   QuestionPresentation,
   GameSummary,
-  CreateGameSessionRequest
+  CreateGameSessionRequest,
+  LifelineType
 } from '@/contracts/game';
 
 // Game State Types
@@ -19,6 +22,7 @@ interface GameState {
 
   // Current question
   currentQuestion: QuestionPresentation | null;
+  questionClock: QuestionClock | null;
 
   // Game flow state
   gameStatus: 'idle' | 'setup' | 'playing' | 'paused' | 'completed' | 'loading';
@@ -33,9 +37,11 @@ interface GameState {
 
   // Question answering
   answering: boolean;
+  usingLifeline: LifelineType | null;
   showResult: boolean;
   lastAnswerCorrect: boolean | null;
   lastCorrectAnswer: string | null;
+  lastAnswerTimedOut: boolean;
 
   // Available data
   availableCategories: string[];
@@ -50,9 +56,11 @@ type GameAction =
   | { type: 'SET_GAME_HISTORY'; payload: GameSession[] }
   | { type: 'SET_CURRENT_SESSION'; payload: GameSession | null }
   | { type: 'SET_CURRENT_QUESTION'; payload: QuestionPresentation | null }
+  | { type: 'SET_QUESTION_CLOCK'; payload: QuestionClock | null }
   | { type: 'SET_GAME_STATUS'; payload: GameState['gameStatus'] }
   | { type: 'SET_ANSWERING'; payload: boolean }
-  | { type: 'SET_SHOW_RESULT'; payload: { show: boolean; correct?: boolean; correctAnswer?: string } }
+  | { type: 'SET_USING_LIFELINE'; payload: LifelineType | null }
+  | { type: 'SET_SHOW_RESULT'; payload: { show: boolean; correct?: boolean; correctAnswer?: string; timedOut?: boolean } }
   | { type: 'SET_GAME_SUMMARY'; payload: GameSummary | null }
   | { type: 'UPDATE_SESSION_SCORE'; payload: number }
   | { type: 'RESET_GAME_STATE' };
@@ -71,7 +79,8 @@ interface GameContextType {
 
   // Game flow
   startGame: () => Promise<void>;
-  submitAnswer: (userAnswer: string, timeToAnswer: number) => Promise<void>;
+  submitAnswer: (userAnswer: string | null, timeToAnswer: number) => Promise<void>;
+  applyLifeline: (lifeline: LifelineType) => Promise<void>;
   pauseGame: () => Promise<void>;
   resumeGame: () => Promise<void>;
   resumePausedGame: (sessionId: string) => Promise<void>;
@@ -93,15 +102,18 @@ const initialState: GameState = {
   userProfile: null,
   currentSession: null,
   currentQuestion: null,
+  questionClock: null,
   gameStatus: 'idle',
   gameHistory: [],
   currentGameSummary: null,
   loading: false,
   error: null,
   answering: false,
+  usingLifeline: null,
   showResult: false,
   lastAnswerCorrect: null,
   lastCorrectAnswer: null,
+  lastAnswerTimedOut: false,
   availableCategories: [],
 };
 
@@ -122,16 +134,21 @@ function gameReducer(state: GameState, action: GameAction): GameState {
       return { ...state, currentSession: action.payload };
     case 'SET_CURRENT_QUESTION':
       return { ...state, currentQuestion: action.payload };
+    case 'SET_QUESTION_CLOCK':
+      return { ...state, questionClock: action.payload };
     case 'SET_GAME_STATUS':
       return { ...state, gameStatus: action.payload };
     case 'SET_ANSWERING':
       return { ...state, answering: action.payload };
+    case 'SET_USING_LIFELINE':
+      return { ...state, usingLifeline: action.payload };
     case 'SET_SHOW_RESULT':
       return {
         ...state,
         showResult: action.payload.show,
         lastAnswerCorrect: action.payload.correct ?? null,
-        lastCorrectAnswer: action.payload.correctAnswer ?? null
+        lastCorrectAnswer: action.payload.correctAnswer ?? null,
+        lastAnswerTimedOut: action.payload.timedOut ?? false
       };
     case 'SET_GAME_SUMMARY':
       return { ...state, currentGameSummary: action.payload };
@@ -166,6 +183,15 @@ interface GameProviderProps {
 export function GameProvider({ children }: GameProviderProps) {
   const [state, dispatch] = useReducer(gameReducer, initialState);
 
+  // Show a question and start its clock, counting any time spent on it before a pause
+  const showQuestion = useCallback((question: QuestionPresentation) => {
+    dispatch({ type: 'SET_CURRENT_QUESTION', payload: question });
+    dispatch({
+      type: 'SET_QUESTION_CLOCK',
+      payload: startQuestionClock(question.id, question.elapsed_ms ?? 0, Date.now())
+    });
+  }, []);
+
   // Load user profile
   const loadUserProfile = useCallback(async (userId: string) => {
     dispatch({ type: 'SET_LOADING', payload: true });
@@ -252,7 +278,7 @@ export function GameProvider({ children }: GameProviderProps) {
     try {
       const result = await gameService.startGame(state.currentSession.id);
       dispatch({ type: 'SET_CURRENT_SESSION', payload: result.session });
-      dispatch({ type: 'SET_CURRENT_QUESTION', payload: result.first_question });
+      showQuestion(result.first_question);
       dispatch({ type: 'SET_GAME_STATUS', payload: 'playing' });
       dispatch({ type: 'SET_SHOW_RESULT', payload: { show: false } });
     } catch (error) {
@@ -263,10 +289,11 @@ export function GameProvider({ children }: GameProviderProps) {
     } finally {
       dispatch({ type: 'SET_LOADING', payload: false });
     }
-  }, [state.currentSession]);
+  }, [state.currentSession, showQuestion]);
 
   // Submit answer
-  const submitAnswer = async (userAnswer: string, timeToAnswer: number) => {
+  // A null answer records the question as timed out
+  const submitAnswer = async (userAnswer: string | null, timeToAnswer: number) => {
     if (!state.currentSession || !state.currentQuestion) {
       dispatch({ type: 'SET_ERROR', payload: 'No active question' });
       return;
@@ -282,6 +309,8 @@ export function GameProvider({ children }: GameProviderProps) {
         user_answer: userAnswer,
         time_to_answer_ms: timeToAnswer
       });
+      // The server starts the next question's clock as soon as it scores this answer
+      const answeredAt = Date.now();
 
       // Fetch updated session to get current round and question index
       const updatedSession = await gameService.getGameSession(state.currentSession.id);
@@ -289,10 +318,18 @@ export function GameProvider({ children }: GameProviderProps) {
         dispatch({ type: 'SET_CURRENT_SESSION', payload: updatedSession });
       }
 
-      // Show result
+      // Show result and stop the clock until the next question appears
+      if (state.questionClock) {
+        dispatch({ type: 'SET_QUESTION_CLOCK', payload: pauseQuestionClock(state.questionClock, Date.now()) });
+      }
       dispatch({
         type: 'SET_SHOW_RESULT',
-        payload: { show: true, correct: result.is_correct, correctAnswer: result.correct_answer }
+        payload: {
+          show: true,
+          correct: result.is_correct,
+          correctAnswer: result.correct_answer,
+          timedOut: result.timed_out
+        }
       });
 
       // Handle game flow
@@ -314,7 +351,7 @@ export function GameProvider({ children }: GameProviderProps) {
         if (result.next_question) {
           setTimeout(() => {
             console.log('🎮 Setting next question after round completion');
-            dispatch({ type: 'SET_CURRENT_QUESTION', payload: result.next_question! });
+            showQuestion({ ...result.next_question!, elapsed_ms: Date.now() - answeredAt });
             dispatch({ type: 'SET_SHOW_RESULT', payload: { show: false } });
           }, 2000); // Show result for 2 seconds
         }
@@ -323,7 +360,7 @@ export function GameProvider({ children }: GameProviderProps) {
         // Move to next question
         setTimeout(() => {
           console.log('🎮 Setting next question');
-          dispatch({ type: 'SET_CURRENT_QUESTION', payload: result.next_question! });
+          showQuestion({ ...result.next_question!, elapsed_ms: Date.now() - answeredAt });
           dispatch({ type: 'SET_SHOW_RESULT', payload: { show: false } });
         }, 2000); // Show result for 2 seconds
       } else {
@@ -339,6 +376,45 @@ export function GameProvider({ children }: GameProviderProps) {
     }
   };
 
+  // Use a lifeline on the current question
+  const applyLifeline = async (lifeline: LifelineType) => {
+    if (!state.currentSession || !state.currentQuestion) {
+      dispatch({ type: 'SET_ERROR', payload: 'No active question' });
+      return;
+    }
+
+    dispatch({ type: 'SET_USING_LIFELINE', payload: lifeline });
+    dispatch({ type: 'SET_ERROR', payload: null });
+
+    try {
+      const result = await gameService.applyLifeline({
+        game_session_id: state.currentSession.id,
+        game_question_id: state.currentQuestion.id,
+        lifeline
+      });
+
+      dispatch({
+        type: 'SET_CURRENT_SESSION',
+        payload: { ...state.currentSession, lifelines_remaining: result.lifelines_remaining }
+      });
+
+      // A skip brings a new question with its own clock; other lifelines
+      // change the current question and its clock keeps running
+      if (result.lifeline === 'skip') {
+        showQuestion(result.question);
+      } else {
+        dispatch({ type: 'SET_CURRENT_QUESTION', payload: result.question });
+      }
+    } catch (error) {
+      dispatch({
+        type: 'SET_ERROR',
+        payload: error instanceof Error ? error.message : 'Failed to use lifeline'
+      });
+    } finally {
+      dispatch({ type: 'SET_USING_LIFELINE', payload: null });
+    }
+  };
+
   // Pause game
   const pauseGame = async () => {
     if (!state.currentSession) {
@@ -348,8 +424,13 @@ export function GameProvider({ children }: GameProviderProps) {
 
     dispatch({ type: 'SET_LOADING', payload: true });
 
+    const clock = state.questionClock;
+
     try {
       await gameService.pauseGame(state.currentSession.id);
+      if (clock) {
+        dispatch({ type: 'SET_QUESTION_CLOCK', payload: pauseQuestionClock(clock, Date.now()) });
+      }
       dispatch({ type: 'SET_GAME_STATUS', payload: 'paused' });
     } catch (error) {
       dispatch({
@@ -372,7 +453,7 @@ export function GameProvider({ children }: GameProviderProps) {
 
     try {
       const question = await gameService.resumeGame(state.currentSession.id);
-      dispatch({ type: 'SET_CURRENT_QUESTION', payload: question });
+      showQuestion(question);
       dispatch({ type: 'SET_GAME_STATUS', payload: 'playing' });
     } catch (error) {
       dispatch({
@@ -424,7 +505,7 @@ export function GameProvider({ children }: GameProviderProps) {
 
       // Resume the game and get the current question
       const question = await gameService.resumeGame(sessionId);
-      dispatch({ type: 'SET_CURRENT_QUESTION', payload: question });
+      showQuestion(question);
       dispatch({ type: 'SET_GAME_STATUS', payload: 'playing' });
     } catch (error) {
       dispatch({
@@ -442,12 +523,8 @@ export function GameProvider({ children }: GameProviderProps) {
     dispatch({ type: 'SET_ERROR', payload: null });
 
     try {
-      // Update the game session status to completed (effectively abandoning it)
-      // and set end_time to mark when it was abandoned
-      await gameService.updateGameSession(sessionId, {
-        status: 'completed',
-        end_time: new Date().toISOString()
-      });
+      // Completing the session abandons it; the database stamps end_time
+      await gameService.setSessionStatus(sessionId, 'completed');
 
       // Reload game history to reflect the change
       if (state.userProfile?.id) {
@@ -499,7 +576,7 @@ export function GameProvider({ children }: GameProviderProps) {
 
   // Set current question directly
   const setCurrentQuestion = (question: QuestionPresentation) => {
-    dispatch({ type: 'SET_CURRENT_QUESTION', payload: question });
+    showQuestion(question);
     dispatch({ type: 'SET_SHOW_RESULT', payload: { show: false } });
   };
 
@@ -511,6 +588,7 @@ export function GameProvider({ children }: GameProviderProps) {
     createGameSession,
     startGame,
     submitAnswer,
+    applyLifeline,
     pauseGame,
     resumeGame,
     resumePausedGame,
@@ -0,0 +1,201 @@
+import { useReducer, useEffect, useCallback } from 'react';
+import type { ReactNode } from 'react';
+import { gameService } from '@/services/game';
+import { LiveGameContext } from './useLiveGame';
+import type { LiveGameContextType, LiveGameState } from './useLiveGame';
+import type {
+  Game,
+  Round,
+  Team,
+  TeamWithPlayers,
+  RoundQuestionDetail,
+  TeamAnswer,
+  TieBreakerDetail,
+} from '@/contracts/multi-user-types';
+
+interface LiveGameSnapshot {
+  game: Game;
+  rounds: Round[];
+  currentRound: Round | null;
+  teams: TeamWithPlayers[];
+  roundQuestions: RoundQuestionDetail[];
+  currentQuestion: RoundQuestionDetail | null;
+  teamAnswers: TeamAnswer[];
+  tieBreaker: TieBreakerDetail | null;
+}
+
+// Live Game Actions
+type LiveGameAction =
+  | { type: 'SET_LOADING'; payload: boolean }
+  | { type: 'SET_ERROR'; payload: string | null }
+  | { type: 'SET_SNAPSHOT'; payload: LiveGameSnapshot }
+  | { type: 'UPDATE_TEAM'; payload: Team }
+  | { type: 'ADD_TEAM_ANSWER'; payload: TeamAnswer }
+  | { type: 'UPDATE_TEAM_ANSWER'; payload: TeamAnswer };
+
+// Initial state
+const initialState: LiveGameState = {
+  game: null,
+  rounds: [],
+  currentRound: null,
+  teams: [],
+  roundQuestions: [],
+  currentQuestion: null,
+  teamAnswers: [],
+  tieBreaker: null,
+  loading: true,
+  error: null,
+};
+
+// Live game reducer
+function liveGameReducer(state: LiveGameState, action: LiveGameAction): LiveGameState {
+  switch (action.type) {
+    case 'SET_LOADING':
+      return { ...state, loading: action.payload };
+    case 'SET_ERROR':
+      return { ...state, error: action.payload, loading: false };
+    case 'SET_SNAPSHOT':
+      return {
+        ...state,
+        ...action.payload,
+        loading: false,
+        error: null,
+      };
+    case 'UPDATE_TEAM':
+      // Row changes carry no players, so keep the roster already loaded
+      return {
+        ...state,
+        teams: state.teams.map(team => team.id === action.payload.id ? { ...team, ...action.payload } : team),
+      };
+    case 'ADD_TEAM_ANSWER':
+      if (state.teamAnswers.some(answer => answer.id === action.payload.id)) {
+        return state;
+      }
+      return { ...state, teamAnswers: [...state.teamAnswers, action.payload] };
+    case 'UPDATE_TEAM_ANSWER':
+      if (!state.teamAnswers.some(answer => answer.id === action.payload.id)) {
+        return { ...state, teamAnswers: [...state.teamAnswers, action.payload] };
+      }
+      return {
+        ...state,
+        // Row changes carry no grading, so keep what the last snapshot had
+        teamAnswers: state.teamAnswers.map(answer => answer.id === action.payload.id ? { ...answer, ...action.payload } : answer),
+      };
+    default:
+      return state;
+  }
+}
+
+// Live Game Provider Props
+interface LiveGameProviderProps {
+  gameId: string;
+  children: ReactNode;
+}
+
+// Live Game Provider Component
+// Loads a multi-user game and keeps it in sync through real-time subscriptions
+export function LiveGameProvider({ gameId, children }: LiveGameProviderProps) {
+  const [state, dispatch] = useReducer(liveGameReducer, initialState);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [gameState, rounds, tieBreaker] = await Promise.all([
+        gameService.getGameState(gameId),
+        gameService.getGameRounds(gameId),
+        gameService.getTieBreaker(gameId),
+      ]);
+      const currentRound = gameState.current_round ?? null;
+
+      // The round's question list is only needed for navigation and progress
+      const roundQuestions = currentRound
+        ? await gameService.getRoundQuestions(currentRound.id)
+        : [];
+
+      dispatch({
+        type: 'SET_SNAPSHOT',
+        payload: {
+          game: gameState.game,
+          rounds,
+          currentRound,
+          teams: gameState.teams,
+          roundQuestions,
+          currentQuestion: gameState.current_question ?? null,
+          teamAnswers: gameState.team_answers ?? [],
+          tieBreaker,
+        },
+      });
+    } catch (error) {
+      dispatch({
+        type: 'SET_ERROR',
+        payload: error instanceof Error ? error.message : 'Failed to load game'
+      });
+    }
+  }, [gameId]);
+
+  // Load the game and subscribe to live changes
+  useEffect(() => {
+    dispatch({ type: 'SET_LOADING', payload: true });
+    refresh();
+
+    const unsubscribe = gameService.subscribeToGameEvents(gameId, (event) => {
+      switch (event.type) {
+        case 'answer_submitted':
+          dispatch({ type: 'ADD_TEAM_ANSWER', payload: event.teamAnswer });
+          break;
+        case 'answer_updated':
+          dispatch({ type: 'UPDATE_TEAM_ANSWER', payload: event.teamAnswer });
+          break;
+        case 'team_updated':
+          dispatch({ type: 'UPDATE_TEAM', payload: event.team });
+          break;
+        default:
+          refresh();
+      }
+    });
+
+    // Events missed while offline or in the background are not replayed,
+    // so restore from a fresh snapshot when the device comes back
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        refresh();
+      }
+    };
+    window.addEventListener('online', refresh);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', refresh);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [gameId, refresh]);
+
+  // Record an answer locally without waiting for the real-time echo
+  const addTeamAnswer = (answer: TeamAnswer) => {
+    dispatch({ type: 'ADD_TEAM_ANSWER', payload: answer });
+  };
+
+  // Answer a team has locked in for the current question, if any
+  const getTeamAnswer = (teamId: string) => {
+    if (!state.currentQuestion) return undefined;
+    return state.teamAnswers.find(
+      answer => answer.team_id === teamId && answer.round_question_id === state.currentQuestion!.id
+    );
+  };
+
+  const hasTeamAnswered = (teamId: string) => getTeamAnswer(teamId) !== undefined;
+
+  const contextValue: LiveGameContextType = {
+    state,
+    refresh,
+    addTeamAnswer,
+    hasTeamAnswered,
+    getTeamAnswer,
+  };
+
+  return (
+    <LiveGameContext.Provider value={contextValue}>
+      {children}
+    </LiveGameContext.Provider>
+  );
+}
@@ -0,0 +1,44 @@
+import { createContext, useContext } from 'react';
+import type {
+  Game,
+  Round,
+  TeamWithPlayers,
+  RoundQuestionDetail,
+  TeamAnswer,
+  TieBreakerDetail,
+} from '@/contracts/multi-user-types';
+
+// Live Game State Types
+export interface LiveGameState {
+  game: Game | null;
+  rounds: Round[];
+  currentRound: Round | null;
+  teams: TeamWithPlayers[];
+  roundQuestions: RoundQuestionDetail[];
+  currentQuestion: RoundQuestionDetail | null;
+  teamAnswers: TeamAnswer[];
+  tieBreaker: TieBreakerDetail | null; // the latest, once teams tied for first play one
+  loading: boolean;
+  error: string | null;
+}
+
+// Live Game Context Interface
+export interface LiveGameContextType {
+  state: LiveGameState;
+  refresh: () => Promise<void>;
+  addTeamAnswer: (answer: TeamAnswer) => void;
+  hasTeamAnswered: (teamId: string) => boolean;
+  getTeamAnswer: (teamId: string) => TeamAnswer | undefined;
+}
+
+// Provided by LiveGameProvider
+export const LiveGameContext = createContext<LiveGameContextType | undefined>(undefined);
+
+// Hook to use live game context
+export function useLiveGame() {
+  const context = useContext(LiveGameContext);
+  if (context === undefined) {
+    throw new Error('useLiveGame must be used within a LiveGameProvider');
+  }
+  return context;
+}
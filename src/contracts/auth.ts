@@ -1,8 +1,11 @@
 // Auth User Types
 export interface AuthUser {
   id: string;
-  email: string;
+  email: string; // empty for guests
   email_confirmed_at?: string;
+  is_anonymous: boolean; // guest players who signed in with only a display name
+  display_name?: string;
+  is_admin: boolean; // app_metadata.role is 'admin'; only the service role can set it
   created_at: string;
   updated_at: string;
 }
@@ -50,10 +53,43 @@ export interface SignInResponse {
   error: AuthError | null;
 }
 
+export interface SignInAnonymouslyRequest {
+  display_name: string;
+}
+
+// Turns a guest into a full account, keeping the same user id and game history
+export interface UpgradeAccountRequest {
+  email: string;
+  password: string;
+  username: string;
+}
+
+export interface UpgradeAccountResponse {
+  user: AuthUser | null;
+  error: AuthError | null;
+}
+
+// The game and team a full account took over from a guest's upgrade code
+export interface ClaimedGuestHistory {
+  game_id: string;
+  team_id: string;
+  team_name: string;
+}
+
+export interface ClaimGuestHistoryResponse {
+  claimed: ClaimedGuestHistory | null;
+  error: AuthError | null;
+}
+
 // Auth Service Interface
 export interface AuthService {
   signUp(request: SignUpRequest): Promise<SignUpResponse>;
   signIn(request: SignInRequest): Promise<SignInResponse>;
+  signInAnonymously(request: SignInAnonymouslyRequest): Promise<SignInResponse>;
+  upgradeAccount(request: UpgradeAccountRequest): Promise<UpgradeAccountResponse>;
+  // For guests who lost their session: moves their seat and answers in the
+  // host's game onto the signed-in account with a code the host issued
+  claimGuestHistory(code: string): Promise<ClaimGuestHistoryResponse>;
   signOut(): Promise<{ error: AuthError | null }>;
   getSession(): Promise<{ data: { session: AuthSession | null }; error: AuthError | null }>;
   getUser(): Promise<{ data: { user: AuthUser | null }; error: AuthError | null }>;
@@ -1,7 +1,7 @@
 // Database Edge Functions Contract
 // Supabase edge functions for complex game logic
 
-import type { UserProfile, GameSession, GameSummary } from './game';
+import type { UserProfile, GameSession, GameSummary, QuestionType } from './game';
 
 export interface CreateGameSetupRequest {
   user_id: string;
@@ -28,13 +28,15 @@ export interface CreateGameSetupResponse {
 
 export interface ValidateAnswerRequest {
   game_question_id: string;
-  user_answer: string;
+  user_answer: string | null; // null when the question timed out
   time_to_answer_ms: number;
 }
 
 export interface ValidateAnswerResponse {
   is_correct: boolean;
   correct_answer: string;
+  timed_out?: boolean;
+  points_awarded?: number;
   game_question_updated?: boolean;
   session_stats: {
     current_score: number;
@@ -47,6 +49,7 @@ export interface ValidateAnswerResponse {
     id: string;
     question: string;
     category: string;
+    question_type: QuestionType;
     answers: string[];
     round_number: number;
     question_number: number;
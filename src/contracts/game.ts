@@ -5,15 +5,36 @@ export interface Question {
   id: string;
   category: string;
   question: string;
-  a: string; // correct answer
-  b: string;
-  c: string;
-  d: string;
+  a: string; // correct answer; 'True' or 'False', or a plain number for numeric questions
+  b: string | null; // the other of True/False; null for numeric and free text
+  c: string | null;
+  d: string | null;
+  question_type: QuestionType;
   metadata: Record<string, any>;
+  status: QuestionStatus; // only approved questions are drawn into games
+  // Rated from answer history by refresh_question_difficulty; see lib/difficulty
+  difficulty: number | null; // 0 (easy) to 1 (hard), null until enough answers
+  correct_rate: number | null;
+  average_time_ms: number | null; // single-player answers only
+  answer_count: number;
   created_at: string;
   updated_at: string;
 }
 
+// Numeric questions are closest wins between teams, so single-player games
+// only use the other types
+export type QuestionType = 'multiple_choice' | 'true_false' | 'numeric' | 'free_text';
+
+// Edits send a question back to draft until an admin approves it
+export type QuestionStatus = 'draft' | 'approved' | 'retired';
+
+// Bands of Question.difficulty
+export type DifficultyLevel = 'easy' | 'medium' | 'hard';
+
+// How question difficulty changes from round to round: 'flat' keeps every round
+// medium, 'ramp' gets harder each round, 'warm_up' opens easy and ends hard
+export type DifficultyCurve = 'flat' | 'ramp' | 'warm_up';
+
 export interface UserProfile {
   id: string; // matches auth.users.id
   username: string;
@@ -26,6 +47,15 @@ export interface UserProfile {
   updated_at: string;
 }
 
+// Players can't read a question's answers directly; they only see them shuffled
+// into a game question's presented_answers
+export type QuestionPrompt = Omit<Question, 'a' | 'b' | 'c' | 'd'>;
+
+export type LifelineType = 'fifty_fifty' | 'skip' | 'extra_time';
+
+// A count per lifeline: what a session has left, or how often lifelines were used
+export type LifelineCounts = Record<LifelineType, number>;
+
 export interface GameSession {
   id: string;
   user_id: string;
@@ -36,6 +66,12 @@ export interface GameSession {
   current_round: number;
   current_question_index: number;
   total_score: number;
+  question_time_limit_seconds?: number | null; // null when questions are untimed
+  question_elapsed_ms?: number; // clock banked for the current question when paused
+  question_opened_at?: string | null; // when the current question's clock last started; null while paused
+  lifelines_remaining?: LifelineCounts;
+  difficulty_curve?: DifficultyCurve;
+  question_types?: QuestionType[];
   start_time?: string;
   end_time?: string;
   total_duration_ms?: number;
@@ -63,12 +99,20 @@ export interface GameQuestion {
   game_round_id: string;
   question_id: string;
   question_order: number;
-  presented_answers: { label: string; text: string }[]; // randomized order
+  question_type: QuestionType;
+  presented_answers: { label: string; text: string }[]; // randomized order; empty for free text
   user_answer?: string;
   correct_answer: string;
   is_correct?: boolean;
+  match_score?: number | null; // free text only: 0 to 1, correct from 0.8
   time_to_answer_ms?: number;
   answered_at?: string;
+  timed_out?: boolean;
+  fifty_fifty_used?: boolean;
+  removed_answers?: string[] | null; // wrong answers taken away by 50/50
+  skipped_question_id?: string | null; // the question a skip replaced
+  extra_time_used?: boolean;
+  extra_time_seconds?: number;
   created_at: string;
 }
 
@@ -77,6 +121,10 @@ export interface CreateGameSessionRequest {
   total_rounds: number;
   questions_per_round: number;
   selected_categories: string[];
+  question_time_limit_seconds?: number | null;
+  lifelines?: Partial<LifelineCounts>; // how many of each lifeline the game gets
+  difficulty_curve?: DifficultyCurve; // defaults to 'flat'
+  question_types?: QuestionType[]; // defaults to multiple choice only; numeric isn't allowed
 }
 
 export interface StartGameResponse {
@@ -88,22 +136,27 @@ export interface QuestionPresentation {
   id: string;
   question: string;
   category: string;
-  answers: string[]; // Array of answer choices (A, B, C, D)
+  question_type: QuestionType;
+  answers: string[]; // Array of answer choices (A, B, C, D); True and False, or none for free text
   round_number: number;
   question_number: number;
   total_questions: number;
+  elapsed_ms?: number; // time already spent on the question before a pause
+  removed_answers?: string[]; // answers hidden by 50/50
+  extra_time_seconds?: number; // added to the session's time limit
 }
 
 export interface SubmitAnswerRequest {
   game_session_id: string;
   game_question_id: string;
-  user_answer: string;
+  user_answer: string | null; // the chosen or typed answer; null when time ran out
   time_to_answer_ms: number;
 }
 
 export interface SubmitAnswerResponse {
   is_correct: boolean;
   correct_answer: string;
+  timed_out?: boolean;
   explanation?: string;
   updated_score: number;
   next_question?: QuestionPresentation;
@@ -111,6 +164,18 @@ export interface SubmitAnswerResponse {
   game_complete?: boolean;
 }
 
+export interface UseLifelineRequest {
+  game_session_id: string;
+  game_question_id: string;
+  lifeline: LifelineType;
+}
+
+export interface UseLifelineResponse {
+  lifeline: LifelineType;
+  question: QuestionPresentation; // the question after the lifeline; a skip returns a new one
+  lifelines_remaining: LifelineCounts;
+}
+
 export interface RoundSummary {
   round_number: number;
   correct_answers: number;
@@ -129,6 +194,98 @@ export interface GameSummary {
   total_duration_ms: number;
   rounds: RoundSummary[];
   personal_best: boolean;
+  lifelines_used: LifelineCounts;
+  lifeline_points_forfeited: number; // correct answers that scored nothing because a lifeline helped
+}
+
+// Question moderation (admins only)
+export interface QuestionSearchRequest {
+  search?: string; // matches the question or any answer
+  category?: string;
+  status?: QuestionStatus;
+  limit?: number;
+  offset?: number;
+}
+
+export interface QuestionSearchResult {
+  questions: Question[];
+  total: number;
+}
+
+export interface SaveQuestionRequest {
+  id?: string; // omitted for a new question
+  category: string;
+  question: string;
+  question_type?: QuestionType; // defaults to multiple choice
+  a: string; // correct answer
+  b: string; // only used by multiple choice
+  c: string;
+  d: string;
+  metadata?: Record<string, unknown>;
+}
+
+export type QuestionAuditAction = 'created' | 'edited' | 'approved' | 'retired' | 'reopened';
+
+export interface QuestionAuditEntry {
+  id: string;
+  question_id: string;
+  action: QuestionAuditAction;
+  changes: Record<string, { old: unknown; new: unknown }>;
+  changed_by: string | null; // null for service role changes such as pack imports
+  changed_by_name: string | null;
+  created_at: string;
+}
+
+// Player reports about a question; admins resolve them together per question
+export type QuestionReportReason = 'wrong_answer' | 'ambiguous' | 'outdated' | 'offensive';
+
+export type QuestionReportResolution = 'answer_was_wrong' | 'fixed' | 'dismissed';
+
+export interface ReportQuestionRequest {
+  // Exactly one: the single-player game question or the hosted round question being shown
+  game_question_id?: string;
+  round_question_id?: string;
+  reason: QuestionReportReason;
+  comment?: string;
+}
+
+export interface QuestionReport {
+  id: string;
+  question_id: string;
+  reason: QuestionReportReason;
+  comment: string | null;
+  reported_by: string;
+  reporter_name: string | null;
+  game_question_id: string | null;
+  round_question_id: string | null;
+  status: 'open' | 'resolved' | 'dismissed';
+  resolution: QuestionReportResolution | null;
+  resolution_note: string | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+export interface QuestionDispute {
+  question: Question;
+  report_count: number;
+  last_reported_at: string;
+  reports: QuestionReport[];
+}
+
+export interface ResolveQuestionReportsRequest {
+  question_id: string;
+  resolution: QuestionReportResolution;
+  correct_answer?: string; // required for answer_was_wrong: the answer that was actually right, one of the other choices unless numeric or free text
+  rescore?: boolean; // re-score answers already given, not just games still being played
+  note?: string;
+}
+
+export interface ResolveQuestionReportsResponse {
+  resolved_reports: number;
+  rescored_game_questions: number;
+  rescored_team_answers: number;
+  updated_sessions: number;
+  updated_teams: number;
 }
 
 // Expected Game Service Methods
@@ -140,18 +297,27 @@ export interface GameService {
 
   // Question Management
   getAvailableCategories(): Promise<string[]>;
-  getQuestionsForSession(categories: string[], count: number, excludeIds?: string[]): Promise<Question[]>;
+  getQuestionsForSession(categories: string[], count: number, excludeIds?: string[]): Promise<QuestionPrompt[]>;
+  searchQuestions(request: QuestionSearchRequest): Promise<QuestionSearchResult>;
+  saveQuestion(request: SaveQuestionRequest): Promise<Question>;
+  setQuestionStatus(questionId: string, status: QuestionStatus): Promise<Question>;
+  getQuestionAuditLog(questionId: string): Promise<QuestionAuditEntry[]>;
+  reportQuestion(request: ReportQuestionRequest): Promise<string>;
+  getQuestionDisputes(status?: QuestionReport['status']): Promise<QuestionDispute[]>;
+  resolveQuestionReports(request: ResolveQuestionReportsRequest): Promise<ResolveQuestionReportsResponse>;
 
   // Game session Management
   createGameSession(userId: string, request: CreateGameSessionRequest): Promise<GameSession>;
   getGameSession(sessionId: string): Promise<GameSession | null>;
   getUserGameSessions(userId: string, status?: GameSession['status']): Promise<GameSession[]>;
   updateGameSession(sessionId: string, updates: Partial<GameSession>): Promise<GameSession>;
+  setSessionStatus(sessionId: string, status: GameSession['status']): Promise<GameSession>;
 
   // Game Flow
   startGame(sessionId: string): Promise<StartGameResponse>;
   getNextQuestion(sessionId: string): Promise<QuestionPresentation | null>;
   submitAnswer(request: SubmitAnswerRequest): Promise<SubmitAnswerResponse>;
+  applyLifeline(request: UseLifelineRequest): Promise<UseLifelineResponse>;
   pauseGame(sessionId: string): Promise<GameSession>;
   resumeGame(sessionId: string): Promise<QuestionPresentation>;
   completeGame(sessionId: string): Promise<GameSummary>;
@@ -164,5 +330,6 @@ export interface GameService {
     average_accuracy: number;
     favorite_category: string;
     recent_games: GameSession[];
+    lifelines_used: LifelineCounts;
   }>;
 }
\ No newline at end of file
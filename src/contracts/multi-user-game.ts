@@ -9,6 +9,7 @@ import type {
   TeamWithPlayers,
   Round,
   RoundQuestionDetail,
+  RoundTheme,
   TeamAnswer,
   CreateGameRequest,
   CreateTeamRequest,
@@ -18,6 +19,13 @@ import type {
   GameStateUpdate,
   GameSummaryResponse,
   GameStatus,
+  GameLobby,
+  GameAnalytics,
+  GameResults,
+  QuestionState,
+  TieBreaker,
+  TieBreakerAnswer,
+  TieBreakerDetail,
   Question
 } from './multi-user-types';
 
@@ -26,10 +34,21 @@ export interface ExtendedGameService extends GameService {
   // Multi-User Game Management
   createGame(hostId: string, request: CreateGameRequest): Promise<Game>;
   getGame(gameId: string): Promise<Game | null>;
+  getGameLobby(joinCode: string): Promise<GameLobby | null>;
   getHostGames(hostId: string, status?: GameStatus): Promise<Game[]>;
   updateGame(gameId: string, updates: Partial<Game>): Promise<Game>;
   startMultiUserGame(gameId: string): Promise<StartGameResponse>;
   completeMultiUserGame(gameId: string): Promise<GameSummaryResponse>;
+  getMultiUserGameSummary(gameId: string): Promise<GameSummaryResponse | null>;
+  getGameResults(gameId: string): Promise<GameResults | null>;
+
+  // Tie-breakers
+  // Played by the teams tied for first, one question at a time, until a
+  // resolved tie-breaker has a single winner
+  startTieBreaker(gameId: string): Promise<TieBreaker>;
+  getTieBreaker(gameId: string): Promise<TieBreakerDetail | null>;
+  submitTieBreakerAnswer(tieBreakerId: string, answer: string): Promise<TieBreakerAnswer>;
+  resolveTieBreaker(tieBreakerId: string): Promise<TieBreaker>;
 
   // Team Management
   createTeam(request: CreateTeamRequest): Promise<Team>;
@@ -37,18 +56,33 @@ export interface ExtendedGameService extends GameService {
   joinTeam(request: JoinTeamRequest): Promise<TeamPlayer>;
   leaveTeam(teamId: string, playerId: string): Promise<void>;
   getPlayerTeam(gameId: string, playerId: string): Promise<Team | null>;
+  // Guests who lost their session can't upgrade themselves, so the host
+  // issues a one-time code they claim from a full account
+  createGuestUpgradeCode(gameId: string, playerId: string): Promise<string>;
 
   // Multi-User Round Management
-  createRounds(gameId: string): Promise<Round[]>;
+  // Plans the rounds along the game's difficulty curve, replacing any earlier
+  // plan; hosts can preview them and swap questions until the game starts.
+  // Without themes, the current plan's themes are kept
+  createRounds(gameId: string, themes?: RoundTheme[]): Promise<Round[]>;
+  reshuffleRoundQuestion(roundQuestionId: string): Promise<string>;
   startRound(roundId: string): Promise<Round>;
   completeRound(roundId: string): Promise<Round>;
   getRoundQuestions(roundId: string): Promise<RoundQuestionDetail[]>;
   getCurrentRound(gameId: string): Promise<Round | null>;
+  getGameRounds(gameId: string): Promise<Round[]>;
+
+  // Live Question Control
+  setCurrentQuestion(roundId: string, roundQuestionId: string): Promise<Round>;
+  setQuestionState(roundId: string, state: QuestionState): Promise<Round>;
 
   // Team Answer Management
   submitTeamAnswer(request: SubmitTeamAnswerRequest): Promise<TeamAnswer>;
   getTeamAnswers(teamId: string, roundId?: string): Promise<TeamAnswer[]>;
   getRoundAnswers(roundId: string): Promise<TeamAnswer[]>;
+  // Hosts can mark a free-text answer right or wrong while the game is on,
+  // whatever the fuzzy match decided
+  overrideTeamAnswer(teamAnswerId: string, isCorrect: boolean): Promise<TeamAnswer>;
 
   // Enhanced Question Management for Multi-User
   getAvailableQuestionsForHost(hostId: string, categories: string[], count: number): Promise<Question[]>;
@@ -57,6 +91,7 @@ export interface ExtendedGameService extends GameService {
   assignQuestionsToRound(roundId: string, questionIds: string[]): Promise<void>;
 
   // Real-time subscriptions
+  subscribeToGameEvents(gameId: string, callback: GameEventCallback): () => void;
   subscribeToGameUpdates(gameId: string, callback: (update: GameStateUpdate) => void): () => void;
   subscribeToTeamAnswers(teamId: string, callback: (answer: TeamAnswer) => void): () => void;
   subscribeToRoundUpdates(roundId: string, callback: (round: Round) => void): () => void;
@@ -71,22 +106,11 @@ export interface ExtendedGameService extends GameService {
     correct_answers: number;
     accuracy_percentage: number;
     total_points: number;
-    average_response_time: number;
+    average_response_time: number; // ms, over answers with a recorded time
   }>;
 
   // Game Analytics
-  getGameAnalytics(gameId: string): Promise<{
-    total_questions: number;
-    total_teams: number;
-    total_players: number;
-    average_score: number;
-    completion_rate: number;
-    question_difficulty_stats: Record<string, {
-      category: string;
-      correct_percentage: number;
-      average_time: number;
-    }>;
-  }>;
+  getGameAnalytics(gameId: string): Promise<GameAnalytics>;
 }
 
 // Type guards for distinguishing between single-player and multi-user operations
@@ -119,10 +143,14 @@ export type GameEvent =
   | { type: 'game_completed'; game: Game }
   | { type: 'round_started'; round: Round }
   | { type: 'round_completed'; round: Round }
+  | { type: 'question_updated'; round: Round }
   | { type: 'team_created'; team: Team }
   | { type: 'player_joined'; teamPlayer: TeamPlayer }
-  | { type: 'player_left'; teamPlayer: TeamPlayer }
   | { type: 'answer_submitted'; teamAnswer: TeamAnswer }
-  | { type: 'scores_updated'; teams: TeamWithPlayers[] };
+  | { type: 'answer_updated'; teamAnswer: TeamAnswer } // scored once answering closes, or overridden by the host
+  | { type: 'team_updated'; team: Team } // score or name changed; players are unchanged
+  | { type: 'tie_breaker_updated'; tieBreaker: TieBreaker }
+  | { type: 'tie_breaker_answer_submitted'; answer: TieBreakerAnswer }
+  | { type: 'resync' }; // team feeds (re)subscribed; changes made before then were not delivered
 
 export type GameEventCallback = (event: GameEvent) => void;
\ No newline at end of file
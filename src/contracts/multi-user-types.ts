@@ -1,8 +1,15 @@
 // Multi-User Trivia Game Type Definitions
 // Extension of existing game contracts for team-based gameplay
 
+import type { DifficultyCurve, QuestionType } from './game';
+
 export type GameStatus = 'setup' | 'in_progress' | 'completed' | 'cancelled';
 export type RoundStatus = 'pending' | 'in_progress' | 'completed';
+export type QuestionState = 'pending' | 'open' | 'closed' | 'revealed';
+export type AnswerLetter = 'A' | 'B' | 'C' | 'D';
+// How a tie for first is settled: the nearest guess at a numeric question, or
+// a multiple choice question only the winner gets right
+export type TieBreakerMode = 'closest_number' | 'sudden_death';
 
 // Enhanced User Profile with display name
 export interface EnhancedUserProfile {
@@ -18,12 +25,33 @@ export interface EnhancedUserProfile {
   updated_at: string;
 }
 
+// Per-game scoring configuration, applied by the database when answers are scored
+export interface ScoringRules {
+  correct_points: number; // default 10
+  incorrect_points: number; // zero or negative
+  round_multipliers: Record<string, number>; // keyed by round number, e.g. { "3": 2 } doubles round 3
+  speed_bonus: {
+    max_points: number; // bonus for answering the instant answering opens
+    window_seconds: number; // bonus decays to zero over this window
+  } | null;
+  final_round_wager: boolean; // final round wins or loses the team's wager instead
+}
+
+// Where a team's points came from
+export interface PointsBreakdown {
+  correct: number;
+  incorrect: number;
+  speed_bonus: number;
+  wager: number;
+}
+
 // Event-based game instance
 export interface Game {
   id: string;
   host_id: string;
   title: string;
   location?: string;
+  join_code: string; // short code players type or scan to find the game
   scheduled_date: string; // ISO date
   start_time?: string; // ISO datetime
   end_time?: string; // ISO datetime
@@ -33,10 +61,26 @@ export interface Game {
   total_rounds: number;
   questions_per_round: number;
   selected_categories: string[];
+  scoring_rules: ScoringRules;
+  question_time_limit_seconds: number | null; // answering closes automatically; null leaves it to the host
+  difficulty_curve: DifficultyCurve; // rounds are planned along it
+  tie_breaker: TieBreakerMode | null; // null leaves a tie for first as it is
+  question_types: QuestionType[]; // rounds are drawn from these
   created_at: string;
   updated_at: string;
 }
 
+// What a player sees after entering a join code, before joining a team
+export interface GameLobby {
+  game: Pick<Game, 'id' | 'title' | 'location' | 'scheduled_date' | 'status' | 'join_code' | 'max_teams' | 'max_players_per_team'>;
+  teams: {
+    id: string;
+    name: string;
+    display_color: string;
+    player_count: number;
+  }[];
+}
+
 // Game-specific team entity
 export interface Team {
   id: string;
@@ -76,7 +120,13 @@ export interface Round {
   id: string;
   game_id: string;
   round_number: number;
+  title?: string; // e.g. "Music"; untitled rounds are just numbered
+  categories: string[]; // empty draws from all of the game's categories
   status: RoundStatus;
+  current_round_question_id?: string; // question currently shown to teams
+  question_state: QuestionState;
+  question_opened_at?: string; // when answering last opened for the current question
+  question_closed_at?: string;
   start_time?: string;
   end_time?: string;
   created_at: string;
@@ -88,6 +138,12 @@ export interface RoundQuestion {
   round_id: string;
   question_id: string;
   question_order: number;
+  question_type: QuestionType;
+  presented_answers: string[]; // answer texts in the order shown as A-D; empty for numeric and free text
+  correct_answer?: string; // see RoundQuestionDetail
+  opened_at?: string | null; // see RoundQuestionDetail
+  closed_at?: string | null;
+  revealed_at?: string | null;
   created_at: string;
 }
 
@@ -100,11 +156,19 @@ export interface RoundQuestionDetail {
   question: {
     category: string;
     question: string;
-    a: string;
-    b: string;
-    c: string;
-    d: string;
+    difficulty?: number | null; // included when the host loads a round
   };
+  question_type: QuestionType;
+  presented_answers: string[]; // answer texts in the order shown as A-D; empty for numeric and free text
+  // The letter for multiple choice and true/false (A is True), otherwise the
+  // number or accepted answer itself. Only sent to the host, or to everyone
+  // once the question is revealed (migration 039)
+  correct_answer?: string;
+  // Where the question got to when it was last live; a question that was
+  // opened can't be opened again (migration 045)
+  opened_at?: string | null;
+  closed_at?: string | null;
+  revealed_at?: string | null;
   created_at: string;
 }
 
@@ -114,12 +178,57 @@ export interface TeamAnswer {
   team_id: string;
   round_question_id: string;
   submitted_by: string; // player_id
-  answer: 'A' | 'B' | 'C' | 'D';
-  is_correct: boolean;
-  points_earned: number;
+  answer: string; // a letter, or the number or text typed for numeric and free-text questions
+  // How the answer was graded. Players only get these once the question is
+  // revealed, and real-time changes never carry them (migration 050)
+  is_correct?: boolean; // numeric answers stay false until answering closes and the closest win
+  points_earned?: number; // base_points + speed_bonus, or the wager won or lost
+  base_points?: number;
+  speed_bonus?: number;
+  wager?: number; // only set in a wager round
+  response_time_ms?: number; // from answering opening; kept since migration 033
+  distance?: number | null; // numeric only: how far off the answer was
+  match_score?: number | null; // free text only: 0 to 1, correct from 0.8
+  overridden_by?: string | null; // the host who regraded a free-text answer
+  overridden_at?: string | null;
+  submitted_at: string;
+}
+
+// A single question played by the teams tied for first
+export interface TieBreaker {
+  id: string;
+  game_id: string;
+  question_id: string;
+  mode: TieBreakerMode;
+  team_ids: string[];
+  presented_answers: string[] | null; // sudden death only, shown as A-D
+  status: 'open' | 'resolved';
+  correct_answer: string | null; // the number or letter, once resolved
+  leading_team_ids: string[] | null; // still tied when there's more than one
+  winner_team_id: string | null;
+  opened_at: string;
+  resolved_at: string | null;
+}
+
+export interface TieBreakerAnswer {
+  id: string;
+  tie_breaker_id: string;
+  team_id: string;
+  submitted_by: string; // player_id
+  answer: string; // a number, or a letter in sudden death
+  is_correct: boolean | null; // set when the tie-breaker is resolved
+  distance: number | null; // closest number only
   submitted_at: string;
 }
 
+export interface TieBreakerDetail extends TieBreaker {
+  question: {
+    category: string;
+    question: string;
+  };
+  answers: TieBreakerAnswer[]; // players only see their own team's
+}
+
 // Question usage tracking per host
 export interface HostUsedQuestion {
   id: string;
@@ -141,24 +250,41 @@ export interface CreateGameRequest {
   total_rounds: number;
   questions_per_round: number;
   selected_categories: string[];
+  scoring_rules?: Partial<ScoringRules>;
+  question_time_limit_seconds?: number | null;
+  difficulty_curve?: DifficultyCurve; // defaults to 'flat'
+  tie_breaker?: TieBreakerMode | null; // defaults to none
+  question_types?: QuestionType[]; // defaults to multiple choice only
+  round_themes?: RoundTheme[]; // plans the rounds straight away when given
+}
+
+// A round's title and the categories its questions come from, which must be
+// among the game's selected categories
+export interface RoundTheme {
+  title?: string;
+  categories: string[];
 }
 
+// Teams are created and joined by join code, since players can't see the game
+// until they're on a team
 export interface CreateTeamRequest {
-  game_id: string;
+  join_code: string;
   name: string;
   display_color?: string;
 }
 
+// Joins the signed-in player to the team
 export interface JoinTeamRequest {
+  join_code: string;
   team_id: string;
-  player_id: string;
 }
 
 export interface SubmitTeamAnswerRequest {
   team_id: string;
   round_question_id: string;
-  answer: 'A' | 'B' | 'C' | 'D';
+  answer: string; // a letter, or a number or text for numeric and free-text questions
   submitted_by: string; // player_id
+  wager?: number; // required in a wager round
 }
 
 export interface StartGameResponse {
@@ -183,6 +309,7 @@ export interface GameSummaryResponse {
     correct_answers: number;
     total_questions: number;
     accuracy_percentage: number;
+    points_breakdown: PointsBreakdown;
   })[];
   rounds: (Round & {
     team_scores: {
@@ -190,6 +317,7 @@ export interface GameSummaryResponse {
       team_name: string;
       round_score: number;
       correct_answers: number;
+      points_breakdown: PointsBreakdown;
     }[];
   })[];
   overall_stats: {
@@ -198,6 +326,62 @@ export interface GameSummaryResponse {
     average_accuracy: number;
     duration_ms: number;
   };
+  tie_breaker_winner_id?: string | null; // places first among the teams tied on points
+}
+
+// Final standings recorded when a game ended; later edits don't change them
+export interface GameResults {
+  game_id: string;
+  summary: GameSummaryResponse;
+  recorded_at: string;
+}
+
+// How teams did on one question of a game
+export interface QuestionAnalytics {
+  round_question_id: string;
+  question_id: string;
+  round_number: number;
+  round_title?: string;
+  question_order: number;
+  question: string;
+  category: string;
+  question_type: QuestionType;
+  presented_answers: string[];
+  correct_answer: string;
+  answer_count: number;
+  correct_percentage: number;
+  answer_distribution: Record<AnswerLetter, number>; // teams choosing each letter; all zero for numeric and free text
+  average_response_time: number | null; // ms from answering opening
+  difficulty: number | null; // rating across all games
+}
+
+// How teams did on one category of a game
+export interface CategoryAnalytics {
+  category: string;
+  question_count: number;
+  answer_count: number;
+  correct_percentage: number;
+  average_response_time: number | null;
+  average_difficulty: number | null; // mean rating of its rated questions
+}
+
+export interface GameAnalytics {
+  total_questions: number;
+  total_teams: number;
+  total_players: number;
+  average_score: number;
+  completion_rate: number; // share of questions answered, across every team
+  average_response_time: number | null;
+  questions: QuestionAnalytics[]; // in the order they were asked
+  categories: CategoryAnalytics[]; // lowest correct percentage first
+  // Keyed by question id: how teams did in this game, and the question's
+  // difficulty and average answer time (ms) across all games
+  question_difficulty_stats: Record<string, {
+    category: string;
+    correct_percentage: number;
+    average_time: number;
+    difficulty: number | null;
+  }>;
 }
 
 // Multi-User Game Service Interface
@@ -242,10 +426,11 @@ export interface Question {
   id: string;
   category: string;
   question: string;
-  a: string; // correct answer
-  b: string;
-  c: string;
-  d: string;
+  a: string; // correct answer; a plain number for numeric questions
+  b: string | null; // the other of True/False, or null for numeric and free text
+  c: string | null;
+  d: string | null;
+  question_type: QuestionType;
   metadata: Record<string, any>;
   created_at: string;
   updated_at: string;
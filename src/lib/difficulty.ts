@@ -0,0 +1,48 @@
+import type { DifficultyCurve, DifficultyLevel, Question } from '@/contracts/game';
+
+export const DIFFICULTY_LABELS: Record<DifficultyLevel, string> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard',
+};
+
+// Upper bounds of the easy and medium bands on the 0-1 difficulty scale
+const EASY_MAX = 0.35;
+const MEDIUM_MAX = 0.65;
+
+export function difficultyLevel(difficulty: number | null | undefined): DifficultyLevel | null {
+  if (difficulty === null || difficulty === undefined) return null;
+  if (difficulty < EASY_MAX) return 'easy';
+  if (difficulty < MEDIUM_MAX) return 'medium';
+  return 'hard';
+}
+
+export const DIFFICULTY_CURVE_LABELS: Record<DifficultyCurve, string> = {
+  flat: 'Even throughout',
+  ramp: 'Gets harder each round',
+  warm_up: 'Easy warm-up, hard final round',
+};
+
+// Mirrors difficulty_curve_target in migration 031
+export function getCurveTarget(curve: DifficultyCurve, roundNumber: number, totalRounds: number): number {
+  if (totalRounds <= 1 || curve === 'flat') return 0.5;
+  if (curve === 'ramp') return Math.round((0.25 + (0.5 * (roundNumber - 1)) / (totalRounds - 1)) * 1000) / 1000;
+  if (roundNumber === 1) return 0.25;
+  if (roundNumber === totalRounds) return 0.75;
+  return 0.5;
+}
+
+type DifficultyStats = Pick<Question, 'difficulty' | 'correct_rate' | 'average_time_ms' | 'answer_count'>;
+
+// One line summary, e.g. "Hard · 32% correct · 14.2s average · 118 answers"
+export function describeDifficulty(stats: DifficultyStats): string {
+  if (stats.answer_count === 0) return 'Not answered yet';
+
+  const level = difficultyLevel(stats.difficulty);
+  return [
+    level ? DIFFICULTY_LABELS[level] : 'Not rated yet',
+    stats.correct_rate !== null && `${Math.round(stats.correct_rate * 100)}% correct`,
+    stats.average_time_ms !== null && `${(stats.average_time_ms / 1000).toFixed(1)}s average`,
+    `${stats.answer_count} answer${stats.answer_count === 1 ? '' : 's'}`,
+  ].filter(Boolean).join(' · ');
+}
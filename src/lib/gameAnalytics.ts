@@ -0,0 +1,106 @@
+import type { QuestionType } from '@/contracts/game';
+import type {
+  AnswerLetter,
+  CategoryAnalytics,
+  QuestionAnalytics,
+  TeamAnswer,
+} from '@/contracts/multi-user-types';
+
+export const ANSWER_LETTERS: AnswerLetter[] = ['A', 'B', 'C', 'D'];
+
+// A round question as read for analytics, with the question it asks
+export interface AnalyzedRoundQuestion {
+  id: string;
+  question_id: string;
+  question_order: number;
+  question_type: QuestionType;
+  presented_answers: string[];
+  correct_answer: string;
+  rounds: { round_number: number; title?: string | null };
+  questions: { question: string; category: string; difficulty: number | null };
+}
+
+export type AnalyzedAnswer = Pick<TeamAnswer, 'round_question_id' | 'answer' | 'is_correct' | 'response_time_ms'>;
+
+export function averageOf(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+const percentage = (part: number, whole: number) => (whole > 0 ? (part / whole) * 100 : 0);
+
+// Response times are only kept for answers given since migration 033
+const responseTimes = (answers: Pick<TeamAnswer, 'response_time_ms'>[]) =>
+  answers.flatMap(answer => (typeof answer.response_time_ms === 'number' ? [answer.response_time_ms] : []));
+
+// One entry per question, in the order they were asked
+export function analyzeQuestions(
+  roundQuestions: AnalyzedRoundQuestion[],
+  answers: AnalyzedAnswer[]
+): QuestionAnalytics[] {
+  const answersByQuestion = new Map<string, AnalyzedAnswer[]>();
+  answers.forEach(answer => {
+    answersByQuestion.set(answer.round_question_id, [...(answersByQuestion.get(answer.round_question_id) ?? []), answer]);
+  });
+
+  return [...roundQuestions]
+    .sort((a, b) => a.rounds.round_number - b.rounds.round_number || a.question_order - b.question_order)
+    .map(roundQuestion => {
+      const questionAnswers = answersByQuestion.get(roundQuestion.id) ?? [];
+      // Only letters are counted; numeric and free-text answers are typed
+      const distribution = { A: 0, B: 0, C: 0, D: 0 } as Record<AnswerLetter, number>;
+      questionAnswers.forEach(answer => {
+        if (answer.answer in distribution) distribution[answer.answer as AnswerLetter]++;
+      });
+
+      return {
+        round_question_id: roundQuestion.id,
+        question_id: roundQuestion.question_id,
+        round_number: roundQuestion.rounds.round_number,
+        round_title: roundQuestion.rounds.title ?? undefined,
+        question_order: roundQuestion.question_order,
+        question: roundQuestion.questions.question,
+        category: roundQuestion.questions.category,
+        question_type: roundQuestion.question_type,
+        presented_answers: roundQuestion.presented_answers,
+        correct_answer: roundQuestion.correct_answer,
+        answer_count: questionAnswers.length,
+        correct_percentage: percentage(questionAnswers.filter(answer => answer.is_correct).length, questionAnswers.length),
+        answer_distribution: distribution,
+        average_response_time: averageOf(responseTimes(questionAnswers)),
+        difficulty: roundQuestion.questions.difficulty,
+      };
+    });
+}
+
+// One entry per category, the one teams found hardest first
+export function analyzeCategories(questions: QuestionAnalytics[], answers: AnalyzedAnswer[]): CategoryAnalytics[] {
+  const categories = [...new Set(questions.map(question => question.category))];
+
+  return categories
+    .map(category => {
+      const categoryQuestions = questions.filter(question => question.category === category);
+      const ids = new Set(categoryQuestions.map(question => question.round_question_id));
+      const categoryAnswers = answers.filter(answer => ids.has(answer.round_question_id));
+
+      return {
+        category,
+        question_count: categoryQuestions.length,
+        answer_count: categoryAnswers.length,
+        correct_percentage: percentage(categoryAnswers.filter(answer => answer.is_correct).length, categoryAnswers.length),
+        average_response_time: averageOf(responseTimes(categoryAnswers)),
+        average_difficulty: averageOf(
+          categoryQuestions.flatMap(question => (question.difficulty === null ? [] : [question.difficulty]))
+        ),
+      };
+    })
+    .sort((a, b) => a.correct_percentage - b.correct_percentage || a.category.localeCompare(b.category));
+}
+
+export function analyzeResponseTimes(answers: Pick<TeamAnswer, 'response_time_ms'>[]): number | null {
+  return averageOf(responseTimes(answers));
+}
+
+// e.g. "8.4s", or "No times" for answers from before times were kept
+export function formatResponseTime(ms: number | null): string {
+  return ms === null ? 'No times' : `${(ms / 1000).toFixed(1)}s`;
+}
@@ -0,0 +1,176 @@
+import type { GameResults } from '@/contracts/multi-user-types';
+import { toCsvField } from './questionBank';
+
+// Exports of a game's recorded final results, for prize payouts and league
+// records. Like question packs, nothing here touches the database.
+
+export type ResultsExportFormat = 'csv' | 'json';
+
+export interface RoundResult {
+  round_number: number;
+  title?: string;
+  score: number;
+  correct_answers: number;
+}
+
+export interface TeamStanding {
+  rank: number; // tied teams share a rank unless a tie-breaker settled it
+  won_tie_breaker: boolean;
+  team_id: string;
+  team: string;
+  players: string[];
+  score: number;
+  correct_answers: number;
+  answered: number;
+  accuracy_percentage: number;
+  rounds: RoundResult[];
+}
+
+// Teams from highest score to lowest, each with its score in every round.
+// A tie-breaker winner places ahead of the teams it was tied with
+export function rankStandings(results: GameResults): TeamStanding[] {
+  const { teams, rounds, tie_breaker_winner_id } = results.summary;
+  const wonTieBreaker = (team: { id: string }) => team.id === tie_breaker_winner_id;
+  const sorted = [...teams].sort((a, b) =>
+    b.total_score - a.total_score || Number(wonTieBreaker(b)) - Number(wonTieBreaker(a))
+  );
+
+  return sorted.map(team => ({
+    rank: sorted.findIndex(other =>
+      other.total_score === team.total_score && wonTieBreaker(other) === wonTieBreaker(team)
+    ) + 1,
+    team_id: team.id,
+    team: team.name,
+    won_tie_breaker: wonTieBreaker(team),
+    players: team.players.map(player => player.display_name),
+    score: team.total_score,
+    correct_answers: team.correct_answers,
+    answered: team.total_questions,
+    accuracy_percentage: Math.round(team.accuracy_percentage * 10) / 10,
+    rounds: rounds.map(round => {
+      const teamScore = round.team_scores.find(score => score.team_id === team.id);
+      return {
+        round_number: round.round_number,
+        title: round.title,
+        score: teamScore?.round_score ?? 0,
+        correct_answers: teamScore?.correct_answers ?? 0,
+      };
+    }),
+  }));
+}
+
+export function exportGameResults(results: GameResults, format: ResultsExportFormat): string {
+  const { game, rounds } = results.summary;
+  const standings = rankStandings(results);
+
+  if (format === 'json') {
+    return `${JSON.stringify({
+      game: {
+        id: game.id,
+        title: game.title,
+        location: game.location ?? null,
+        scheduled_date: game.scheduled_date,
+      },
+      recorded_at: results.recorded_at,
+      standings,
+    }, null, 2)}\n`;
+  }
+
+  const header = [
+    'rank', 'team', 'players', 'score', 'correct_answers', 'answered', 'accuracy_percentage',
+    ...rounds.map(round => `round_${round.round_number}`),
+  ];
+  const lines = standings.map(standing =>
+    [
+      String(standing.rank),
+      standing.team,
+      standing.players.join('; '),
+      String(standing.score),
+      String(standing.correct_answers),
+      String(standing.answered),
+      String(standing.accuracy_percentage),
+      ...standing.rounds.map(round => String(round.score)),
+    ].map(toCsvField).join(',')
+  );
+
+  return `${[header.join(','), ...lines].join('\n')}\n`;
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Certificates only go to the top three
+const PLACES = ['1st', '2nd', '3rd'];
+
+// A standalone page to print: the standings with every round's scores, then
+// a certificate for each team that placed in the top three
+export function renderResultsSheet(results: GameResults): string {
+  const { game, rounds } = results.summary;
+  const standings = rankStandings(results);
+  const title = escapeHtml(game.title);
+  const date = escapeHtml(new Date(game.scheduled_date).toLocaleDateString());
+  const venue = game.location ? ` · ${escapeHtml(game.location)}` : '';
+
+  const roundHeaders = rounds
+    .map(round => `<th>R${round.round_number}${round.title ? `<br><small>${escapeHtml(round.title)}</small>` : ''}</th>`)
+    .join('');
+  const rows = standings
+    .map(standing => `
+      <tr>
+        <td>${standing.rank}</td>
+        <td><strong>${escapeHtml(standing.team)}</strong>${standing.won_tie_breaker ? ' (won the tie-breaker)' : ''}<br><small>${escapeHtml(standing.players.join(', '))}</small></td>
+        ${standing.rounds.map(round => `<td class="num">${round.score}</td>`).join('')}
+        <td class="num"><strong>${standing.score}</strong></td>
+        <td class="num">${standing.correct_answers}/${standing.answered}</td>
+      </tr>`)
+    .join('');
+  const certificates = standings
+    .filter(standing => standing.rank <= PLACES.length)
+    .map(standing => `
+    <section class="certificate">
+      <p class="eyebrow">Certificate of Achievement</p>
+      <h2>${escapeHtml(standing.team)}</h2>
+      <p class="place">${PLACES[standing.rank - 1]} place</p>
+      <p>${title}${venue} · ${date}</p>
+      <p>${standing.score} points · ${escapeHtml(standing.players.join(', '))}</p>
+    </section>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${title} – Final Results</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 2rem; color: #111; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { border-bottom: 1px solid #ccc; padding: 0.5rem; text-align: left; vertical-align: top; }
+    .num { text-align: right; }
+    small { color: #555; }
+    .certificate { page-break-before: always; text-align: center; border: 6px double #333; padding: 4rem 2rem; margin-top: 2rem; }
+    .certificate h2 { font-size: 2.5rem; margin: 1rem 0; }
+    .eyebrow { text-transform: uppercase; letter-spacing: 0.2em; }
+    .place { font-size: 1.5rem; font-weight: bold; }
+    @media print { body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <h1>${title}</h1>
+  <p>Final results${venue} · ${date}</p>
+  <table>
+    <thead>
+      <tr><th>#</th><th>Team</th>${roundHeaders}<th class="num">Total</th><th class="num">Correct</th></tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+  </table>
+  <p><small>Recorded ${escapeHtml(new Date(results.recorded_at).toLocaleString())}</small></p>${certificates}
+</body>
+</html>
+`;
+}
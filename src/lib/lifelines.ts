@@ -0,0 +1,34 @@
+import type { GameQuestion, LifelineCounts, LifelineType } from '@/contracts/game';
+
+// Mirrors the column default in migration 027
+export const DEFAULT_LIFELINES: LifelineCounts = {
+  fifty_fifty: 1,
+  skip: 1,
+  extra_time: 1,
+};
+
+export const LIFELINE_LABELS: Record<LifelineType, string> = {
+  fifty_fifty: '50/50',
+  skip: 'Skip',
+  extra_time: 'Extra time',
+};
+
+export function resolveLifelines(lifelines?: Partial<LifelineCounts> | null): LifelineCounts {
+  return { ...DEFAULT_LIFELINES, ...lifelines };
+}
+
+export function emptyLifelineCounts(): LifelineCounts {
+  return { fifty_fifty: 0, skip: 0, extra_time: 0 };
+}
+
+type LifelineUsageRow = Pick<GameQuestion, 'fifty_fifty_used' | 'skipped_question_id' | 'extra_time_used'>;
+
+// Counts the lifelines used across a set of game questions
+export function countLifelineUsage(questions: LifelineUsageRow[]): LifelineCounts {
+  return questions.reduce<LifelineCounts>((counts, question) => {
+    if (question.fifty_fifty_used) counts.fifty_fifty++;
+    if (question.skipped_question_id) counts.skip++;
+    if (question.extra_time_used) counts.extra_time++;
+    return counts;
+  }, emptyLifelineCounts());
+}
@@ -0,0 +1,421 @@
+import type { Question, QuestionType } from '@/contracts/game';
+import { TRUE_FALSE_ANSWERS } from './questionTypes';
+
+// Question packs are CSV or JSON files of questions in the shape of the
+// questions table. Answer a is always the correct one. Nothing here touches
+// the database, so the CLI script, the admin UI and tests can all share it.
+
+export type QuestionPackFormat = 'csv' | 'json';
+
+// question_type is left out for multiple choice questions
+export type QuestionDraft = Pick<Question, 'category' | 'question' | 'a' | 'b' | 'c' | 'd' | 'metadata'> & {
+  question_type?: QuestionType;
+};
+
+export interface QuestionImportError {
+  row: number; // CSV: line the record starts on; JSON: 1-based position in the array
+  field?: keyof QuestionDraft;
+  message: string;
+}
+
+export interface QuestionImportDuplicate {
+  row: number;
+  question: string;
+  duplicate_of: number | 'existing'; // the earlier row, or a question already in the bank
+}
+
+export interface QuestionImportResult {
+  questions: QuestionDraft[]; // valid, non-duplicate questions ready to insert
+  errors: QuestionImportError[];
+  duplicates: QuestionImportDuplicate[];
+  total_rows: number;
+}
+
+export interface QuestionImportOptions {
+  existingQuestions?: Iterable<string>; // question text already in the bank
+  knownCategories?: Iterable<string>; // categories whose spelling imports should match
+}
+
+export const QUESTION_PACK_COLUMNS = ['category', 'question', 'a', 'b', 'c', 'd', 'metadata', 'question_type'] as const;
+
+// Packs written before question types have no question_type column
+const OPTIONAL_COLUMNS: readonly string[] = ['metadata', 'question_type'];
+
+const ANSWER_FIELDS = ['a', 'b', 'c', 'd'] as const;
+
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+
+// Duplicate detection ignores case, accents, punctuation and spacing
+export function normalizeQuestionText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Trims and title-cases a category, or uses the bank's spelling when it
+// already has the category under a different case or spacing
+export function normalizeCategory(category: string, knownCategories: Map<string, string> = new Map()): string {
+  const collapsed = category.replace(/\s+/g, ' ').trim();
+  const known = knownCategories.get(collapsed.toLowerCase());
+  if (known) {
+    return known;
+  }
+
+  return collapsed
+    .toLowerCase()
+    .replace(/(^|[\s\-/(])(\p{L})/gu, (_match, boundary: string, letter: string) => boundary + letter.toUpperCase());
+}
+
+// Parses RFC 4180 CSV: quoted fields may hold commas, quotes ("") and line breaks
+export function parseCsv(content: string): { line: number; fields: string[] }[] {
+  const records: { line: number; fields: string[] }[] = [];
+  const text = content.replace(/^\uFEFF/, '');
+
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    // Skip blank lines
+    if (fields.length > 1 || fields[0].trim() !== '') {
+      records.push({ line: recordLine, fields });
+    }
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || fields.length > 0) {
+    endRecord();
+  }
+
+  return records;
+}
+
+interface RawRow {
+  row: number;
+  values: Record<string, unknown> | null; // null when the row could not be read at all
+}
+
+function readCsvRows(content: string, errors: QuestionImportError[]): RawRow[] {
+  const [header, ...records] = parseCsv(content);
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.fields.map(column => column.trim().toLowerCase());
+  const missing = QUESTION_PACK_COLUMNS.filter(column => !OPTIONAL_COLUMNS.includes(column) && !columns.includes(column));
+  if (missing.length > 0) {
+    errors.push({ row: header.line, message: `Missing columns: ${missing.join(', ')}` });
+    return [];
+  }
+
+  return records.map(record => {
+    const values: Record<string, unknown> = {};
+    const extra: Record<string, string> = {};
+
+    columns.forEach((column, index) => {
+      const value = record.fields[index] ?? '';
+      if ((QUESTION_PACK_COLUMNS as readonly string[]).includes(column)) {
+        values[column] = value;
+      } else if (column && value !== '') {
+        // Columns the bank has no place for are kept in metadata
+        extra[column] = value;
+      }
+    });
+
+    if (record.fields.length > columns.length) {
+      errors.push({ row: record.line, message: `Expected ${columns.length} columns but found ${record.fields.length}` });
+    }
+
+    if (typeof values.metadata === 'string' && values.metadata.trim() !== '') {
+      try {
+        values.metadata = JSON.parse(values.metadata);
+      } catch {
+        values.metadata = undefined;
+        errors.push({ row: record.line, field: 'metadata', message: 'Metadata must be a JSON object' });
+      }
+    } else {
+      values.metadata = undefined;
+    }
+
+    if (Object.keys(extra).length > 0) {
+      values.metadata = { ...(values.metadata as Record<string, unknown> | undefined), ...extra };
+    }
+
+    return { row: record.line, values };
+  });
+}
+
+function readJsonRows(content: string, errors: QuestionImportError[]): RawRow[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content.replace(/^\uFEFF/, ''));
+  } catch (error) {
+    errors.push({ row: 0, message: `Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}` });
+    return [];
+  }
+
+  // Accept a bare array or a pack object with a questions array
+  const items = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { questions?: unknown } | null)?.questions;
+
+  if (!Array.isArray(items)) {
+    errors.push({ row: 0, message: 'Expected an array of questions or an object with a questions array' });
+    return [];
+  }
+
+  return items.map((item, index) => {
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+      errors.push({ row: index + 1, message: 'Question must be an object' });
+      return { row: index + 1, values: null };
+    }
+    return { row: index + 1, values: item as Record<string, unknown> };
+  });
+}
+
+function validateRow(
+  row: number,
+  values: Record<string, unknown>,
+  knownCategories: Map<string, string>,
+  errors: QuestionImportError[]
+): QuestionDraft | null {
+  const rowErrors: QuestionImportError[] = [];
+
+  const text = (field: keyof QuestionDraft) => {
+    const value = values[field];
+    if (value === undefined || value === null) return '';
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      rowErrors.push({ row, field, message: `${field} must be text` });
+      return '';
+    }
+    return String(value).replace(/\s+/g, ' ').trim();
+  };
+
+  const category = text('category');
+  const question = text('question');
+  const answers = ANSWER_FIELDS.map(field => text(field));
+  const questionType = text('question_type').toLowerCase() || 'multiple_choice';
+
+  if (!category) rowErrors.push({ row, field: 'category', message: 'Category is required' });
+  if (!question) rowErrors.push({ row, field: 'question', message: 'Question is required' });
+
+  if (questionType === 'numeric') {
+    // The answer is a number and there are no other choices
+    if (!NUMBER_PATTERN.test(answers[0])) {
+      rowErrors.push({ row, field: 'a', message: 'Answer a must be a number for a numeric question' });
+    }
+    if (answers.slice(1).some(Boolean)) {
+      rowErrors.push({ row, message: 'Numeric questions only have answer a' });
+    }
+  } else if (questionType === 'true_false') {
+    // Answer a is True or False; b, if given, has to be the other one
+    const [a, b] = answers.map(answer => answer.toLowerCase());
+    if (!TRUE_FALSE_ANSWERS.some(answer => answer.toLowerCase() === a)) {
+      rowErrors.push({ row, field: 'a', message: 'Answer a must be True or False for a true/false question' });
+    } else if (b && (b === a || !TRUE_FALSE_ANSWERS.some(answer => answer.toLowerCase() === b))) {
+      rowErrors.push({ row, field: 'b', message: 'Answer b must be the opposite of answer a' });
+    }
+    if (answers.slice(2).some(Boolean)) {
+      rowErrors.push({ row, message: 'True/false questions only have answers a and b' });
+    }
+  } else if (questionType === 'free_text') {
+    if (!answers[0]) {
+      rowErrors.push({ row, field: 'a', message: 'Answer a is required' });
+    }
+    if (answers.slice(1).some(Boolean)) {
+      rowErrors.push({ row, message: 'Free-text questions only have answer a' });
+    }
+  } else if (questionType === 'multiple_choice') {
+    ANSWER_FIELDS.forEach((field, index) => {
+      if (!answers[index]) {
+        rowErrors.push({ row, field, message: `Answer ${field} is required` });
+      }
+    });
+
+    const distinctAnswers = new Set(answers.filter(Boolean).map(answer => answer.toLowerCase()));
+    if (answers.every(Boolean) && distinctAnswers.size < answers.length) {
+      rowErrors.push({ row, message: 'Answers must all be different' });
+    }
+  } else {
+    rowErrors.push({
+      row,
+      field: 'question_type',
+      message: 'Question type must be multiple_choice, true_false, numeric or free_text',
+    });
+  }
+
+  const metadata = values.metadata;
+  if (metadata !== undefined && metadata !== null && (typeof metadata !== 'object' || Array.isArray(metadata))) {
+    rowErrors.push({ row, field: 'metadata', message: 'Metadata must be a JSON object' });
+  }
+
+  if (rowErrors.length > 0) {
+    errors.push(...rowErrors);
+    return null;
+  }
+
+  const [a, b, c, d] = answers;
+  const draft: QuestionDraft = {
+    category: normalizeCategory(category, knownCategories),
+    question,
+    a,
+    b,
+    c,
+    d,
+    metadata: (metadata as Record<string, unknown> | undefined) ?? {},
+  };
+
+  if (questionType === 'true_false') {
+    const [correct, other] = a.toLowerCase() === 'true' ? TRUE_FALSE_ANSWERS : [...TRUE_FALSE_ANSWERS].reverse();
+    return { ...draft, a: correct, b: other, c: null, d: null, question_type: 'true_false' };
+  }
+  if (questionType === 'numeric' || questionType === 'free_text') {
+    return { ...draft, b: null, c: null, d: null, question_type: questionType };
+  }
+  return draft;
+}
+
+function categoryLookup(categories: Iterable<string> = []): Map<string, string> {
+  const lookup = new Map<string, string>();
+  for (const category of categories) {
+    lookup.set(category.replace(/\s+/g, ' ').trim().toLowerCase(), category);
+  }
+  return lookup;
+}
+
+// Checks one question, such as one typed into the admin editor, by the same rules as an import
+export function validateQuestionDraft(
+  values: Partial<Record<keyof QuestionDraft, unknown>>,
+  knownCategories?: Iterable<string>
+): { question: QuestionDraft | null; errors: Omit<QuestionImportError, 'row'>[] } {
+  const errors: QuestionImportError[] = [];
+  const question = validateRow(0, values, categoryLookup(knownCategories), errors);
+  return { question, errors: errors.map(({ field, message }) => ({ field, message })) };
+}
+
+// Reads a question pack, keeping the valid questions and reporting errors
+// and duplicates by row so the whole file can be fixed in one pass
+export function importQuestionPack(
+  content: string,
+  format: QuestionPackFormat,
+  options: QuestionImportOptions = {}
+): QuestionImportResult {
+  const errors: QuestionImportError[] = [];
+  const duplicates: QuestionImportDuplicate[] = [];
+  const questions: QuestionDraft[] = [];
+
+  const knownCategories = categoryLookup(options.knownCategories);
+
+  const existing = new Set<string>();
+  for (const question of options.existingQuestions ?? []) {
+    existing.add(normalizeQuestionText(question));
+  }
+
+  const rows = format === 'csv' ? readCsvRows(content, errors) : readJsonRows(content, errors);
+  const seen = new Map<string, number>();
+  const rowsWithErrors = new Set(errors.map(error => error.row));
+
+  for (const raw of rows) {
+    if (!raw.values) {
+      continue;
+    }
+
+    // Validate rows that already have read errors too, so every problem is reported at once
+    const draft = validateRow(raw.row, raw.values, knownCategories, errors);
+    if (!draft || rowsWithErrors.has(raw.row)) {
+      continue;
+    }
+
+    const key = normalizeQuestionText(draft.question);
+    if (existing.has(key)) {
+      duplicates.push({ row: raw.row, question: draft.question, duplicate_of: 'existing' });
+    } else if (seen.has(key)) {
+      duplicates.push({ row: raw.row, question: draft.question, duplicate_of: seen.get(key)! });
+    } else {
+      seen.set(key, raw.row);
+      questions.push(draft);
+    }
+  }
+
+  errors.sort((left, right) => left.row - right.row);
+
+  return { questions, errors, duplicates, total_rows: rows.length };
+}
+
+export function toCsvField(value: string): string {
+  return /[",\r\n]/.test(value) || value !== value.trim() ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Writes questions in a format importQuestionPack reads back unchanged
+export function exportQuestionPack(questions: QuestionDraft[], format: QuestionPackFormat): string {
+  const drafts = questions.map(({ category, question, a, b, c, d, metadata, question_type }) => ({
+    category,
+    question,
+    a,
+    b,
+    c,
+    d,
+    metadata: metadata ?? {},
+    ...(question_type && question_type !== 'multiple_choice' ? { question_type } : {}),
+  }));
+
+  if (format === 'json') {
+    return `${JSON.stringify(drafts, null, 2)}\n`;
+  }
+
+  const lines = drafts.map(draft =>
+    [
+      draft.category,
+      draft.question,
+      draft.a,
+      draft.b ?? '',
+      draft.c ?? '',
+      draft.d ?? '',
+      Object.keys(draft.metadata).length > 0 ? JSON.stringify(draft.metadata) : '',
+      draft.question_type ?? '',
+    ].map(toCsvField).join(',')
+  );
+
+  return `${[QUESTION_PACK_COLUMNS.join(','), ...lines].join('\n')}\n`;
+}
+
+export function detectQuestionPackFormat(fileName: string): QuestionPackFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  return extension === 'csv' || extension === 'json' ? extension : null;
+}
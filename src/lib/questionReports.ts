@@ -0,0 +1,20 @@
+import type { QuestionReport, QuestionReportReason, QuestionReportResolution } from '@/contracts/game';
+
+export const REPORT_REASON_LABELS: Record<QuestionReportReason, string> = {
+  wrong_answer: 'Wrong answer',
+  ambiguous: 'Ambiguous',
+  outdated: 'Outdated',
+  offensive: 'Offensive',
+};
+
+export const REPORT_STATUS_LABELS: Record<QuestionReport['status'], string> = {
+  open: 'Open',
+  resolved: 'Resolved',
+  dismissed: 'Dismissed',
+};
+
+export const REPORT_RESOLUTION_LABELS: Record<QuestionReportResolution, string> = {
+  answer_was_wrong: 'Answer was wrong',
+  fixed: 'Fixed',
+  dismissed: 'Dismissed',
+};
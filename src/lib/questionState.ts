@@ -0,0 +1,17 @@
+import type { QuestionState } from '@/contracts/multi-user-types';
+
+// The state a live question moves to next. Mirrors the transitions the
+// rounds trigger allows in migration 038; a revealed question never reopens.
+export const NEXT_QUESTION_STATE: Record<QuestionState, QuestionState | null> = {
+  pending: 'open',
+  open: 'closed',
+  closed: 'revealed',
+  revealed: null,
+};
+
+// The state a question has to be in to move to `state`, or null if no
+// transition leads there (questions only return to pending by moving on)
+export function previousQuestionState(state: QuestionState): QuestionState | null {
+  const entry = Object.entries(NEXT_QUESTION_STATE).find(([, next]) => next === state);
+  return entry ? (entry[0] as QuestionState) : null;
+}
@@ -0,0 +1,42 @@
+import type { GameSession } from '@/contracts/game';
+
+// Mirrors the column default on games in migration 026
+export const DEFAULT_QUESTION_TIME_LIMIT_SECONDS = 30;
+
+export const QUESTION_TIME_LIMIT_OPTIONS = [10, 20, 30, 60] as const;
+
+// Time spent on the current question. elapsedMs holds the time banked before
+// the last pause; runningSince is when the clock last started, or null while paused
+export interface QuestionClock {
+  questionId: string;
+  elapsedMs: number;
+  runningSince: number | null;
+}
+
+export function startQuestionClock(questionId: string, elapsedMs: number, now: number): QuestionClock {
+  return { questionId, elapsedMs: Math.max(0, elapsedMs), runningSince: now };
+}
+
+export function getElapsedMs(clock: QuestionClock, now: number): number {
+  return clock.elapsedMs + (clock.runningSince === null ? 0 : Math.max(0, now - clock.runningSince));
+}
+
+export function pauseQuestionClock(clock: QuestionClock, now: number): QuestionClock {
+  return { ...clock, elapsedMs: getElapsedMs(clock, now), runningSince: null };
+}
+
+// Time the database has counted on a session's current question: what was
+// banked before the last pause, plus the time since its clock last started
+export function getSessionElapsedMs(
+  session: Pick<GameSession, 'question_elapsed_ms' | 'question_opened_at'>,
+  now: number
+): number {
+  const runningMs = session.question_opened_at ? Math.max(0, now - Date.parse(session.question_opened_at)) : 0;
+  return (session.question_elapsed_ms ?? 0) + runningMs;
+}
+
+// The wall clock time the question would have started had it never been
+// paused, which is what the countdown counts from; null while paused
+export function getEffectiveStart(clock: QuestionClock): number | null {
+  return clock.runningSince === null ? null : clock.runningSince - clock.elapsedMs;
+}
@@ -0,0 +1,114 @@
+import type { QuestionType } from '@/contracts/game';
+import type { AnswerLetter, TeamAnswer } from '@/contracts/multi-user-types';
+
+export const QUESTION_TYPES: QuestionType[] = ['multiple_choice', 'true_false', 'numeric', 'free_text'];
+
+// Numeric questions are closest wins between teams, so single-player games
+// can't use them
+export const SINGLE_PLAYER_QUESTION_TYPES: QuestionType[] = ['multiple_choice', 'true_false', 'free_text'];
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  multiple_choice: 'Multiple choice',
+  true_false: 'True or false',
+  numeric: 'Closest number',
+  free_text: 'Free text',
+};
+
+export const QUESTION_TYPE_DESCRIPTIONS: Record<QuestionType, string> = {
+  multiple_choice: 'Pick one of four answers',
+  true_false: 'Pick True or False',
+  numeric: 'Type a number; the closest teams win the points',
+  free_text: 'Type the answer; close spellings count',
+};
+
+// Always presented in this order, so A is True and B is False
+export const TRUE_FALSE_ANSWERS = ['True', 'False'] as const;
+
+// Free-text answers scoring at least this much are correct
+export const FREE_TEXT_MATCH_THRESHOLD = 0.8;
+
+// Longest number or free-text answer a team can type
+export const MAX_TYPED_ANSWER_LENGTH = 200;
+
+// The letters teams pick from; none for typed answers
+export function answerLetters(questionType: QuestionType): AnswerLetter[] {
+  if (questionType === 'multiple_choice') return ['A', 'B', 'C', 'D'];
+  if (questionType === 'true_false') return ['A', 'B'];
+  return [];
+}
+
+export function isNumericAnswer(value: string): boolean {
+  return /^-?[0-9]+(\.[0-9]+)?$/.test(value.trim());
+}
+
+// Mirrors normalize_free_text_answer in migration 037
+export function normalizeFreeTextAnswer(answer: string): string {
+  return answer
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^(the|a|an) /, '');
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+// 1 less the edit distance over the longer length, once both are normalized.
+// Mirrors free_text_match_score in migration 037
+export function freeTextMatchScore(answer: string, correctAnswer: string): number {
+  const normalizedAnswer = normalizeFreeTextAnswer(answer).slice(0, 255);
+  const normalizedCorrect = normalizeFreeTextAnswer(correctAnswer).slice(0, 255);
+
+  if (!normalizedAnswer || !normalizedCorrect) return 0;
+
+  const length = Math.max(normalizedAnswer.length, normalizedCorrect.length);
+  return Math.round((1 - levenshtein(normalizedAnswer, normalizedCorrect) / length) * 1000) / 1000;
+}
+
+export function isFreeTextMatch(answer: string, correctAnswer: string): boolean {
+  return freeTextMatchScore(answer, correctAnswer) >= FREE_TEXT_MATCH_THRESHOLD;
+}
+
+export type RankedNumericAnswer<T> = T & { distance: number; closest: boolean };
+
+// Numeric answers nearest first; every answer sharing the smallest distance
+// is closest. Mirrors score_closest_answers in migration 037
+export function rankClosestAnswers<T extends Pick<TeamAnswer, 'answer'>>(
+  correctAnswer: string,
+  answers: T[]
+): RankedNumericAnswer<T>[] {
+  const ranked = answers
+    .map(answer => ({ ...answer, distance: Math.abs(Number(answer.answer) - Number(correctAnswer)), closest: false }))
+    .sort((a, b) => a.distance - b.distance);
+  const closest = ranked[0]?.distance;
+
+  return ranked.map(answer => ({ ...answer, closest: answer.distance === closest }));
+}
+
+// How an answer reads: the letter for multiple choice, True or False, or the
+// number or text itself
+export function formatAnswer(
+  question: { question_type: QuestionType; presented_answers: string[] },
+  answer: string
+): string {
+  if (question.question_type === 'true_false') {
+    return question.presented_answers[answerLetters('true_false').indexOf(answer as AnswerLetter)] ?? answer;
+  }
+  return answer;
+}
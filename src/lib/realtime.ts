@@ -0,0 +1,140 @@
+import type { RealtimeChannel, SupabaseClient } from '@supabase/supabase-js';
+
+// Tables whose Postgres change feeds drive live multi-user games
+export type RealtimeTable =
+  | 'games'
+  | 'rounds'
+  | 'teams'
+  | 'team_players'
+  | 'team_answers'
+  | 'tie_breakers'
+  | 'tie_breaker_answers';
+
+export type RealtimeEventType = 'INSERT' | 'UPDATE' | 'DELETE';
+
+// A single row change, normalized from the Supabase postgres_changes payload.
+// Handlers narrow the row to the table's type. Under RLS `old` only carries
+// the primary key, whatever the table's replica identity
+export interface RealtimeChange<T extends object = object> {
+  table: RealtimeTable;
+  eventType: RealtimeEventType;
+  new: T | null;
+  old: Partial<T> | null;
+}
+
+// What a subscription listens to. `filter` uses the PostgREST syntax Supabase
+// Realtime understands, e.g. `game_id=eq.<uuid>` or `team_id=in.(<uuid>,<uuid>)`
+export interface RealtimeBinding {
+  table: RealtimeTable;
+  filter?: string;
+}
+
+export type RealtimeChangeHandler = (change: RealtimeChange) => void;
+
+// Pluggable transport so the game service can run against Supabase Realtime
+// in the app and against an in-memory bus in tests
+export interface RealtimeTransport {
+  subscribe(channel: string, bindings: RealtimeBinding[], onChange: RealtimeChangeHandler): () => void;
+}
+
+// Parse a `column=eq.value` or `column=in.(a,b)` filter. Only equality and
+// membership filters are supported.
+function parseFilter(filter: string): { column: string; values: string[] } {
+  const match = /^([a-z_]+)=(?:eq\.(.+)|in\.\((.+)\))$/.exec(filter);
+  if (!match) {
+    throw new Error(`Unsupported realtime filter: ${filter}`);
+  }
+  return { column: match[1], values: match[2] !== undefined ? [match[2]] : match[3].split(',') };
+}
+
+function matchesBinding(binding: RealtimeBinding, change: RealtimeChange): boolean {
+  if (binding.table !== change.table) {
+    return false;
+  }
+
+  // Supabase Realtime doesn't filter deletes, whose old row only carries the
+  // primary key under RLS
+  if (!binding.filter || change.eventType === 'DELETE') {
+    return true;
+  }
+
+  const { column, values } = parseFilter(binding.filter);
+  return change.new != null && values.includes(String((change.new as Record<string, unknown>)[column]));
+}
+
+function isEmptyRow(row: object | null | undefined): boolean {
+  return !row || Object.keys(row).length === 0;
+}
+
+// Transport backed by Supabase Realtime postgres_changes channels
+export function createSupabaseRealtimeTransport(client: SupabaseClient): RealtimeTransport {
+  let channelCount = 0;
+
+  return {
+    subscribe(channelName, bindings, onChange) {
+      // Channel topics must be unique per subscription
+      channelCount++;
+      let channel: RealtimeChannel = client.channel(`${channelName}:${channelCount}`);
+
+      for (const binding of bindings) {
+        channel = channel.on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: binding.table,
+            ...(binding.filter ? { filter: binding.filter } : {}),
+          },
+          (payload) => {
+            onChange({
+              table: binding.table,
+              eventType: payload.eventType as RealtimeEventType,
+              new: isEmptyRow(payload.new) ? null : payload.new,
+              old: isEmptyRow(payload.old) ? null : payload.old,
+            });
+          }
+        );
+      }
+
+      channel.subscribe((status, error) => {
+        if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          console.error(`Realtime channel ${channelName} ${status}:`, error);
+        }
+      });
+
+      return () => {
+        client.removeChannel(channel);
+      };
+    },
+  };
+}
+
+// In-memory event bus used by tests and local simulations. Changes emitted on
+// the bus are delivered to every subscription whose bindings match.
+export class InMemoryRealtimeTransport implements RealtimeTransport {
+  private subscriptions = new Set<{ bindings: RealtimeBinding[]; onChange: RealtimeChangeHandler }>();
+
+  subscribe(_channel: string, bindings: RealtimeBinding[], onChange: RealtimeChangeHandler): () => void {
+    // Validate filters up front so bad bindings fail at subscribe time
+    bindings.forEach(binding => binding.filter && parseFilter(binding.filter));
+
+    const subscription = { bindings, onChange };
+    this.subscriptions.add(subscription);
+
+    return () => {
+      this.subscriptions.delete(subscription);
+    };
+  }
+
+  emit(change: RealtimeChange): void {
+    for (const subscription of [...this.subscriptions]) {
+      if (subscription.bindings.some(binding => matchesBinding(binding, change))) {
+        subscription.onChange(change);
+      }
+    }
+  }
+
+  get subscriberCount(): number {
+    return this.subscriptions.size;
+  }
+}
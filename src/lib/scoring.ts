@@ -0,0 +1,41 @@
+import type { PointsBreakdown, ScoringRules, TeamAnswer } from '@/contracts/multi-user-types';
+
+// Mirrors the column default in migration 021; the database fills in the same
+// values for any rule a host leaves out
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  correct_points: 10,
+  incorrect_points: 0,
+  round_multipliers: {},
+  speed_bonus: null,
+  final_round_wager: false,
+};
+
+export function resolveScoringRules(rules?: Partial<ScoringRules> | null): ScoringRules {
+  return { ...DEFAULT_SCORING_RULES, ...rules };
+}
+
+export function getRoundMultiplier(rules: ScoringRules, roundNumber: number): number {
+  return rules.round_multipliers[String(roundNumber)] ?? 1;
+}
+
+export function isWagerRound(rules: ScoringRules, roundNumber: number, totalRounds: number): boolean {
+  return rules.final_round_wager && roundNumber === totalRounds;
+}
+
+// Totals scored answers by where their points came from
+export function summarizePoints(answers: TeamAnswer[]): PointsBreakdown {
+  return answers.reduce<PointsBreakdown>(
+    (breakdown, answer) => {
+      if (answer.wager !== undefined && answer.wager !== null) {
+        breakdown.wager += answer.points_earned ?? 0;
+      } else if (answer.is_correct) {
+        breakdown.correct += answer.base_points ?? 0;
+        breakdown.speed_bonus += answer.speed_bonus ?? 0;
+      } else {
+        breakdown.incorrect += answer.base_points ?? 0;
+      }
+      return breakdown;
+    },
+    { correct: 0, incorrect: 0, speed_bonus: 0, wager: 0 }
+  );
+}
@@ -0,0 +1,76 @@
+import type { Team, TieBreaker, TieBreakerAnswer, TieBreakerMode } from '@/contracts/multi-user-types';
+
+export const TIE_BREAKER_LABELS: Record<TieBreakerMode, string> = {
+  closest_number: 'Closest number',
+  sudden_death: 'Sudden death',
+};
+
+export const TIE_BREAKER_DESCRIPTIONS: Record<TieBreakerMode, string> = {
+  closest_number: 'The nearest answer to a numeric question wins',
+  sudden_death: 'The only team to get a multiple choice question right wins',
+};
+
+export interface TieBreakerResult {
+  answers: TieBreakerAnswer[]; // best first
+  leading_team_ids: string[];
+  winner_team_id: string | null;
+}
+
+// Teams sharing the top score, in the order given; empty unless two or more
+// are level. Mirrors how start_tie_breaker picks the teams for the first one
+export function findTiedLeaders(teams: Pick<Team, 'id' | 'current_score'>[]): string[] {
+  if (teams.length < 2) {
+    return [];
+  }
+
+  const topScore = Math.max(...teams.map(team => team.current_score));
+  const leaders = teams.filter(team => team.current_score === topScore).map(team => team.id);
+  return leaders.length > 1 ? leaders : [];
+}
+
+// Scores the answers against the correct number or letter. Closest number:
+// the smallest distance leads. Sudden death: the correct teams lead, or
+// everyone if no one was right. A single leader wins.
+// Mirrors resolve_tie_breaker in migration 036
+export function rankTieBreakerAnswers(
+  tieBreaker: Pick<TieBreaker, 'mode' | 'team_ids'>,
+  correctAnswer: string,
+  answers: TieBreakerAnswer[]
+): TieBreakerResult {
+  const scored = answers.map(answer => {
+    if (tieBreaker.mode === 'sudden_death') {
+      return { ...answer, is_correct: answer.answer === correctAnswer, distance: null };
+    }
+    const distance = Math.abs(Number(answer.answer) - Number(correctAnswer));
+    return { ...answer, is_correct: distance === 0, distance };
+  });
+
+  const ranked = [...scored].sort((a, b) =>
+    tieBreaker.mode === 'sudden_death'
+      ? Number(b.is_correct) - Number(a.is_correct)
+      : (a.distance ?? 0) - (b.distance ?? 0)
+  );
+
+  const best = ranked[0];
+  const leaders = tieBreaker.mode === 'sudden_death'
+    ? ranked.filter(answer => answer.is_correct)
+    : ranked.filter(answer => best && answer.distance === best.distance);
+  const leading_team_ids = leaders.length > 0 ? leaders.map(answer => answer.team_id) : [...tieBreaker.team_ids];
+
+  return {
+    answers: ranked,
+    leading_team_ids,
+    winner_team_id: leading_team_ids.length === 1 ? leading_team_ids[0] : null,
+  };
+}
+
+// Highest score first, with the tie-breaker winner ahead of the teams it tied with
+export function orderStandings<T extends Pick<Team, 'id' | 'current_score'>>(
+  teams: T[],
+  winnerTeamId?: string | null
+): T[] {
+  return [...teams].sort((a, b) =>
+    b.current_score - a.current_score ||
+    Number(b.id === winnerTeamId) - Number(a.id === winnerTeamId)
+  );
+}
@@ -0,0 +1,63 @@
+// Answer submission dedupe tests
+// These cover the client only: a submission already in flight isn't sent again. The row locks
+// from migration 025 are tested against the database in
+// supabase/tests/database/answer_submission_locking.test.sql.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GameServiceImpl } from '../game';
+import { InMemoryRealtimeTransport } from '../../lib/realtime';
+import type { SubmitAnswerRequest } from '../../contracts/game';
+import { rpc } from '../../test/supabase';
+
+vi.mock('../../lib/supabase', () => import('../../test/supabase'));
+
+const validated = {
+  is_correct: true,
+  correct_answer: 'Paris',
+  session_stats: {
+    current_score: 1,
+    current_question_index: 1,
+    round_complete: false,
+    game_complete: false,
+  },
+  next_question: null,
+};
+
+const answer = (game_question_id: string, user_answer: string): SubmitAnswerRequest => ({
+  game_session_id: 'session-1',
+  game_question_id,
+  user_answer,
+  time_to_answer_ms: 1500,
+});
+
+describe('Answer submission', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should send a double click to the server once', async () => {
+    rpc.mockImplementation(() => new Promise(resolve => setTimeout(() => resolve({ data: validated, error: null }), 5)));
+    const service = new GameServiceImpl(new InMemoryRealtimeTransport());
+
+    const [first, second] = await Promise.all([
+      service.submitAnswer(answer('gq-1', 'Paris')),
+      service.submitAnswer(answer('gq-1', 'Paris')),
+    ]);
+
+    expect(rpc).toHaveBeenCalledTimes(1);
+    expect(second).toEqual(first);
+  });
+
+  it('should allow a retry once a failed submission settles', async () => {
+    const service = new GameServiceImpl(new InMemoryRealtimeTransport());
+    rpc
+      .mockResolvedValueOnce({ data: null, error: new Error('Network request failed') })
+      .mockResolvedValueOnce({ data: validated, error: null });
+
+    await expect(service.submitAnswer(answer('gq-1', 'Paris'))).rejects.toThrow('Network request failed');
+    const retried = await service.submitAnswer(answer('gq-1', 'Paris'));
+
+    expect(rpc).toHaveBeenCalledTimes(2);
+    expect(retried.is_correct).toBe(true);
+  });
+});
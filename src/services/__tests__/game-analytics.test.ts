@@ -0,0 +1,169 @@
+// Game analytics tests
+// Hosts review each question's answers, timed from when answering opened,
+// and how each category went once a game is over
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GameServiceImpl } from '../game';
+import { InMemoryRealtimeTransport } from '../../lib/realtime';
+import { formatResponseTime } from '../../lib/gameAnalytics';
+import { rpc, mockTables } from '../../test/supabase';
+
+vi.mock('../../lib/supabase', () => import('../../test/supabase'));
+
+const roundQuestion = (
+  id: string,
+  roundNumber: number,
+  order: number,
+  category: string,
+  difficulty: number | null
+) => ({
+  id,
+  question_id: `q-${id}`,
+  question_order: order,
+  presented_answers: ['One', 'Two', 'Three', 'Four'],
+  correct_answer: 'B',
+  rounds: { round_number: roundNumber },
+  questions: { question: `Question ${id}`, category, difficulty, average_time_ms: null },
+});
+
+describe('Game analytics', () => {
+  let service: GameServiceImpl;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new GameServiceImpl(new InMemoryRealtimeTransport());
+  });
+
+  it('should break each question down by answer and response time', async () => {
+    rpc
+      .mockResolvedValueOnce({
+        data: [
+          roundQuestion('rq-2', 2, 1, 'History', null),
+          roundQuestion('rq-1', 1, 1, 'Science', 0.4),
+        ],
+        error: null,
+      })
+      .mockResolvedValueOnce({
+        data: [
+          { round_question_id: 'rq-1', answer: 'B', is_correct: true, response_time_ms: 4000 },
+          { round_question_id: 'rq-1', answer: 'D', is_correct: false, response_time_ms: 9000 },
+          { round_question_id: 'rq-2', answer: 'D', is_correct: false, response_time_ms: null },
+        ],
+        error: null,
+      });
+    mockTables({
+      teams: {
+        data: [
+          { id: 'team-1', current_score: 10, team_players: [{ id: 'tp-1' }] },
+          { id: 'team-2', current_score: 0, team_players: [{ id: 'tp-2' }] },
+        ],
+        error: null,
+      },
+    });
+
+    const analytics = await service.getGameAnalytics('game-1');
+
+    expect(rpc).toHaveBeenCalledWith('get_game_round_questions', { p_game_id: 'game-1' });
+    expect(rpc).toHaveBeenCalledWith('get_team_answers', { p_game_id: 'game-1' });
+    expect(analytics.average_response_time).toBe(6500);
+    expect(analytics.completion_rate).toBe(75);
+    expect(analytics.questions.map(question => question.round_question_id)).toEqual(['rq-1', 'rq-2']);
+    expect(analytics.questions[0]).toMatchObject({
+      round_number: 1,
+      question: 'Question rq-1',
+      correct_answer: 'B',
+      answer_count: 2,
+      correct_percentage: 50,
+      answer_distribution: { A: 0, B: 1, C: 0, D: 1 },
+      average_response_time: 6500,
+      difficulty: 0.4,
+    });
+    expect(analytics.questions[1].average_response_time).toBeNull();
+  });
+
+  it('should list categories with the hardest first', async () => {
+    rpc
+      .mockResolvedValueOnce({
+        data: [
+          roundQuestion('rq-1', 1, 1, 'Science', 0.2),
+          roundQuestion('rq-2', 1, 2, 'Science', 0.6),
+          roundQuestion('rq-3', 1, 3, 'History', null),
+        ],
+        error: null,
+      })
+      .mockResolvedValueOnce({
+        data: [
+          { round_question_id: 'rq-1', answer: 'B', is_correct: true, response_time_ms: 3000 },
+          { round_question_id: 'rq-2', answer: 'A', is_correct: false, response_time_ms: 5000 },
+          { round_question_id: 'rq-3', answer: 'A', is_correct: false, response_time_ms: 7000 },
+        ],
+        error: null,
+      });
+    mockTables({
+      teams: { data: [{ id: 'team-1', current_score: 10, team_players: [] }], error: null },
+    });
+
+    const { categories } = await service.getGameAnalytics('game-1');
+
+    expect(categories).toEqual([
+      {
+        category: 'History',
+        question_count: 1,
+        answer_count: 1,
+        correct_percentage: 0,
+        average_response_time: 7000,
+        average_difficulty: null,
+      },
+      {
+        category: 'Science',
+        question_count: 2,
+        answer_count: 2,
+        correct_percentage: 50,
+        average_response_time: 4000,
+        average_difficulty: 0.4,
+      },
+    ]);
+  });
+
+  it('should average a team\'s response times over the answers that have one', async () => {
+    rpc.mockResolvedValue({
+      data: [
+        { is_correct: true, points_earned: 12, response_time_ms: 2000 },
+        { is_correct: false, points_earned: 0, response_time_ms: 6000 },
+        { is_correct: true, points_earned: 10, response_time_ms: null },
+      ],
+      error: null,
+    });
+
+    const stats = await service.getTeamStats('team-1');
+
+    expect(rpc).toHaveBeenCalledWith('get_team_answers', { p_team_id: 'team-1' });
+    expect(stats).toEqual({
+      total_answers: 3,
+      correct_answers: 2,
+      accuracy_percentage: (2 / 3) * 100,
+      total_points: 22,
+      average_response_time: 4000,
+    });
+  });
+
+  it('should leave a team\'s answers to questions not revealed yet out of its stats', async () => {
+    // Players get these without grading until the host reveals the answer
+    rpc.mockResolvedValue({
+      data: [
+        { is_correct: true, points_earned: 12, response_time_ms: 2000 },
+        { response_time_ms: 1000 },
+      ],
+      error: null,
+    });
+
+    const stats = await service.getTeamStats('team-1');
+
+    expect(stats).toMatchObject({ total_answers: 1, correct_answers: 1, total_points: 12, average_response_time: 2000 });
+  });
+
+  it('should format response times for the report', () => {
+    expect(formatResponseTime(8420)).toBe('8.4s');
+    expect(formatResponseTime(null)).toBe('No times');
+  });
+});
@@ -0,0 +1,157 @@
+// Final results tests
+// Recorded standings, their CSV/JSON exports and the printable results sheet
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GameServiceImpl } from '../game';
+import { InMemoryRealtimeTransport } from '../../lib/realtime';
+import { exportGameResults, rankStandings, renderResultsSheet } from '../../lib/gameResults';
+import type { GameResults, GameSummaryResponse } from '../../contracts/multi-user-types';
+import { from, queryReturning } from '../../test/supabase';
+
+vi.mock('../../lib/supabase', () => import('../../test/supabase'));
+
+const team = (id: string, name: string, total_score: number, roundScores: number[]) => ({
+  id,
+  name,
+  players: [{ id: `${id}-p`, display_name: `${name} Captain`, joined_at: '2024-01-01T00:00:00Z' }],
+  total_score,
+  correct_answers: roundScores.filter(score => score > 0).length,
+  total_questions: roundScores.length,
+  accuracy_percentage: 66.6667,
+  round_scores: roundScores,
+});
+
+const teams = [
+  team('t-1', 'Quizzly Bears', 20, [10, 10]),
+  team('t-2', 'Know-It-Owls', 30, [20, 10]),
+  team('t-3', 'Smarty <Pints>', 20, [0, 20]),
+  team('t-4', 'Last Orders, Please', 5, [5, 0]),
+];
+
+const results: GameResults = {
+  game_id: 'game-1',
+  summary: {
+    game: { id: 'game-1', title: 'Pub Night & Quiz', location: 'The Crown', scheduled_date: '2024-01-01' },
+    teams,
+    rounds: [1, 2].map(round_number => ({
+      id: `round-${round_number}`,
+      round_number,
+      title: round_number === 1 ? 'Lab Work' : undefined,
+      team_scores: teams.map(t => ({
+        team_id: t.id,
+        team_name: t.name,
+        round_score: t.round_scores[round_number - 1],
+        correct_answers: t.round_scores[round_number - 1] > 0 ? 1 : 0,
+      })),
+    })),
+    overall_stats: { total_questions: 8, total_correct_answers: 6, average_accuracy: 75, duration_ms: 3600000 },
+  } as unknown as GameSummaryResponse,
+  recorded_at: '2024-01-01T22:00:00Z',
+};
+
+describe('Final results', () => {
+  describe('rankStandings', () => {
+    it('should rank teams by score, with tied teams sharing a place', () => {
+      const standings = rankStandings(results);
+
+      expect(standings.map(s => [s.rank, s.team])).toEqual([
+        [1, 'Know-It-Owls'],
+        [2, 'Quizzly Bears'],
+        [2, 'Smarty <Pints>'],
+        [4, 'Last Orders, Please'],
+      ]);
+      expect(standings[0].rounds).toEqual([
+        { round_number: 1, title: 'Lab Work', score: 20, correct_answers: 1 },
+        { round_number: 2, title: undefined, score: 10, correct_answers: 1 },
+      ]);
+      expect(standings[0].accuracy_percentage).toBe(66.7);
+    });
+
+    it('should place the tie-breaker winner ahead of the teams it tied with', () => {
+      const standings = rankStandings({
+        ...results,
+        summary: { ...results.summary, tie_breaker_winner_id: 't-3' },
+      });
+
+      expect(standings.map(s => [s.rank, s.team, s.won_tie_breaker])).toEqual([
+        [1, 'Know-It-Owls', false],
+        [2, 'Smarty <Pints>', true],
+        [3, 'Quizzly Bears', false],
+        [4, 'Last Orders, Please', false],
+      ]);
+    });
+  });
+
+  describe('exportGameResults', () => {
+    it('should write a CSV row per team with every round score', () => {
+      const lines = exportGameResults(results, 'csv').trim().split('\n');
+
+      expect(lines[0]).toBe('rank,team,players,score,correct_answers,answered,accuracy_percentage,round_1,round_2');
+      expect(lines[1]).toBe('1,Know-It-Owls,Know-It-Owls Captain,30,2,2,66.7,20,10');
+      expect(lines[4]).toBe('4,"Last Orders, Please","Last Orders, Please Captain",5,1,2,66.7,5,0');
+    });
+
+    it('should write JSON with the game and its standings', () => {
+      const exported = JSON.parse(exportGameResults(results, 'json'));
+
+      expect(exported.game).toEqual({
+        id: 'game-1',
+        title: 'Pub Night & Quiz',
+        location: 'The Crown',
+        scheduled_date: '2024-01-01',
+      });
+      expect(exported.recorded_at).toBe('2024-01-01T22:00:00Z');
+      expect(exported.standings).toHaveLength(4);
+      expect(exported.standings[1].players).toEqual(['Quizzly Bears Captain']);
+    });
+  });
+
+  describe('renderResultsSheet', () => {
+    it('should escape names and list per-round scores', () => {
+      const sheet = renderResultsSheet(results);
+
+      expect(sheet).toContain('<h1>Pub Night &amp; Quiz</h1>');
+      expect(sheet).toContain('Smarty &lt;Pints&gt;');
+      expect(sheet).not.toContain('<Pints>');
+      expect(sheet).toContain('<th>R1<br><small>Lab Work</small></th><th>R2</th>');
+    });
+
+    it('should print a certificate for each team in the top three', () => {
+      const sheet = renderResultsSheet(results);
+
+      expect(sheet.match(/Certificate of Achievement/g)).toHaveLength(3);
+      expect(sheet).toContain('1st place');
+      expect(sheet.match(/2nd place/g)).toHaveLength(2);
+      expect(sheet).not.toContain('4th place');
+    });
+  });
+
+  describe('getGameResults', () => {
+    let service: GameServiceImpl;
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      service = new GameServiceImpl(new InMemoryRealtimeTransport());
+    });
+
+    it('should load the recorded results', async () => {
+      from.mockReturnValue(queryReturning({ data: results, error: null }));
+
+      await expect(service.getGameResults('game-1')).resolves.toBe(results);
+      expect(from).toHaveBeenCalledWith('game_results');
+    });
+
+    it('should return null before the game has ended', async () => {
+      from.mockReturnValue(queryReturning({ data: null, error: null }));
+
+      await expect(service.getGameResults('game-1')).resolves.toBeNull();
+    });
+
+    it('should surface load errors', async () => {
+      from.mockReturnValue(queryReturning({ data: null, error: new Error('permission denied') }));
+
+      await expect(service.getGameResults('game-1'))
+        .rejects.toThrow('Failed to get game results: permission denied');
+    });
+  });
+});
@@ -0,0 +1,163 @@
+// Game state tests
+// Verifies getGameState maps the get_game_state RPC snapshot
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GameServiceImpl } from '../game';
+import { InMemoryRealtimeTransport } from '../../lib/realtime';
+import { DEFAULT_SCORING_RULES } from '../../lib/scoring';
+import type {
+  Game,
+  Round,
+  RoundQuestionDetail,
+  TeamAnswer,
+  TeamWithPlayers,
+} from '../../contracts/multi-user-types';
+import { rpc } from '../../test/supabase';
+
+vi.mock('../../lib/supabase', () => import('../../test/supabase'));
+
+describe('getGameState', () => {
+  const gameId = 'game-123';
+
+  const game: Game = {
+    id: gameId,
+    host_id: 'host-123',
+    title: 'Pub Night',
+    join_code: 'ABC123',
+    scheduled_date: '2024-01-01',
+    max_teams: 20,
+    max_players_per_team: 4,
+    status: 'in_progress',
+    total_rounds: 3,
+    questions_per_round: 2,
+    selected_categories: ['Science'],
+    scoring_rules: DEFAULT_SCORING_RULES,
+    question_time_limit_seconds: 30,
+    difficulty_curve: 'flat',
+    question_types: ['multiple_choice'],
+    tie_breaker: null,
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+  };
+
+  const round: Round = {
+    id: 'round-1',
+    game_id: gameId,
+    round_number: 1,
+    categories: [],
+    status: 'in_progress',
+    current_round_question_id: 'rq-2',
+    question_state: 'open',
+    created_at: '2024-01-01T00:00:00Z',
+  };
+
+  const teams: TeamWithPlayers[] = [];
+
+  const roundQuestion = (id: string, order: number): RoundQuestionDetail => ({
+    id,
+    round_id: round.id,
+    question_id: `question-${order}`,
+    question_order: order,
+    question: {
+      category: 'Science',
+      question: `Question ${order}?`,
+    },
+    question_type: 'multiple_choice',
+    presented_answers: ['Wrong', 'Right', 'Wrong', 'Wrong'],
+    correct_answer: 'B',
+    created_at: '2024-01-01T00:00:00Z',
+  });
+
+  const teamAnswer = (id: string, roundQuestionId: string): TeamAnswer => ({
+    id,
+    team_id: 'team-1',
+    round_question_id: roundQuestionId,
+    submitted_by: 'player-1',
+    answer: 'B',
+    is_correct: true,
+    points_earned: 10,
+    base_points: 10,
+    speed_bonus: 0,
+    submitted_at: '2024-01-01T00:00:00Z',
+  });
+
+  let service: GameServiceImpl;
+
+  beforeEach(() => {
+    rpc.mockReset();
+    service = new GameServiceImpl(new InMemoryRealtimeTransport());
+  });
+
+  it('should return the full snapshot from a single RPC', async () => {
+    const currentQuestion = roundQuestion('rq-2', 2);
+    const answers = [teamAnswer('answer-2', 'rq-2')];
+    rpc.mockResolvedValue({
+      data: {
+        game,
+        current_round: round,
+        teams,
+        current_question: currentQuestion,
+        team_answers: answers,
+      },
+      error: null,
+    });
+
+    const state = await service.getGameState(gameId);
+
+    expect(rpc).toHaveBeenCalledTimes(1);
+    expect(rpc).toHaveBeenCalledWith('get_game_state', { p_game_id: gameId });
+    expect(state).toEqual({
+      game,
+      current_round: round,
+      teams,
+      current_question: currentQuestion,
+      team_answers: answers,
+    });
+  });
+
+  it('should leave the answer out of a player\'s snapshot until it is revealed', async () => {
+    // get_game_state only adds correct_answer for the host or a revealed question (migration 039)
+    const openQuestion: RoundQuestionDetail = {
+      ...roundQuestion('rq-2', 2),
+      question_type: 'free_text',
+      presented_answers: [],
+    };
+    delete openQuestion.correct_answer;
+    rpc.mockResolvedValue({
+      data: { game, current_round: round, teams, current_question: openQuestion, team_answers: [] },
+      error: null,
+    });
+
+    const state = await service.getGameState(gameId);
+
+    expect(state.current_round?.question_state).toBe('open');
+    expect(state.current_question).toEqual(openQuestion);
+    expect(state.current_question).not.toHaveProperty('correct_answer');
+  });
+
+  it('should return no current question between rounds', async () => {
+    rpc.mockResolvedValue({
+      data: { game, current_round: null, teams, current_question: null, team_answers: [] },
+      error: null,
+    });
+
+    const state = await service.getGameState(gameId);
+
+    expect(state.game).toEqual(game);
+    expect(state.current_round).toBeUndefined();
+    expect(state.current_question).toBeUndefined();
+    expect(state.team_answers).toEqual([]);
+  });
+
+  it('should fail when the game is missing or not visible to the caller', async () => {
+    rpc.mockResolvedValue({ data: null, error: null });
+
+    await expect(service.getGameState(gameId)).rejects.toThrow('Failed to get game state: Game not found');
+  });
+
+  it('should surface RPC errors', async () => {
+    rpc.mockResolvedValue({ data: null, error: new Error('permission denied') });
+
+    await expect(service.getGameState(gameId)).rejects.toThrow('Failed to get game state: permission denied');
+  });
+});
@@ -151,6 +151,11 @@ describe('Game Service Contract Tests', () => {
           c: 'Hydrogen',
           d: 'Carbon',
           metadata: {},
+          status: 'approved',
+          difficulty: null,
+          correct_rate: null,
+          average_time_ms: null,
+          answer_count: 0,
           created_at: '2023-01-01T00:00:00Z',
           updated_at: '2023-01-01T00:00:00Z'
         },
@@ -163,6 +168,11 @@ describe('Game Service Contract Tests', () => {
           c: '1950-1953',
           d: '1960-1975',
           metadata: {},
+          status: 'approved',
+          difficulty: null,
+          correct_rate: null,
+          average_time_ms: null,
+          answer_count: 0,
           created_at: '2023-01-01T00:00:00Z',
           updated_at: '2023-01-01T00:00:00Z'
         }
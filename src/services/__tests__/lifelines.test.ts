@@ -0,0 +1,173 @@
+// Lifeline tests
+// The use_lifeline RPC does the work; the service forwards requests and reports usage in summaries
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DEFAULT_LIFELINES, resolveLifelines, countLifelineUsage } from '../../lib/lifelines';
+import { GameServiceImpl } from '../game';
+import { InMemoryRealtimeTransport } from '../../lib/realtime';
+import type { UseLifelineResponse } from '../../contracts/game';
+import { rpc, from, queryReturning } from '../../test/supabase';
+
+vi.mock('../../lib/supabase', () => import('../../test/supabase'));
+
+const session = {
+  id: 'session-1',
+  user_id: 'user-1',
+  status: 'completed',
+  total_rounds: 1,
+  questions_per_round: 3,
+  selected_categories: ['History'],
+  current_round: 1,
+  current_question_index: 3,
+  total_score: 1,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+const row = (overrides: Record<string, unknown>) => ({
+  round_number: 1,
+  question_order: 1,
+  is_correct: true,
+  time_to_answer_ms: 4000,
+  points_awarded: 1,
+  fifty_fifty_used: false,
+  removed_answers: null,
+  skipped_question_id: null,
+  extra_time_used: false,
+  extra_time_seconds: 0,
+  ...overrides,
+});
+
+describe('Lifeline helpers', () => {
+  it('should fill in default allowances', () => {
+    expect(resolveLifelines()).toEqual(DEFAULT_LIFELINES);
+    expect(resolveLifelines({ skip: 3 })).toEqual({ fifty_fifty: 1, skip: 3, extra_time: 1 });
+  });
+
+  it('should count lifelines used per question', () => {
+    expect(countLifelineUsage([
+      { fifty_fifty_used: true, skipped_question_id: 'q-9', extra_time_used: false },
+      { fifty_fifty_used: false, skipped_question_id: null, extra_time_used: true },
+      { fifty_fifty_used: true, skipped_question_id: null, extra_time_used: false },
+    ])).toEqual({ fifty_fifty: 2, skip: 1, extra_time: 1 });
+  });
+});
+
+describe('applyLifeline', () => {
+  let service: GameServiceImpl;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new GameServiceImpl(new InMemoryRealtimeTransport());
+  });
+
+  it('should apply the lifeline through the RPC', async () => {
+    const response: UseLifelineResponse = {
+      lifeline: 'fifty_fifty',
+      question: {
+        id: 'gq-1',
+        question: 'Who painted the Mona Lisa?',
+        category: 'History',
+        question_type: 'multiple_choice',
+        answers: ['Michelangelo', 'Leonardo da Vinci', 'Raphael', 'Donatello'],
+        round_number: 1,
+        question_number: 1,
+        total_questions: 3,
+        removed_answers: ['Raphael', 'Donatello'],
+        extra_time_seconds: 0,
+      },
+      lifelines_remaining: { fifty_fifty: 0, skip: 1, extra_time: 1 },
+    };
+    rpc.mockResolvedValue({ data: response, error: null });
+
+    const result = await service.applyLifeline({
+      game_session_id: 'session-1',
+      game_question_id: 'gq-1',
+      lifeline: 'fifty_fifty',
+    });
+
+    expect(rpc).toHaveBeenCalledWith('use_lifeline', {
+      p_game_question_id: 'gq-1',
+      p_lifeline: 'fifty_fifty',
+    });
+    expect(from).not.toHaveBeenCalled();
+    expect(result).toEqual(response);
+  });
+
+  it('should surface lifelines the database refuses', async () => {
+    rpc.mockResolvedValue({ data: null, error: new Error('No skip lifelines left') });
+
+    await expect(service.applyLifeline({
+      game_session_id: 'session-1',
+      game_question_id: 'gq-1',
+      lifeline: 'skip',
+    })).rejects.toThrow('Failed to use lifeline: No skip lifelines left');
+  });
+});
+
+describe('Starting a game with lifelines', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should carry the lifelines over while the session is in setup, then start it', async () => {
+    const service = new GameServiceImpl(new InMemoryRealtimeTransport());
+    const lifelines = { fifty_fifty: 2, skip: 0, extra_time: 1 };
+    const update = queryReturning({ data: null, error: null });
+    from
+      .mockReturnValueOnce(queryReturning({ data: { ...session, status: 'setup', lifelines_remaining: lifelines }, error: null }))
+      .mockReturnValueOnce(update);
+    rpc
+      .mockResolvedValueOnce({
+        data: [{
+          game_session_id: 'session-2',
+          questions: [{
+            id: 'gq-1',
+            question: 'Who painted the Mona Lisa?',
+            category: 'History',
+            question_type: 'multiple_choice',
+            answers: ['Michelangelo', 'Leonardo da Vinci', 'Raphael', 'Donatello'],
+            round_number: 1,
+            question_order: 1,
+          }],
+        }],
+        error: null,
+      })
+      .mockResolvedValueOnce({ data: { ...session, id: 'session-2', status: 'in_progress' }, error: null });
+
+    const started = await service.startGame('session-1');
+
+    // Status can't be written directly, and lifelines can only be set before the start
+    expect(update.update).toHaveBeenCalledWith({ question_time_limit_seconds: null, lifelines_remaining: lifelines });
+    expect(rpc).toHaveBeenLastCalledWith('set_session_status', { p_session_id: 'session-2', p_status: 'in_progress' });
+    expect(started.session.status).toBe('in_progress');
+  });
+});
+
+describe('Lifelines in game summaries', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should report lifeline usage and forfeited points', async () => {
+    const service = new GameServiceImpl(new InMemoryRealtimeTransport());
+    from
+      .mockReturnValueOnce(queryReturning({ data: session, error: null }))
+      .mockReturnValueOnce(queryReturning({
+        data: [
+          row({ question_order: 1 }),
+          row({ question_order: 2, points_awarded: 0, fifty_fifty_used: true, removed_answers: ['B', 'C'] }),
+          row({ question_order: 3, is_correct: false, points_awarded: 0, skipped_question_id: 'q-9', extra_time_used: true, extra_time_seconds: 15 }),
+        ],
+        error: null,
+      }))
+      .mockReturnValueOnce(queryReturning({ data: [{ total_score: 1 }], error: null }));
+
+    const summary = await service.getGameSummary('session-1');
+
+    expect(summary.correct_answers).toBe(2);
+    expect(summary.rounds[0].round_score).toBe(1);
+    expect(summary.lifelines_used).toEqual({ fifty_fifty: 1, skip: 1, extra_time: 1 });
+    expect(summary.lifeline_points_forfeited).toBe(1);
+  });
+});
@@ -0,0 +1,93 @@
+// Query count benchmarks
+// End-of-game screens load every team and round at once, so the number of
+// requests they make must not grow with the size of the game
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GameServiceImpl } from '../game';
+import { InMemoryRealtimeTransport } from '../../lib/realtime';
+import type { GameSummaryResponse } from '../../contracts/multi-user-types';
+import { rpc, from, mockTables } from '../../test/supabase';
+import type { QueryResult } from '../../test/supabase';
+
+const TEAM_COUNT = 20;
+const PLAYERS_PER_TEAM = 4;
+const ROUND_COUNT = 6;
+
+vi.mock('../../lib/supabase', () => import('../../test/supabase'));
+
+const teams = Array.from({ length: TEAM_COUNT }, (_, t) => ({
+  id: `team-${t}`,
+  game_id: 'game-1',
+  name: `Team ${t}`,
+  display_color: '#FF0000',
+  current_score: t * 10,
+  created_at: '2024-01-01T00:00:00Z',
+  team_players: Array.from({ length: PLAYERS_PER_TEAM }, (_, p) => ({
+    joined_at: '2024-01-01T00:00:00Z',
+    user_profiles: { id: `player-${t}-${p}`, display_name: `Player ${t}-${p}` },
+  })),
+}));
+
+describe('Query counts', () => {
+  let service: GameServiceImpl;
+  const requestCount = () => from.mock.calls.length + rpc.mock.calls.length;
+  let tables: Record<string, QueryResult>;
+  let rpcResults: Record<string, unknown>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tables = {};
+    rpcResults = {};
+    mockTables(tables);
+    rpc.mockImplementation((name: string) => Promise.resolve({ data: rpcResults[name] ?? null, error: null }));
+    service = new GameServiceImpl(new InMemoryRealtimeTransport());
+  });
+
+  it(`should load ${TEAM_COUNT} teams and their players in one request`, async () => {
+    tables.teams = { data: teams, error: null };
+
+    const result = await service.getGameTeams('game-1');
+
+    expect(requestCount()).toBe(1);
+    expect(result).toHaveLength(TEAM_COUNT);
+    expect(result[3].players).toHaveLength(PLAYERS_PER_TEAM);
+    expect(result[3].players[0]).toEqual({
+      id: 'player-3-0',
+      display_name: 'Player 3-0',
+      avatar_url: undefined,
+      joined_at: '2024-01-01T00:00:00Z',
+    });
+    expect(result[3]).not.toHaveProperty('team_players');
+  });
+
+  it(`should end a game with ${TEAM_COUNT} teams and ${ROUND_COUNT} rounds in one request`, async () => {
+    const summary = {
+      game: { id: 'game-1', status: 'completed' },
+      teams: teams.map(team => ({ id: team.id, name: team.name, current_score: team.current_score, players: [] })),
+      rounds: Array.from({ length: ROUND_COUNT }, (_, r) => ({ id: `round-${r}`, round_number: r + 1, team_scores: [] })),
+      overall_stats: { total_questions: 600, total_correct_answers: 300, average_accuracy: 50, duration_ms: 3600000 },
+    } as unknown as GameSummaryResponse;
+    rpcResults.complete_multi_user_game = summary;
+
+    const result = await service.completeMultiUserGame('game-1');
+
+    expect(requestCount()).toBe(1);
+    expect(rpc).toHaveBeenCalledWith('complete_multi_user_game', { p_game_id: 'game-1' });
+    expect(result).toBe(summary);
+  });
+
+  it('should keep game analytics to three requests however big the game is', async () => {
+    tables.teams = { data: teams, error: null };
+
+    await service.getGameAnalytics('game-1');
+
+    expect(requestCount()).toBe(3);
+  });
+
+  it('should surface a refused end of game', async () => {
+    rpc.mockResolvedValueOnce({ data: null, error: new Error('Only the host can end the game') });
+
+    await expect(service.completeMultiUserGame('game-1'))
+      .rejects.toThrow('Failed to complete game: Only the host can end the game');
+  });
+});
@@ -0,0 +1,268 @@
+// Question bank import/export tests
+// Reads the fixture packs in fixtures/question-packs; nothing here needs a database
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import path from 'path';
+import {
+  importQuestionPack,
+  exportQuestionPack,
+  normalizeCategory,
+  normalizeQuestionText,
+  parseCsv,
+  detectQuestionPackFormat,
+} from '../../lib/questionBank';
+
+const fixture = (name: string) =>
+  readFileSync(path.join(__dirname, 'fixtures', 'question-packs', name), 'utf8');
+
+describe('Question pack helpers', () => {
+  it('should normalize question text for duplicate detection', () => {
+    expect(normalizeQuestionText('  Who painted the  Mona Lisa? ')).toBe('who painted the mona lisa');
+    expect(normalizeQuestionText('Where is Zürich?')).toBe(normalizeQuestionText('where is zurich'));
+  });
+
+  it('should title-case categories unless the bank already has a spelling', () => {
+    expect(normalizeCategory('  world   history ')).toBe('World History');
+    expect(normalizeCategory('science & nature')).toBe('Science & Nature');
+    expect(normalizeCategory('tv shows', new Map([['tv shows', 'TV Shows']]))).toBe('TV Shows');
+  });
+
+  it('should parse quoted CSV fields', () => {
+    expect(parseCsv('a,b\n"1,2","say ""hi""\nthere"\n\n3,4')).toEqual([
+      { line: 1, fields: ['a', 'b'] },
+      { line: 2, fields: ['1,2', 'say "hi"\nthere'] },
+      { line: 5, fields: ['3', '4'] },
+    ]);
+  });
+
+  it('should detect the format from a file name', () => {
+    expect(detectQuestionPackFormat('pack.CSV')).toBe('csv');
+    expect(detectQuestionPackFormat('exports/pack.json')).toBe('json');
+    expect(detectQuestionPackFormat('pack.txt')).toBeNull();
+  });
+});
+
+describe('importQuestionPack', () => {
+  it('should import a valid CSV pack', () => {
+    const result = importQuestionPack(fixture('valid.csv'), 'csv');
+
+    expect(result.errors).toEqual([]);
+    expect(result.duplicates).toEqual([]);
+    expect(result.total_rows).toBe(4);
+    expect(result.questions).toEqual([
+      {
+        category: 'Science',
+        question: 'What is the chemical symbol for gold?',
+        a: 'Au',
+        b: 'Ag',
+        c: 'Gd',
+        d: 'Go',
+        metadata: { year: 2024, source: 'Quiz Night 12' },
+      },
+      {
+        category: 'World History',
+        question: 'Which city was split by a wall from 1961 to 1989?',
+        a: 'Berlin',
+        b: 'Vienna',
+        c: 'Prague',
+        d: 'Warsaw',
+        metadata: {},
+      },
+      {
+        category: 'Entertainment: Film',
+        question: 'Who said "Here\'s looking at you, kid"?',
+        a: 'Humphrey Bogart',
+        b: 'Cary Grant',
+        c: 'James Stewart',
+        d: 'Clark Gable',
+        metadata: {},
+      },
+      {
+        category: 'Geography',
+        question: 'Which river flows through Cairo?',
+        a: 'Nile',
+        b: 'Tigris',
+        c: 'Amazon',
+        d: 'Danube',
+        metadata: { source: 'Atlas' },
+      },
+    ]);
+  });
+
+  it('should report row-level errors and in-file duplicates', () => {
+    const result = importQuestionPack(fixture('invalid.csv'), 'csv');
+
+    expect(result.total_rows).toBe(8);
+    expect(result.errors).toEqual([
+      { row: 2, field: 'd', message: 'Answer d is required' },
+      { row: 3, field: 'category', message: 'Category is required' },
+      { row: 4, message: 'Answers must all be different' },
+      { row: 5, field: 'metadata', message: 'Metadata must be a JSON object' },
+      { row: 9, message: 'Expected 7 columns but found 8' },
+    ]);
+    expect(result.duplicates).toEqual([
+      {
+        row: 8,
+        question: 'What is the boiling point of water at sea level, in Celsius?',
+        duplicate_of: 7,
+      },
+    ]);
+    expect(result.questions.map(question => question.question)).toEqual([
+      'What is the largest planet in the Solar System',
+      'What is the boiling point of water at sea level in Celsius?',
+    ]);
+  });
+
+  it('should reject a CSV pack without the required columns', () => {
+    const result = importQuestionPack(fixture('missing-columns.csv'), 'csv');
+
+    expect(result.questions).toEqual([]);
+    expect(result.errors).toEqual([{ row: 1, message: 'Missing columns: c, d' }]);
+  });
+
+  it('should import a JSON pack and match existing questions and categories', () => {
+    const result = importQuestionPack(fixture('pack.json'), 'json', {
+      existingQuestions: ['How many players are on a SOCCER team on the field'],
+      knownCategories: ['SPORTS'],
+    });
+
+    expect(result.total_rows).toBe(5);
+    expect(result.errors).toEqual([
+      { row: 3, field: 'd', message: 'Answer d is required' },
+      { row: 3, field: 'metadata', message: 'Metadata must be a JSON object' },
+      { row: 4, message: 'Question must be an object' },
+    ]);
+    expect(result.duplicates).toEqual([
+      { row: 1, question: 'How many players are on a soccer team on the field?', duplicate_of: 'existing' },
+      { row: 5, question: 'Which country hosted the 2016 summer Olympics?', duplicate_of: 2 },
+    ]);
+    expect(result.questions).toEqual([
+      {
+        category: 'SPORTS',
+        question: 'Which country hosted the 2016 Summer Olympics?',
+        a: 'Brazil',
+        b: 'China',
+        c: 'United Kingdom',
+        d: 'Japan',
+        metadata: {},
+      },
+    ]);
+  });
+
+  it('should import numeric questions with only a number for answer a', () => {
+    const csv = [
+      'category,question,a,b,c,d,question_type',
+      'History,In what year did Apollo 11 land on the moon?,1969,,,,numeric',
+      'Science,How many bones are in the adult human body?,about 206,,,,numeric',
+      'Science,What is the speed of light in km/s?,299792,300000,,,numeric',
+      'Science,What is the boiling point of water in Celsius?,100,,,,essay',
+    ].join('\n');
+
+    const result = importQuestionPack(csv, 'csv');
+
+    expect(result.questions).toEqual([
+      {
+        category: 'History',
+        question: 'In what year did Apollo 11 land on the moon?',
+        a: '1969',
+        b: null,
+        c: null,
+        d: null,
+        metadata: {},
+        question_type: 'numeric',
+      },
+    ]);
+    expect(result.errors).toEqual([
+      { row: 3, field: 'a', message: 'Answer a must be a number for a numeric question' },
+      { row: 4, message: 'Numeric questions only have answer a' },
+      {
+        row: 5,
+        field: 'question_type',
+        message: 'Question type must be multiple_choice, true_false, numeric or free_text',
+      },
+    ]);
+  });
+
+  it('should import true/false and free-text questions', () => {
+    const csv = [
+      'category,question,a,b,c,d,question_type',
+      'Science,Sound travels faster than light.,false,,,,true_false',
+      'Science,Water boils at 100C at sea level.,True,True,,,true_false',
+      'Science,Is Pluto a planet?,Maybe,,,,true_false',
+      'Geography,What is the capital of Australia?,Canberra,,,,free_text',
+      'Geography,What is the capital of Canada?,Ottawa,Toronto,,,free_text',
+    ].join('\n');
+
+    const result = importQuestionPack(csv, 'csv');
+
+    expect(result.questions).toEqual([
+      {
+        category: 'Science',
+        question: 'Sound travels faster than light.',
+        a: 'False',
+        b: 'True',
+        c: null,
+        d: null,
+        metadata: {},
+        question_type: 'true_false',
+      },
+      {
+        category: 'Geography',
+        question: 'What is the capital of Australia?',
+        a: 'Canberra',
+        b: null,
+        c: null,
+        d: null,
+        metadata: {},
+        question_type: 'free_text',
+      },
+    ]);
+    expect(result.errors).toEqual([
+      { row: 3, field: 'b', message: 'Answer b must be the opposite of answer a' },
+      { row: 4, field: 'a', message: 'Answer a must be True or False for a true/false question' },
+      { row: 6, message: 'Free-text questions only have answer a' },
+    ]);
+  });
+
+  it('should report malformed JSON', () => {
+    const result = importQuestionPack('{"questions": [', 'json');
+
+    expect(result.total_rows).toBe(0);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].message).toMatch(/^Invalid JSON/);
+  });
+});
+
+describe('exportQuestionPack', () => {
+  const { questions } = importQuestionPack(fixture('valid.csv'), 'csv');
+
+  it('should round-trip through CSV', () => {
+    const csv = exportQuestionPack(questions, 'csv');
+
+    expect(csv.split('\n')[0]).toBe('category,question,a,b,c,d,metadata,question_type');
+    expect(importQuestionPack(csv, 'csv')).toEqual({
+      questions,
+      errors: [],
+      duplicates: [],
+      total_rows: questions.length,
+    });
+  });
+
+  it('should round-trip numeric questions', () => {
+    const numeric = importQuestionPack(
+      JSON.stringify([{ category: 'History', question: 'In what year did Apollo 11 land?', a: '1969', question_type: 'numeric' }]),
+      'json'
+    ).questions;
+    const mixed = [...questions, ...numeric];
+
+    expect(importQuestionPack(exportQuestionPack(mixed, 'csv'), 'csv').questions).toEqual(mixed);
+    expect(importQuestionPack(exportQuestionPack(mixed, 'json'), 'json').questions).toEqual(mixed);
+  });
+
+  it('should round-trip through JSON', () => {
+    const json = exportQuestionPack(questions, 'json');
+
+    expect(importQuestionPack(json, 'json').questions).toEqual(questions);
+  });
+});
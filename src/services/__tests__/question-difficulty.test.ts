@@ -0,0 +1,93 @@
+// Question difficulty tests
+// Difficulty is rated in the database; clients band it and report it per game
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GameServiceImpl } from '../game';
+import { InMemoryRealtimeTransport } from '../../lib/realtime';
+import { difficultyLevel, describeDifficulty } from '../../lib/difficulty';
+import { rpc, mockTables } from '../../test/supabase';
+
+vi.mock('../../lib/supabase', () => import('../../test/supabase'));
+
+describe('Question difficulty', () => {
+  let service: GameServiceImpl;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new GameServiceImpl(new InMemoryRealtimeTransport());
+  });
+
+  it('should band ratings into easy, medium and hard', () => {
+    expect(difficultyLevel(null)).toBeNull();
+    expect(difficultyLevel(0.1)).toBe('easy');
+    expect(difficultyLevel(0.35)).toBe('medium');
+    expect(difficultyLevel(0.9)).toBe('hard');
+  });
+
+  it('should describe a question from its answer history', () => {
+    expect(describeDifficulty({ difficulty: null, correct_rate: null, average_time_ms: null, answer_count: 0 }))
+      .toBe('Not answered yet');
+    expect(describeDifficulty({ difficulty: 0.72, correct_rate: 0.32, average_time_ms: 14200, answer_count: 118 }))
+      .toBe('Hard · 32% correct · 14.2s average · 118 answers');
+    expect(describeDifficulty({ difficulty: null, correct_rate: 1, average_time_ms: null, answer_count: 1 }))
+      .toBe('Not rated yet · 100% correct · 1 answer');
+  });
+
+  it('should report each question of a game with its difficulty', async () => {
+    rpc.mockResolvedValueOnce({
+      data: [
+        {
+          id: 'rq-1', question_id: 'q-1', question_order: 1, presented_answers: ['Au', 'Ag', 'Gd', 'Go'], correct_answer: 'A',
+          rounds: { round_number: 1 },
+          questions: { question: 'Symbol for gold?', category: 'Science', difficulty: 0.2, average_time_ms: 6000 },
+        },
+        {
+          id: 'rq-2', question_id: 'q-2', question_order: 2, presented_answers: ['1066', '1215', '1415', '1815'], correct_answer: 'B',
+          rounds: { round_number: 1 },
+          questions: { question: 'Magna Carta?', category: 'History', difficulty: null, average_time_ms: null },
+        },
+      ],
+      error: null,
+    }).mockResolvedValueOnce({
+      data: [
+        { round_question_id: 'rq-1', answer: 'A', is_correct: true, response_time_ms: null },
+        { round_question_id: 'rq-1', answer: 'C', is_correct: false, response_time_ms: null },
+        { round_question_id: 'rq-2', answer: 'B', is_correct: true, response_time_ms: null },
+      ],
+      error: null,
+    });
+    mockTables({
+      teams: {
+        data: [
+          { id: 'team-1', current_score: 30, team_players: [{ id: 'tp-1' }, { id: 'tp-2' }] },
+          { id: 'team-2', current_score: 10, team_players: [{ id: 'tp-3' }] },
+        ],
+        error: null,
+      },
+    });
+
+    const analytics = await service.getGameAnalytics('game-1');
+
+    expect(analytics).toMatchObject({
+      total_questions: 2,
+      total_teams: 2,
+      total_players: 3,
+      average_score: 20,
+      completion_rate: 75,
+      question_difficulty_stats: {
+        'q-1': { category: 'Science', correct_percentage: 50, average_time: 6000, difficulty: 0.2 },
+        'q-2': { category: 'History', correct_percentage: 100, average_time: 0, difficulty: null },
+      },
+    });
+  });
+
+  it('should surface failed analytics queries', async () => {
+    rpc.mockResolvedValue({ data: [], error: null });
+    mockTables({
+      teams: { data: null, error: new Error('permission denied for table teams') },
+    });
+
+    await expect(service.getGameAnalytics('game-1'))
+      .rejects.toThrow('Failed to get game analytics: permission denied for table teams');
+  });
+});
@@ -0,0 +1,82 @@
+// Question moderation tests
+// Admin reads and writes go through RPCs because clients can't read or write answers directly
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GameServiceImpl } from '../game';
+import { InMemoryRealtimeTransport } from '../../lib/realtime';
+import { rpc, from } from '../../test/supabase';
+
+vi.mock('../../lib/supabase', () => import('../../test/supabase'));
+
+const question = {
+  id: 'q-1',
+  category: 'Science',
+  question: 'What is the chemical symbol for gold?',
+  a: 'Au',
+  b: 'Ag',
+  c: 'Gd',
+  d: 'Go',
+  metadata: {},
+  status: 'draft',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+describe('Question moderation', () => {
+  let service: GameServiceImpl;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new GameServiceImpl(new InMemoryRealtimeTransport());
+  });
+
+  it('should search with only the filters given', async () => {
+    rpc.mockResolvedValue({ data: { questions: [question], total: 1 }, error: null });
+
+    const result = await service.searchQuestions({ search: '  gold ', status: 'draft' });
+
+    expect(rpc).toHaveBeenCalledWith('search_questions', {
+      p_search: 'gold',
+      p_category: null,
+      p_status: 'draft',
+      p_limit: 25,
+      p_offset: 0,
+    });
+    expect(result.total).toBe(1);
+  });
+
+  it('should add a new question as a draft', async () => {
+    rpc.mockResolvedValue({ data: question, error: null });
+
+    const saved = await service.saveQuestion({
+      category: 'Science',
+      question: 'What is the chemical symbol for gold?',
+      a: 'Au',
+      b: 'Ag',
+      c: 'Gd',
+      d: 'Go',
+    });
+
+    expect(rpc).toHaveBeenCalledWith('save_question', {
+      p_question_id: null,
+      p_category: 'Science',
+      p_question: 'What is the chemical symbol for gold?',
+      p_a: 'Au',
+      p_b: 'Ag',
+      p_c: 'Gd',
+      p_d: 'Go',
+      p_metadata: {},
+      p_question_type: 'multiple_choice',
+    });
+    expect(saved.status).toBe('draft');
+    expect(from).not.toHaveBeenCalled();
+  });
+
+  it('should surface changes the database refuses', async () => {
+    rpc.mockResolvedValue({ data: null, error: new Error('Only admins can manage questions') });
+
+    await expect(service.setQuestionStatus('q-1', 'approved'))
+      .rejects.toThrow('Failed to update question status: Only admins can manage questions');
+    expect(rpc).toHaveBeenCalledWith('set_question_status', { p_question_id: 'q-1', p_status: 'approved' });
+  });
+});
@@ -0,0 +1,72 @@
+// Question report tests
+// Reports and their resolution go through RPCs so re-scoring happens in one transaction
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GameServiceImpl } from '../game';
+import { InMemoryRealtimeTransport } from '../../lib/realtime';
+import { rpc, from } from '../../test/supabase';
+
+vi.mock('../../lib/supabase', () => import('../../test/supabase'));
+
+describe('Question reports', () => {
+  let service: GameServiceImpl;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new GameServiceImpl(new InMemoryRealtimeTransport());
+  });
+
+  it('should report the round question being shown', async () => {
+    rpc.mockResolvedValue({ data: 'report-1', error: null });
+
+    const reportId = await service.reportQuestion({
+      round_question_id: 'rq-1',
+      reason: 'ambiguous',
+      comment: '   ',
+    });
+
+    expect(reportId).toBe('report-1');
+    expect(rpc).toHaveBeenCalledWith('report_question', {
+      p_reason: 'ambiguous',
+      p_comment: null,
+      p_game_question_id: null,
+      p_round_question_id: 'rq-1',
+    });
+  });
+
+  it('should re-score when an answer was wrong', async () => {
+    const result = {
+      resolved_reports: 2,
+      rescored_game_questions: 3,
+      rescored_team_answers: 4,
+      updated_sessions: 3,
+      updated_teams: 2,
+    };
+    rpc.mockResolvedValue({ data: result, error: null });
+
+    const response = await service.resolveQuestionReports({
+      question_id: 'q-1',
+      resolution: 'answer_was_wrong',
+      correct_answer: 'Canberra',
+      rescore: true,
+      note: ' Source was out of date ',
+    });
+
+    expect(rpc).toHaveBeenCalledWith('resolve_question_reports', {
+      p_question_id: 'q-1',
+      p_resolution: 'answer_was_wrong',
+      p_correct_answer: 'Canberra',
+      p_rescore: true,
+      p_note: 'Source was out of date',
+    });
+    expect(response).toEqual(result);
+    expect(from).not.toHaveBeenCalled();
+  });
+
+  it('should surface reports the database refuses', async () => {
+    rpc.mockResolvedValue({ data: null, error: new Error('Question not found') });
+
+    await expect(service.reportQuestion({ game_question_id: 'gq-1', reason: 'wrong_answer' }))
+      .rejects.toThrow('Failed to report question: Question not found');
+  });
+});
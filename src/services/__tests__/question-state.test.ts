@@ -0,0 +1,68 @@
+// Question state tests
+// The live question only moves forward: pending -> open -> closed -> revealed
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GameServiceImpl } from '../game';
+import { InMemoryRealtimeTransport } from '../../lib/realtime';
+import { NEXT_QUESTION_STATE, previousQuestionState } from '../../lib/questionState';
+import { from, queryReturning } from '../../test/supabase';
+
+vi.mock('../../lib/supabase', () => import('../../test/supabase'));
+
+describe('Question state transitions', () => {
+  describe('previousQuestionState', () => {
+    it('should allow each state only from the one before it', () => {
+      expect(previousQuestionState('open')).toBe('pending');
+      expect(previousQuestionState('closed')).toBe('open');
+      expect(previousQuestionState('revealed')).toBe('closed');
+    });
+
+    it('should never lead back to pending or out of revealed', () => {
+      expect(previousQuestionState('pending')).toBeNull();
+      expect(NEXT_QUESTION_STATE.revealed).toBeNull();
+    });
+  });
+
+  describe('setQuestionState', () => {
+    let service: GameServiceImpl;
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      service = new GameServiceImpl(new InMemoryRealtimeTransport());
+    });
+
+    it('should only update a round whose question is in the preceding state', async () => {
+      const round = { id: 'round-1', question_state: 'revealed' };
+      const query = queryReturning({ data: round, error: null });
+      from.mockReturnValue(query);
+
+      await expect(service.setQuestionState('round-1', 'revealed')).resolves.toBe(round);
+
+      expect(from).toHaveBeenCalledWith('rounds');
+      expect(query.update).toHaveBeenCalledWith({ question_state: 'revealed' });
+      expect(query.eq).toHaveBeenCalledWith('id', 'round-1');
+      expect(query.eq).toHaveBeenCalledWith('question_state', 'closed');
+    });
+
+    it('should refuse to reopen a question that has moved on', async () => {
+      // No row matched question_state = 'pending', e.g. the answer was already revealed
+      from.mockReturnValue(queryReturning({ data: null, error: null }));
+
+      await expect(service.setQuestionState('round-1', 'open'))
+        .rejects.toThrow('Failed to set question state: Question can only move to open once it is pending');
+    });
+
+    it('should not send a move back to pending', async () => {
+      await expect(service.setQuestionState('round-1', 'pending'))
+        .rejects.toThrow('Failed to set question state: Question cannot move to pending');
+      expect(from).not.toHaveBeenCalled();
+    });
+
+    it('should surface transitions the database rejects', async () => {
+      from.mockReturnValue(queryReturning({ data: null, error: new Error('Question cannot move from revealed to open') }));
+
+      await expect(service.setQuestionState('round-1', 'open'))
+        .rejects.toThrow('Failed to set question state: Question cannot move from revealed to open');
+    });
+  });
+});
@@ -0,0 +1,133 @@
+// Question time limit tests
+// Covers the pause-safe question clock and how the service pauses it, restores it and submits timeouts
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  startQuestionClock,
+  pauseQuestionClock,
+  getElapsedMs,
+  getEffectiveStart,
+  getSessionElapsedMs,
+} from '../../lib/questionTimer';
+import { GameServiceImpl } from '../game';
+import { InMemoryRealtimeTransport } from '../../lib/realtime';
+import { rpc, from, queryReturning } from '../../test/supabase';
+
+vi.mock('../../lib/supabase', () => import('../../test/supabase'));
+
+const session = {
+  id: 'session-1',
+  user_id: 'user-1',
+  status: 'in_progress',
+  total_rounds: 2,
+  questions_per_round: 5,
+  selected_categories: ['Science'],
+  current_round: 1,
+  current_question_index: 2,
+  total_score: 1,
+  question_time_limit_seconds: 20,
+  question_elapsed_ms: 7500,
+  question_opened_at: null,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+describe('Question clock', () => {
+  it('should count time while running', () => {
+    const clock = startQuestionClock('gq-1', 0, 1_000);
+
+    expect(getElapsedMs(clock, 4_000)).toBe(3_000);
+  });
+
+  it('should stop counting while paused', () => {
+    const paused = pauseQuestionClock(startQuestionClock('gq-1', 0, 1_000), 6_000);
+
+    expect(paused.runningSince).toBeNull();
+    expect(getElapsedMs(paused, 60_000)).toBe(5_000);
+    expect(getEffectiveStart(paused)).toBeNull();
+  });
+
+  it('should resume from the time already spent', () => {
+    const resumed = startQuestionClock('gq-1', 5_000, 100_000);
+
+    expect(getElapsedMs(resumed, 102_000)).toBe(7_000);
+    // The countdown runs as if the question had started 5 seconds before resuming
+    expect(getEffectiveStart(resumed)).toBe(95_000);
+  });
+
+  it('should add the time since the database started the clock to the time banked before a pause', () => {
+    const opened = { question_elapsed_ms: 5_000, question_opened_at: '2024-01-01T00:00:00.000Z' };
+
+    expect(getSessionElapsedMs(opened, Date.parse('2024-01-01T00:00:03.000Z'))).toBe(8_000);
+    expect(getSessionElapsedMs({ ...opened, question_opened_at: null }, Date.now())).toBe(5_000);
+  });
+});
+
+describe('Question time limits in the game service', () => {
+  let service: GameServiceImpl;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new GameServiceImpl(new InMemoryRealtimeTransport());
+  });
+
+  it('should only change the status when pausing, leaving the clock to the database', async () => {
+    rpc.mockResolvedValue({ data: { ...session, status: 'paused' }, error: null });
+
+    const paused = await service.pauseGame('session-1');
+
+    expect(rpc).toHaveBeenCalledWith('set_session_status', { p_session_id: 'session-1', p_status: 'paused' });
+    expect(from).not.toHaveBeenCalled();
+    expect(paused.status).toBe('paused');
+  });
+
+  it('should return the saved clock with the current question', async () => {
+    from
+      .mockReturnValueOnce(queryReturning({ data: session, error: null }))
+      .mockReturnValueOnce(queryReturning({
+        data: {
+          id: 'gq-3',
+          round_number: 1,
+          presented_answers: ['Mercury', 'Venus', 'Earth', 'Mars'],
+          questions: { question: 'Which planet is closest to the sun?', category: 'Science' },
+        },
+        error: null,
+      }));
+
+    const question = await service.getNextQuestion('session-1');
+
+    expect(question).toMatchObject({ id: 'gq-3', question_number: 3, elapsed_ms: 7500 });
+  });
+
+  it('should submit a timed out question without an answer', async () => {
+    rpc.mockResolvedValue({
+      data: {
+        is_correct: false,
+        correct_answer: 'Mercury',
+        timed_out: true,
+        session_stats: {
+          current_score: 1,
+          current_question_index: 3,
+          round_complete: false,
+          game_complete: false,
+        },
+        next_question: null,
+      },
+      error: null,
+    });
+
+    const result = await service.submitAnswer({
+      game_session_id: 'session-1',
+      game_question_id: 'gq-3',
+      user_answer: null,
+      time_to_answer_ms: 20_000,
+    });
+
+    expect(rpc).toHaveBeenCalledWith('validate_answer', {
+      p_game_question_id: 'gq-3',
+      p_user_answer: null,
+      p_time_to_answer_ms: 20_000,
+    });
+    expect(result).toMatchObject({ is_correct: false, timed_out: true, updated_score: 1 });
+  });
+});
@@ -0,0 +1,143 @@
+// Question type tests
+// Fuzzy matching free-text answers, ranking numeric answers, and the host
+// override and question type RPC arguments
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GameServiceImpl } from '../game';
+import { InMemoryRealtimeTransport } from '../../lib/realtime';
+import {
+  answerLetters,
+  formatAnswer,
+  freeTextMatchScore,
+  isFreeTextMatch,
+  isNumericAnswer,
+  normalizeFreeTextAnswer,
+  rankClosestAnswers,
+} from '../../lib/questionTypes';
+import { rpc, from, queryReturning } from '../../test/supabase';
+
+vi.mock('../../lib/supabase', () => import('../../test/supabase'));
+
+describe('Question types', () => {
+  describe('answerLetters', () => {
+    it('should give four letters for multiple choice, two for true/false and none for typed answers', () => {
+      expect(answerLetters('multiple_choice')).toEqual(['A', 'B', 'C', 'D']);
+      expect(answerLetters('true_false')).toEqual(['A', 'B']);
+      expect(answerLetters('numeric')).toEqual([]);
+      expect(answerLetters('free_text')).toEqual([]);
+    });
+  });
+
+  describe('free-text matching', () => {
+    it('should ignore case, punctuation, spacing and a leading article', () => {
+      expect(normalizeFreeTextAnswer('  The   Beatles! ')).toBe('beatles');
+      expect(freeTextMatchScore('beatles', 'The Beatles')).toBe(1);
+    });
+
+    it('should accept close spellings and reject different answers', () => {
+      expect(freeTextMatchScore('Beetles', 'The Beatles')).toBe(0.857);
+      expect(isFreeTextMatch('Beetles', 'The Beatles')).toBe(true);
+      expect(isFreeTextMatch('Rolling Stones', 'The Beatles')).toBe(false);
+    });
+
+    it('should never match an empty answer', () => {
+      expect(freeTextMatchScore('  ?! ', 'The Beatles')).toBe(0);
+    });
+  });
+
+  describe('rankClosestAnswers', () => {
+    it('should order numeric answers by distance and mark every closest answer', () => {
+      const ranked = rankClosestAnswers('1969', [
+        { answer: '1975' },
+        { answer: '1966' },
+        { answer: '1972' },
+      ]);
+
+      expect(ranked.map(a => [a.answer, a.distance, a.closest])).toEqual([
+        ['1966', 3, true],
+        ['1972', 3, true],
+        ['1975', 6, false],
+      ]);
+    });
+
+    it('should only accept plain numbers', () => {
+      expect(isNumericAnswer('-12.5')).toBe(true);
+      expect(isNumericAnswer('about 206')).toBe(false);
+    });
+  });
+
+  describe('formatAnswer', () => {
+    it('should show true/false letters as the answer text', () => {
+      const question = { question_type: 'true_false' as const, presented_answers: ['True', 'False'] };
+
+      expect(formatAnswer(question, 'B')).toBe('False');
+      expect(formatAnswer({ question_type: 'numeric', presented_answers: [] }, '1969')).toBe('1969');
+    });
+  });
+
+  describe('service', () => {
+    let service: GameServiceImpl;
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      service = new GameServiceImpl(new InMemoryRealtimeTransport());
+    });
+
+    it('should override a free-text answer through the RPC', async () => {
+      rpc.mockResolvedValue({ data: { id: 'answer-1', is_correct: true }, error: null });
+
+      const answer = await service.overrideTeamAnswer('answer-1', true);
+
+      expect(rpc).toHaveBeenCalledWith('override_team_answer', { p_team_answer_id: 'answer-1', p_is_correct: true });
+      expect(answer.is_correct).toBe(true);
+    });
+
+    it('should surface a refused override', async () => {
+      rpc.mockResolvedValue({ data: null, error: new Error('Only free-text answers can be overridden') });
+
+      await expect(service.overrideTeamAnswer('answer-1', false))
+        .rejects.toThrow('Failed to override answer: Only free-text answers can be overridden');
+    });
+
+    it('should save a question with its type', async () => {
+      rpc.mockResolvedValue({ data: { id: 'q-1', question_type: 'free_text' }, error: null });
+
+      await service.saveQuestion({
+        category: 'Geography',
+        question: 'What is the capital of Australia?',
+        question_type: 'free_text',
+        a: 'Canberra',
+        b: '',
+        c: '',
+        d: '',
+      });
+
+      expect(rpc).toHaveBeenCalledWith('save_question', expect.objectContaining({
+        p_question_type: 'free_text',
+        p_a: 'Canberra',
+      }));
+    });
+
+    it('should create single-player sessions with the chosen question types', async () => {
+      const query = queryReturning({ data: { id: 'session-1' }, error: null });
+      from.mockReturnValue(query);
+
+      await service.createGameSession('user-1', {
+        total_rounds: 1,
+        questions_per_round: 5,
+        selected_categories: ['Science'],
+      });
+      await service.createGameSession('user-1', {
+        total_rounds: 1,
+        questions_per_round: 5,
+        selected_categories: ['Science'],
+        question_types: ['true_false', 'free_text'],
+      });
+
+      expect(query.insert.mock.calls.map(([rows]) => (rows as { question_types: string[] }[])[0].question_types)).toEqual([
+        ['multiple_choice'],
+        ['true_false', 'free_text'],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,353 @@
+// Real-time subscription tests
+// Drives GameServiceImpl subscriptions through the in-memory realtime transport
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { InMemoryRealtimeTransport } from '../../lib/realtime';
+import { mockTables } from '../../test/supabase';
+import type { QueryResult } from '../../test/supabase';
+import { DEFAULT_SCORING_RULES } from '../../lib/scoring';
+import { GameServiceImpl } from '../game';
+import type { GameEvent } from '../../contracts/multi-user-game';
+import type { Game, Round, Team, TeamAnswer, TeamPlayer } from '../../contracts/multi-user-types';
+
+vi.mock('../../lib/supabase', () => import('../../test/supabase'));
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('Real-time Game Subscriptions', () => {
+  const gameId = 'game-123';
+  const teamId = 'team-123';
+
+  const game: Game = {
+    id: gameId,
+    host_id: 'host-123',
+    title: 'Pub Night',
+    join_code: 'ABC123',
+    scheduled_date: '2024-01-01',
+    max_teams: 20,
+    max_players_per_team: 4,
+    status: 'in_progress',
+    total_rounds: 3,
+    questions_per_round: 5,
+    selected_categories: ['Science'],
+    scoring_rules: DEFAULT_SCORING_RULES,
+    question_time_limit_seconds: 30,
+    difficulty_curve: 'flat',
+    question_types: ['multiple_choice'],
+    tie_breaker: null,
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+  };
+
+  const team: Team = {
+    id: teamId,
+    game_id: gameId,
+    name: 'Quizzly Bears',
+    display_color: '#FF0000',
+    current_score: 0,
+    created_at: '2024-01-01T00:00:00Z',
+  };
+
+  const round: Round = {
+    id: 'round-1',
+    game_id: gameId,
+    round_number: 1,
+    categories: [],
+    status: 'in_progress',
+    current_round_question_id: 'rq-1',
+    question_state: 'pending',
+    created_at: '2024-01-01T00:00:00Z',
+  };
+
+  const teamAnswer: TeamAnswer = {
+    id: 'answer-1',
+    team_id: teamId,
+    round_question_id: 'rq-1',
+    submitted_by: 'player-1',
+    answer: 'B',
+    is_correct: true,
+    points_earned: 10,
+    base_points: 10,
+    speed_bonus: 0,
+    submitted_at: '2024-01-01T00:00:00Z',
+  };
+
+  let bus: InMemoryRealtimeTransport;
+  let service: GameServiceImpl;
+
+  let tables: Record<string, QueryResult>;
+
+  // What subscribing loads to compare changes against
+  const loadedGame = (overrides: Record<string, unknown> = {}): QueryResult => ({
+    data: { status: game.status, rounds: [round], teams: [{ id: teamId }], ...overrides },
+    error: null,
+  });
+
+  beforeEach(() => {
+    tables = { games: loadedGame() };
+    mockTables(tables);
+    bus = new InMemoryRealtimeTransport();
+    service = new GameServiceImpl(bus);
+  });
+
+  describe('InMemoryRealtimeTransport', () => {
+    it('should deliver changes only to matching bindings', () => {
+      const handler = vi.fn();
+      bus.subscribe('test', [{ table: 'rounds', filter: `game_id=eq.${gameId}` }], handler);
+
+      bus.emit({ table: 'rounds', eventType: 'UPDATE', new: round, old: null });
+      bus.emit({ table: 'rounds', eventType: 'UPDATE', new: { ...round, game_id: 'other' }, old: null });
+      bus.emit({ table: 'games', eventType: 'UPDATE', new: game, old: null });
+
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should deliver deletes to every binding for the table', () => {
+      const handler = vi.fn();
+      bus.subscribe('test', [{ table: 'teams', filter: `game_id=eq.${gameId}` }], handler);
+
+      bus.emit({ table: 'teams', eventType: 'DELETE', new: null, old: { id: 'other-team' } });
+
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should match membership filters', () => {
+      const handler = vi.fn();
+      bus.subscribe('test', [{ table: 'team_answers', filter: `team_id=in.(${teamId},team-456)` }], handler);
+
+      bus.emit({ table: 'team_answers', eventType: 'INSERT', new: teamAnswer, old: null });
+      bus.emit({ table: 'team_answers', eventType: 'INSERT', new: { ...teamAnswer, team_id: 'team-456' }, old: null });
+      bus.emit({ table: 'team_answers', eventType: 'INSERT', new: { ...teamAnswer, team_id: 'other' }, old: null });
+
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject unsupported filters', () => {
+      expect(() => bus.subscribe('test', [{ table: 'rounds', filter: 'round_number=gt.1' }], vi.fn()))
+        .toThrow('Unsupported realtime filter');
+    });
+  });
+
+  describe('subscribeToGameEvents', () => {
+    it('should emit game and round lifecycle events', async () => {
+      tables.games = loadedGame({ status: 'setup', rounds: [{ ...round, status: 'pending' }] });
+      const events: GameEvent[] = [];
+      service.subscribeToGameEvents(gameId, event => events.push(event));
+      await flush();
+      events.length = 0;
+
+      bus.emit({ table: 'games', eventType: 'UPDATE', new: game, old: { id: gameId } });
+      bus.emit({ table: 'rounds', eventType: 'UPDATE', new: round, old: { id: round.id } });
+      bus.emit({
+        table: 'rounds',
+        eventType: 'UPDATE',
+        new: { ...round, status: 'completed' },
+        old: { id: round.id },
+      });
+      bus.emit({
+        table: 'games',
+        eventType: 'UPDATE',
+        new: { ...game, status: 'completed' },
+        old: { id: gameId },
+      });
+
+      expect(events.map(event => event.type)).toEqual([
+        'game_started',
+        'round_started',
+        'round_completed',
+        'game_completed',
+      ]);
+    });
+
+    it('should ignore updates that do not change status', async () => {
+      const callback = vi.fn();
+      service.subscribeToGameEvents(gameId, callback);
+      await flush();
+      callback.mockClear();
+
+      bus.emit({ table: 'games', eventType: 'UPDATE', new: { ...game, title: 'Quiz Night' }, old: { id: gameId } });
+      bus.emit({ table: 'rounds', eventType: 'UPDATE', new: { ...round, title: 'Warm-up' }, old: { id: round.id } });
+
+      expect(callback).not.toHaveBeenCalled();
+    });
+
+    it('should emit question updates when the host moves the live question', async () => {
+      const events: GameEvent[] = [];
+      service.subscribeToGameEvents(gameId, event => events.push(event));
+      await flush();
+      events.length = 0;
+
+      const opened: Round = { ...round, question_state: 'open' };
+      const next: Round = { ...round, current_round_question_id: 'rq-2', question_state: 'pending' };
+      bus.emit({ table: 'rounds', eventType: 'UPDATE', new: opened, old: { id: round.id } });
+      bus.emit({ table: 'rounds', eventType: 'UPDATE', new: next, old: { id: round.id } });
+
+      expect(events).toEqual([
+        { type: 'question_updated', round: opened },
+        { type: 'question_updated', round: next },
+      ]);
+    });
+
+    it('should compare changes with the rows seen before when old rows only carry the key', async () => {
+      const events: GameEvent[] = [];
+      service.subscribeToGameEvents(gameId, event => events.push(event));
+
+      // Arrives while the game is still loading, so it is newer than what loads
+      const opened: Round = { ...round, question_state: 'open' };
+      bus.emit({ table: 'rounds', eventType: 'UPDATE', new: opened, old: { id: round.id } });
+      await flush();
+
+      bus.emit({ table: 'rounds', eventType: 'UPDATE', new: opened, old: { id: round.id } });
+      bus.emit({ table: 'games', eventType: 'UPDATE', new: game, old: { id: gameId } });
+      const closed: Round = { ...round, question_state: 'closed' };
+      bus.emit({ table: 'rounds', eventType: 'UPDATE', new: closed, old: { id: round.id } });
+
+      expect(events.map(event => event.type)).toEqual(['round_started', 'resync', 'question_updated']);
+      expect(events[2]).toEqual({ type: 'question_updated', round: closed });
+    });
+
+    it('should emit player and answer events only for teams in the game', async () => {
+      const events: GameEvent[] = [];
+      service.subscribeToGameEvents(gameId, event => events.push(event));
+      await flush();
+
+      const teamPlayer: TeamPlayer = {
+        id: 'tp-1',
+        team_id: teamId,
+        player_id: 'player-1',
+        joined_at: '2024-01-01T00:00:00Z',
+      };
+
+      bus.emit({ table: 'team_players', eventType: 'INSERT', new: teamPlayer, old: null });
+      bus.emit({ table: 'team_players', eventType: 'INSERT', new: { ...teamPlayer, team_id: 'other-team' }, old: null });
+      bus.emit({ table: 'team_answers', eventType: 'INSERT', new: teamAnswer, old: null });
+      bus.emit({ table: 'team_players', eventType: 'DELETE', new: null, old: { id: teamPlayer.id } });
+
+      expect(events).toEqual([
+        { type: 'resync' },
+        { type: 'player_joined', teamPlayer },
+        { type: 'answer_submitted', teamAnswer },
+      ]);
+    });
+
+    it('should emit answer updates when answers are scored or overridden', async () => {
+      const events: GameEvent[] = [];
+      service.subscribeToGameEvents(gameId, event => events.push(event));
+      await flush();
+
+      const overridden = { ...teamAnswer, is_correct: false, overridden_at: '2024-01-01T00:01:00Z' };
+      bus.emit({ table: 'team_answers', eventType: 'UPDATE', new: overridden, old: { id: teamAnswer.id } });
+      bus.emit({ table: 'team_answers', eventType: 'UPDATE', new: { ...overridden, team_id: 'other-team' }, old: null });
+
+      expect(events).toEqual([{ type: 'resync' }, { type: 'answer_updated', teamAnswer: overridden }]);
+    });
+
+    it('should track teams created after subscribing', async () => {
+      tables.games = loadedGame({ teams: [] });
+      const events: GameEvent[] = [];
+      service.subscribeToGameEvents(gameId, event => events.push(event));
+      await flush();
+
+      bus.emit({ table: 'teams', eventType: 'INSERT', new: team, old: null });
+      bus.emit({ table: 'team_answers', eventType: 'INSERT', new: teamAnswer, old: null });
+
+      expect(events.map(event => event.type)).toEqual(['team_created', 'answer_submitted']);
+    });
+
+    it('should stop following teams removed from the game', async () => {
+      const events: GameEvent[] = [];
+      service.subscribeToGameEvents(gameId, event => events.push(event));
+      await flush();
+      const subscribe = vi.spyOn(bus, 'subscribe');
+
+      // Deletes reach every subscriber, so another game's team is ignored
+      bus.emit({ table: 'teams', eventType: 'DELETE', new: null, old: { id: 'other-team' } });
+      expect(subscribe).not.toHaveBeenCalled();
+
+      bus.emit({ table: 'teams', eventType: 'DELETE', new: null, old: { id: teamId } });
+      bus.emit({ table: 'team_answers', eventType: 'INSERT', new: teamAnswer, old: null });
+
+      expect(events).toEqual([{ type: 'resync' }]);
+    });
+
+    it('should filter team feeds by the game\'s team ids', async () => {
+      const subscribe = vi.spyOn(bus, 'subscribe');
+      service.subscribeToGameEvents(gameId, vi.fn());
+      await flush();
+
+      expect(subscribe).toHaveBeenLastCalledWith(
+        `game:${gameId}:teams`,
+        [
+          { table: 'team_players', filter: `team_id=in.(${teamId})` },
+          { table: 'team_answers', filter: `team_id=in.(${teamId})` },
+          { table: 'tie_breaker_answers', filter: `team_id=in.(${teamId})` },
+        ],
+        expect.any(Function)
+      );
+      expect(subscribe.mock.calls[0][1].every(binding => binding.filter)).toBe(true);
+    });
+
+    it('should ask listeners to resync once the team feeds are listening', async () => {
+      const events: GameEvent[] = [];
+      service.subscribeToGameEvents(gameId, event => events.push(event));
+
+      // Not yet subscribed to the team's feeds, so this change is not delivered
+      bus.emit({ table: 'team_answers', eventType: 'INSERT', new: teamAnswer, old: null });
+      expect(events).toEqual([]);
+
+      await flush();
+      expect(events).toEqual([{ type: 'resync' }]);
+    });
+
+    it('should emit the updated team row when a team score changes', () => {
+      const events: GameEvent[] = [];
+      service.subscribeToGameEvents(gameId, event => events.push(event));
+
+      const scored = { ...team, current_score: 10 };
+      bus.emit({ table: 'teams', eventType: 'UPDATE', new: scored, old: { id: teamId } });
+
+      expect(events).toEqual([{ type: 'team_updated', team: scored }]);
+    });
+
+    it('should stop emitting after unsubscribe', async () => {
+      const callback = vi.fn();
+      const unsubscribe = service.subscribeToGameEvents(gameId, callback);
+      await flush();
+      callback.mockClear();
+
+      unsubscribe();
+      bus.emit({ table: 'games', eventType: 'UPDATE', new: { ...game, status: 'completed' }, old: { id: gameId } });
+
+      expect(callback).not.toHaveBeenCalled();
+      expect(bus.subscriberCount).toBe(0);
+    });
+  });
+
+  describe('subscribeToTeamAnswers', () => {
+    it('should deliver inserted answers for the team', () => {
+      const callback = vi.fn();
+      const unsubscribe = service.subscribeToTeamAnswers(teamId, callback);
+
+      bus.emit({ table: 'team_answers', eventType: 'INSERT', new: teamAnswer, old: null });
+      bus.emit({ table: 'team_answers', eventType: 'INSERT', new: { ...teamAnswer, team_id: 'other' }, old: null });
+      unsubscribe();
+      bus.emit({ table: 'team_answers', eventType: 'INSERT', new: teamAnswer, old: null });
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith(teamAnswer);
+    });
+  });
+
+  describe('subscribeToRoundUpdates', () => {
+    it('should deliver updates for the round', () => {
+      const callback = vi.fn();
+      service.subscribeToRoundUpdates(round.id, callback);
+
+      bus.emit({ table: 'rounds', eventType: 'UPDATE', new: round, old: null });
+      bus.emit({ table: 'rounds', eventType: 'UPDATE', new: { ...round, id: 'round-2' }, old: null });
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith(round);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+// Round planning tests
+// Rounds are planned in the database along the game's difficulty curve, and
+// starting a game keeps whatever plan the host previewed
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GameServiceImpl } from '../game';
+import { InMemoryRealtimeTransport } from '../../lib/realtime';
+import { DEFAULT_SCORING_RULES } from '../../lib/scoring';
+import { getCurveTarget } from '../../lib/difficulty';
+import type { Game, Round } from '../../contracts/multi-user-types';
+import { rpc, from, queryReturning } from '../../test/supabase';
+
+vi.mock('../../lib/supabase', () => import('../../test/supabase'));
+
+const game: Game = {
+  id: 'game-1',
+  host_id: 'host-1',
+  title: 'Pub Night',
+  join_code: 'ABC123',
+  scheduled_date: '2024-01-01',
+  max_teams: 20,
+  max_players_per_team: 4,
+  status: 'setup',
+  total_rounds: 3,
+  questions_per_round: 5,
+  selected_categories: ['Science', 'History'],
+  scoring_rules: DEFAULT_SCORING_RULES,
+  question_time_limit_seconds: 30,
+  difficulty_curve: 'warm_up',
+  question_types: ['multiple_choice'],
+  tie_breaker: null,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+const round: Round = {
+  id: 'round-1',
+  game_id: game.id,
+  round_number: 1,
+  categories: [],
+  status: 'pending',
+  question_state: 'pending',
+  created_at: '2024-01-01T00:00:00Z',
+};
+
+describe('Round planning', () => {
+  let service: GameServiceImpl;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new GameServiceImpl(new InMemoryRealtimeTransport());
+  });
+
+  it('should aim each round along the difficulty curve', () => {
+    expect([1, 2, 3].map(n => getCurveTarget('flat', n, 3))).toEqual([0.5, 0.5, 0.5]);
+    expect([1, 2, 3, 4].map(n => getCurveTarget('ramp', n, 4))).toEqual([0.25, 0.417, 0.583, 0.75]);
+    expect([1, 2, 3].map(n => getCurveTarget('warm_up', n, 3))).toEqual([0.25, 0.5, 0.75]);
+    expect(getCurveTarget('ramp', 1, 1)).toBe(0.5);
+  });
+
+  it('should plan rounds in the database and return them', async () => {
+    rpc.mockResolvedValue({ data: 15, error: null });
+    vi.spyOn(service, 'getGameRounds').mockResolvedValue([round]);
+
+    const rounds = await service.createRounds(game.id);
+
+    expect(rpc).toHaveBeenCalledWith('plan_game_rounds', { p_game_id: game.id });
+    expect(rounds).toEqual([round]);
+  });
+
+  it('should plan themed rounds straight away when a game is created with themes', async () => {
+    from.mockReturnValue(queryReturning({ data: game, error: null }));
+    rpc.mockResolvedValue({ data: 15, error: null });
+    vi.spyOn(service, 'getGameRounds').mockResolvedValue([{ ...round, title: 'Lab Work', categories: ['Science'] }]);
+    const themes = [{ title: 'Lab Work', categories: ['Science'] }, { categories: [] }];
+
+    await service.createGame(game.host_id, {
+      title: game.title,
+      scheduled_date: game.scheduled_date,
+      total_rounds: 3,
+      questions_per_round: 5,
+      selected_categories: game.selected_categories,
+      round_themes: themes,
+    });
+
+    expect(rpc).toHaveBeenCalledWith('plan_game_rounds', { p_game_id: game.id, p_round_themes: themes });
+  });
+
+  it('should leave planning until later for games created without themes', async () => {
+    from.mockReturnValue(queryReturning({ data: game, error: null }));
+
+    await service.createGame(game.host_id, {
+      title: game.title,
+      scheduled_date: game.scheduled_date,
+      total_rounds: 3,
+      questions_per_round: 5,
+      selected_categories: game.selected_categories,
+    });
+
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it('should start with the rounds the host previewed', async () => {
+    vi.spyOn(service, 'getGame').mockResolvedValue(game);
+    vi.spyOn(service, 'getGameTeams').mockResolvedValue([]);
+    vi.spyOn(service, 'getGameRounds').mockResolvedValue([round]);
+    vi.spyOn(service, 'getRoundQuestions').mockResolvedValue([]);
+    vi.spyOn(service, 'updateGame').mockResolvedValue({ ...game, status: 'in_progress' });
+    vi.spyOn(service, 'startRound').mockResolvedValue({ ...round, status: 'in_progress' });
+    const createRounds = vi.spyOn(service, 'createRounds');
+
+    const response = await service.startMultiUserGame(game.id);
+
+    expect(createRounds).not.toHaveBeenCalled();
+    expect(response.first_round).toEqual(round);
+    expect(service.startRound).toHaveBeenCalledWith(round.id);
+  });
+
+  it('should surface swaps the database refuses', async () => {
+    rpc.mockResolvedValue({ data: null, error: new Error('Rounds can only be planned before the game starts') });
+
+    await expect(service.reshuffleRoundQuestion('rq-1'))
+      .rejects.toThrow('Failed to reshuffle question: Rounds can only be planned before the game starts');
+    expect(rpc).toHaveBeenCalledWith('reshuffle_round_question', { p_round_question_id: 'rq-1' });
+  });
+});
@@ -0,0 +1,104 @@
+// Scoring rules tests
+// Covers rule defaults, round helpers and the point breakdown reported in game summaries
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  DEFAULT_SCORING_RULES,
+  resolveScoringRules,
+  getRoundMultiplier,
+  isWagerRound,
+  summarizePoints,
+} from '../../lib/scoring';
+import { GameServiceImpl } from '../game';
+import { InMemoryRealtimeTransport } from '../../lib/realtime';
+import type { TeamAnswer } from '../../contracts/multi-user-types';
+import { from, queryReturning } from '../../test/supabase';
+
+vi.mock('../../lib/supabase', () => import('../../test/supabase'));
+
+const answer = (overrides: Partial<TeamAnswer>): TeamAnswer => ({
+  id: 'answer-1',
+  team_id: 'team-1',
+  round_question_id: 'rq-1',
+  submitted_by: 'player-1',
+  answer: 'A',
+  is_correct: true,
+  points_earned: 10,
+  base_points: 10,
+  speed_bonus: 0,
+  submitted_at: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('Scoring Rules', () => {
+  describe('resolveScoringRules', () => {
+    it('should use the defaults when no rules are given', () => {
+      expect(resolveScoringRules()).toEqual(DEFAULT_SCORING_RULES);
+    });
+
+    it('should keep host overrides and default the rest', () => {
+      const rules = resolveScoringRules({ incorrect_points: -5, final_round_wager: true });
+
+      expect(rules.correct_points).toBe(10);
+      expect(rules.incorrect_points).toBe(-5);
+      expect(rules.final_round_wager).toBe(true);
+      expect(rules.speed_bonus).toBeNull();
+    });
+  });
+
+  describe('round helpers', () => {
+    const rules = resolveScoringRules({ round_multipliers: { '3': 2 }, final_round_wager: true });
+
+    it('should apply multipliers only to configured rounds', () => {
+      expect(getRoundMultiplier(rules, 3)).toBe(2);
+      expect(getRoundMultiplier(rules, 1)).toBe(1);
+    });
+
+    it('should treat only the final round as the wager round', () => {
+      expect(isWagerRound(rules, 3, 3)).toBe(true);
+      expect(isWagerRound(rules, 2, 3)).toBe(false);
+      expect(isWagerRound(DEFAULT_SCORING_RULES, 3, 3)).toBe(false);
+    });
+  });
+
+  describe('summarizePoints', () => {
+    it('should split points into correct, incorrect, speed bonus and wager', () => {
+      const breakdown = summarizePoints([
+        answer({ points_earned: 25, base_points: 20, speed_bonus: 5 }),
+        answer({ is_correct: false, points_earned: -5, base_points: -5 }),
+        answer({ is_correct: false, points_earned: -30, base_points: 0, wager: 30 }),
+        answer({ points_earned: 10, base_points: 0, wager: 10 }),
+      ]);
+
+      expect(breakdown).toEqual({ correct: 20, incorrect: -5, speed_bonus: 5, wager: -20 });
+    });
+  });
+
+  describe('submitTeamAnswer', () => {
+    it('should leave correctness and points to the database', async () => {
+      const saved = answer({});
+      const query = queryReturning({ data: saved, error: null });
+      from.mockReturnValue(query);
+      const service = new GameServiceImpl(new InMemoryRealtimeTransport());
+
+      const result = await service.submitTeamAnswer({
+        team_id: 'team-1',
+        round_question_id: 'rq-1',
+        answer: 'A',
+        submitted_by: 'player-1',
+        wager: 15,
+      });
+
+      expect(result).toEqual(saved);
+      expect(query.insert).toHaveBeenCalledWith([{
+        team_id: 'team-1',
+        round_question_id: 'rq-1',
+        submitted_by: 'player-1',
+        answer: 'A',
+        wager: 15,
+      }]);
+      // Grading isn't readable until the question is revealed
+      expect(query.select).toHaveBeenCalledWith(expect.not.stringContaining('is_correct'));
+    });
+  });
+});
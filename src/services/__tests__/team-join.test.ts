@@ -0,0 +1,51 @@
+// Team join tests
+// Players can't see a game until they're on a team, so teams are created and
+// joined through RPCs keyed by the game's join code
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GameServiceImpl } from '../game';
+import { InMemoryRealtimeTransport } from '../../lib/realtime';
+import { rpc, from } from '../../test/supabase';
+
+vi.mock('../../lib/supabase', () => import('../../test/supabase'));
+
+describe('Joining teams by join code', () => {
+  let service: GameServiceImpl;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new GameServiceImpl(new InMemoryRealtimeTransport());
+  });
+
+  it('should create a team in the game with the join code', async () => {
+    const team = { id: 'team-1', game_id: 'game-1', name: 'Quizzly Bears', display_color: '#EF4444', current_score: 0 };
+    rpc.mockResolvedValue({ data: team, error: null });
+
+    await expect(service.createTeam({ join_code: ' abc123 ', name: 'Quizzly Bears', display_color: '#EF4444' }))
+      .resolves.toBe(team);
+
+    expect(rpc).toHaveBeenCalledWith('create_team', {
+      p_join_code: 'ABC123',
+      p_name: 'Quizzly Bears',
+      p_display_color: '#EF4444',
+    });
+    expect(from).not.toHaveBeenCalled();
+  });
+
+  it('should join the signed-in player to the team', async () => {
+    const teamPlayer = { id: 'tp-1', team_id: 'team-1', player_id: 'player-1' };
+    rpc.mockResolvedValue({ data: teamPlayer, error: null });
+
+    await expect(service.joinTeam({ join_code: 'ABC123', team_id: 'team-1' })).resolves.toBe(teamPlayer);
+
+    expect(rpc).toHaveBeenCalledWith('join_team', { p_join_code: 'ABC123', p_team_id: 'team-1' });
+    expect(from).not.toHaveBeenCalled();
+  });
+
+  it('should surface why a join was refused', async () => {
+    rpc.mockResolvedValue({ data: null, error: new Error('Team cannot have more than 4 players') });
+
+    await expect(service.joinTeam({ join_code: 'ABC123', team_id: 'team-1' }))
+      .rejects.toThrow('Failed to join team: Team cannot have more than 4 players');
+  });
+});
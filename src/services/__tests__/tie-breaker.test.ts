@@ -0,0 +1,158 @@
+// Tie-breaker tests
+// Finding teams tied for first, ranking closest-number and sudden-death
+// answers, and the tie-breaker RPCs
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GameServiceImpl } from '../game';
+import { InMemoryRealtimeTransport } from '../../lib/realtime';
+import { findTiedLeaders, orderStandings, rankTieBreakerAnswers } from '../../lib/tieBreaker';
+import type { TieBreakerAnswer } from '../../contracts/multi-user-types';
+import { rpc, from, queryReturning } from '../../test/supabase';
+
+vi.mock('../../lib/supabase', () => import('../../test/supabase'));
+
+const answer = (team_id: string, value: string): TieBreakerAnswer => ({
+  id: `answer-${team_id}`,
+  tie_breaker_id: 'tb-1',
+  team_id,
+  submitted_by: `${team_id}-player`,
+  answer: value,
+  is_correct: null,
+  distance: null,
+  submitted_at: '2024-01-01T21:00:00Z',
+});
+
+describe('Tie-breakers', () => {
+  describe('findTiedLeaders', () => {
+    it('should find every team sharing the top score', () => {
+      expect(findTiedLeaders([
+        { id: 't-1', current_score: 20 },
+        { id: 't-2', current_score: 30 },
+        { id: 't-3', current_score: 30 },
+      ])).toEqual(['t-2', 't-3']);
+    });
+
+    it('should find no tie when one team leads outright', () => {
+      expect(findTiedLeaders([
+        { id: 't-1', current_score: 30 },
+        { id: 't-2', current_score: 20 },
+        { id: 't-3', current_score: 20 },
+      ])).toEqual([]);
+      expect(findTiedLeaders([{ id: 't-1', current_score: 0 }])).toEqual([]);
+    });
+  });
+
+  describe('rankTieBreakerAnswers', () => {
+    it('should pick the closest number as the winner', () => {
+      const result = rankTieBreakerAnswers(
+        { mode: 'closest_number', team_ids: ['t-1', 't-2', 't-3'] },
+        '1969',
+        [answer('t-1', '1975'), answer('t-2', '1968'), answer('t-3', '1950.5')]
+      );
+
+      expect(result.answers.map(a => [a.team_id, a.distance])).toEqual([
+        ['t-2', 1],
+        ['t-1', 6],
+        ['t-3', 18.5],
+      ]);
+      expect(result.leading_team_ids).toEqual(['t-2']);
+      expect(result.winner_team_id).toBe('t-2');
+    });
+
+    it('should leave teams equally close still tied', () => {
+      const result = rankTieBreakerAnswers(
+        { mode: 'closest_number', team_ids: ['t-1', 't-2', 't-3'] },
+        '100',
+        [answer('t-1', '90'), answer('t-2', '110'), answer('t-3', '150')]
+      );
+
+      expect(result.leading_team_ids).toEqual(['t-1', 't-2']);
+      expect(result.winner_team_id).toBeNull();
+    });
+
+    it('should make the only correct team the sudden death winner', () => {
+      const result = rankTieBreakerAnswers(
+        { mode: 'sudden_death', team_ids: ['t-1', 't-2'] },
+        'C',
+        [answer('t-1', 'A'), answer('t-2', 'C')]
+      );
+
+      expect(result.answers.map(a => [a.team_id, a.is_correct])).toEqual([['t-2', true], ['t-1', false]]);
+      expect(result.winner_team_id).toBe('t-2');
+    });
+
+    it('should keep every team tied when no one gets sudden death right', () => {
+      const result = rankTieBreakerAnswers(
+        { mode: 'sudden_death', team_ids: ['t-1', 't-2'] },
+        'C',
+        [answer('t-1', 'A')]
+      );
+
+      expect(result.leading_team_ids).toEqual(['t-1', 't-2']);
+      expect(result.winner_team_id).toBeNull();
+    });
+  });
+
+  describe('orderStandings', () => {
+    it('should put the tie-breaker winner ahead of the teams it tied with', () => {
+      const teams = [
+        { id: 't-1', current_score: 30 },
+        { id: 't-2', current_score: 10 },
+        { id: 't-3', current_score: 30 },
+      ];
+
+      expect(orderStandings(teams).map(t => t.id)).toEqual(['t-1', 't-3', 't-2']);
+      expect(orderStandings(teams, 't-3').map(t => t.id)).toEqual(['t-3', 't-1', 't-2']);
+    });
+  });
+
+  describe('service', () => {
+    let service: GameServiceImpl;
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      service = new GameServiceImpl(new InMemoryRealtimeTransport());
+    });
+
+    it('should start, answer and resolve a tie-breaker through the RPCs', async () => {
+      rpc.mockResolvedValue({ data: { id: 'tb-1' }, error: null });
+
+      await service.startTieBreaker('game-1');
+      await service.submitTieBreakerAnswer('tb-1', '1969');
+      await service.resolveTieBreaker('tb-1');
+
+      expect(rpc.mock.calls).toEqual([
+        ['start_tie_breaker', { p_game_id: 'game-1' }],
+        ['submit_tie_breaker_answer', { p_tie_breaker_id: 'tb-1', p_answer: '1969' }],
+        ['resolve_tie_breaker', { p_tie_breaker_id: 'tb-1' }],
+      ]);
+    });
+
+    it('should surface a refused tie-breaker', async () => {
+      rpc.mockResolvedValueOnce({ data: null, error: new Error('No teams are tied for first') });
+
+      await expect(service.startTieBreaker('game-1'))
+        .rejects.toThrow('Failed to start tie-breaker: No teams are tied for first');
+    });
+
+    it('should load the latest tie-breaker with its question and answers', async () => {
+      from.mockReturnValue(queryReturning({
+        data: {
+          id: 'tb-1',
+          game_id: 'game-1',
+          mode: 'closest_number',
+          questions: { question: 'When did Apollo 11 land?', category: 'History' },
+          tie_breaker_answers: [answer('t-1', '1969')],
+        },
+        error: null,
+      }));
+
+      const tieBreaker = await service.getTieBreaker('game-1');
+
+      expect(from).toHaveBeenCalledWith('tie_breakers');
+      expect(tieBreaker?.question).toEqual({ question: 'When did Apollo 11 land?', category: 'History' });
+      expect(tieBreaker?.answers).toHaveLength(1);
+      expect(tieBreaker).not.toHaveProperty('tie_breaker_answers');
+    });
+  });
+});
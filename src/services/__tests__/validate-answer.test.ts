@@ -0,0 +1,97 @@
+// Single-player answer validation tests
+// The browser only forwards the answer; the validate_answer RPC decides correctness and score
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GameServiceImpl } from '../game';
+import { InMemoryRealtimeTransport } from '../../lib/realtime';
+import type { ValidateAnswerResponse } from '../../contracts/database';
+import { rpc, from } from '../../test/supabase';
+
+vi.mock('../../lib/supabase', () => import('../../test/supabase'));
+
+const request = {
+  game_session_id: 'session-1',
+  game_question_id: 'gq-1',
+  user_answer: 'Paris',
+  time_to_answer_ms: 4200,
+};
+
+const validated: ValidateAnswerResponse = {
+  is_correct: true,
+  correct_answer: 'Paris',
+  game_question_updated: true,
+  session_stats: {
+    current_score: 3,
+    current_round: 1,
+    current_question_index: 3,
+    round_complete: false,
+    game_complete: false,
+  },
+  next_question: {
+    id: 'gq-2',
+    question: 'What is the capital of Spain?',
+    category: 'Geography',
+    question_type: 'multiple_choice',
+    answers: ['Lisbon', 'Madrid', 'Rome', 'Berlin'],
+    round_number: 1,
+    question_number: 4,
+    total_questions: 10,
+  },
+};
+
+describe('submitAnswer', () => {
+  let service: GameServiceImpl;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new GameServiceImpl(new InMemoryRealtimeTransport());
+  });
+
+  it('should validate through the RPC without touching game tables', async () => {
+    rpc.mockResolvedValue({ data: validated, error: null });
+
+    const result = await service.submitAnswer(request);
+
+    expect(rpc).toHaveBeenCalledWith('validate_answer', {
+      p_game_question_id: 'gq-1',
+      p_user_answer: 'Paris',
+      p_time_to_answer_ms: 4200,
+    });
+    expect(from).not.toHaveBeenCalled();
+    expect(result).toEqual({
+      is_correct: true,
+      correct_answer: 'Paris',
+      timed_out: false,
+      updated_score: 3,
+      round_complete: false,
+      game_complete: false,
+      next_question: validated.next_question,
+    });
+  });
+
+  it('should report game completion without a next question', async () => {
+    rpc.mockResolvedValue({
+      data: {
+        ...validated,
+        is_correct: false,
+        session_stats: { ...validated.session_stats, round_complete: true, game_complete: true },
+        next_question: null,
+      },
+      error: null,
+    });
+
+    const result = await service.submitAnswer(request);
+
+    expect(result.is_correct).toBe(false);
+    expect(result.game_complete).toBe(true);
+    expect(result.next_question).toBeUndefined();
+  });
+
+  it('should surface answers the database rejects', async () => {
+    rpc.mockResolvedValue({ data: null, error: new Error('Only the current question can be answered') });
+
+    await expect(service.submitAnswer(request)).rejects.toThrow(
+      'Failed to submit answer: Only the current question can be answered'
+    );
+  });
+});
@@ -5,6 +5,10 @@ import type {
   SignUpResponse,
   SignInRequest,
   SignInResponse,
+  SignInAnonymouslyRequest,
+  UpgradeAccountRequest,
+  UpgradeAccountResponse,
+  ClaimGuestHistoryResponse,
   AuthUser,
   AuthSession,
   AuthError
@@ -82,6 +86,145 @@ class AuthServiceImpl implements AuthService {
     }
   }
 
+  async signInAnonymously(request: SignInAnonymouslyRequest): Promise<SignInResponse> {
+    try {
+      const displayName = request.display_name.trim();
+
+      const { data, error } = await supabase.auth.signInAnonymously({
+        options: {
+          data: { display_name: displayName }
+        }
+      });
+
+      if (error) {
+        return {
+          user: null,
+          session: null,
+          error: {
+            message: error.message,
+            status: error.status || 400
+          }
+        };
+      }
+
+      // Guests still need a profile so teammates and the TV can show their name
+      if (data.user) {
+        const { error: profileError } = await supabase
+          .from('user_profiles')
+          .upsert({
+            id: data.user.id,
+            username: this.guestUsername(data.user.id),
+            display_name: displayName
+          });
+
+        if (profileError) {
+          return {
+            user: null,
+            session: null,
+            error: {
+              message: profileError.message,
+              status: 400
+            }
+          };
+        }
+      }
+
+      return {
+        user: data.user ? this.mapSupabaseUser(data.user) : null,
+        session: data.session ? this.mapSupabaseSession(data.session) : null,
+        error: null
+      };
+    } catch (error) {
+      return {
+        user: null,
+        session: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Unknown error',
+          status: 500
+        }
+      };
+    }
+  }
+
+  async upgradeAccount(request: UpgradeAccountRequest): Promise<UpgradeAccountResponse> {
+    try {
+      // Linking an email keeps the same user id, so teams and answers stay attached
+      const { data, error } = await supabase.auth.updateUser({
+        email: request.email,
+        password: request.password,
+        data: { username: request.username }
+      });
+
+      if (error) {
+        return {
+          user: null,
+          error: {
+            message: error.message,
+            status: error.status || 400
+          }
+        };
+      }
+
+      const { error: profileError } = await supabase
+        .from('user_profiles')
+        .update({ username: request.username })
+        .eq('id', data.user.id);
+
+      if (profileError) {
+        return {
+          user: null,
+          error: {
+            message: profileError.message,
+            status: 400
+          }
+        };
+      }
+
+      return {
+        user: this.mapSupabaseUser(data.user),
+        error: null
+      };
+    } catch (error) {
+      return {
+        user: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Unknown error',
+          status: 500
+        }
+      };
+    }
+  }
+
+  async claimGuestHistory(code: string): Promise<ClaimGuestHistoryResponse> {
+    try {
+      const { data, error } = await supabase
+        .rpc('claim_guest_history', { p_code: code.trim().toUpperCase() });
+
+      if (error) {
+        return {
+          claimed: null,
+          error: {
+            message: error.message,
+            status: 400
+          }
+        };
+      }
+
+      return {
+        claimed: data,
+        error: null
+      };
+    } catch (error) {
+      return {
+        claimed: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Unknown error',
+          status: 500
+        }
+      };
+    }
+  }
+
   async signOut(): Promise<{ error: AuthError | null }> {
     try {
       const { error } = await supabase.auth.signOut();
@@ -176,12 +319,20 @@ class AuthServiceImpl implements AuthService {
     return { data };
   }
 
+  // Guests pick only a display name; usernames must be unique, so derive one from the user id
+  private guestUsername(userId: string): string {
+    return `guest_${userId.replace(/-/g, '').slice(0, 12)}`;
+  }
+
   // Helper methods to map Supabase types to contract types
   private mapSupabaseUser(user: any): AuthUser {
     return {
       id: user.id,
-      email: user.email,
+      email: user.email ?? '',
       email_confirmed_at: user.email_confirmed_at,
+      is_anonymous: user.is_anonymous ?? false,
+      display_name: user.user_metadata?.display_name,
+      is_admin: user.app_metadata?.role === 'admin',
       created_at: user.created_at,
       updated_at: user.updated_at
     };
@@ -1,18 +1,41 @@
 import { supabase } from '../lib/supabase';
+import { createSupabaseRealtimeTransport } from '../lib/realtime';
+import type { RealtimeChange, RealtimeTransport } from '../lib/realtime';
+import { resolveScoringRules } from '../lib/scoring';
+import { DEFAULT_QUESTION_TIME_LIMIT_SECONDS, getSessionElapsedMs } from '../lib/questionTimer';
+import { previousQuestionState } from '../lib/questionState';
+import { resolveLifelines, countLifelineUsage } from '../lib/lifelines';
+import { analyzeCategories, analyzeQuestions, analyzeResponseTimes } from '../lib/gameAnalytics';
+import type { AnalyzedAnswer, AnalyzedRoundQuestion } from '../lib/gameAnalytics';
 import type {
   GameService,
   UserProfile,
   Question,
+  QuestionPrompt,
   GameSession,
   CreateGameSessionRequest,
   StartGameResponse,
   QuestionPresentation,
   SubmitAnswerRequest,
   SubmitAnswerResponse,
+  UseLifelineRequest,
+  UseLifelineResponse,
+  LifelineCounts,
+  QuestionStatus,
+  QuestionSearchRequest,
+  QuestionSearchResult,
+  SaveQuestionRequest,
+  QuestionAuditEntry,
+  ReportQuestionRequest,
+  QuestionReport,
+  QuestionDispute,
+  ResolveQuestionReportsRequest,
+  ResolveQuestionReportsResponse,
   RoundSummary,
   GameSummary,
 } from '@/contracts/game';
-import type { ExtendedGameService } from '@/contracts/multi-user-game';
+import type { ValidateAnswerResponse } from '@/contracts/database';
+import type { ExtendedGameService, GameEventCallback } from '@/contracts/multi-user-game';
 import type {
   Game,
   Team,
@@ -20,6 +43,7 @@ import type {
   TeamWithPlayers,
   Round,
   RoundQuestionDetail,
+  RoundTheme,
   TeamAnswer,
   CreateGameRequest,
   CreateTeamRequest,
@@ -29,9 +53,24 @@ import type {
   GameStateUpdate,
   GameSummaryResponse,
   GameStatus,
+  GameLobby,
+  GameAnalytics,
+  GameResults,
+  QuestionState,
+  TieBreaker,
+  TieBreakerAnswer,
+  TieBreakerDetail,
 } from '@/contracts/multi-user-types';
 
 class GameServiceImpl implements ExtendedGameService {
+  private realtime: RealtimeTransport;
+  // Answers being validated, keyed by game question, so a double click reuses the first request
+  private pendingAnswers = new Map<string, Promise<SubmitAnswerResponse>>();
+
+  constructor(realtime?: RealtimeTransport) {
+    this.realtime = realtime ?? createSupabaseRealtimeTransport(supabase);
+  }
+
   // Profile Management
   async getUserProfile(userId: string): Promise<UserProfile | null> {
     try {
@@ -118,6 +157,7 @@ class GameServiceImpl implements ExtendedGameService {
         const { data: fallbackData, error: fallbackError } = await supabase
           .from('questions')
           .select('category')
+          .eq('status', 'approved')
           .limit(100);
 
         if (fallbackError) {
@@ -136,12 +176,14 @@ class GameServiceImpl implements ExtendedGameService {
     }
   }
 
-  async getQuestionsForSession(categories: string[], count: number, excludeIds?: string[]): Promise<Question[]> {
+  async getQuestionsForSession(categories: string[], count: number, excludeIds?: string[]): Promise<QuestionPrompt[]> {
     try {
       let query = supabase
         .from('questions')
-        .select('*')
+        .select('id, category, question, question_type, metadata, status, difficulty, correct_rate, average_time_ms, answer_count, created_at, updated_at')
         .in('category', categories)
+        .eq('status', 'approved')
+        .eq('question_type', 'multiple_choice')
         .limit(count);
 
       if (excludeIds && excludeIds.length > 0) {
@@ -161,18 +203,167 @@ class GameServiceImpl implements ExtendedGameService {
     }
   }
 
+  // Question Moderation
+  // Answers are hidden from clients, so admins read and write questions through
+  // functions that check for the admin role
+  async searchQuestions(request: QuestionSearchRequest): Promise<QuestionSearchResult> {
+    try {
+      const { data, error } = await supabase
+        .rpc('search_questions', {
+          p_search: request.search?.trim() || null,
+          p_category: request.category || null,
+          p_status: request.status || null,
+          p_limit: request.limit ?? 25,
+          p_offset: request.offset ?? 0,
+        });
+
+      if (error) {
+        throw error;
+      }
+
+      return data as QuestionSearchResult;
+    } catch (error) {
+      console.error('Error searching questions:', error);
+      throw new Error(`Failed to search questions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async saveQuestion(request: SaveQuestionRequest): Promise<Question> {
+    try {
+      const { data, error } = await supabase
+        .rpc('save_question', {
+          p_question_id: request.id ?? null,
+          p_category: request.category,
+          p_question: request.question,
+          p_a: request.a,
+          p_b: request.b,
+          p_c: request.c,
+          p_d: request.d,
+          p_metadata: request.metadata ?? {},
+          p_question_type: request.question_type ?? 'multiple_choice',
+        });
+
+      if (error) {
+        throw error;
+      }
+
+      return data as Question;
+    } catch (error) {
+      console.error('Error saving question:', error);
+      throw new Error(`Failed to save question: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async setQuestionStatus(questionId: string, status: QuestionStatus): Promise<Question> {
+    try {
+      const { data, error } = await supabase
+        .rpc('set_question_status', {
+          p_question_id: questionId,
+          p_status: status,
+        });
+
+      if (error) {
+        throw error;
+      }
+
+      return data as Question;
+    } catch (error) {
+      console.error('Error updating question status:', error);
+      throw new Error(`Failed to update question status: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getQuestionAuditLog(questionId: string): Promise<QuestionAuditEntry[]> {
+    try {
+      const { data, error } = await supabase
+        .rpc('get_question_audit_log', { p_question_id: questionId });
+
+      if (error) {
+        throw error;
+      }
+
+      return (data || []) as QuestionAuditEntry[];
+    } catch (error) {
+      console.error('Error getting question audit log:', error);
+      throw new Error(`Failed to get question audit log: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Question Reports
+  async reportQuestion(request: ReportQuestionRequest): Promise<string> {
+    try {
+      const { data, error } = await supabase
+        .rpc('report_question', {
+          p_reason: request.reason,
+          p_comment: request.comment?.trim() || null,
+          p_game_question_id: request.game_question_id ?? null,
+          p_round_question_id: request.round_question_id ?? null,
+        });
+
+      if (error) {
+        throw error;
+      }
+
+      return data as string;
+    } catch (error) {
+      console.error('Error reporting question:', error);
+      throw new Error(`Failed to report question: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getQuestionDisputes(status: QuestionReport['status'] = 'open'): Promise<QuestionDispute[]> {
+    try {
+      const { data, error } = await supabase
+        .rpc('get_question_disputes', { p_status: status });
+
+      if (error) {
+        throw error;
+      }
+
+      return (data || []) as QuestionDispute[];
+    } catch (error) {
+      console.error('Error getting question disputes:', error);
+      throw new Error(`Failed to get question disputes: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async resolveQuestionReports(request: ResolveQuestionReportsRequest): Promise<ResolveQuestionReportsResponse> {
+    try {
+      // Re-scoring runs in the database so every affected score changes in one transaction
+      const { data, error } = await supabase
+        .rpc('resolve_question_reports', {
+          p_question_id: request.question_id,
+          p_resolution: request.resolution,
+          p_correct_answer: request.correct_answer ?? null,
+          p_rescore: request.rescore ?? false,
+          p_note: request.note?.trim() || null,
+        });
+
+      if (error) {
+        throw error;
+      }
+
+      return data as ResolveQuestionReportsResponse;
+    } catch (error) {
+      console.error('Error resolving question reports:', error);
+      throw new Error(`Failed to resolve question reports: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   // Game Session Management
   async createGameSession(userId: string, request: CreateGameSessionRequest): Promise<GameSession> {
     try {
+      // Status, round, position and score start at their column defaults and
+      // only set_session_status and validate_answer can change them
       const sessionData = {
         user_id: userId,
-        status: 'setup' as const,
         total_rounds: request.total_rounds,
         questions_per_round: request.questions_per_round,
         selected_categories: request.selected_categories,
-        current_round: 1,
-        current_question_index: 0,
-        total_score: 0,
+        question_time_limit_seconds: request.question_time_limit_seconds ?? null,
+        lifelines_remaining: resolveLifelines(request.lifelines),
+        difficulty_curve: request.difficulty_curve ?? 'flat',
+        question_types: request.question_types ?? ['multiple_choice'],
       };
 
       const { data, error } = await supabase
@@ -263,6 +454,23 @@ class GameServiceImpl implements ExtendedGameService {
     }
   }
 
+  async setSessionStatus(sessionId: string, status: GameSession['status']): Promise<GameSession> {
+    try {
+      // The database only moves a session forward and stamps its start and end times
+      const { data, error } = await supabase
+        .rpc('set_session_status', { p_session_id: sessionId, p_status: status });
+
+      if (error) {
+        throw error;
+      }
+
+      return data as GameSession;
+    } catch (error) {
+      console.error('Error setting game session status:', error);
+      throw new Error(`Failed to set game session status: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   // Game Flow
   async startGame(sessionId: string): Promise<StartGameResponse> {
     try {
@@ -287,6 +495,8 @@ class GameServiceImpl implements ExtendedGameService {
           p_total_rounds: session.total_rounds,
           p_questions_per_round: session.questions_per_round,
           p_selected_categories: session.selected_categories,
+          p_difficulty_curve: session.difficulty_curve ?? 'flat',
+          p_question_types: session.question_types ?? ['multiple_choice'],
         });
 
       if (error) {
@@ -298,11 +508,13 @@ class GameServiceImpl implements ExtendedGameService {
       // The create_game function creates a NEW session, so we need to use that session ID
       const newSessionId = data[0].game_session_id;
 
-      // Update the NEW session to in_progress
-      const updatedSession = await this.updateGameSession(newSessionId, {
-        status: 'in_progress',
-        start_time: new Date().toISOString(),
+      // Carry the time limit and lifelines chosen during setup over to the
+      // NEW session while it can still take them, then start it
+      await this.updateGameSession(newSessionId, {
+        question_time_limit_seconds: session.question_time_limit_seconds ?? null,
+        lifelines_remaining: resolveLifelines(session.lifelines_remaining),
       });
+      const updatedSession = await this.setSessionStatus(newSessionId, 'in_progress');
 
       // Get the first question from the returned questions array
       const questions = data[0].questions;
@@ -316,6 +528,7 @@ class GameServiceImpl implements ExtendedGameService {
         id: firstQuestion.id,
         question: firstQuestion.question,
         category: firstQuestion.category,
+        question_type: firstQuestion.question_type,
         answers: firstQuestion.answers,
         round_number: firstQuestion.round_number,
         question_number: firstQuestion.question_order,
@@ -347,8 +560,13 @@ class GameServiceImpl implements ExtendedGameService {
       const { data: gameQuestions, error } = await supabase
         .from('game_questions')
         .select(`
-          *,
-          questions!inner(question, category, a, b, c, d)
+          id,
+          round_number,
+          question_type,
+          presented_answers,
+          removed_answers,
+          extra_time_seconds,
+          questions!inner(question, category)
         `)
         .eq('game_session_id', sessionId)
         .eq('question_order', session.current_question_index + 1)
@@ -362,14 +580,21 @@ class GameServiceImpl implements ExtendedGameService {
         throw error;
       }
 
+      // questions is a to-one join, though the untyped client infers an array
+      const prompt = gameQuestions.questions as unknown as { question: string; category: string };
+
       const questionPresentation: QuestionPresentation = {
         id: gameQuestions.id,
-        question: gameQuestions.questions.question,
-        category: gameQuestions.questions.category,
+        question: prompt.question,
+        category: prompt.category,
+        question_type: gameQuestions.question_type,
         answers: gameQuestions.presented_answers,
         round_number: gameQuestions.round_number,
         question_number: session.current_question_index + 1,
         total_questions: session.total_rounds * session.questions_per_round,
+        elapsed_ms: getSessionElapsedMs(session, Date.now()),
+        removed_answers: gameQuestions.removed_answers ?? [],
+        extra_time_seconds: gameQuestions.extra_time_seconds ?? 0,
       };
 
       return questionPresentation;
@@ -379,110 +604,76 @@ class GameServiceImpl implements ExtendedGameService {
     }
   }
 
-  async submitAnswer(request: SubmitAnswerRequest): Promise<SubmitAnswerResponse> {
-    try {
-      // First get the game question without joins
-      const { data: gameQuestion, error: questionError } = await supabase
-        .from('game_questions')
-        .select('*')
-        .eq('id', request.game_question_id)
-        .single();
-
-      if (questionError || !gameQuestion) {
-        throw new Error('Game question not found');
-      }
-
-      // Then get the game session separately
-      const { data: gameSession, error: sessionError } = await supabase
-        .from('game_sessions')
-        .select('*')
-        .eq('id', gameQuestion.game_session_id)
-        .single();
-
-      if (sessionError || !gameSession) {
-        throw new Error('Game session not found');
-      }
+  submitAnswer(request: SubmitAnswerRequest): Promise<SubmitAnswerResponse> {
+    const pending = this.pendingAnswers.get(request.game_question_id);
+    if (pending) {
+      return pending;
+    }
 
-      // Check if answer is correct (client-side validation)
-      const isCorrect = request.user_answer === gameQuestion.correct_answer;
-      const pointsAwarded = isCorrect ? 1 : 0;
+    const submission = this.validateAnswer(request).finally(() => {
+      this.pendingAnswers.delete(request.game_question_id);
+    });
+    this.pendingAnswers.set(request.game_question_id, submission);
+    return submission;
+  }
 
-      // Update the game question with the user's answer
-      const { error: updateError } = await supabase
-        .from('game_questions')
-        .update({
-          user_answer: request.user_answer,
-          is_correct: isCorrect,
-          time_to_answer_ms: request.time_to_answer_ms,
-          answered_at: new Date().toISOString(),
-          points_awarded: pointsAwarded,
-        })
-        .eq('id', request.game_question_id);
+  private async validateAnswer(request: SubmitAnswerRequest): Promise<SubmitAnswerResponse> {
+    try {
+      // Correctness, scoring and advancing to the next question all happen in
+      // one database transaction; the correct answer is only returned here
+      const { data, error } = await supabase
+        .rpc('validate_answer', {
+          p_game_question_id: request.game_question_id,
+          p_user_answer: request.user_answer,
+          p_time_to_answer_ms: request.time_to_answer_ms,
+        });
 
-      if (updateError) {
-        throw updateError;
+      if (error) {
+        throw error;
       }
 
-      // Update game session score
-      const newScore = gameSession.total_score + pointsAwarded;
-      const newQuestionIndex = gameSession.current_question_index + 1;
+      const result = data as ValidateAnswerResponse;
 
-      // Calculate current round based on question index, ensuring it doesn't exceed total_rounds
-      const calculatedRound = Math.floor(newQuestionIndex / gameSession.questions_per_round) + 1;
-      const newCurrentRound = Math.min(calculatedRound, gameSession.total_rounds);
-
-      // Check if game is complete
-      const totalQuestions = gameSession.total_rounds * gameSession.questions_per_round;
-      const gameComplete = newQuestionIndex >= totalQuestions;
-      const roundComplete = newQuestionIndex % gameSession.questions_per_round === 0;
-
-      const sessionUpdates: any = {
-        total_score: newScore,
-        current_question_index: newQuestionIndex,
-        current_round: newCurrentRound,
+      return {
+        is_correct: result.is_correct,
+        correct_answer: result.correct_answer,
+        timed_out: result.timed_out ?? false,
+        updated_score: result.session_stats.current_score,
+        round_complete: result.session_stats.round_complete,
+        game_complete: result.session_stats.game_complete,
+        next_question: result.next_question ?? undefined,
       };
+    } catch (error) {
+      console.error('Error submitting answer:', error);
+      throw new Error(`Failed to submit answer: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
-      if (gameComplete) {
-        sessionUpdates.status = 'completed';
-        sessionUpdates.end_time = new Date().toISOString();
-      }
-
-      const { error: sessionUpdateError } = await supabase
-        .from('game_sessions')
-        .update(sessionUpdates)
-        .eq('id', gameSession.id);
-
-      if (sessionUpdateError) {
-        throw sessionUpdateError;
-      }
+  async applyLifeline(request: UseLifelineRequest): Promise<UseLifelineResponse> {
+    try {
+      // The database picks the removed answers and replacement questions, so
+      // the browser never learns which answer is correct
+      const { data, error } = await supabase
+        .rpc('use_lifeline', {
+          p_game_question_id: request.game_question_id,
+          p_lifeline: request.lifeline,
+        });
 
-      // Get next question if game is not complete
-      let nextQuestion: QuestionPresentation | undefined;
-      if (!gameComplete) {
-        nextQuestion = await this.getNextQuestion(gameSession.id) || undefined;
+      if (error) {
+        throw error;
       }
 
-      const response: SubmitAnswerResponse = {
-        is_correct: isCorrect,
-        correct_answer: gameQuestion.correct_answer,
-        updated_score: newScore,
-        round_complete: roundComplete,
-        game_complete: gameComplete,
-        next_question: nextQuestion,
-      };
-
-      return response;
+      return data as UseLifelineResponse;
     } catch (error) {
-      console.error('Error submitting answer:', error);
-      throw new Error(`Failed to submit answer: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('Error using lifeline:', error);
+      throw new Error(`Failed to use lifeline: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   async pauseGame(sessionId: string): Promise<GameSession> {
     try {
-      return await this.updateGameSession(sessionId, {
-        status: 'paused',
-      });
+      // The database banks the current question's clock so resuming picks up where it left off
+      return await this.setSessionStatus(sessionId, 'paused');
     } catch (error) {
       console.error('Error pausing game:', error);
       throw new Error(`Failed to pause game: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -491,10 +682,7 @@ class GameServiceImpl implements ExtendedGameService {
 
   async resumeGame(sessionId: string): Promise<QuestionPresentation> {
     try {
-      // Update status to in_progress
-      await this.updateGameSession(sessionId, {
-        status: 'in_progress',
-      });
+      await this.setSessionStatus(sessionId, 'in_progress');
 
       // Get current question
       const currentQuestion = await this.getNextQuestion(sessionId);
@@ -530,7 +718,7 @@ class GameServiceImpl implements ExtendedGameService {
       // Get round summaries from simplified schema
       const { data: questions, error: questionsError } = await supabase
         .from('game_questions')
-        .select('*')
+        .select('round_number, question_order, is_correct, time_to_answer_ms, points_awarded, fifty_fifty_used, removed_answers, skipped_question_id, extra_time_used, extra_time_seconds')
         .eq('game_session_id', sessionId)
         .order('round_number, question_order');
 
@@ -579,6 +767,11 @@ class GameServiceImpl implements ExtendedGameService {
       const correctAnswers = questions?.filter(q => q.is_correct).length || 0;
       const accuracy = totalQuestions > 0 ? (correctAnswers / totalQuestions) * 100 : 0;
 
+      // Correct answers helped by 50/50 or extra time score nothing
+      const lifelinePointsForfeited = questions?.filter(q =>
+        q.is_correct && (q.removed_answers !== null || q.extra_time_seconds > 0)
+      ).length || 0;
+
       // Check if this is a personal best (simplified logic)
       const { data: userSessions } = await supabase
         .from('game_sessions')
@@ -599,6 +792,8 @@ class GameServiceImpl implements ExtendedGameService {
         total_duration_ms: session.total_duration_ms || 0,
         rounds: roundSummaries,
         personal_best: personalBest,
+        lifelines_used: countLifelineUsage(questions || []),
+        lifeline_points_forfeited: lifelinePointsForfeited,
       };
 
       return summary;
@@ -614,6 +809,7 @@ class GameServiceImpl implements ExtendedGameService {
     average_accuracy: number;
     favorite_category: string;
     recent_games: GameSession[];
+    lifelines_used: LifelineCounts;
   }> {
     try {
       // Get user's completed games
@@ -631,7 +827,7 @@ class GameServiceImpl implements ExtendedGameService {
       // Get all game questions for this user to calculate stats
       const { data: questions, error: questionsError } = await supabase
         .from('game_questions')
-        .select('*, questions!inner(category)')
+        .select('is_correct, fifty_fifty_used, skipped_question_id, extra_time_used, questions!inner(category)')
         .in('game_session_id', games?.map(g => g.id) || []);
 
       if (questionsError) {
@@ -648,7 +844,7 @@ class GameServiceImpl implements ExtendedGameService {
       // Find favorite category
       const categoryCount = new Map<string, number>();
       questions?.forEach(q => {
-        const category = q.questions.category;
+        const category = (q.questions as unknown as { category: string }).category;
         categoryCount.set(category, (categoryCount.get(category) || 0) + 1);
       });
 
@@ -670,6 +866,7 @@ class GameServiceImpl implements ExtendedGameService {
         average_accuracy: averageAccuracy,
         favorite_category: favoriteCategory,
         recent_games: recentGames,
+        lifelines_used: countLifelineUsage(questions || []),
       };
     } catch (error) {
       console.error('Error getting user stats:', error);
@@ -693,6 +890,13 @@ class GameServiceImpl implements ExtendedGameService {
         total_rounds: request.total_rounds,
         questions_per_round: request.questions_per_round,
         selected_categories: request.selected_categories,
+        scoring_rules: resolveScoringRules(request.scoring_rules),
+        question_time_limit_seconds: request.question_time_limit_seconds === undefined
+          ? DEFAULT_QUESTION_TIME_LIMIT_SECONDS
+          : request.question_time_limit_seconds,
+        difficulty_curve: request.difficulty_curve ?? 'flat',
+        question_types: request.question_types ?? ['multiple_choice'],
+        tie_breaker: request.tie_breaker ?? null,
       };
 
       const { data, error } = await supabase
@@ -705,6 +909,10 @@ class GameServiceImpl implements ExtendedGameService {
         throw error;
       }
 
+      if (request.round_themes?.length) {
+        await this.createRounds(data.id, request.round_themes);
+      }
+
       return data;
     } catch (error) {
       console.error('Error creating multi-user game:', error);
@@ -734,6 +942,22 @@ class GameServiceImpl implements ExtendedGameService {
     }
   }
 
+  async getGameLobby(joinCode: string): Promise<GameLobby | null> {
+    try {
+      const { data, error } = await supabase
+        .rpc('get_game_lobby', { p_join_code: joinCode.trim().toUpperCase() });
+
+      if (error) {
+        throw error;
+      }
+
+      return data ?? null;
+    } catch (error) {
+      console.error('Error getting game lobby:', error);
+      throw new Error(`Failed to find game: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   async getHostGames(hostId: string, status?: GameStatus): Promise<Game[]> {
     try {
       let query = supabase
@@ -794,8 +1018,9 @@ class GameServiceImpl implements ExtendedGameService {
       // Get teams for the game
       const teams = await this.getGameTeams(gameId);
 
-      // Create rounds for the game
-      const rounds = await this.createRounds(gameId);
+      // Use the rounds the host previewed, or plan them now
+      const plannedRounds = await this.getGameRounds(gameId);
+      const rounds = plannedRounds.length > 0 ? plannedRounds : await this.createRounds(gameId);
       const firstRound = rounds[0];
 
       // Get questions for the first round
@@ -824,101 +1049,151 @@ class GameServiceImpl implements ExtendedGameService {
 
   async completeMultiUserGame(gameId: string): Promise<GameSummaryResponse> {
     try {
-      // Update game status to completed
-      const game = await this.updateGame(gameId, {
-        status: 'completed',
-        end_time: new Date().toISOString(),
-      });
+      // Ends the game, totals every team and round and records the results in
+      // the database, so this is one request however many teams and rounds
+      // there are. Ending it again returns the recorded results
+      const { data, error } = await supabase
+        .rpc('complete_multi_user_game', { p_game_id: gameId });
 
-      // Get teams with final scores
-      const teams = await this.getGameTeams(gameId);
+      if (error) {
+        throw error;
+      }
 
-      // Get all rounds for the game
-      const { data: rounds, error: roundsError } = await supabase
-        .from('rounds')
+      return data as GameSummaryResponse;
+    } catch (error) {
+      console.error('Error completing multi-user game:', error);
+      throw new Error(`Failed to complete game: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getMultiUserGameSummary(gameId: string): Promise<GameSummaryResponse | null> {
+    try {
+      const { data, error } = await supabase
+        .rpc('get_game_summary', { p_game_id: gameId });
+
+      if (error) {
+        throw error;
+      }
+
+      return (data as GameSummaryResponse | null) ?? null;
+    } catch (error) {
+      console.error('Error getting game summary:', error);
+      throw new Error(`Failed to get game summary: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Recorded when the game ended, so later edits and re-scoring don't change them
+  async getGameResults(gameId: string): Promise<GameResults | null> {
+    try {
+      const { data, error } = await supabase
+        .from('game_results')
         .select('*')
         .eq('game_id', gameId)
-        .order('round_number');
+        .maybeSingle();
 
-      if (roundsError) {
-        throw roundsError;
+      if (error) {
+        throw error;
       }
 
-      // Calculate team statistics and round summaries
-      const teamsWithStats = await Promise.all(teams.map(async (team) => {
-        const stats = await this.getTeamStats(team.id);
-        return {
-          ...team,
-          total_score: stats.total_points,
-          correct_answers: stats.correct_answers,
-          total_questions: stats.total_answers,
-          accuracy_percentage: stats.accuracy_percentage,
-        };
-      }));
+      return data;
+    } catch (error) {
+      console.error('Error getting game results:', error);
+      throw new Error(`Failed to get game results: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
-      const roundsWithScores = await Promise.all((rounds || []).map(async (round) => {
-        const teamAnswers = await this.getRoundAnswers(round.id);
+  // Draws an unused question for the teams tied for first, or for the teams
+  // still tied after the last tie-breaker
+  async startTieBreaker(gameId: string): Promise<TieBreaker> {
+    try {
+      const { data, error } = await supabase
+        .rpc('start_tie_breaker', { p_game_id: gameId });
 
-        const teamScores = teams.map(team => {
-          const teamRoundAnswers = teamAnswers.filter(answer => answer.team_id === team.id);
-          const roundScore = teamRoundAnswers.reduce((sum, answer) => sum + answer.points_earned, 0);
-          const correctAnswers = teamRoundAnswers.filter(answer => answer.is_correct).length;
+      if (error) {
+        throw error;
+      }
 
-          return {
-            team_id: team.id,
-            team_name: team.name,
-            round_score: roundScore,
-            correct_answers: correctAnswers,
-          };
-        });
+      return data as TieBreaker;
+    } catch (error) {
+      console.error('Error starting tie-breaker:', error);
+      throw new Error(`Failed to start tie-breaker: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
-        return {
-          ...round,
-          team_scores: teamScores,
-        };
-      }));
+  // The game's latest tie-breaker with its question and answers
+  async getTieBreaker(gameId: string): Promise<TieBreakerDetail | null> {
+    try {
+      const { data, error } = await supabase
+        .from('tie_breakers')
+        .select('*, questions(question, category), tie_breaker_answers(*)')
+        .eq('game_id', gameId)
+        .order('opened_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
 
-      // Calculate overall stats
-      const totalQuestions = game.total_rounds * game.questions_per_round * teams.length;
-      const totalCorrectAnswers = teamsWithStats.reduce((sum, team) => sum + team.correct_answers, 0);
-      const averageAccuracy = totalQuestions > 0 ? (totalCorrectAnswers / totalQuestions) * 100 : 0;
+      if (error) {
+        throw error;
+      }
 
-      const startTime = game.start_time ? new Date(game.start_time) : new Date();
-      const endTime = game.end_time ? new Date(game.end_time) : new Date();
-      const durationMs = endTime.getTime() - startTime.getTime();
+      if (!data) {
+        return null;
+      }
 
-      return {
-        game,
-        teams: teamsWithStats,
-        rounds: roundsWithScores,
-        overall_stats: {
-          total_questions: totalQuestions,
-          total_correct_answers: totalCorrectAnswers,
-          average_accuracy: averageAccuracy,
-          duration_ms: durationMs,
-        },
+      const { questions, tie_breaker_answers, ...tieBreaker } = data as unknown as TieBreaker & {
+        questions: TieBreakerDetail['question'];
+        tie_breaker_answers: TieBreakerAnswer[];
       };
+
+      return { ...tieBreaker, question: questions, answers: tie_breaker_answers ?? [] };
     } catch (error) {
-      console.error('Error completing multi-user game:', error);
-      throw new Error(`Failed to complete game: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('Error getting tie-breaker:', error);
+      throw new Error(`Failed to get tie-breaker: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  // Team Management (T013)
-  async createTeam(request: CreateTeamRequest): Promise<Team> {
+  // The player's team comes from who is signed in; only tied teams can answer
+  async submitTieBreakerAnswer(tieBreakerId: string, answer: string): Promise<TieBreakerAnswer> {
     try {
-      const teamData = {
-        game_id: request.game_id,
-        name: request.name,
-        display_color: request.display_color || '#FF0000',
-        current_score: 0,
-      };
+      const { data, error } = await supabase
+        .rpc('submit_tie_breaker_answer', { p_tie_breaker_id: tieBreakerId, p_answer: answer });
+
+      if (error) {
+        throw error;
+      }
 
+      return data as TieBreakerAnswer;
+    } catch (error) {
+      console.error('Error submitting tie-breaker answer:', error);
+      throw new Error(`Failed to submit tie-breaker answer: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Closes answering and ranks the answers; see rankTieBreakerAnswers
+  async resolveTieBreaker(tieBreakerId: string): Promise<TieBreaker> {
+    try {
       const { data, error } = await supabase
-        .from('teams')
-        .insert([teamData])
-        .select()
-        .single();
+        .rpc('resolve_tie_breaker', { p_tie_breaker_id: tieBreakerId });
+
+      if (error) {
+        throw error;
+      }
+
+      return data as TieBreaker;
+    } catch (error) {
+      console.error('Error resolving tie-breaker:', error);
+      throw new Error(`Failed to resolve tie-breaker: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Team Management (T013)
+  async createTeam(request: CreateTeamRequest): Promise<Team> {
+    try {
+      // The game's max_teams and the setup-only rule are enforced by database triggers
+      const { data, error } = await supabase.rpc('create_team', {
+        p_join_code: request.join_code.trim().toUpperCase(),
+        p_name: request.name,
+        p_display_color: request.display_color || '#FF0000',
+      });
 
       if (error) {
         throw error;
@@ -933,46 +1208,40 @@ class GameServiceImpl implements ExtendedGameService {
 
   async getGameTeams(gameId: string): Promise<TeamWithPlayers[]> {
     try {
-      const { data: teams, error: teamsError } = await supabase
+      // Players are embedded so every team loads in one request
+      const { data: teams, error } = await supabase
         .from('teams')
-        .select('*')
+        .select(`
+          *,
+          team_players(
+            joined_at,
+            user_profiles!inner(id, display_name, avatar_url)
+          )
+        `)
         .eq('game_id', gameId)
-        .order('created_at');
+        .order('created_at')
+        .order('joined_at', { referencedTable: 'team_players' });
 
-      if (teamsError) {
-        throw teamsError;
+      if (error) {
+        throw error;
       }
 
-      // Get team players with user profile details
-      const teamsWithPlayers = await Promise.all((teams || []).map(async (team) => {
-        const { data: teamPlayers, error: playersError } = await supabase
-          .from('team_players')
-          .select(`
-            id,
-            joined_at,
-            user_profiles!inner(id, display_name, avatar_url)
-          `)
-          .eq('team_id', team.id)
-          .order('joined_at');
-
-        if (playersError) {
-          throw playersError;
-        }
+      const rows = (teams || []) as unknown as Array<Team & {
+        team_players: {
+          joined_at: string;
+          user_profiles: { id: string; display_name: string; avatar_url?: string };
+        }[] | null;
+      }>;
 
-        const players = (teamPlayers || []).map(tp => ({
+      return rows.map(({ team_players: teamPlayers, ...team }) => ({
+        ...team,
+        players: (teamPlayers || []).map(tp => ({
           id: tp.user_profiles.id,
           display_name: tp.user_profiles.display_name,
           avatar_url: tp.user_profiles.avatar_url,
           joined_at: tp.joined_at,
-        }));
-
-        return {
-          ...team,
-          players,
-        };
+        })),
       }));
-
-      return teamsWithPlayers;
     } catch (error) {
       console.error('Error getting game teams:', error);
       throw new Error(`Failed to get game teams: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -981,34 +1250,13 @@ class GameServiceImpl implements ExtendedGameService {
 
   async joinTeam(request: JoinTeamRequest): Promise<TeamPlayer> {
     try {
-      // First check if player is already in a team for this game
-      const team = await this.getTeam(request.team_id);
-      if (!team) {
-        throw new Error('Team not found');
-      }
-
-      const existingTeam = await this.getPlayerTeam(team.game_id, request.player_id);
-      if (existingTeam) {
-        throw new Error('Player is already in a team for this game');
-      }
-
-      // Check team size limit
-      const gameTeams = await this.getGameTeams(team.game_id);
-      const targetTeam = gameTeams.find(t => t.id === request.team_id);
-      if (targetTeam && targetTeam.players.length >= 4) {
-        throw new Error('Team is full (maximum 4 players per team)');
-      }
-
-      const teamPlayerData = {
-        team_id: request.team_id,
-        player_id: request.player_id,
-      };
-
-      const { data, error } = await supabase
-        .from('team_players')
-        .insert([teamPlayerData])
-        .select()
-        .single();
+      // Joins the caller. Being on one team per game, the game's
+      // max_players_per_team and the setup-only roster rule are all checked
+      // in the database
+      const { data, error } = await supabase.rpc('join_team', {
+        p_join_code: request.join_code.trim().toUpperCase(),
+        p_team_id: request.team_id,
+      });
 
       if (error) {
         throw error;
@@ -1063,97 +1311,83 @@ class GameServiceImpl implements ExtendedGameService {
     }
   }
 
-  // Helper method for team operations
-  private async getTeam(teamId: string): Promise<Team | null> {
+  async createGuestUpgradeCode(gameId: string, playerId: string): Promise<string> {
     try {
       const { data, error } = await supabase
-        .from('teams')
-        .select('*')
-        .eq('id', teamId)
-        .single();
+        .rpc('create_guest_upgrade_code', {
+          p_game_id: gameId,
+          p_player_id: playerId,
+        });
 
       if (error) {
-        if (error.code === 'PGRST116') {
-          return null;
-        }
         throw error;
       }
 
-      return data;
+      return data as string;
     } catch (error) {
-      console.error('Error getting team:', error);
-      return null;
+      console.error('Error creating guest upgrade code:', error);
+      throw new Error(`Failed to create upgrade code: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   // Round Management (T015)
-  async createRounds(gameId: string): Promise<Round[]> {
+  async createRounds(gameId: string, themes?: RoundTheme[]): Promise<Round[]> {
     try {
-      const game = await this.getGame(gameId);
-      if (!game) {
-        throw new Error('Game not found');
-      }
-
-      // Create rounds for the game
-      const roundsData = [];
-      for (let i = 1; i <= game.total_rounds; i++) {
-        roundsData.push({
-          game_id: gameId,
-          round_number: i,
-          status: 'pending' as const,
-        });
-      }
-
-      const { data: rounds, error: roundsError } = await supabase
-        .from('rounds')
-        .insert(roundsData)
-        .select();
+      // Questions are picked in the database, which follows the game's
+      // difficulty curve and each round's theme, evens out categories and
+      // marks them used by the host
+      const { error } = await supabase
+        .rpc('plan_game_rounds', { p_game_id: gameId, p_round_themes: themes });
 
-      if (roundsError) {
-        throw roundsError;
+      if (error) {
+        throw error;
       }
 
-      // Get available questions for the host
-      const totalQuestionsNeeded = game.total_rounds * game.questions_per_round;
-      const availableQuestions = await this.getAvailableQuestionsForHost(
-        game.host_id,
-        game.selected_categories,
-        totalQuestionsNeeded
-      );
+      return await this.getGameRounds(gameId);
+    } catch (error) {
+      console.error('Error creating rounds:', error);
+      throw new Error(`Failed to create rounds: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
-      if (availableQuestions.length < totalQuestionsNeeded) {
-        throw new Error(`Not enough available questions. Need ${totalQuestionsNeeded}, found ${availableQuestions.length}`);
-      }
+  async reshuffleRoundQuestion(roundQuestionId: string): Promise<string> {
+    try {
+      const { data, error } = await supabase
+        .rpc('reshuffle_round_question', { p_round_question_id: roundQuestionId });
 
-      // Assign questions to rounds
-      let questionIndex = 0;
-      for (const round of rounds || []) {
-        const roundQuestionIds = [];
-        for (let q = 0; q < game.questions_per_round; q++) {
-          roundQuestionIds.push(availableQuestions[questionIndex].id);
-          questionIndex++;
-        }
-        await this.assignQuestionsToRound(round.id, roundQuestionIds);
+      if (error) {
+        throw error;
       }
 
-      // Mark all questions as used by the host
-      const allQuestionIds = availableQuestions.slice(0, totalQuestionsNeeded).map(q => q.id);
-      await this.markQuestionsUsed(game.host_id, allQuestionIds);
-
-      return rounds || [];
+      return data as string;
     } catch (error) {
-      console.error('Error creating rounds:', error);
-      throw new Error(`Failed to create rounds: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('Error reshuffling round question:', error);
+      throw new Error(`Failed to reshuffle question: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   async startRound(roundId: string): Promise<Round> {
     try {
+      // Point the round at its first question; answering opens separately
+      const { data: firstQuestion, error: questionError } = await supabase
+        .from('round_questions')
+        .select('id')
+        .eq('round_id', roundId)
+        .order('question_order')
+        .limit(1)
+        .maybeSingle();
+
+      if (questionError) {
+        throw questionError;
+      }
+
       const { data, error } = await supabase
         .from('rounds')
         .update({
           status: 'in_progress',
           start_time: new Date().toISOString(),
+          current_round_question_id: firstQuestion?.id ?? null,
+          question_state: 'pending',
         })
         .eq('id', roundId)
         .select()
@@ -1202,14 +1436,16 @@ class GameServiceImpl implements ExtendedGameService {
           round_id,
           question_id,
           question_order,
+          question_type,
+          presented_answers,
+          opened_at,
+          closed_at,
+          revealed_at,
           created_at,
           questions!inner(
             category,
             question,
-            a,
-            b,
-            c,
-            d
+            difficulty
           )
         `)
         .eq('round_id', roundId)
@@ -1224,14 +1460,12 @@ class GameServiceImpl implements ExtendedGameService {
         round_id: rq.round_id,
         question_id: rq.question_id,
         question_order: rq.question_order,
-        question: {
-          category: rq.questions.category,
-          question: rq.questions.question,
-          a: rq.questions.a,
-          b: rq.questions.b,
-          c: rq.questions.c,
-          d: rq.questions.d,
-        },
+        question: rq.questions as unknown as RoundQuestionDetail['question'],
+        question_type: rq.question_type,
+        presented_answers: rq.presented_answers,
+        opened_at: rq.opened_at,
+        closed_at: rq.closed_at,
+        revealed_at: rq.revealed_at,
         created_at: rq.created_at,
       }));
 
@@ -1265,6 +1499,79 @@ class GameServiceImpl implements ExtendedGameService {
     }
   }
 
+  async getGameRounds(gameId: string): Promise<Round[]> {
+    try {
+      const { data, error } = await supabase
+        .from('rounds')
+        .select('*')
+        .eq('game_id', gameId)
+        .order('round_number');
+
+      if (error) {
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error getting game rounds:', error);
+      throw new Error(`Failed to get game rounds: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Live Question Control
+  async setCurrentQuestion(roundId: string, roundQuestionId: string): Promise<Round> {
+    try {
+      const { data, error } = await supabase
+        .from('rounds')
+        // The rounds trigger restores where this question got to
+        .update({ current_round_question_id: roundQuestionId })
+        .eq('id', roundId)
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error setting current question:', error);
+      throw new Error(`Failed to set current question: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async setQuestionState(roundId: string, state: QuestionState): Promise<Round> {
+    try {
+      const from = previousQuestionState(state);
+      if (!from) {
+        throw new Error(`Question cannot move to ${state}`);
+      }
+
+      // Only move on from the expected state; the rounds trigger enforces the
+      // same order for anyone updating the row directly
+      const { data, error } = await supabase
+        .from('rounds')
+        .update({ question_state: state })
+        .eq('id', roundId)
+        .eq('question_state', from)
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        throw error;
+      }
+
+      if (!data) {
+        throw new Error(`Question can only move to ${state} once it is ${from}`);
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error setting question state:', error);
+      throw new Error(`Failed to set question state: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   async assignQuestionsToRound(roundId: string, questionIds: string[]): Promise<void> {
     try {
       const roundQuestionsData = questionIds.map((questionId, index) => ({
@@ -1289,47 +1596,27 @@ class GameServiceImpl implements ExtendedGameService {
   // Team Answer Management (T016)
   async submitTeamAnswer(request: SubmitTeamAnswerRequest): Promise<TeamAnswer> {
     try {
-      // Get the round question to determine correct answer
-      const { data: roundQuestion, error: roundQuestionError } = await supabase
-        .from('round_questions')
-        .select(`
-          id,
-          questions!inner(a)
-        `)
-        .eq('id', request.round_question_id)
-        .single();
-
-      if (roundQuestionError) {
-        throw roundQuestionError;
-      }
-
-      // Determine if answer is correct and calculate points
-      const correctAnswer = roundQuestion.questions.a; // 'a' is always the correct answer
-      const isCorrect = request.answer === correctAnswer;
-      const pointsEarned = isCorrect ? 10 : 0; // Standard scoring
-
+      // Correctness and points are applied by the database from the game's
+      // scoring rules, and the team's score is updated by trigger
       const answerData = {
         team_id: request.team_id,
         round_question_id: request.round_question_id,
         submitted_by: request.submitted_by,
         answer: request.answer,
-        is_correct: isCorrect,
-        points_earned: pointsEarned,
+        wager: request.wager,
       };
 
+      // Grading isn't readable until the question is revealed (migration 050)
       const { data, error } = await supabase
         .from('team_answers')
         .insert([answerData])
-        .select()
+        .select('id, team_id, round_question_id, submitted_by, answer, wager, response_time_ms, submitted_at')
         .single();
 
       if (error) {
         throw error;
       }
 
-      // Update team's current score
-      await this.updateTeamScore(request.team_id, pointsEarned);
-
       return data;
     } catch (error) {
       console.error('Error submitting team answer:', error);
@@ -1339,32 +1626,17 @@ class GameServiceImpl implements ExtendedGameService {
 
   async getTeamAnswers(teamId: string, roundId?: string): Promise<TeamAnswer[]> {
     try {
-      let query = supabase
-        .from('team_answers')
-        .select('*')
-        .eq('team_id', teamId)
-        .order('submitted_at');
-
-      if (roundId) {
-        // Join with round_questions to filter by round
-        query = supabase
-          .from('team_answers')
-          .select(`
-            *,
-            round_questions!inner(round_id)
-          `)
-          .eq('team_id', teamId)
-          .eq('round_questions.round_id', roundId)
-          .order('submitted_at');
-      }
-
-      const { data, error } = await query;
+      // Players only get grading for revealed questions, so answers come through an RPC
+      const { data, error } = await supabase.rpc('get_team_answers', {
+        p_team_id: teamId,
+        p_round_id: roundId ?? null,
+      });
 
       if (error) {
         throw error;
       }
 
-      return data || [];
+      return (data || []) as TeamAnswer[];
     } catch (error) {
       console.error('Error getting team answers:', error);
       throw new Error(`Failed to get team answers: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -1373,61 +1645,36 @@ class GameServiceImpl implements ExtendedGameService {
 
   async getRoundAnswers(roundId: string): Promise<TeamAnswer[]> {
     try {
-      const { data, error } = await supabase
-        .from('team_answers')
-        .select(`
-          *,
-          round_questions!inner(round_id)
-        `)
-        .eq('round_questions.round_id', roundId)
-        .order('submitted_at');
+      const { data, error } = await supabase.rpc('get_team_answers', { p_round_id: roundId });
 
       if (error) {
         throw error;
       }
 
-      return data || [];
+      return (data || []) as TeamAnswer[];
     } catch (error) {
       console.error('Error getting round answers:', error);
       throw new Error(`Failed to get round answers: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  // Helper method to update team score
-  private async updateTeamScore(teamId: string, additionalPoints: number): Promise<void> {
+  async overrideTeamAnswer(teamAnswerId: string, isCorrect: boolean): Promise<TeamAnswer> {
     try {
-      const { error } = await supabase
-        .rpc('increment_team_score', {
-          team_id: teamId,
-          points: additionalPoints
+      // Points are recomputed and the team's score corrected by the database
+      const { data, error } = await supabase
+        .rpc('override_team_answer', {
+          p_team_answer_id: teamAnswerId,
+          p_is_correct: isCorrect,
         });
 
       if (error) {
-        // Fallback to manual update if RPC function doesn't exist
-        const { data: team, error: teamError } = await supabase
-          .from('teams')
-          .select('current_score')
-          .eq('id', teamId)
-          .single();
-
-        if (teamError) {
-          throw teamError;
-        }
-
-        const newScore = (team?.current_score || 0) + additionalPoints;
-
-        const { error: updateError } = await supabase
-          .from('teams')
-          .update({ current_score: newScore })
-          .eq('id', teamId);
-
-        if (updateError) {
-          throw updateError;
-        }
+        throw error;
       }
+
+      return data as TeamAnswer;
     } catch (error) {
-      console.error('Error updating team score:', error);
-      // Don't throw here to avoid blocking answer submission
+      console.error('Error overriding team answer:', error);
+      throw new Error(`Failed to override answer: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
@@ -1455,7 +1702,13 @@ class GameServiceImpl implements ExtendedGameService {
         b: row.b,
         c: row.c,
         d: row.d,
+        question_type: 'multiple_choice',
         metadata: {},
+        status: 'approved',
+        difficulty: null,
+        correct_rate: null,
+        average_time_ms: null,
+        answer_count: 0,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       }));
@@ -1503,24 +1756,252 @@ class GameServiceImpl implements ExtendedGameService {
     }
   }
 
-  async assignQuestionsToRound(roundId: string, questionIds: string[]): Promise<void> {
-    throw new Error('Not implemented yet - will be implemented in T015');
+  // Real-time subscriptions
+  subscribeToGameEvents(gameId: string, callback: GameEventCallback): () => void {
+    let active = true;
+
+    // With RLS, Realtime only sends the primary key in old rows, so changes are
+    // compared against the last game and round rows seen instead
+    let gameStatus: GameStatus | undefined;
+    const rounds = new Map<string, Pick<Round, 'status' | 'current_round_question_id' | 'question_state'>>();
+
+    // team_players, team_answers and tie_breaker_answers carry no game_id, so
+    // they are filtered server-side by the ids of the game's teams and
+    // resubscribed whenever a team is created or removed
+    const teamIds = new Set<string>();
+    let unsubscribeTeamFeeds = () => {};
+
+    const subscribeTeamFeeds = () => {
+      const previous = unsubscribeTeamFeeds;
+      unsubscribeTeamFeeds = () => {};
+
+      if (teamIds.size > 0) {
+        const filter = `team_id=in.(${[...teamIds].join(',')})`;
+        unsubscribeTeamFeeds = this.realtime.subscribe(
+          `game:${gameId}:teams`,
+          [
+            { table: 'team_players', filter },
+            { table: 'team_answers', filter },
+            { table: 'tie_breaker_answers', filter },
+          ],
+          handleChange
+        );
+      }
+
+      // Drop the old channel only once the new one is listening
+      previous();
+    };
+
+    const handleChange = (change: RealtimeChange) => {
+      if (!active) return;
+
+      switch (change.table) {
+        case 'games': {
+          const game = change.new as Game | null;
+          if (!game || gameStatus === game.status) return;
+          gameStatus = game.status;
+          if (game.status === 'in_progress') {
+            callback({ type: 'game_started', game });
+          } else if (game.status === 'completed') {
+            callback({ type: 'game_completed', game });
+          }
+          return;
+        }
+        case 'rounds': {
+          const round = change.new as Round | null;
+          if (!round) return;
+          const previous = rounds.get(round.id);
+          rounds.set(round.id, round);
+          if (previous?.status === round.status) {
+            // Host moved to another question or opened, closed or revealed it
+            if (
+              previous.current_round_question_id !== round.current_round_question_id ||
+              previous.question_state !== round.question_state
+            ) {
+              callback({ type: 'question_updated', round });
+            }
+            return;
+          }
+          if (round.status === 'in_progress') {
+            callback({ type: 'round_started', round });
+          } else if (round.status === 'completed') {
+            callback({ type: 'round_completed', round });
+          }
+          return;
+        }
+        case 'teams': {
+          if (change.eventType === 'INSERT' && change.new) {
+            const team = change.new as Team;
+            teamIds.add(team.id);
+            subscribeTeamFeeds();
+            callback({ type: 'team_created', team });
+          } else if (change.eventType === 'UPDATE' && change.new) {
+            callback({ type: 'team_updated', team: change.new as Team });
+          } else if (change.eventType === 'DELETE') {
+            // Deletes aren't filtered, so they arrive for every game's teams
+            const teamId = (change.old as Partial<Team> | null)?.id;
+            if (teamId && teamIds.delete(teamId)) {
+              subscribeTeamFeeds();
+            }
+          }
+          return;
+        }
+        case 'team_players': {
+          // Deletes only carry the membership id, so players leaving are
+          // picked up on the next reload rather than as an event
+          const teamPlayer = change.new as TeamPlayer | null;
+          if (change.eventType !== 'INSERT' || !teamPlayer) return;
+          callback({ type: 'player_joined', teamPlayer });
+          return;
+        }
+        case 'team_answers': {
+          const teamAnswer = change.new as TeamAnswer | null;
+          if (!teamAnswer) return;
+          if (change.eventType === 'INSERT') {
+            callback({ type: 'answer_submitted', teamAnswer });
+          } else if (change.eventType === 'UPDATE') {
+            callback({ type: 'answer_updated', teamAnswer });
+          }
+          return;
+        }
+        case 'tie_breakers': {
+          const tieBreaker = change.new as TieBreaker | null;
+          if (change.eventType === 'DELETE' || !tieBreaker) return;
+          callback({ type: 'tie_breaker_updated', tieBreaker });
+          return;
+        }
+        case 'tie_breaker_answers': {
+          const answer = change.new as TieBreakerAnswer | null;
+          if (change.eventType !== 'INSERT' || !answer) return;
+          callback({ type: 'tie_breaker_answer_submitted', answer });
+          return;
+        }
+      }
+    };
+
+    const unsubscribe = this.realtime.subscribe(
+      `game:${gameId}`,
+      [
+        { table: 'games', filter: `id=eq.${gameId}` },
+        { table: 'rounds', filter: `game_id=eq.${gameId}` },
+        { table: 'teams', filter: `game_id=eq.${gameId}` },
+        { table: 'tie_breakers', filter: `game_id=eq.${gameId}` },
+      ],
+      handleChange
+    );
+
+    supabase
+      .from('games')
+      .select('status, rounds(id, status, current_round_question_id, question_state), teams(id)')
+      .eq('id', gameId)
+      .single()
+      .then(({ data, error }) => {
+        if (!active) return;
+        if (error) {
+          console.error('Error loading game for game subscription:', error);
+          return;
+        }
+        const loaded = data as unknown as {
+          status: GameStatus;
+          rounds: Array<Pick<Round, 'id' | 'status' | 'current_round_question_id' | 'question_state'>>;
+          teams: { id: string }[];
+        };
+
+        // Changes delivered while loading are newer than what was loaded
+        gameStatus ??= loaded.status;
+        loaded.rounds.forEach(round => {
+          if (!rounds.has(round.id)) {
+            rounds.set(round.id, round);
+          }
+        });
+
+        loaded.teams.forEach(team => teamIds.add(team.id));
+        subscribeTeamFeeds();
+
+        // Player and answer changes made before the team feeds were
+        // listening were never delivered, so listeners reload once
+        if (teamIds.size > 0) {
+          callback({ type: 'resync' });
+        }
+      });
+
+    return () => {
+      active = false;
+      unsubscribe();
+      unsubscribeTeamFeeds();
+    };
   }
 
   subscribeToGameUpdates(gameId: string, callback: (update: GameStateUpdate) => void): () => void {
-    throw new Error('Not implemented yet - real-time subscriptions to be added later');
+    let active = true;
+
+    const unsubscribe = this.subscribeToGameEvents(gameId, async () => {
+      try {
+        const update = await this.getGameState(gameId);
+        if (active) {
+          callback(update);
+        }
+      } catch (error) {
+        console.error('Error refreshing game state:', error);
+      }
+    });
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
   }
 
   subscribeToTeamAnswers(teamId: string, callback: (answer: TeamAnswer) => void): () => void {
-    throw new Error('Not implemented yet - real-time subscriptions to be added later');
+    return this.realtime.subscribe(
+      `team-answers:${teamId}`,
+      [{ table: 'team_answers', filter: `team_id=eq.${teamId}` }],
+      (change) => {
+        if (change.eventType === 'INSERT' && change.new) {
+          callback(change.new as TeamAnswer);
+        }
+      }
+    );
   }
 
   subscribeToRoundUpdates(roundId: string, callback: (round: Round) => void): () => void {
-    throw new Error('Not implemented yet - real-time subscriptions to be added later');
+    return this.realtime.subscribe(
+      `round:${roundId}`,
+      [{ table: 'rounds', filter: `id=eq.${roundId}` }],
+      (change) => {
+        if (change.eventType !== 'DELETE' && change.new) {
+          callback(change.new as Round);
+        }
+      }
+    );
   }
 
+  // Game state, including the live question and the answers locked in for it.
+  // Assembled by a single RPC so reconnecting clients restore in one round trip.
   async getGameState(gameId: string): Promise<GameStateUpdate> {
-    throw new Error('Not implemented yet - game state management to be added later');
+    try {
+      const { data, error } = await supabase
+        .rpc('get_game_state', { p_game_id: gameId });
+
+      if (error) {
+        throw error;
+      }
+
+      if (!data) {
+        throw new Error('Game not found');
+      }
+
+      return {
+        game: data.game,
+        current_round: data.current_round ?? undefined,
+        teams: data.teams ?? [],
+        current_question: data.current_question ?? undefined,
+        team_answers: data.team_answers ?? [],
+      };
+    } catch (error) {
+      console.error('Error getting game state:', error);
+      throw new Error(`Failed to get game state: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   }
 
   async updateGameStatus(gameId: string, status: GameStatus): Promise<Game> {
@@ -1535,23 +2016,21 @@ class GameServiceImpl implements ExtendedGameService {
     average_response_time: number;
   }> {
     try {
-      const { data: answers, error } = await supabase
-        .from('team_answers')
-        .select('is_correct, points_earned, submitted_at')
-        .eq('team_id', teamId);
+      const { data, error } = await supabase.rpc('get_team_answers', { p_team_id: teamId });
 
       if (error) {
         throw error;
       }
 
-      const totalAnswers = answers?.length || 0;
-      const correctAnswers = answers?.filter(a => a.is_correct).length || 0;
-      const totalPoints = answers?.reduce((sum, a) => sum + a.points_earned, 0) || 0;
+      // Answers to questions not revealed yet come back ungraded and aren't counted
+      const answers = ((data || []) as TeamAnswer[]).filter(a => a.is_correct !== undefined);
+      const totalAnswers = answers.length;
+      const correctAnswers = answers.filter(a => a.is_correct).length;
+      const totalPoints = answers.reduce((sum, a) => sum + (a.points_earned ?? 0), 0);
       const accuracyPercentage = totalAnswers > 0 ? (correctAnswers / totalAnswers) * 100 : 0;
 
-      // For average response time, we'd need to calculate time between question start and answer submission
-      // This is a simplified placeholder - in a real implementation, we'd track question presentation times
-      const averageResponseTime = 0; // TODO: Implement proper response time calculation
+      // Measured from when answering opened; answers from before times were kept don't count
+      const averageResponseTime = analyzeResponseTimes(answers) ?? 0;
 
       return {
         total_answers: totalAnswers,
@@ -1566,19 +2045,71 @@ class GameServiceImpl implements ExtendedGameService {
     }
   }
 
-  async getGameAnalytics(gameId: string): Promise<{
-    total_questions: number;
-    total_teams: number;
-    total_players: number;
-    average_score: number;
-    completion_rate: number;
-    question_difficulty_stats: Record<string, {
-      category: string;
-      correct_percentage: number;
-      average_time: number;
-    }>;
-  }> {
-    throw new Error('Not implemented yet - analytics to be added later');
+  async getGameAnalytics(gameId: string): Promise<GameAnalytics> {
+    try {
+      const [questionsResult, teamsResult, answersResult] = await Promise.all([
+        // Answers aren't readable from round_questions, so the host reads them through an RPC
+        supabase.rpc('get_game_round_questions', { p_game_id: gameId }),
+        supabase
+          .from('teams')
+          .select('id, current_score, team_players(id)')
+          .eq('game_id', gameId),
+        // Grading isn't readable from team_answers, so answers come through an RPC too
+        supabase.rpc('get_team_answers', { p_game_id: gameId }),
+      ]);
+
+      if (questionsResult.error) {
+        throw questionsResult.error;
+      }
+      if (teamsResult.error) {
+        throw teamsResult.error;
+      }
+      if (answersResult.error) {
+        throw answersResult.error;
+      }
+
+      const roundQuestions = (questionsResult.data || []) as unknown as Array<AnalyzedRoundQuestion & {
+        questions: Pick<Question, 'average_time_ms'>;
+      }>;
+      const teams = (teamsResult.data || []) as unknown as Array<{
+        id: string;
+        current_score: number;
+        team_players: { id: string }[];
+      }>;
+      const answers = (answersResult.data || []) as unknown as AnalyzedAnswer[];
+
+      const questions = analyzeQuestions(roundQuestions, answers);
+
+      const questionDifficultyStats: GameAnalytics['question_difficulty_stats'] = {};
+      roundQuestions.forEach(roundQuestion => {
+        const analytics = questions.find(question => question.round_question_id === roundQuestion.id);
+        questionDifficultyStats[roundQuestion.question_id] = {
+          category: roundQuestion.questions.category,
+          correct_percentage: analytics?.correct_percentage ?? 0,
+          average_time: roundQuestion.questions.average_time_ms ?? 0,
+          difficulty: roundQuestion.questions.difficulty,
+        };
+      });
+
+      const totalTeams = teams.length;
+      const totalScore = teams.reduce((sum, team) => sum + team.current_score, 0);
+      const possibleAnswers = roundQuestions.length * totalTeams;
+
+      return {
+        total_questions: roundQuestions.length,
+        total_teams: totalTeams,
+        total_players: teams.reduce((sum, team) => sum + team.team_players.length, 0),
+        average_score: totalTeams > 0 ? totalScore / totalTeams : 0,
+        completion_rate: possibleAnswers > 0 ? (answers.length / possibleAnswers) * 100 : 0,
+        average_response_time: analyzeResponseTimes(answers),
+        questions,
+        categories: analyzeCategories(questions, answers),
+        question_difficulty_stats: questionDifficultyStats,
+      };
+    } catch (error) {
+      console.error('Error getting game analytics:', error);
+      throw new Error(`Failed to get game analytics: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   }
 }
 
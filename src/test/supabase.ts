@@ -0,0 +1,57 @@
+// Shared Supabase client mock for service tests. Register it in a test file with
+//   vi.mock('../../lib/supabase', () => import('../../test/supabase'));
+// and drive it through the exported `rpc` and `from` mocks.
+
+import { vi } from 'vitest';
+import type { Mock } from 'vitest';
+
+export interface QueryResult {
+  data: unknown;
+  error: unknown;
+}
+
+export const rpc = vi.fn();
+export const from = vi.fn();
+export const supabase = { rpc, from };
+
+const CHAIN_METHODS = [
+  'select',
+  'insert',
+  'update',
+  'upsert',
+  'delete',
+  'eq',
+  'neq',
+  'in',
+  'is',
+  'gte',
+  'lte',
+  'order',
+  'limit',
+  'range',
+] as const;
+
+export type MockQuery = { [method in (typeof CHAIN_METHODS)[number]]: Mock<(...args: unknown[]) => MockQuery> } & {
+  single: Mock<() => Promise<QueryResult>>;
+  maybeSingle: Mock<() => Promise<QueryResult>>;
+} & PromiseLike<QueryResult>;
+
+// Chainable query that resolves to the given result whether awaited directly
+// or through single()/maybeSingle(). Every call is a mock, so tests can assert
+// on what was filtered, inserted or updated.
+export function queryReturning(result: QueryResult): MockQuery {
+  const query = {} as MockQuery;
+  CHAIN_METHODS.forEach(method => {
+    query[method] = vi.fn(() => query);
+  });
+  query.single = vi.fn(() => Promise.resolve(result));
+  query.maybeSingle = vi.fn(() => Promise.resolve(result));
+  query.then = (onFulfilled, onRejected) => Promise.resolve(result).then(onFulfilled, onRejected);
+  return query;
+}
+
+// Route from(table) to a query resolving to that table's result. The map is
+// read on every call, so tests may change it after registering.
+export function mockTables(results: Record<string, QueryResult>): void {
+  from.mockImplementation((table: string) => queryReturning(results[table] ?? { data: [], error: null }));
+}
@@ -0,0 +1,17 @@
+-- Migration: Publish multi-user game tables to Supabase Realtime
+-- Purpose: Stream Postgres changes for live games to hosts, TV displays and players
+
+-- Add multi-user tables to the realtime publication
+ALTER PUBLICATION supabase_realtime ADD TABLE games;
+ALTER PUBLICATION supabase_realtime ADD TABLE rounds;
+ALTER PUBLICATION supabase_realtime ADD TABLE teams;
+ALTER PUBLICATION supabase_realtime ADD TABLE team_players;
+ALTER PUBLICATION supabase_realtime ADD TABLE team_answers;
+
+-- Include full old rows in UPDATE and DELETE payloads. With RLS on, Realtime
+-- still only sends the primary key in old rows, so this doesn't let
+-- subscribers see what changed; migration 051 puts the default back
+ALTER TABLE games REPLICA IDENTITY FULL;
+ALTER TABLE rounds REPLICA IDENTITY FULL;
+ALTER TABLE teams REPLICA IDENTITY FULL;
+ALTER TABLE team_players REPLICA IDENTITY FULL;
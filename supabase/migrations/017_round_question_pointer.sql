@@ -0,0 +1,34 @@
+-- Migration: Track the live question within each round
+-- Purpose: Let the host step through questions and open, close and reveal answering
+
+-- Create enum for the state of the round's current question
+CREATE TYPE question_state AS ENUM ('pending', 'open', 'closed', 'revealed');
+
+-- Add current question pointer and state to rounds
+ALTER TABLE rounds
+ADD COLUMN current_round_question_id UUID REFERENCES round_questions(id) ON DELETE SET NULL,
+ADD COLUMN question_state question_state DEFAULT 'pending' NOT NULL;
+
+-- Create index for pointer lookups
+CREATE INDEX idx_rounds_current_round_question_id ON rounds(current_round_question_id);
+
+-- Function to validate the current question belongs to the round
+CREATE OR REPLACE FUNCTION validate_current_round_question()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.current_round_question_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM round_questions
+    WHERE id = NEW.current_round_question_id AND round_id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Current question must belong to the round';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create trigger to validate the current question pointer
+CREATE TRIGGER validate_current_round_question_trigger
+  BEFORE UPDATE OF current_round_question_id ON rounds
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_current_round_question();
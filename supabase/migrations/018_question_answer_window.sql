@@ -0,0 +1,74 @@
+-- Migration: Answer window for the current round question
+-- Purpose: Only accept team answers for the live question while answering is open
+
+-- Add answer window timestamps to rounds
+ALTER TABLE rounds
+ADD COLUMN question_opened_at TIMESTAMPTZ,
+ADD COLUMN question_closed_at TIMESTAMPTZ;
+
+-- Function to stamp the answer window as the host moves through questions
+CREATE OR REPLACE FUNCTION track_question_answer_window()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- A new question always starts with answering not yet open
+  IF NEW.current_round_question_id IS DISTINCT FROM OLD.current_round_question_id THEN
+    NEW.question_state = 'pending';
+    NEW.question_opened_at = NULL;
+    NEW.question_closed_at = NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.question_state IS DISTINCT FROM OLD.question_state THEN
+    IF NEW.current_round_question_id IS NULL AND NEW.question_state <> 'pending' THEN
+      RAISE EXCEPTION 'Round has no current question';
+    END IF;
+
+    IF NEW.question_state = 'open' THEN
+      NEW.question_opened_at = now();
+      NEW.question_closed_at = NULL;
+    ELSIF NEW.question_state = 'closed' AND OLD.question_state = 'open' THEN
+      NEW.question_closed_at = now();
+    ELSIF NEW.question_state = 'revealed' AND OLD.question_state = 'open' THEN
+      NEW.question_closed_at = now();
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create trigger to track the answer window
+CREATE TRIGGER track_question_answer_window_trigger
+  BEFORE UPDATE OF current_round_question_id, question_state ON rounds
+  FOR EACH ROW
+  EXECUTE FUNCTION track_question_answer_window();
+
+-- Replace round validation so answers are only accepted for the live question
+CREATE OR REPLACE FUNCTION validate_round_in_progress()
+RETURNS TRIGGER AS $$
+DECLARE
+  answer_round rounds%ROWTYPE;
+BEGIN
+  SELECT r.* INTO answer_round
+  FROM rounds r
+  JOIN round_questions rq ON rq.round_id = r.id
+  WHERE rq.id = NEW.round_question_id;
+
+  -- Check if the round is in progress
+  IF answer_round.id IS NULL OR answer_round.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Can only submit answers when round is in progress';
+  END IF;
+
+  -- Check the answer is for the question currently shown to teams
+  IF answer_round.current_round_question_id IS DISTINCT FROM NEW.round_question_id THEN
+    RAISE EXCEPTION 'Can only submit answers for the current question';
+  END IF;
+
+  -- Check answering is open for the question
+  IF answer_round.question_state <> 'open' THEN
+    RAISE EXCEPTION 'Answering is closed for this question';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
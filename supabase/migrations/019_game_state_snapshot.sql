@@ -0,0 +1,100 @@
+-- Migration: Game state snapshot RPC
+-- Purpose: Restore a live game view (late joiners, reconnects, refreshed TVs) in a single round trip
+
+-- Function to assemble the full state of a multi-user game as JSON
+-- Returns NULL when the game does not exist or the caller is neither its host nor a player in it
+CREATE OR REPLACE FUNCTION get_game_state(p_game_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_game games%ROWTYPE;
+  v_round rounds%ROWTYPE;
+  v_is_host BOOLEAN;
+  v_player_team_id UUID;
+  v_teams JSONB;
+  v_question JSONB;
+  v_answers JSONB;
+BEGIN
+  SELECT * INTO v_game FROM games WHERE id = p_game_id;
+
+  IF v_game.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_is_host := v_game.host_id = auth.uid();
+
+  SELECT t.id INTO v_player_team_id
+  FROM teams t
+  JOIN team_players tp ON tp.team_id = t.id
+  WHERE t.game_id = p_game_id AND tp.player_id = auth.uid();
+
+  -- Same visibility as the games RLS policies
+  IF NOT v_is_host AND v_player_team_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_round
+  FROM rounds
+  WHERE game_id = p_game_id AND status = 'in_progress'
+  ORDER BY round_number
+  LIMIT 1;
+
+  -- Teams with their players, in join order
+  SELECT COALESCE(jsonb_agg(
+    to_jsonb(t) || jsonb_build_object('players', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', up.id,
+        'display_name', up.display_name,
+        'avatar_url', up.avatar_url,
+        'joined_at', tp.joined_at
+      ) ORDER BY tp.joined_at)
+      FROM team_players tp
+      JOIN user_profiles up ON up.id = tp.player_id
+      WHERE tp.team_id = t.id
+    ), '[]'::jsonb))
+    ORDER BY t.created_at
+  ), '[]'::jsonb)
+  INTO v_teams
+  FROM teams t
+  WHERE t.game_id = p_game_id;
+
+  IF v_round.current_round_question_id IS NOT NULL THEN
+    SELECT jsonb_build_object(
+      'id', rq.id,
+      'round_id', rq.round_id,
+      'question_id', rq.question_id,
+      'question_order', rq.question_order,
+      'question', jsonb_build_object(
+        'category', q.category,
+        'question', q.question,
+        'a', q.a,
+        'b', q.b,
+        'c', q.c,
+        'd', q.d
+      ),
+      'created_at', rq.created_at
+    )
+    INTO v_question
+    FROM round_questions rq
+    JOIN questions q ON q.id = rq.question_id
+    WHERE rq.id = v_round.current_round_question_id;
+
+    -- Players only see their own team's answer, matching team_answers RLS
+    SELECT COALESCE(jsonb_agg(to_jsonb(ta) ORDER BY ta.submitted_at), '[]'::jsonb)
+    INTO v_answers
+    FROM team_answers ta
+    WHERE ta.round_question_id = v_round.current_round_question_id
+      AND (v_is_host OR ta.team_id = v_player_team_id);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'game', to_jsonb(v_game),
+    'current_round', CASE WHEN v_round.id IS NULL THEN NULL ELSE to_jsonb(v_round) END,
+    'teams', v_teams,
+    'current_question', v_question,
+    'team_answers', COALESCE(v_answers, '[]'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Grant execute permission to authenticated users
+GRANT EXECUTE ON FUNCTION get_game_state(UUID) TO authenticated;
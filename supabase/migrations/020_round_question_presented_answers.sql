@@ -0,0 +1,173 @@
+-- Migration: Shuffled answer presentation for round questions
+-- Purpose: Store the A-D order shown to teams with its correct letter and score team answers against it
+
+-- Add presented answer order and correct letter to round_questions
+ALTER TABLE round_questions
+ADD COLUMN presented_answers JSONB,
+ADD COLUMN correct_answer CHAR(1);
+
+-- Function to shuffle a question's answers when it is assigned to a round
+-- questions.a always holds the correct answer text
+CREATE OR REPLACE FUNCTION shuffle_round_question_answers()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_question questions%ROWTYPE;
+  v_position INTEGER;
+BEGIN
+  IF NEW.presented_answers IS NOT NULL AND NEW.correct_answer IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_question FROM questions WHERE id = NEW.question_id;
+
+  NEW.presented_answers := to_jsonb(
+    (SELECT array_agg(elem ORDER BY random())
+     FROM unnest(ARRAY[v_question.a, v_question.b, v_question.c, v_question.d]) AS elem)
+  );
+
+  SELECT ordinality INTO v_position
+  FROM jsonb_array_elements_text(NEW.presented_answers) WITH ORDINALITY
+  WHERE value = v_question.a
+  LIMIT 1;
+
+  NEW.correct_answer := chr(ascii('A') + v_position - 1);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create trigger to shuffle answers on assignment
+CREATE TRIGGER shuffle_round_question_answers_before_insert
+  BEFORE INSERT ON round_questions
+  FOR EACH ROW
+  EXECUTE FUNCTION shuffle_round_question_answers();
+
+-- Backfill existing assignments with their original order, where 'A' was correct
+UPDATE round_questions rq
+SET
+  presented_answers = jsonb_build_array(q.a, q.b, q.c, q.d),
+  correct_answer = 'A'
+FROM questions q
+WHERE q.id = rq.question_id AND rq.presented_answers IS NULL;
+
+ALTER TABLE round_questions
+ALTER COLUMN presented_answers SET NOT NULL,
+ALTER COLUMN correct_answer SET NOT NULL,
+ADD CONSTRAINT valid_presented_answers CHECK (
+  jsonb_typeof(presented_answers) = 'array' AND
+  jsonb_array_length(presented_answers) = 4
+),
+ADD CONSTRAINT valid_correct_answer CHECK (correct_answer IN ('A', 'B', 'C', 'D'));
+
+-- Replace answer scoring to use the presented order instead of comparing the letter to questions.a
+CREATE OR REPLACE FUNCTION calculate_answer_correctness()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_correct_answer CHAR(1);
+BEGIN
+  -- Get the correct letter for this question as presented to teams
+  SELECT rq.correct_answer INTO v_correct_answer
+  FROM round_questions rq
+  WHERE rq.id = NEW.round_question_id;
+
+  -- Set is_correct based on submitted answer
+  NEW.is_correct := (NEW.answer = v_correct_answer);
+
+  -- Assign points (10 for correct, 0 for incorrect)
+  NEW.points_earned := CASE WHEN NEW.is_correct THEN 10 ELSE 0 END;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Rebuild the game state snapshot with the presented answer order
+CREATE OR REPLACE FUNCTION get_game_state(p_game_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_game games%ROWTYPE;
+  v_round rounds%ROWTYPE;
+  v_is_host BOOLEAN;
+  v_player_team_id UUID;
+  v_teams JSONB;
+  v_question JSONB;
+  v_answers JSONB;
+BEGIN
+  SELECT * INTO v_game FROM games WHERE id = p_game_id;
+
+  IF v_game.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_is_host := v_game.host_id = auth.uid();
+
+  SELECT t.id INTO v_player_team_id
+  FROM teams t
+  JOIN team_players tp ON tp.team_id = t.id
+  WHERE t.game_id = p_game_id AND tp.player_id = auth.uid();
+
+  -- Same visibility as the games RLS policies
+  IF NOT v_is_host AND v_player_team_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_round
+  FROM rounds
+  WHERE game_id = p_game_id AND status = 'in_progress'
+  ORDER BY round_number
+  LIMIT 1;
+
+  -- Teams with their players, in join order
+  SELECT COALESCE(jsonb_agg(
+    to_jsonb(t) || jsonb_build_object('players', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', up.id,
+        'display_name', up.display_name,
+        'avatar_url', up.avatar_url,
+        'joined_at', tp.joined_at
+      ) ORDER BY tp.joined_at)
+      FROM team_players tp
+      JOIN user_profiles up ON up.id = tp.player_id
+      WHERE tp.team_id = t.id
+    ), '[]'::jsonb))
+    ORDER BY t.created_at
+  ), '[]'::jsonb)
+  INTO v_teams
+  FROM teams t
+  WHERE t.game_id = p_game_id;
+
+  IF v_round.current_round_question_id IS NOT NULL THEN
+    SELECT jsonb_build_object(
+      'id', rq.id,
+      'round_id', rq.round_id,
+      'question_id', rq.question_id,
+      'question_order', rq.question_order,
+      'question', jsonb_build_object(
+        'category', q.category,
+        'question', q.question
+      ),
+      'presented_answers', rq.presented_answers,
+      'correct_answer', rq.correct_answer,
+      'created_at', rq.created_at
+    )
+    INTO v_question
+    FROM round_questions rq
+    JOIN questions q ON q.id = rq.question_id
+    WHERE rq.id = v_round.current_round_question_id;
+
+    -- Players only see their own team's answer, matching team_answers RLS
+    SELECT COALESCE(jsonb_agg(to_jsonb(ta) ORDER BY ta.submitted_at), '[]'::jsonb)
+    INTO v_answers
+    FROM team_answers ta
+    WHERE ta.round_question_id = v_round.current_round_question_id
+      AND (v_is_host OR ta.team_id = v_player_team_id);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'game', to_jsonb(v_game),
+    'current_round', CASE WHEN v_round.id IS NULL THEN NULL ELSE to_jsonb(v_round) END,
+    'teams', v_teams,
+    'current_question', v_question,
+    'team_answers', COALESCE(v_answers, '[]'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
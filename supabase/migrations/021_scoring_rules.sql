@@ -0,0 +1,143 @@
+-- Migration: Configurable scoring rules for multi-user games
+-- Purpose: Score team answers from per-game rules (round multipliers, speed bonus, penalties, final round wager)
+
+-- Add scoring rules to games
+ALTER TABLE games
+ADD COLUMN scoring_rules JSONB NOT NULL DEFAULT '{
+  "correct_points": 10,
+  "incorrect_points": 0,
+  "round_multipliers": {},
+  "speed_bonus": null,
+  "final_round_wager": false
+}'::jsonb;
+
+-- Function to fill in defaults and validate scoring rules
+CREATE OR REPLACE FUNCTION normalize_scoring_rules()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_multiplier RECORD;
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.status <> 'setup' AND NEW.scoring_rules IS DISTINCT FROM OLD.scoring_rules THEN
+    RAISE EXCEPTION 'Scoring rules cannot be changed after the game has started';
+  END IF;
+
+  NEW.scoring_rules := jsonb_build_object(
+    'correct_points', 10,
+    'incorrect_points', 0,
+    'round_multipliers', '{}'::jsonb,
+    'speed_bonus', NULL,
+    'final_round_wager', false
+  ) || COALESCE(NEW.scoring_rules, '{}'::jsonb);
+
+  IF (NEW.scoring_rules->>'correct_points')::INTEGER < 0 THEN
+    RAISE EXCEPTION 'correct_points must not be negative';
+  END IF;
+
+  IF (NEW.scoring_rules->>'incorrect_points')::INTEGER > 0 THEN
+    RAISE EXCEPTION 'incorrect_points must be zero or negative';
+  END IF;
+
+  FOR v_multiplier IN SELECT * FROM jsonb_each_text(NEW.scoring_rules->'round_multipliers') LOOP
+    IF v_multiplier.value::NUMERIC <= 0 THEN
+      RAISE EXCEPTION 'Round multipliers must be positive';
+    END IF;
+  END LOOP;
+
+  IF jsonb_typeof(NEW.scoring_rules->'speed_bonus') = 'object' AND (
+    (NEW.scoring_rules->'speed_bonus'->>'max_points')::INTEGER < 0 OR
+    (NEW.scoring_rules->'speed_bonus'->>'window_seconds')::INTEGER <= 0
+  ) THEN
+    RAISE EXCEPTION 'Speed bonus needs non-negative max_points and a positive window_seconds';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create trigger to normalize scoring rules
+CREATE TRIGGER normalize_scoring_rules_trigger
+  BEFORE INSERT OR UPDATE OF scoring_rules ON games
+  FOR EACH ROW
+  EXECUTE FUNCTION normalize_scoring_rules();
+
+-- Wrong answers and lost wagers can take points away
+ALTER TABLE team_answers DROP CONSTRAINT positive_points;
+ALTER TABLE teams DROP CONSTRAINT positive_score;
+
+-- Record how each answer's points were made up
+ALTER TABLE team_answers
+ADD COLUMN base_points INTEGER DEFAULT 0 NOT NULL,
+ADD COLUMN speed_bonus INTEGER DEFAULT 0 NOT NULL,
+ADD COLUMN wager INTEGER,
+ADD CONSTRAINT non_negative_wager CHECK (wager IS NULL OR wager >= 0);
+
+-- Backfill the breakdown for answers scored before rules existed
+UPDATE team_answers SET base_points = points_earned;
+
+-- Replace answer scoring to apply the game's scoring rules
+CREATE OR REPLACE FUNCTION calculate_answer_correctness()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_correct_answer CHAR(1);
+  v_round_number INTEGER;
+  v_opened_at TIMESTAMPTZ;
+  v_total_rounds INTEGER;
+  v_rules JSONB;
+  v_team_score INTEGER;
+  v_multiplier NUMERIC;
+  v_elapsed_seconds NUMERIC;
+BEGIN
+  -- Get the correct letter and the game's rules for this question
+  SELECT rq.correct_answer, r.round_number, r.question_opened_at, g.total_rounds, g.scoring_rules
+  INTO v_correct_answer, v_round_number, v_opened_at, v_total_rounds, v_rules
+  FROM round_questions rq
+  JOIN rounds r ON r.id = rq.round_id
+  JOIN games g ON g.id = r.game_id
+  WHERE rq.id = NEW.round_question_id;
+
+  -- Set is_correct based on submitted answer
+  NEW.is_correct := (NEW.answer = v_correct_answer);
+  NEW.base_points := 0;
+  NEW.speed_bonus := 0;
+
+  -- Final round wager: win or lose the amount wagered
+  IF (v_rules->>'final_round_wager')::BOOLEAN AND v_round_number = v_total_rounds THEN
+    SELECT current_score INTO v_team_score FROM teams WHERE id = NEW.team_id;
+
+    IF NEW.wager IS NULL THEN
+      RAISE EXCEPTION 'A wager is required in the final round';
+    END IF;
+
+    IF NEW.wager > GREATEST(v_team_score, 0) THEN
+      RAISE EXCEPTION 'Wager cannot exceed the team''s current score';
+    END IF;
+
+    NEW.points_earned := CASE WHEN NEW.is_correct THEN NEW.wager ELSE -NEW.wager END;
+    RETURN NEW;
+  END IF;
+
+  NEW.wager := NULL;
+
+  -- Correct or incorrect points, scaled by the round multiplier
+  v_multiplier := COALESCE((v_rules->'round_multipliers'->>v_round_number::TEXT)::NUMERIC, 1);
+  NEW.base_points := ROUND(
+    CASE WHEN NEW.is_correct
+      THEN (v_rules->>'correct_points')::INTEGER
+      ELSE (v_rules->>'incorrect_points')::INTEGER
+    END * v_multiplier
+  );
+
+  -- Speed bonus decays linearly from the moment answering opened
+  IF NEW.is_correct AND jsonb_typeof(v_rules->'speed_bonus') = 'object' AND v_opened_at IS NOT NULL THEN
+    v_elapsed_seconds := EXTRACT(EPOCH FROM (now() - v_opened_at));
+    NEW.speed_bonus := ROUND(
+      (v_rules->'speed_bonus'->>'max_points')::INTEGER *
+      GREATEST(0, 1 - v_elapsed_seconds / (v_rules->'speed_bonus'->>'window_seconds')::NUMERIC)
+    );
+  END IF;
+
+  NEW.points_earned := NEW.base_points + NEW.speed_bonus;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,205 @@
+-- Migration: Join codes and team join rules for multi-user games
+-- Purpose: Let players find a game by a short code, then create or join a team during setup
+
+-- Add join code to games
+ALTER TABLE games
+ADD COLUMN join_code VARCHAR(6);
+
+-- Function to generate a unique join code
+-- Uses an alphabet without look-alike characters (0/O, 1/I/L)
+CREATE OR REPLACE FUNCTION generate_join_code()
+RETURNS VARCHAR(6) AS $$
+DECLARE
+  v_alphabet TEXT := 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+  v_code VARCHAR(6);
+BEGIN
+  LOOP
+    SELECT string_agg(substr(v_alphabet, 1 + floor(random() * length(v_alphabet))::INTEGER, 1), '')
+    INTO v_code
+    FROM generate_series(1, 6);
+
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM games WHERE join_code = v_code);
+  END LOOP;
+
+  RETURN v_code;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to assign a join code to new games
+CREATE OR REPLACE FUNCTION assign_join_code()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.join_code IS NULL THEN
+    NEW.join_code := generate_join_code();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create trigger to assign join codes
+CREATE TRIGGER assign_join_code_before_insert
+  BEFORE INSERT ON games
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_join_code();
+
+-- Backfill existing games
+UPDATE games SET join_code = generate_join_code() WHERE join_code IS NULL;
+
+ALTER TABLE games
+ALTER COLUMN join_code SET NOT NULL,
+ADD CONSTRAINT unique_join_code UNIQUE (join_code),
+ADD CONSTRAINT valid_join_code CHECK (join_code ~ '^[A-Z0-9]{6}$');
+
+-- Function to enforce team count limits and setup-only team creation
+CREATE OR REPLACE FUNCTION check_team_creation()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_game games%ROWTYPE;
+  v_team_count INTEGER;
+BEGIN
+  -- Lock the game so concurrent team creation cannot exceed max_teams
+  SELECT * INTO v_game FROM games WHERE id = NEW.game_id FOR UPDATE;
+
+  IF v_game.status <> 'setup' THEN
+    RAISE EXCEPTION 'Teams can only be created while the game is in setup';
+  END IF;
+
+  SELECT COUNT(*) INTO v_team_count FROM teams WHERE game_id = NEW.game_id;
+
+  IF v_team_count >= v_game.max_teams THEN
+    RAISE EXCEPTION 'Game cannot have more than % teams', v_game.max_teams;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create trigger to check team creation
+CREATE TRIGGER check_team_creation_before_insert
+  BEFORE INSERT ON teams
+  FOR EACH ROW
+  EXECUTE FUNCTION check_team_creation();
+
+-- Function to only allow roster changes during setup
+-- Also applies to hosts, whose RLS policies otherwise allow any change
+CREATE OR REPLACE FUNCTION check_roster_change_during_setup()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_team_id UUID;
+  v_status VARCHAR;
+BEGIN
+  v_team_id := CASE WHEN TG_OP = 'DELETE' THEN OLD.team_id ELSE NEW.team_id END;
+
+  SELECT g.status INTO v_status
+  FROM teams t
+  JOIN games g ON g.id = t.game_id
+  WHERE t.id = v_team_id;
+
+  -- The team or game is being deleted; let the cascade through
+  IF v_status IS NOT NULL AND v_status <> 'setup' THEN
+    RAISE EXCEPTION 'Team rosters can only change while the game is in setup';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create trigger to lock rosters once the game starts
+CREATE TRIGGER check_roster_change_during_setup_trigger
+  BEFORE INSERT OR UPDATE OR DELETE ON team_players
+  FOR EACH ROW
+  EXECUTE FUNCTION check_roster_change_during_setup();
+
+-- Serialize joins per team so concurrent joins cannot exceed max_players_per_team
+CREATE OR REPLACE FUNCTION check_team_size_limit()
+RETURNS TRIGGER AS $$
+DECLARE
+  team_count INTEGER;
+  max_players INTEGER;
+BEGIN
+  SELECT g.max_players_per_team INTO max_players
+  FROM teams t
+  JOIN games g ON g.id = t.game_id
+  WHERE t.id = NEW.team_id
+  FOR UPDATE OF t;
+
+  SELECT COUNT(*) INTO team_count
+  FROM team_players
+  WHERE team_id = NEW.team_id;
+
+  -- Check if adding this player would exceed limit
+  IF team_count >= max_players THEN
+    RAISE EXCEPTION 'Team cannot have more than % players', max_players;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Players can create teams in games that are still in setup
+CREATE POLICY "Players can create teams during setup"
+ON teams
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM games
+    WHERE games.id = teams.game_id AND games.status = 'setup'
+  )
+);
+
+-- Players can see the teams of a game in setup so they can pick one to join
+CREATE POLICY "Players can view teams in games during setup"
+ON teams
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM games
+    WHERE games.id = teams.game_id AND games.status = 'setup'
+  )
+);
+
+-- Function to look up a game and its teams by join code
+-- Players are not yet in the game, so games RLS would hide it from them
+CREATE OR REPLACE FUNCTION get_game_lobby(p_join_code TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_game games%ROWTYPE;
+BEGIN
+  SELECT * INTO v_game FROM games WHERE join_code = upper(trim(p_join_code));
+
+  IF v_game.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'game', jsonb_build_object(
+      'id', v_game.id,
+      'title', v_game.title,
+      'location', v_game.location,
+      'scheduled_date', v_game.scheduled_date,
+      'status', v_game.status,
+      'join_code', v_game.join_code,
+      'max_teams', v_game.max_teams,
+      'max_players_per_team', v_game.max_players_per_team
+    ),
+    'teams', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', t.id,
+        'name', t.name,
+        'display_color', t.display_color,
+        'player_count', (SELECT COUNT(*) FROM team_players tp WHERE tp.team_id = t.id)
+      ) ORDER BY t.created_at)
+      FROM teams t
+      WHERE t.game_id = v_game.id
+    ), '[]'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Grant execute permission to authenticated users
+GRANT EXECUTE ON FUNCTION get_game_lobby(TEXT) TO authenticated;
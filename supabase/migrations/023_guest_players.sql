@@ -0,0 +1,19 @@
+-- Migration: Anonymous guest players
+-- Purpose: Let players join games with only a display name, while hosting still needs a full account
+
+-- Function to check whether the current user signed in anonymously
+-- Supabase sets the is_anonymous claim until the guest links an email
+CREATE OR REPLACE FUNCTION is_guest_user()
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN COALESCE((auth.jwt() ->> 'is_anonymous')::BOOLEAN, false);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Guests cannot host games
+-- Restrictive, so it applies on top of "Hosts can create own games"
+CREATE POLICY "Guests cannot create games"
+ON games
+AS RESTRICTIVE
+FOR INSERT
+WITH CHECK (NOT is_guest_user());
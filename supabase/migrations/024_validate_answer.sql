@@ -0,0 +1,167 @@
+-- Migration: Server-side answer validation for single-player games
+-- Purpose: Score answers and advance the session in one transaction, and keep correct answers out of the client's reach
+
+-- Function to validate an answer, award points and move to the next question
+-- Implements the validate-answer contract (ValidateAnswerResponse in contracts/database.ts)
+CREATE OR REPLACE FUNCTION validate_answer(
+  p_game_question_id UUID,
+  p_user_answer TEXT,
+  p_time_to_answer_ms BIGINT
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_question game_questions%ROWTYPE;
+  v_session game_sessions%ROWTYPE;
+  v_is_correct BOOLEAN;
+  v_points INTEGER;
+  v_next_index INTEGER;
+  v_total_questions INTEGER;
+  v_game_complete BOOLEAN;
+  v_next_question JSONB;
+BEGIN
+  SELECT * INTO v_question FROM game_questions WHERE id = p_game_question_id;
+
+  IF v_question.id IS NULL THEN
+    RAISE EXCEPTION 'Game question not found';
+  END IF;
+
+  -- Lock the session so a repeated submission is only scored once
+  SELECT * INTO v_session
+  FROM game_sessions
+  WHERE id = v_question.game_session_id
+  FOR UPDATE;
+
+  IF v_session.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Game question not found';
+  END IF;
+
+  IF v_session.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Game is not in progress';
+  END IF;
+
+  IF v_question.user_answer IS NOT NULL
+     OR v_question.question_order <> v_session.current_question_index + 1 THEN
+    RAISE EXCEPTION 'Only the current question can be answered';
+  END IF;
+
+  IF NOT (v_question.presented_answers ? p_user_answer) THEN
+    RAISE EXCEPTION 'User answer must be one of the presented answers';
+  END IF;
+
+  v_is_correct := p_user_answer = v_question.correct_answer;
+  v_points := CASE WHEN v_is_correct THEN 1 ELSE 0 END;
+
+  UPDATE game_questions
+  SET
+    user_answer = p_user_answer,
+    is_correct = v_is_correct,
+    time_to_answer_ms = GREATEST(COALESCE(p_time_to_answer_ms, 1), 1),
+    answered_at = NOW(),
+    points_awarded = v_points
+  WHERE id = v_question.id;
+
+  v_next_index := v_session.current_question_index + 1;
+  v_total_questions := v_session.total_rounds * v_session.questions_per_round;
+  v_game_complete := v_next_index >= v_total_questions;
+
+  UPDATE game_sessions
+  SET
+    total_score = total_score + v_points,
+    current_question_index = v_next_index,
+    current_round = LEAST(v_next_index / questions_per_round + 1, total_rounds),
+    status = CASE WHEN v_game_complete THEN 'completed'::game_session_status ELSE status END,
+    end_time = CASE WHEN v_game_complete THEN NOW() ELSE end_time END
+  WHERE id = v_session.id
+  RETURNING * INTO v_session;
+
+  IF NOT v_game_complete THEN
+    SELECT jsonb_build_object(
+      'id', gq.id,
+      'question', q.question,
+      'category', q.category,
+      'answers', gq.presented_answers,
+      'round_number', gq.round_number,
+      'question_number', gq.question_order,
+      'total_questions', v_total_questions
+    )
+    INTO v_next_question
+    FROM game_questions gq
+    JOIN questions q ON q.id = gq.question_id
+    WHERE gq.game_session_id = v_session.id
+      AND gq.question_order = v_next_index + 1;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'is_correct', v_is_correct,
+    'correct_answer', v_question.correct_answer,
+    'game_question_updated', true,
+    'session_stats', jsonb_build_object(
+      'current_score', v_session.total_score,
+      'current_round', v_session.current_round,
+      'current_question_index', v_session.current_question_index,
+      'round_complete', v_next_index % v_session.questions_per_round = 0,
+      'game_complete', v_game_complete
+    ),
+    'next_question', v_next_question
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Grant execute permission to authenticated users
+GRANT EXECUTE ON FUNCTION validate_answer(UUID, TEXT, BIGINT) TO authenticated;
+
+-- submit_answer_secure trusts a caller-supplied user id; validate_answer replaces it
+REVOKE EXECUTE ON FUNCTION submit_answer_secure(UUID, UUID, TEXT, BIGINT) FROM authenticated;
+
+-- Answers and scores are only written through validate_answer and create_game
+DROP POLICY IF EXISTS "System can create game questions" ON game_questions;
+DROP POLICY IF EXISTS "System can update game questions" ON game_questions;
+
+-- Players can read their game questions, but not which answer is correct
+-- validate_answer returns the correct answer once the question is answered
+REVOKE SELECT ON game_questions FROM anon, authenticated;
+GRANT SELECT (
+  id,
+  game_session_id,
+  question_id,
+  question_order,
+  round_number,
+  presented_answers,
+  user_answer,
+  is_correct,
+  time_to_answer_ms,
+  answered_at,
+  points_awarded,
+  created_at
+) ON game_questions TO authenticated;
+
+-- Answer a is always the correct one, so the answer columns are hidden too
+-- Hosts get answer text through SECURITY DEFINER functions
+REVOKE SELECT ON questions FROM anon, authenticated;
+GRANT SELECT (
+  id,
+  category,
+  question,
+  metadata,
+  created_at,
+  updated_at
+) ON questions TO authenticated;
+
+-- The round question shuffle runs as the host, who can no longer read answer a directly
+ALTER FUNCTION shuffle_round_question_answers() SECURITY DEFINER;
+
+-- Players can change a session's status and timing, but not its score or position
+REVOKE INSERT, UPDATE ON game_sessions FROM anon, authenticated;
+GRANT INSERT (
+  user_id,
+  status,
+  total_rounds,
+  questions_per_round,
+  selected_categories
+) ON game_sessions TO authenticated;
+GRANT UPDATE (
+  status,
+  start_time,
+  end_time,
+  total_duration_ms
+) ON game_sessions TO authenticated;
@@ -0,0 +1,137 @@
+-- Migration: Serialize single-player answer submission
+-- Purpose: Make double clicks and multiple tabs score a question exactly once
+
+-- Redefine validate_answer to take its locks before reading the question
+CREATE OR REPLACE FUNCTION validate_answer(
+  p_game_question_id UUID,
+  p_user_answer TEXT,
+  p_time_to_answer_ms BIGINT
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session_id UUID;
+  v_question game_questions%ROWTYPE;
+  v_session game_sessions%ROWTYPE;
+  v_is_correct BOOLEAN;
+  v_points INTEGER;
+  v_next_index INTEGER;
+  v_total_questions INTEGER;
+  v_game_complete BOOLEAN;
+  v_next_question JSONB;
+BEGIN
+  SELECT game_session_id INTO v_session_id FROM game_questions WHERE id = p_game_question_id;
+
+  IF v_session_id IS NULL THEN
+    RAISE EXCEPTION 'Game question not found';
+  END IF;
+
+  -- Lock the session, then the question, so concurrent submissions from
+  -- double clicks or other tabs run one at a time. The question is read
+  -- after the lock so a waiting submission sees the earlier answer.
+  SELECT * INTO v_session
+  FROM game_sessions
+  WHERE id = v_session_id
+  FOR UPDATE;
+
+  SELECT * INTO v_question
+  FROM game_questions
+  WHERE id = p_game_question_id
+  FOR UPDATE;
+
+  IF v_session.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Game question not found';
+  END IF;
+
+  IF v_session.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Game is not in progress';
+  END IF;
+
+  IF v_question.user_answer IS NOT NULL THEN
+    RAISE EXCEPTION 'Question has already been answered';
+  END IF;
+
+  IF v_question.question_order <> v_session.current_question_index + 1 THEN
+    RAISE EXCEPTION 'Only the current question can be answered';
+  END IF;
+
+  IF NOT (v_question.presented_answers ? p_user_answer) THEN
+    RAISE EXCEPTION 'User answer must be one of the presented answers';
+  END IF;
+
+  v_is_correct := p_user_answer = v_question.correct_answer;
+  v_points := CASE WHEN v_is_correct THEN 1 ELSE 0 END;
+
+  UPDATE game_questions
+  SET
+    user_answer = p_user_answer,
+    is_correct = v_is_correct,
+    time_to_answer_ms = GREATEST(COALESCE(p_time_to_answer_ms, 1), 1),
+    answered_at = NOW(),
+    points_awarded = v_points
+  WHERE id = v_question.id;
+
+  v_next_index := v_session.current_question_index + 1;
+  v_total_questions := v_session.total_rounds * v_session.questions_per_round;
+  v_game_complete := v_next_index >= v_total_questions;
+
+  UPDATE game_sessions
+  SET
+    total_score = total_score + v_points,
+    current_question_index = v_next_index,
+    current_round = LEAST(v_next_index / questions_per_round + 1, total_rounds),
+    status = CASE WHEN v_game_complete THEN 'completed'::game_session_status ELSE status END,
+    end_time = CASE WHEN v_game_complete THEN NOW() ELSE end_time END
+  WHERE id = v_session.id
+  RETURNING * INTO v_session;
+
+  IF NOT v_game_complete THEN
+    SELECT jsonb_build_object(
+      'id', gq.id,
+      'question', q.question,
+      'category', q.category,
+      'answers', gq.presented_answers,
+      'round_number', gq.round_number,
+      'question_number', gq.question_order,
+      'total_questions', v_total_questions
+    )
+    INTO v_next_question
+    FROM game_questions gq
+    JOIN questions q ON q.id = gq.question_id
+    WHERE gq.game_session_id = v_session.id
+      AND gq.question_order = v_next_index + 1;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'is_correct', v_is_correct,
+    'correct_answer', v_question.correct_answer,
+    'game_question_updated', true,
+    'session_stats', jsonb_build_object(
+      'current_score', v_session.total_score,
+      'current_round', v_session.current_round,
+      'current_question_index', v_session.current_question_index,
+      'round_complete', v_next_index % v_session.questions_per_round = 0,
+      'game_complete', v_game_complete
+    ),
+    'next_question', v_next_question
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Answers are final; a second write to an answered question is rejected
+-- whichever path it comes from
+CREATE OR REPLACE FUNCTION prevent_game_answer_overwrite()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.user_answer IS NOT NULL AND NEW.user_answer IS DISTINCT FROM OLD.user_answer THEN
+    RAISE EXCEPTION 'Question has already been answered';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create trigger to keep answers final
+CREATE TRIGGER prevent_game_answer_overwrite_before_update
+  BEFORE UPDATE ON game_questions
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_game_answer_overwrite();
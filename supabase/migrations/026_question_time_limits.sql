@@ -0,0 +1,258 @@
+-- Migration: Per-question time limits
+-- Purpose: Let single-player sessions and hosted games put a clock on each question,
+-- score questions that run out of time as wrong, and keep the clock across pauses
+
+-- Add the time limit and the paused clock to single-player sessions
+-- A NULL limit means questions stay open until answered
+ALTER TABLE game_sessions
+ADD COLUMN question_time_limit_seconds INTEGER,
+ADD COLUMN question_elapsed_ms BIGINT DEFAULT 0 NOT NULL,
+ADD CONSTRAINT valid_question_time_limit CHECK (
+  question_time_limit_seconds IS NULL OR question_time_limit_seconds BETWEEN 5 AND 300
+),
+ADD CONSTRAINT valid_question_elapsed CHECK (question_elapsed_ms >= 0);
+
+-- Players choose the limit when creating a session
+GRANT INSERT (question_time_limit_seconds) ON game_sessions TO authenticated;
+GRANT UPDATE (question_time_limit_seconds) ON game_sessions TO authenticated;
+
+-- Function to keep the time limit fixed once a session has started
+CREATE OR REPLACE FUNCTION lock_session_time_limit()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status <> 'setup'
+     AND NEW.question_time_limit_seconds IS DISTINCT FROM OLD.question_time_limit_seconds THEN
+    RAISE EXCEPTION 'Time limit can only be changed during setup';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create trigger to keep the time limit fixed
+CREATE TRIGGER lock_session_time_limit_trigger
+  BEFORE UPDATE OF question_time_limit_seconds ON game_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION lock_session_time_limit();
+
+-- Record questions that ran out of time; they are answered without a user answer
+ALTER TABLE game_questions
+ADD COLUMN timed_out BOOLEAN DEFAULT false NOT NULL;
+
+ALTER TABLE game_questions DROP CONSTRAINT answer_consistency;
+ALTER TABLE game_questions
+ADD CONSTRAINT answer_consistency CHECK (
+  (user_answer IS NULL AND is_correct IS NULL AND time_to_answer_ms IS NULL AND answered_at IS NULL AND NOT timed_out) OR
+  (user_answer IS NOT NULL AND is_correct IS NOT NULL AND time_to_answer_ms IS NOT NULL AND answered_at IS NOT NULL AND NOT timed_out) OR
+  (user_answer IS NULL AND is_correct = false AND time_to_answer_ms IS NOT NULL AND answered_at IS NOT NULL AND timed_out)
+);
+
+GRANT SELECT (timed_out) ON game_questions TO authenticated;
+
+-- Redefine validate_answer to accept timeouts
+-- A NULL answer is a timeout, and so is an answer reported after the limit
+CREATE OR REPLACE FUNCTION validate_answer(
+  p_game_question_id UUID,
+  p_user_answer TEXT,
+  p_time_to_answer_ms BIGINT
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session_id UUID;
+  v_question game_questions%ROWTYPE;
+  v_session game_sessions%ROWTYPE;
+  v_limit_ms BIGINT;
+  v_timed_out BOOLEAN;
+  v_time_to_answer_ms BIGINT;
+  v_is_correct BOOLEAN;
+  v_points INTEGER;
+  v_next_index INTEGER;
+  v_total_questions INTEGER;
+  v_game_complete BOOLEAN;
+  v_next_question JSONB;
+BEGIN
+  SELECT game_session_id INTO v_session_id FROM game_questions WHERE id = p_game_question_id;
+
+  IF v_session_id IS NULL THEN
+    RAISE EXCEPTION 'Game question not found';
+  END IF;
+
+  -- Lock the session, then the question, so concurrent submissions from
+  -- double clicks or other tabs run one at a time
+  SELECT * INTO v_session
+  FROM game_sessions
+  WHERE id = v_session_id
+  FOR UPDATE;
+
+  SELECT * INTO v_question
+  FROM game_questions
+  WHERE id = p_game_question_id
+  FOR UPDATE;
+
+  IF v_session.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Game question not found';
+  END IF;
+
+  IF v_session.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Game is not in progress';
+  END IF;
+
+  IF v_question.answered_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Question has already been answered';
+  END IF;
+
+  IF v_question.question_order <> v_session.current_question_index + 1 THEN
+    RAISE EXCEPTION 'Only the current question can be answered';
+  END IF;
+
+  v_limit_ms := v_session.question_time_limit_seconds * 1000;
+  v_time_to_answer_ms := GREATEST(COALESCE(p_time_to_answer_ms, 1), 1);
+
+  IF p_user_answer IS NULL AND v_limit_ms IS NULL THEN
+    RAISE EXCEPTION 'User answer is required when questions have no time limit';
+  END IF;
+
+  IF p_user_answer IS NOT NULL AND NOT (v_question.presented_answers ? p_user_answer) THEN
+    RAISE EXCEPTION 'User answer must be one of the presented answers';
+  END IF;
+
+  v_timed_out := p_user_answer IS NULL OR COALESCE(v_time_to_answer_ms > v_limit_ms, false);
+
+  IF v_timed_out THEN
+    v_time_to_answer_ms := LEAST(v_time_to_answer_ms, v_limit_ms);
+    v_is_correct := false;
+  ELSE
+    v_is_correct := p_user_answer = v_question.correct_answer;
+  END IF;
+
+  v_points := CASE WHEN v_is_correct THEN 1 ELSE 0 END;
+
+  UPDATE game_questions
+  SET
+    user_answer = CASE WHEN v_timed_out THEN NULL ELSE p_user_answer END,
+    is_correct = v_is_correct,
+    time_to_answer_ms = v_time_to_answer_ms,
+    answered_at = NOW(),
+    points_awarded = v_points,
+    timed_out = v_timed_out
+  WHERE id = v_question.id;
+
+  v_next_index := v_session.current_question_index + 1;
+  v_total_questions := v_session.total_rounds * v_session.questions_per_round;
+  v_game_complete := v_next_index >= v_total_questions;
+
+  -- The next question starts with a fresh clock
+  UPDATE game_sessions
+  SET
+    total_score = total_score + v_points,
+    current_question_index = v_next_index,
+    current_round = LEAST(v_next_index / questions_per_round + 1, total_rounds),
+    question_elapsed_ms = 0,
+    status = CASE WHEN v_game_complete THEN 'completed'::game_session_status ELSE status END,
+    end_time = CASE WHEN v_game_complete THEN NOW() ELSE end_time END
+  WHERE id = v_session.id
+  RETURNING * INTO v_session;
+
+  IF NOT v_game_complete THEN
+    SELECT jsonb_build_object(
+      'id', gq.id,
+      'question', q.question,
+      'category', q.category,
+      'answers', gq.presented_answers,
+      'round_number', gq.round_number,
+      'question_number', gq.question_order,
+      'total_questions', v_total_questions
+    )
+    INTO v_next_question
+    FROM game_questions gq
+    JOIN questions q ON q.id = gq.question_id
+    WHERE gq.game_session_id = v_session.id
+      AND gq.question_order = v_next_index + 1;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'is_correct', v_is_correct,
+    'correct_answer', v_question.correct_answer,
+    'timed_out', v_timed_out,
+    'game_question_updated', true,
+    'session_stats', jsonb_build_object(
+      'current_score', v_session.total_score,
+      'current_round', v_session.current_round,
+      'current_question_index', v_session.current_question_index,
+      'round_complete', v_next_index % v_session.questions_per_round = 0,
+      'game_complete', v_game_complete
+    ),
+    'next_question', v_next_question
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Redefine the overwrite guard; timed out questions have no user answer but are still final
+CREATE OR REPLACE FUNCTION prevent_game_answer_overwrite()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.answered_at IS NOT NULL AND (
+    NEW.user_answer IS DISTINCT FROM OLD.user_answer OR
+    NEW.is_correct IS DISTINCT FROM OLD.is_correct OR
+    NEW.timed_out IS DISTINCT FROM OLD.timed_out
+  ) THEN
+    RAISE EXCEPTION 'Question has already been answered';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add the answer time limit to hosted games
+-- A NULL limit leaves closing answers entirely to the host. Existing games keep
+-- running without one; only games created from now on default to 30 seconds.
+ALTER TABLE games
+ADD COLUMN question_time_limit_seconds INTEGER,
+ADD CONSTRAINT valid_question_time_limit CHECK (
+  question_time_limit_seconds IS NULL OR question_time_limit_seconds BETWEEN 5 AND 300
+);
+
+ALTER TABLE games ALTER COLUMN question_time_limit_seconds SET DEFAULT 30;
+
+-- Replace round validation so answers are rejected once the clock runs out
+-- A short grace period covers answers that were in flight at the buzzer
+CREATE OR REPLACE FUNCTION validate_round_in_progress()
+RETURNS TRIGGER AS $$
+DECLARE
+  answer_round rounds%ROWTYPE;
+  v_time_limit_seconds INTEGER;
+BEGIN
+  SELECT r.* INTO answer_round
+  FROM rounds r
+  JOIN round_questions rq ON rq.round_id = r.id
+  WHERE rq.id = NEW.round_question_id;
+
+  -- Check if the round is in progress
+  IF answer_round.id IS NULL OR answer_round.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Can only submit answers when round is in progress';
+  END IF;
+
+  -- Check the answer is for the question currently shown to teams
+  IF answer_round.current_round_question_id IS DISTINCT FROM NEW.round_question_id THEN
+    RAISE EXCEPTION 'Can only submit answers for the current question';
+  END IF;
+
+  -- Check answering is open for the question
+  IF answer_round.question_state <> 'open' THEN
+    RAISE EXCEPTION 'Answering is closed for this question';
+  END IF;
+
+  -- Check the question's clock has not run out
+  SELECT question_time_limit_seconds INTO v_time_limit_seconds
+  FROM games
+  WHERE id = answer_round.game_id;
+
+  IF v_time_limit_seconds IS NOT NULL
+     AND answer_round.question_opened_at IS NOT NULL
+     AND now() > answer_round.question_opened_at + make_interval(secs => v_time_limit_seconds + 2) THEN
+    RAISE EXCEPTION 'Time is up for this question';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
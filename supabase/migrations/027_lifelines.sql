@@ -0,0 +1,373 @@
+-- Migration: Lifelines for single-player games
+-- Purpose: Let players use a limited number of 50/50, skip and extra time lifelines,
+-- applied server-side and recorded on the game question they were used on
+
+-- Add the lifelines a session has left
+ALTER TABLE game_sessions
+ADD COLUMN lifelines_remaining JSONB DEFAULT '{"fifty_fifty": 1, "skip": 1, "extra_time": 1}'::jsonb NOT NULL;
+
+-- Function to check lifeline allowances and stop players topping them up mid-game
+CREATE OR REPLACE FUNCTION validate_lifelines_remaining()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_lifeline TEXT;
+BEGIN
+  FOREACH v_lifeline IN ARRAY ARRAY['fifty_fifty', 'skip', 'extra_time'] LOOP
+    IF jsonb_typeof(NEW.lifelines_remaining->v_lifeline) <> 'number'
+       OR (NEW.lifelines_remaining->>v_lifeline)::INTEGER NOT BETWEEN 0 AND 3 THEN
+      RAISE EXCEPTION 'Lifeline % must be between 0 and 3', v_lifeline;
+    END IF;
+
+    IF TG_OP = 'UPDATE' AND OLD.status <> 'setup'
+       AND (NEW.lifelines_remaining->>v_lifeline)::INTEGER > (OLD.lifelines_remaining->>v_lifeline)::INTEGER THEN
+      RAISE EXCEPTION 'Lifelines can only be added during setup';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create trigger to check lifeline allowances
+CREATE TRIGGER validate_lifelines_remaining_trigger
+  BEFORE INSERT OR UPDATE OF lifelines_remaining ON game_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_lifelines_remaining();
+
+-- Players choose their lifelines when creating a session; start_game copies them to the played session
+GRANT INSERT (lifelines_remaining) ON game_sessions TO authenticated;
+GRANT UPDATE (lifelines_remaining) ON game_sessions TO authenticated;
+
+-- Record lifeline usage on each game question
+-- removed_answers and extra_time_seconds are what the lifelines currently give
+-- the question; a skip clears them because they belonged to the old question
+ALTER TABLE game_questions
+ADD COLUMN fifty_fifty_used BOOLEAN DEFAULT false NOT NULL,
+ADD COLUMN removed_answers JSONB,
+ADD COLUMN skipped_question_id UUID REFERENCES questions(id) ON DELETE SET NULL,
+ADD COLUMN extra_time_used BOOLEAN DEFAULT false NOT NULL,
+ADD COLUMN extra_time_seconds INTEGER DEFAULT 0 NOT NULL,
+ADD CONSTRAINT valid_extra_time CHECK (extra_time_seconds >= 0);
+
+GRANT SELECT (
+  fifty_fifty_used,
+  removed_answers,
+  skipped_question_id,
+  extra_time_used,
+  extra_time_seconds
+) ON game_questions TO authenticated;
+
+-- Create index for skip lookups of questions already in a session
+CREATE INDEX idx_game_questions_session_question ON game_questions(game_session_id, question_id);
+
+-- Function to apply a lifeline to the current question
+-- Returns the question as it should now be shown and the lifelines left
+CREATE OR REPLACE FUNCTION use_lifeline(
+  p_game_question_id UUID,
+  p_lifeline TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session_id UUID;
+  v_session game_sessions%ROWTYPE;
+  v_question game_questions%ROWTYPE;
+  v_replacement RECORD;
+  v_removed JSONB;
+  v_remaining INTEGER;
+  v_prompt RECORD;
+BEGIN
+  IF p_lifeline NOT IN ('fifty_fifty', 'skip', 'extra_time') THEN
+    RAISE EXCEPTION 'Unknown lifeline: %', p_lifeline;
+  END IF;
+
+  SELECT game_session_id INTO v_session_id FROM game_questions WHERE id = p_game_question_id;
+
+  IF v_session_id IS NULL THEN
+    RAISE EXCEPTION 'Game question not found';
+  END IF;
+
+  -- Lock in the same order as validate_answer so a lifeline and an answer
+  -- for the same question can't interleave
+  SELECT * INTO v_session
+  FROM game_sessions
+  WHERE id = v_session_id
+  FOR UPDATE;
+
+  SELECT * INTO v_question
+  FROM game_questions
+  WHERE id = p_game_question_id
+  FOR UPDATE;
+
+  IF v_session.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Game question not found';
+  END IF;
+
+  IF v_session.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Game is not in progress';
+  END IF;
+
+  IF v_question.answered_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Question has already been answered';
+  END IF;
+
+  IF v_question.question_order <> v_session.current_question_index + 1 THEN
+    RAISE EXCEPTION 'Lifelines can only be used on the current question';
+  END IF;
+
+  v_remaining := (v_session.lifelines_remaining->>p_lifeline)::INTEGER;
+  IF v_remaining < 1 THEN
+    RAISE EXCEPTION 'No % lifelines left', replace(p_lifeline, '_', ' ');
+  END IF;
+
+  IF p_lifeline = 'fifty_fifty' THEN
+    IF v_question.fifty_fifty_used THEN
+      RAISE EXCEPTION '50/50 has already been used on this question';
+    END IF;
+
+    -- Remove two wrong answers at random
+    SELECT jsonb_agg(answer) INTO v_removed
+    FROM (
+      SELECT answer
+      FROM jsonb_array_elements_text(v_question.presented_answers) AS answer
+      WHERE answer <> v_question.correct_answer
+      ORDER BY random()
+      LIMIT 2
+    ) wrong_answers;
+
+    UPDATE game_questions
+    SET fifty_fifty_used = true, removed_answers = v_removed
+    WHERE id = v_question.id;
+
+  ELSIF p_lifeline = 'skip' THEN
+    IF v_question.skipped_question_id IS NOT NULL THEN
+      RAISE EXCEPTION 'This question has already been skipped';
+    END IF;
+
+    -- Prefer a question the player has never seen, then any question not in this game
+    SELECT q.id, q.a, q.b, q.c, q.d INTO v_replacement
+    FROM questions q
+    WHERE q.category = (SELECT category FROM questions WHERE id = v_question.question_id)
+      AND q.id NOT IN (
+        SELECT question_id FROM game_questions WHERE game_session_id = v_session.id
+      )
+    ORDER BY
+      EXISTS (
+        SELECT 1
+        FROM game_questions gq
+        JOIN game_sessions gs ON gs.id = gq.game_session_id
+        WHERE gs.user_id = v_session.user_id AND gq.question_id = q.id
+      ),
+      random()
+    LIMIT 1;
+
+    IF v_replacement.id IS NULL THEN
+      RAISE EXCEPTION 'No other questions are available in this category';
+    END IF;
+
+    -- Answer a is always the correct one
+    UPDATE game_questions
+    SET
+      question_id = v_replacement.id,
+      correct_answer = v_replacement.a,
+      presented_answers = (
+        SELECT jsonb_agg(answer ORDER BY random())
+        FROM unnest(ARRAY[v_replacement.a, v_replacement.b, v_replacement.c, v_replacement.d]) AS answer
+      ),
+      skipped_question_id = v_question.question_id,
+      removed_answers = NULL,
+      extra_time_seconds = 0
+    WHERE id = v_question.id;
+
+    -- The replacement question starts with a fresh clock
+    UPDATE game_sessions SET question_elapsed_ms = 0 WHERE id = v_session.id;
+
+  ELSE
+    IF v_session.question_time_limit_seconds IS NULL THEN
+      RAISE EXCEPTION 'Extra time needs a question time limit';
+    END IF;
+
+    IF v_question.extra_time_used THEN
+      RAISE EXCEPTION 'Extra time has already been used on this question';
+    END IF;
+
+    UPDATE game_questions
+    SET extra_time_used = true, extra_time_seconds = 15
+    WHERE id = v_question.id;
+  END IF;
+
+  UPDATE game_sessions
+  SET lifelines_remaining = jsonb_set(lifelines_remaining, ARRAY[p_lifeline], to_jsonb(v_remaining - 1))
+  WHERE id = v_session.id
+  RETURNING * INTO v_session;
+
+  SELECT gq.*, q.question, q.category INTO v_prompt
+  FROM game_questions gq
+  JOIN questions q ON q.id = gq.question_id
+  WHERE gq.id = v_question.id;
+
+  RETURN jsonb_build_object(
+    'lifeline', p_lifeline,
+    'question', jsonb_build_object(
+      'id', v_prompt.id,
+      'question', v_prompt.question,
+      'category', v_prompt.category,
+      'answers', v_prompt.presented_answers,
+      'round_number', v_prompt.round_number,
+      'question_number', v_prompt.question_order,
+      'total_questions', v_session.total_rounds * v_session.questions_per_round,
+      'removed_answers', COALESCE(v_prompt.removed_answers, '[]'::jsonb),
+      'extra_time_seconds', v_prompt.extra_time_seconds
+    ),
+    'lifelines_remaining', v_session.lifelines_remaining
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Grant execute permission to authenticated users
+GRANT EXECUTE ON FUNCTION use_lifeline(UUID, TEXT) TO authenticated;
+
+-- Redefine validate_answer so lifelines count toward the time limit and the score
+-- Extra time extends the limit; a correct answer helped by 50/50 or extra time
+-- still counts as correct but earns no point
+CREATE OR REPLACE FUNCTION validate_answer(
+  p_game_question_id UUID,
+  p_user_answer TEXT,
+  p_time_to_answer_ms BIGINT
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session_id UUID;
+  v_question game_questions%ROWTYPE;
+  v_session game_sessions%ROWTYPE;
+  v_limit_ms BIGINT;
+  v_timed_out BOOLEAN;
+  v_time_to_answer_ms BIGINT;
+  v_is_correct BOOLEAN;
+  v_assisted BOOLEAN;
+  v_points INTEGER;
+  v_next_index INTEGER;
+  v_total_questions INTEGER;
+  v_game_complete BOOLEAN;
+  v_next_question JSONB;
+BEGIN
+  SELECT game_session_id INTO v_session_id FROM game_questions WHERE id = p_game_question_id;
+
+  IF v_session_id IS NULL THEN
+    RAISE EXCEPTION 'Game question not found';
+  END IF;
+
+  -- Lock the session, then the question, so concurrent submissions from
+  -- double clicks or other tabs run one at a time
+  SELECT * INTO v_session
+  FROM game_sessions
+  WHERE id = v_session_id
+  FOR UPDATE;
+
+  SELECT * INTO v_question
+  FROM game_questions
+  WHERE id = p_game_question_id
+  FOR UPDATE;
+
+  IF v_session.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Game question not found';
+  END IF;
+
+  IF v_session.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Game is not in progress';
+  END IF;
+
+  IF v_question.answered_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Question has already been answered';
+  END IF;
+
+  IF v_question.question_order <> v_session.current_question_index + 1 THEN
+    RAISE EXCEPTION 'Only the current question can be answered';
+  END IF;
+
+  v_limit_ms := (v_session.question_time_limit_seconds + v_question.extra_time_seconds) * 1000;
+  v_time_to_answer_ms := GREATEST(COALESCE(p_time_to_answer_ms, 1), 1);
+
+  IF p_user_answer IS NULL AND v_limit_ms IS NULL THEN
+    RAISE EXCEPTION 'User answer is required when questions have no time limit';
+  END IF;
+
+  IF p_user_answer IS NOT NULL AND NOT (v_question.presented_answers ? p_user_answer) THEN
+    RAISE EXCEPTION 'User answer must be one of the presented answers';
+  END IF;
+
+  IF COALESCE(v_question.removed_answers ? p_user_answer, false) THEN
+    RAISE EXCEPTION 'User answer was removed by 50/50';
+  END IF;
+
+  v_timed_out := p_user_answer IS NULL OR COALESCE(v_time_to_answer_ms > v_limit_ms, false);
+
+  IF v_timed_out THEN
+    v_time_to_answer_ms := LEAST(v_time_to_answer_ms, v_limit_ms);
+    v_is_correct := false;
+  ELSE
+    v_is_correct := p_user_answer = v_question.correct_answer;
+  END IF;
+
+  v_assisted := v_question.removed_answers IS NOT NULL OR v_question.extra_time_seconds > 0;
+  v_points := CASE WHEN v_is_correct AND NOT v_assisted THEN 1 ELSE 0 END;
+
+  UPDATE game_questions
+  SET
+    user_answer = CASE WHEN v_timed_out THEN NULL ELSE p_user_answer END,
+    is_correct = v_is_correct,
+    time_to_answer_ms = v_time_to_answer_ms,
+    answered_at = NOW(),
+    points_awarded = v_points,
+    timed_out = v_timed_out
+  WHERE id = v_question.id;
+
+  v_next_index := v_session.current_question_index + 1;
+  v_total_questions := v_session.total_rounds * v_session.questions_per_round;
+  v_game_complete := v_next_index >= v_total_questions;
+
+  -- The next question starts with a fresh clock
+  UPDATE game_sessions
+  SET
+    total_score = total_score + v_points,
+    current_question_index = v_next_index,
+    current_round = LEAST(v_next_index / questions_per_round + 1, total_rounds),
+    question_elapsed_ms = 0,
+    status = CASE WHEN v_game_complete THEN 'completed'::game_session_status ELSE status END,
+    end_time = CASE WHEN v_game_complete THEN NOW() ELSE end_time END
+  WHERE id = v_session.id
+  RETURNING * INTO v_session;
+
+  IF NOT v_game_complete THEN
+    SELECT jsonb_build_object(
+      'id', gq.id,
+      'question', q.question,
+      'category', q.category,
+      'answers', gq.presented_answers,
+      'round_number', gq.round_number,
+      'question_number', gq.question_order,
+      'total_questions', v_total_questions
+    )
+    INTO v_next_question
+    FROM game_questions gq
+    JOIN questions q ON q.id = gq.question_id
+    WHERE gq.game_session_id = v_session.id
+      AND gq.question_order = v_next_index + 1;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'is_correct', v_is_correct,
+    'correct_answer', v_question.correct_answer,
+    'timed_out', v_timed_out,
+    'points_awarded', v_points,
+    'game_question_updated', true,
+    'session_stats', jsonb_build_object(
+      'current_score', v_session.total_score,
+      'current_round', v_session.current_round,
+      'current_question_index', v_session.current_question_index,
+      'round_complete', v_next_index % v_session.questions_per_round = 0,
+      'game_complete', v_game_complete
+    ),
+    'next_question', v_next_question
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
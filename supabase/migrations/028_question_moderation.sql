@@ -0,0 +1,650 @@
+-- Migration: Question moderation and audit trail
+-- Purpose: Let admins search, edit, add and retire questions through a
+-- draft/approved/retired review status, and record who changed what
+
+-- Add the review status; existing questions are already in play, so they start approved
+ALTER TABLE questions
+ADD COLUMN status TEXT DEFAULT 'approved' NOT NULL,
+ADD CONSTRAINT valid_question_status CHECK (status IN ('draft', 'approved', 'retired'));
+
+-- New questions wait for review unless they are inserted as approved
+ALTER TABLE questions ALTER COLUMN status SET DEFAULT 'draft';
+
+-- Create indexes for drawing approved questions and for admin search
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+CREATE INDEX idx_questions_category_status ON questions(category, status);
+CREATE INDEX idx_questions_question_trgm ON questions USING GIN (question gin_trgm_ops);
+
+-- Players can see whether a question is in play; only admins change questions,
+-- through the functions below
+GRANT SELECT (status) ON questions TO authenticated;
+REVOKE INSERT, UPDATE, DELETE ON questions FROM anon, authenticated;
+
+-- Admins are users whose app_metadata.role is 'admin'. Only the service role
+-- can set app_metadata, e.g. with supabase.auth.admin.updateUserById
+CREATE OR REPLACE FUNCTION is_question_admin()
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN COALESCE(auth.jwt() -> 'app_metadata' ->> 'role', '') = 'admin';
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION is_question_admin() TO authenticated;
+
+-- Create question_audit_log table
+-- changed_by is NULL for changes made with the service role, e.g. pack imports
+CREATE TABLE question_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  question_id UUID NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+  changed_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+  action TEXT NOT NULL,
+  changes JSONB DEFAULT '{}'::jsonb NOT NULL, -- {field: {old, new}} for each field that changed
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  CONSTRAINT valid_audit_action CHECK (action IN ('created', 'edited', 'approved', 'retired', 'reopened'))
+);
+
+CREATE INDEX idx_question_audit_log_question ON question_audit_log(question_id, created_at DESC);
+
+-- The log is written by the trigger below and read through get_question_audit_log
+ALTER TABLE question_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Function to record every insert and update of a question
+CREATE OR REPLACE FUNCTION log_question_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old JSONB := CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(OLD) ELSE '{}'::jsonb END;
+  v_new JSONB := to_jsonb(NEW);
+  v_changes JSONB := '{}'::jsonb;
+  v_field TEXT;
+  v_action TEXT;
+BEGIN
+  FOREACH v_field IN ARRAY ARRAY['category', 'question', 'a', 'b', 'c', 'd', 'metadata', 'status'] LOOP
+    IF v_old->v_field IS DISTINCT FROM v_new->v_field THEN
+      v_changes := v_changes || jsonb_build_object(
+        v_field, jsonb_build_object('old', v_old->v_field, 'new', v_new->v_field)
+      );
+    END IF;
+  END LOOP;
+
+  IF TG_OP = 'INSERT' THEN
+    v_action := 'created';
+  ELSIF v_changes = '{}'::jsonb THEN
+    RETURN NULL;
+  ELSIF v_changes - 'status' <> '{}'::jsonb THEN
+    v_action := 'edited';
+  ELSE
+    v_action := CASE NEW.status
+      WHEN 'approved' THEN 'approved'
+      WHEN 'retired' THEN 'retired'
+      ELSE 'reopened'
+    END;
+  END IF;
+
+  INSERT INTO question_audit_log (question_id, changed_by, action, changes)
+  VALUES (NEW.id, auth.uid(), v_action, v_changes);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create trigger to audit question changes
+CREATE TRIGGER log_question_change_trigger
+  AFTER INSERT OR UPDATE ON questions
+  FOR EACH ROW
+  EXECUTE FUNCTION log_question_change();
+
+-- Function to search the question bank, answers included
+-- Returns one page of questions and the total number of matches
+CREATE OR REPLACE FUNCTION search_questions(
+  p_search TEXT DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_status TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 25,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_pattern TEXT;
+  v_result JSONB;
+BEGIN
+  IF NOT is_question_admin() THEN
+    RAISE EXCEPTION 'Only admins can manage questions';
+  END IF;
+
+  -- Match the search text literally, not as a LIKE pattern
+  IF NULLIF(TRIM(p_search), '') IS NOT NULL THEN
+    v_pattern := '%' || replace(replace(replace(TRIM(p_search), '\', '\\'), '%', '\%'), '_', '\_') || '%';
+  END IF;
+
+  WITH matches AS (
+    SELECT q.*
+    FROM questions q
+    WHERE (v_pattern IS NULL
+           OR q.question ILIKE v_pattern
+           OR q.a ILIKE v_pattern OR q.b ILIKE v_pattern
+           OR q.c ILIKE v_pattern OR q.d ILIKE v_pattern)
+      AND (p_category IS NULL OR q.category = p_category)
+      AND (p_status IS NULL OR q.status = p_status)
+  ),
+  page AS (
+    SELECT id, category, question, a, b, c, d, metadata, status, created_at, updated_at
+    FROM matches
+    ORDER BY updated_at DESC NULLS LAST, id
+    LIMIT LEAST(GREATEST(p_limit, 1), 100)
+    OFFSET GREATEST(p_offset, 0)
+  )
+  SELECT jsonb_build_object(
+    'questions', COALESCE((SELECT jsonb_agg(to_jsonb(page) ORDER BY updated_at DESC NULLS LAST, id) FROM page), '[]'::jsonb),
+    'total', (SELECT COUNT(*) FROM matches)
+  ) INTO v_result;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to add a question or edit one
+-- Any change sends the question back to draft until an admin approves it again
+CREATE OR REPLACE FUNCTION save_question(
+  p_question_id UUID,
+  p_category TEXT,
+  p_question TEXT,
+  p_a TEXT,
+  p_b TEXT,
+  p_c TEXT,
+  p_d TEXT,
+  p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_answers TEXT[] := ARRAY[TRIM(p_a), TRIM(p_b), TRIM(p_c), TRIM(p_d)];
+  v_question questions%ROWTYPE;
+BEGIN
+  IF NOT is_question_admin() THEN
+    RAISE EXCEPTION 'Only admins can manage questions';
+  END IF;
+
+  IF NULLIF(TRIM(p_category), '') IS NULL OR NULLIF(TRIM(p_question), '') IS NULL THEN
+    RAISE EXCEPTION 'Category and question are required';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(v_answers) AS answer WHERE NULLIF(answer, '') IS NULL) THEN
+    RAISE EXCEPTION 'All four answers are required';
+  END IF;
+
+  IF (SELECT COUNT(DISTINCT lower(answer)) FROM unnest(v_answers) AS answer) < 4 THEN
+    RAISE EXCEPTION 'Answers must all be different';
+  END IF;
+
+  IF jsonb_typeof(COALESCE(p_metadata, '{}'::jsonb)) <> 'object' THEN
+    RAISE EXCEPTION 'Metadata must be a JSON object';
+  END IF;
+
+  IF p_question_id IS NULL THEN
+    INSERT INTO questions (category, question, a, b, c, d, metadata, status, created_at, updated_at)
+    VALUES (TRIM(p_category), TRIM(p_question), v_answers[1], v_answers[2], v_answers[3], v_answers[4],
+            COALESCE(p_metadata, '{}'::jsonb), 'draft', NOW(), NOW())
+    RETURNING * INTO v_question;
+  ELSE
+    UPDATE questions
+    SET
+      category = TRIM(p_category),
+      question = TRIM(p_question),
+      a = v_answers[1],
+      b = v_answers[2],
+      c = v_answers[3],
+      d = v_answers[4],
+      metadata = COALESCE(p_metadata, '{}'::jsonb),
+      status = 'draft',
+      updated_at = NOW()
+    WHERE id = p_question_id
+      AND (category, question, a, b, c, d, metadata)
+        IS DISTINCT FROM (TRIM(p_category), TRIM(p_question), v_answers[1], v_answers[2], v_answers[3], v_answers[4], COALESCE(p_metadata, '{}'::jsonb))
+    RETURNING * INTO v_question;
+
+    -- Saving without changes leaves the question as it was
+    IF v_question.id IS NULL THEN
+      SELECT * INTO v_question FROM questions WHERE id = p_question_id;
+    END IF;
+
+    IF v_question.id IS NULL THEN
+      RAISE EXCEPTION 'Question not found';
+    END IF;
+  END IF;
+
+  RETURN to_jsonb(v_question);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to approve, retire or reopen a question
+CREATE OR REPLACE FUNCTION set_question_status(
+  p_question_id UUID,
+  p_status TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_question questions%ROWTYPE;
+BEGIN
+  IF NOT is_question_admin() THEN
+    RAISE EXCEPTION 'Only admins can manage questions';
+  END IF;
+
+  IF p_status NOT IN ('draft', 'approved', 'retired') THEN
+    RAISE EXCEPTION 'Unknown question status: %', p_status;
+  END IF;
+
+  UPDATE questions
+  SET status = p_status, updated_at = NOW()
+  WHERE id = p_question_id AND status <> p_status
+  RETURNING * INTO v_question;
+
+  IF v_question.id IS NULL THEN
+    SELECT * INTO v_question FROM questions WHERE id = p_question_id;
+  END IF;
+
+  IF v_question.id IS NULL THEN
+    RAISE EXCEPTION 'Question not found';
+  END IF;
+
+  RETURN to_jsonb(v_question);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to get a question's change history, newest first
+CREATE OR REPLACE FUNCTION get_question_audit_log(p_question_id UUID)
+RETURNS TABLE (
+  id UUID,
+  question_id UUID,
+  action TEXT,
+  changes JSONB,
+  changed_by UUID,
+  changed_by_name TEXT,
+  created_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  IF NOT is_question_admin() THEN
+    RAISE EXCEPTION 'Only admins can manage questions';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    l.id,
+    l.question_id,
+    l.action,
+    l.changes,
+    l.changed_by,
+    COALESCE(up.display_name, up.username)::TEXT,
+    l.created_at
+  FROM question_audit_log l
+  LEFT JOIN user_profiles up ON up.id = l.changed_by
+  WHERE l.question_id = p_question_id
+  ORDER BY l.created_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Grant execute permissions; each function checks for an admin itself
+GRANT EXECUTE ON FUNCTION search_questions(TEXT, TEXT, TEXT, INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION save_question(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_question_status(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_question_audit_log(UUID) TO authenticated;
+
+-- Redefine create_game so single-player games only draw approved questions
+CREATE OR REPLACE FUNCTION public.create_game(p_total_rounds integer, p_questions_per_round integer, p_selected_categories text[])
+ RETURNS TABLE(game_session_id uuid, questions jsonb)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+AS $function$
+DECLARE
+  v_user_id UUID;
+  v_session_id UUID;
+  v_total_questions INTEGER;
+  v_question_record RECORD;
+  v_questions_array JSONB := '[]'::jsonb;
+  v_answers TEXT[];
+  v_shuffled_answers JSONB;
+  v_question_order INTEGER := 1;
+  v_round_number INTEGER;
+  v_game_question_id UUID;
+  v_used_question_ids UUID[];
+  v_available_questions_count INTEGER;
+BEGIN
+  -- Get current user ID
+  v_user_id := auth.uid();
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  -- Calculate total questions needed
+  v_total_questions := p_total_rounds * p_questions_per_round;
+
+  -- Get all question IDs that this user has already used
+  SELECT ARRAY(
+    SELECT DISTINCT gq.question_id
+    FROM game_questions gq
+    JOIN game_sessions gs ON gq.game_session_id = gs.id
+    WHERE gs.user_id = v_user_id
+  ) INTO v_used_question_ids;
+
+  -- If no previous questions, initialize as empty array
+  IF v_used_question_ids IS NULL THEN
+    v_used_question_ids := ARRAY[]::UUID[];
+  END IF;
+
+  -- Check how many unused questions are available in selected categories
+  SELECT COUNT(*)
+  FROM questions
+  WHERE category = ANY(p_selected_categories)
+    AND status = 'approved'
+    AND id != ALL(v_used_question_ids)
+  INTO v_available_questions_count;
+
+  -- If not enough unused questions available, reset user's history for these categories
+  IF v_available_questions_count < v_total_questions THEN
+    RAISE NOTICE 'Not enough unused questions (% available, % needed). Resetting question history for selected categories.',
+      v_available_questions_count, v_total_questions;
+
+    -- Reset question history for the selected categories only
+    PERFORM reset_user_question_history(v_user_id, p_selected_categories);
+
+    -- Clear the used questions array since we just reset
+    v_used_question_ids := ARRAY[]::UUID[];
+
+    -- Recheck available questions count
+    SELECT COUNT(*)
+    FROM questions
+    WHERE category = ANY(p_selected_categories)
+    AND status = 'approved'
+    INTO v_available_questions_count;
+
+    -- If still not enough questions even after reset, raise error
+    IF v_available_questions_count < v_total_questions THEN
+      RAISE EXCEPTION 'Insufficient questions in selected categories. Available: %, Needed: %',
+        v_available_questions_count, v_total_questions;
+    END IF;
+  END IF;
+
+  -- Create game session
+  INSERT INTO game_sessions (
+    user_id,
+    status,
+    total_rounds,
+    questions_per_round,
+    selected_categories,
+    current_round,
+    current_question_index,
+    total_score
+  ) VALUES (
+    v_user_id,
+    'setup',
+    p_total_rounds,
+    p_questions_per_round,
+    p_selected_categories,
+    1,
+    0,
+    0
+  ) RETURNING id INTO v_session_id;
+
+  -- Get random questions from selected categories, excluding previously used ones
+  FOR v_question_record IN
+    SELECT id, question, category, a, b, c, d
+    FROM questions
+    WHERE category = ANY(p_selected_categories)
+      AND status = 'approved'
+      AND id != ALL(v_used_question_ids)  -- Exclude previously used questions
+    ORDER BY RANDOM()
+    LIMIT v_total_questions
+  LOOP
+    -- Calculate which round this question belongs to
+    v_round_number := ((v_question_order - 1) / p_questions_per_round) + 1;
+
+    -- Create shuffled answers array (a is always correct)
+    v_answers := ARRAY[v_question_record.a, v_question_record.b, v_question_record.c, v_question_record.d];
+    v_shuffled_answers := to_jsonb(
+      (SELECT array_agg(elem ORDER BY random())
+       FROM unnest(v_answers) AS elem)
+    );
+
+    -- Insert game question record and get the game_question_id
+    INSERT INTO game_questions (
+      game_session_id,
+      question_id,
+      question_order,
+      round_number,
+      presented_answers,
+      correct_answer,
+      points_awarded
+    ) VALUES (
+      v_session_id,
+      v_question_record.id,
+      v_question_order,
+      v_round_number,
+      v_shuffled_answers,
+      v_question_record.a,  -- Correct answer is always 'a'
+      0  -- No points awarded yet
+    ) RETURNING id INTO v_game_question_id;
+
+    -- Build questions array for return - use game_question_id as the id field
+    v_questions_array := v_questions_array || jsonb_build_object(
+      'id', v_game_question_id,  -- This is the key fix - return game_question_id, not question_id
+      'question', v_question_record.question,
+      'category', v_question_record.category,
+      'answers', v_shuffled_answers,
+      'question_order', v_question_order,
+      'round_number', v_round_number
+    );
+
+    v_question_order := v_question_order + 1;
+  END LOOP;
+
+  -- Check if we got enough questions (this should not happen given our validation above)
+  IF jsonb_array_length(v_questions_array) < v_total_questions THEN
+    RAISE EXCEPTION 'Failed to get enough questions. Needed %, got %',
+      v_total_questions, jsonb_array_length(v_questions_array);
+  END IF;
+
+  -- Return the session ID and questions
+  RETURN QUERY SELECT v_session_id, v_questions_array;
+END;
+$function$;
+
+-- Redefine get_available_questions_for_host so hosts only draw approved questions
+CREATE OR REPLACE FUNCTION get_available_questions_for_host(
+  p_host_id UUID,
+  p_categories TEXT[],
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  question_id UUID,
+  category TEXT,
+  question TEXT,
+  a TEXT,
+  b TEXT,
+  c TEXT,
+  d TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    q.id,
+    q.category,
+    q.question,
+    q.a,
+    q.b,
+    q.c,
+    q.d
+  FROM questions q
+  WHERE
+    q.category = ANY(p_categories)
+    AND q.status = 'approved'
+    AND q.id NOT IN (
+      SELECT huq.question_id
+      FROM host_used_questions huq
+      WHERE huq.host_id = p_host_id
+    )
+  ORDER BY RANDOM()
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Redefine use_lifeline so a skip only swaps in an approved question
+CREATE OR REPLACE FUNCTION use_lifeline(
+  p_game_question_id UUID,
+  p_lifeline TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session_id UUID;
+  v_session game_sessions%ROWTYPE;
+  v_question game_questions%ROWTYPE;
+  v_replacement RECORD;
+  v_removed JSONB;
+  v_remaining INTEGER;
+  v_prompt RECORD;
+BEGIN
+  IF p_lifeline NOT IN ('fifty_fifty', 'skip', 'extra_time') THEN
+    RAISE EXCEPTION 'Unknown lifeline: %', p_lifeline;
+  END IF;
+
+  SELECT game_session_id INTO v_session_id FROM game_questions WHERE id = p_game_question_id;
+
+  IF v_session_id IS NULL THEN
+    RAISE EXCEPTION 'Game question not found';
+  END IF;
+
+  -- Lock in the same order as validate_answer so a lifeline and an answer
+  -- for the same question can't interleave
+  SELECT * INTO v_session
+  FROM game_sessions
+  WHERE id = v_session_id
+  FOR UPDATE;
+
+  SELECT * INTO v_question
+  FROM game_questions
+  WHERE id = p_game_question_id
+  FOR UPDATE;
+
+  IF v_session.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Game question not found';
+  END IF;
+
+  IF v_session.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Game is not in progress';
+  END IF;
+
+  IF v_question.answered_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Question has already been answered';
+  END IF;
+
+  IF v_question.question_order <> v_session.current_question_index + 1 THEN
+    RAISE EXCEPTION 'Lifelines can only be used on the current question';
+  END IF;
+
+  v_remaining := (v_session.lifelines_remaining->>p_lifeline)::INTEGER;
+  IF v_remaining < 1 THEN
+    RAISE EXCEPTION 'No % lifelines left', replace(p_lifeline, '_', ' ');
+  END IF;
+
+  IF p_lifeline = 'fifty_fifty' THEN
+    IF v_question.fifty_fifty_used THEN
+      RAISE EXCEPTION '50/50 has already been used on this question';
+    END IF;
+
+    -- Remove two wrong answers at random
+    SELECT jsonb_agg(answer) INTO v_removed
+    FROM (
+      SELECT answer
+      FROM jsonb_array_elements_text(v_question.presented_answers) AS answer
+      WHERE answer <> v_question.correct_answer
+      ORDER BY random()
+      LIMIT 2
+    ) wrong_answers;
+
+    UPDATE game_questions
+    SET fifty_fifty_used = true, removed_answers = v_removed
+    WHERE id = v_question.id;
+
+  ELSIF p_lifeline = 'skip' THEN
+    IF v_question.skipped_question_id IS NOT NULL THEN
+      RAISE EXCEPTION 'This question has already been skipped';
+    END IF;
+
+    -- Prefer a question the player has never seen, then any question not in this game
+    SELECT q.id, q.a, q.b, q.c, q.d INTO v_replacement
+    FROM questions q
+    WHERE q.category = (SELECT category FROM questions WHERE id = v_question.question_id)
+      AND q.status = 'approved'
+      AND q.id NOT IN (
+        SELECT question_id FROM game_questions WHERE game_session_id = v_session.id
+      )
+    ORDER BY
+      EXISTS (
+        SELECT 1
+        FROM game_questions gq
+        JOIN game_sessions gs ON gs.id = gq.game_session_id
+        WHERE gs.user_id = v_session.user_id AND gq.question_id = q.id
+      ),
+      random()
+    LIMIT 1;
+
+    IF v_replacement.id IS NULL THEN
+      RAISE EXCEPTION 'No other questions are available in this category';
+    END IF;
+
+    -- Answer a is always the correct one
+    UPDATE game_questions
+    SET
+      question_id = v_replacement.id,
+      correct_answer = v_replacement.a,
+      presented_answers = (
+        SELECT jsonb_agg(answer ORDER BY random())
+        FROM unnest(ARRAY[v_replacement.a, v_replacement.b, v_replacement.c, v_replacement.d]) AS answer
+      ),
+      skipped_question_id = v_question.question_id,
+      removed_answers = NULL,
+      extra_time_seconds = 0
+    WHERE id = v_question.id;
+
+    -- The replacement question starts with a fresh clock
+    UPDATE game_sessions SET question_elapsed_ms = 0 WHERE id = v_session.id;
+
+  ELSE
+    IF v_session.question_time_limit_seconds IS NULL THEN
+      RAISE EXCEPTION 'Extra time needs a question time limit';
+    END IF;
+
+    IF v_question.extra_time_used THEN
+      RAISE EXCEPTION 'Extra time has already been used on this question';
+    END IF;
+
+    UPDATE game_questions
+    SET extra_time_used = true, extra_time_seconds = 15
+    WHERE id = v_question.id;
+  END IF;
+
+  UPDATE game_sessions
+  SET lifelines_remaining = jsonb_set(lifelines_remaining, ARRAY[p_lifeline], to_jsonb(v_remaining - 1))
+  WHERE id = v_session.id
+  RETURNING * INTO v_session;
+
+  SELECT gq.*, q.question, q.category INTO v_prompt
+  FROM game_questions gq
+  JOIN questions q ON q.id = gq.question_id
+  WHERE gq.id = v_question.id;
+
+  RETURN jsonb_build_object(
+    'lifeline', p_lifeline,
+    'question', jsonb_build_object(
+      'id', v_prompt.id,
+      'question', v_prompt.question,
+      'category', v_prompt.category,
+      'answers', v_prompt.presented_answers,
+      'round_number', v_prompt.round_number,
+      'question_number', v_prompt.question_order,
+      'total_questions', v_session.total_rounds * v_session.questions_per_round,
+      'removed_answers', COALESCE(v_prompt.removed_answers, '[]'::jsonb),
+      'extra_time_seconds', v_prompt.extra_time_seconds
+    ),
+    'lifelines_remaining', v_session.lifelines_remaining
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,354 @@
+-- Migration: Player question reports and dispute resolution
+-- Purpose: Let players report questions during play, give admins a queue to
+-- review them, and re-score past answers when a question's answer was wrong
+
+-- Create question_reports table
+-- A report points at the game or round question it was made from, so the
+-- admin can see where it came up
+CREATE TABLE question_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  question_id UUID NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+  reported_by UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  game_question_id UUID REFERENCES game_questions(id) ON DELETE SET NULL,
+  round_question_id UUID REFERENCES round_questions(id) ON DELETE SET NULL,
+  reason TEXT NOT NULL,
+  comment TEXT,
+  status TEXT DEFAULT 'open' NOT NULL,
+  resolution TEXT,
+  resolution_note TEXT,
+  resolved_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  -- Constraints
+  CONSTRAINT valid_report_reason CHECK (reason IN ('wrong_answer', 'ambiguous', 'outdated', 'offensive')),
+  CONSTRAINT valid_report_comment CHECK (comment IS NULL OR LENGTH(comment) <= 500),
+  CONSTRAINT valid_report_status CHECK (status IN ('open', 'resolved', 'dismissed')),
+  CONSTRAINT valid_report_resolution CHECK (
+    (status = 'open' AND resolution IS NULL AND resolved_at IS NULL) OR
+    (status = 'resolved' AND resolution IN ('answer_was_wrong', 'fixed') AND resolved_at IS NOT NULL) OR
+    (status = 'dismissed' AND resolution = 'dismissed' AND resolved_at IS NOT NULL)
+  )
+);
+
+-- One open report per player per question; reporting again updates it
+CREATE UNIQUE INDEX idx_question_reports_open_per_player
+  ON question_reports(question_id, reported_by)
+  WHERE status = 'open';
+
+CREATE INDEX idx_question_reports_status ON question_reports(status, created_at);
+
+-- Reports are written and read through the functions below
+ALTER TABLE question_reports ENABLE ROW LEVEL SECURITY;
+
+-- Players can see their own reports
+CREATE POLICY "Users can view own question reports"
+ON question_reports
+FOR SELECT
+USING (reported_by = auth.uid());
+
+-- Function to report the question a player is being asked
+-- Takes a single-player game question or a hosted round question
+CREATE OR REPLACE FUNCTION report_question(
+  p_reason TEXT,
+  p_comment TEXT DEFAULT NULL,
+  p_game_question_id UUID DEFAULT NULL,
+  p_round_question_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_question_id UUID;
+  v_report_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  IF (p_game_question_id IS NULL) = (p_round_question_id IS NULL) THEN
+    RAISE EXCEPTION 'Report either a game question or a round question';
+  END IF;
+
+  IF p_game_question_id IS NOT NULL THEN
+    SELECT gq.question_id INTO v_question_id
+    FROM game_questions gq
+    JOIN game_sessions gs ON gs.id = gq.game_session_id
+    WHERE gq.id = p_game_question_id AND gs.user_id = v_user_id;
+  ELSE
+    -- Players on a team in the game and the host can report its questions
+    SELECT rq.question_id INTO v_question_id
+    FROM round_questions rq
+    JOIN rounds r ON r.id = rq.round_id
+    JOIN games g ON g.id = r.game_id
+    WHERE rq.id = p_round_question_id
+      AND (
+        g.host_id = v_user_id OR
+        EXISTS (
+          SELECT 1
+          FROM team_players tp
+          JOIN teams t ON t.id = tp.team_id
+          WHERE t.game_id = g.id AND tp.player_id = v_user_id
+        )
+      );
+  END IF;
+
+  IF v_question_id IS NULL THEN
+    RAISE EXCEPTION 'Question not found';
+  END IF;
+
+  INSERT INTO question_reports (question_id, reported_by, game_question_id, round_question_id, reason, comment)
+  VALUES (v_question_id, v_user_id, p_game_question_id, p_round_question_id, p_reason, NULLIF(TRIM(p_comment), ''))
+  ON CONFLICT (question_id, reported_by) WHERE status = 'open'
+  DO UPDATE SET reason = EXCLUDED.reason, comment = EXCLUDED.comment
+  RETURNING id INTO v_report_id;
+
+  RETURN v_report_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to list reported questions for review, most reported first
+-- Each dispute is a question, answers included, with its reports
+CREATE OR REPLACE FUNCTION get_question_disputes(p_status TEXT DEFAULT 'open')
+RETURNS JSONB AS $$
+BEGIN
+  IF NOT is_question_admin() THEN
+    RAISE EXCEPTION 'Only admins can manage questions';
+  END IF;
+
+  RETURN COALESCE((
+    SELECT jsonb_agg(dispute ORDER BY (dispute->>'report_count')::INTEGER DESC, dispute->>'last_reported_at' DESC)
+    FROM (
+      SELECT jsonb_build_object(
+        'question', to_jsonb(q),
+        'report_count', COUNT(*),
+        'last_reported_at', MAX(qr.created_at),
+        'reports', jsonb_agg(
+          jsonb_build_object(
+            'id', qr.id,
+            'question_id', qr.question_id,
+            'reason', qr.reason,
+            'comment', qr.comment,
+            'reported_by', qr.reported_by,
+            'reporter_name', COALESCE(up.display_name, up.username),
+            'game_question_id', qr.game_question_id,
+            'round_question_id', qr.round_question_id,
+            'status', qr.status,
+            'resolution', qr.resolution,
+            'resolution_note', qr.resolution_note,
+            'resolved_at', qr.resolved_at,
+            'created_at', qr.created_at
+          )
+          ORDER BY qr.created_at
+        )
+      ) AS dispute
+      FROM question_reports qr
+      JOIN questions q ON q.id = qr.question_id
+      LEFT JOIN user_profiles up ON up.id = qr.reported_by
+      WHERE qr.status = p_status
+      GROUP BY q.id
+    ) disputes
+  ), '[]'::jsonb);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Let re-scoring change whether an answer was correct, but only together
+-- with the correct answer itself; answers stay final otherwise
+CREATE OR REPLACE FUNCTION prevent_game_answer_overwrite()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.answered_at IS NOT NULL AND (
+    NEW.user_answer IS DISTINCT FROM OLD.user_answer OR
+    NEW.timed_out IS DISTINCT FROM OLD.timed_out OR
+    (NEW.is_correct IS DISTINCT FROM OLD.is_correct AND NEW.correct_answer IS NOT DISTINCT FROM OLD.correct_answer)
+  ) THEN
+    RAISE EXCEPTION 'Question has already been answered';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to close a question's open reports
+-- 'answer_was_wrong' makes p_correct_answer (one of the wrong choices) the
+-- question's answer. Games still being played use it from now on, and with
+-- p_rescore past single-player and team answers are re-scored too:
+-- - single-player answers earn 1 point when now correct, unless a lifeline helped
+-- - team answers earn the game's correct or incorrect points and round multiplier,
+--   or win or lose their wager; newly correct answers get no speed bonus, since
+--   when answering opened isn't kept once the round moves on
+-- Session and team totals are recomputed from the re-scored answers
+CREATE OR REPLACE FUNCTION resolve_question_reports(
+  p_question_id UUID,
+  p_resolution TEXT,
+  p_correct_answer TEXT DEFAULT NULL,
+  p_rescore BOOLEAN DEFAULT false,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_question questions%ROWTYPE;
+  v_old_answer TEXT;
+  v_new_answer TEXT;
+  v_resolved INTEGER := 0;
+  v_game_question_ids UUID[] := ARRAY[]::UUID[];
+  v_session_ids UUID[] := ARRAY[]::UUID[];
+  v_team_ids UUID[] := ARRAY[]::UUID[];
+  v_team_answers INTEGER := 0;
+  v_answer RECORD;
+  v_base INTEGER;
+BEGIN
+  IF NOT is_question_admin() THEN
+    RAISE EXCEPTION 'Only admins can manage questions';
+  END IF;
+
+  IF p_resolution NOT IN ('answer_was_wrong', 'fixed', 'dismissed') THEN
+    RAISE EXCEPTION 'Unknown resolution: %', p_resolution;
+  END IF;
+
+  SELECT * INTO v_question FROM questions WHERE id = p_question_id FOR UPDATE;
+
+  IF v_question.id IS NULL THEN
+    RAISE EXCEPTION 'Question not found';
+  END IF;
+
+  IF p_resolution = 'answer_was_wrong' THEN
+    v_old_answer := v_question.a;
+    v_new_answer := TRIM(p_correct_answer);
+
+    IF v_new_answer IS NULL OR v_new_answer NOT IN (v_question.b, v_question.c, v_question.d) THEN
+      RAISE EXCEPTION 'The correct answer must be one of the question''s other choices';
+    END IF;
+
+    -- Answer a is always the correct one, so swap it with the chosen choice
+    UPDATE questions
+    SET
+      a = v_new_answer,
+      b = CASE WHEN b = v_new_answer THEN v_old_answer ELSE b END,
+      c = CASE WHEN c = v_new_answer THEN v_old_answer ELSE c END,
+      d = CASE WHEN d = v_new_answer THEN v_old_answer ELSE d END,
+      updated_at = NOW()
+    WHERE id = p_question_id;
+
+    -- Single-player answers whose correctness changes
+    IF p_rescore THEN
+      SELECT
+        COALESCE(array_agg(id), ARRAY[]::UUID[]),
+        COALESCE(array_agg(DISTINCT game_session_id), ARRAY[]::UUID[])
+      INTO v_game_question_ids, v_session_ids
+      FROM game_questions
+      WHERE question_id = p_question_id
+        AND answered_at IS NOT NULL
+        AND is_correct IS DISTINCT FROM COALESCE(user_answer = v_new_answer, false);
+    END IF;
+
+    -- Unanswered questions always take the new answer; answered ones only when re-scored.
+    -- A 50/50 that removed the new answer removes the old one instead.
+    UPDATE game_questions
+    SET
+      correct_answer = v_new_answer,
+      removed_answers = CASE
+        WHEN removed_answers ? v_new_answer THEN (removed_answers - v_new_answer) || to_jsonb(v_old_answer)
+        ELSE removed_answers
+      END,
+      is_correct = CASE WHEN id = ANY(v_game_question_ids) THEN NOT is_correct ELSE is_correct END,
+      points_awarded = CASE
+        WHEN id <> ALL(v_game_question_ids) THEN points_awarded
+        WHEN NOT is_correct AND removed_answers IS NULL AND extra_time_seconds = 0 THEN 1
+        ELSE 0
+      END
+    WHERE question_id = p_question_id
+      AND (answered_at IS NULL OR id = ANY(v_game_question_ids));
+
+    UPDATE game_sessions gs
+    SET total_score = (
+      SELECT COALESCE(SUM(points_awarded), 0)
+      FROM game_questions
+      WHERE game_session_id = gs.id
+    )
+    WHERE gs.id = ANY(v_session_ids);
+
+    -- Round questions keep their shuffle; only the correct letter moves
+    UPDATE round_questions
+    SET correct_answer = (
+      SELECT chr(ascii('A') + answer.position::INTEGER - 1)
+      FROM jsonb_array_elements_text(presented_answers) WITH ORDINALITY AS answer(value, position)
+      WHERE answer.value = v_new_answer
+    )
+    WHERE question_id = p_question_id;
+
+    IF p_rescore THEN
+      FOR v_answer IN
+        SELECT
+          ta.id,
+          ta.team_id,
+          ta.answer = rq.correct_answer AS is_correct,
+          ta.wager,
+          r.round_number,
+          g.scoring_rules
+        FROM team_answers ta
+        JOIN round_questions rq ON rq.id = ta.round_question_id
+        JOIN rounds r ON r.id = rq.round_id
+        JOIN games g ON g.id = r.game_id
+        WHERE rq.question_id = p_question_id
+          AND ta.is_correct IS DISTINCT FROM (ta.answer = rq.correct_answer)
+      LOOP
+        IF v_answer.wager IS NOT NULL THEN
+          UPDATE team_answers
+          SET
+            is_correct = v_answer.is_correct,
+            points_earned = CASE WHEN v_answer.is_correct THEN v_answer.wager ELSE -v_answer.wager END
+          WHERE id = v_answer.id;
+        ELSE
+          v_base := ROUND(
+            CASE WHEN v_answer.is_correct
+              THEN (v_answer.scoring_rules->>'correct_points')::INTEGER
+              ELSE (v_answer.scoring_rules->>'incorrect_points')::INTEGER
+            END * COALESCE((v_answer.scoring_rules->'round_multipliers'->>v_answer.round_number::TEXT)::NUMERIC, 1)
+          );
+
+          UPDATE team_answers
+          SET is_correct = v_answer.is_correct, base_points = v_base, speed_bonus = 0, points_earned = v_base
+          WHERE id = v_answer.id;
+        END IF;
+
+        v_team_answers := v_team_answers + 1;
+        IF NOT v_answer.team_id = ANY(v_team_ids) THEN
+          v_team_ids := array_append(v_team_ids, v_answer.team_id);
+        END IF;
+      END LOOP;
+
+      UPDATE teams t
+      SET current_score = (
+        SELECT COALESCE(SUM(points_earned), 0)
+        FROM team_answers
+        WHERE team_id = t.id
+      )
+      WHERE t.id = ANY(v_team_ids);
+    END IF;
+  END IF;
+
+  UPDATE question_reports
+  SET
+    status = CASE WHEN p_resolution = 'dismissed' THEN 'dismissed' ELSE 'resolved' END,
+    resolution = p_resolution,
+    resolution_note = NULLIF(TRIM(p_note), ''),
+    resolved_by = auth.uid(),
+    resolved_at = NOW()
+  WHERE question_id = p_question_id AND status = 'open';
+
+  GET DIAGNOSTICS v_resolved = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'resolved_reports', v_resolved,
+    'rescored_game_questions', COALESCE(array_length(v_game_question_ids, 1), 0),
+    'rescored_team_answers', v_team_answers,
+    'updated_sessions', COALESCE(array_length(v_session_ids, 1), 0),
+    'updated_teams', COALESCE(array_length(v_team_ids, 1), 0)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION report_question(TEXT, TEXT, UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_question_disputes(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION resolve_question_reports(UUID, TEXT, TEXT, BOOLEAN, TEXT) TO authenticated;
@@ -0,0 +1,100 @@
+-- Migration: Question difficulty from answer history
+-- Purpose: Rate how hard each question is from how often, and how quickly,
+-- players have answered it correctly
+
+-- Add the rating and the answer statistics it is based on
+-- difficulty runs from 0 (easy) to 1 (hard) and stays NULL until a question
+-- has enough answers to rate
+ALTER TABLE questions
+ADD COLUMN difficulty NUMERIC(4, 3),
+ADD COLUMN correct_rate NUMERIC(4, 3),
+ADD COLUMN average_time_ms INTEGER,
+ADD COLUMN answer_count INTEGER DEFAULT 0 NOT NULL,
+ADD COLUMN difficulty_updated_at TIMESTAMPTZ,
+ADD CONSTRAINT valid_difficulty CHECK (difficulty IS NULL OR difficulty BETWEEN 0 AND 1),
+ADD CONSTRAINT valid_correct_rate CHECK (correct_rate IS NULL OR correct_rate BETWEEN 0 AND 1);
+
+CREATE INDEX idx_questions_category_difficulty ON questions(category, difficulty) WHERE status = 'approved';
+
+-- The statistics don't give answers away, so players and hosts can read them
+GRANT SELECT (difficulty, correct_rate, average_time_ms, answer_count, difficulty_updated_at) ON questions TO authenticated;
+
+-- Function to recompute every question's difficulty from the answers so far
+-- Single-player answers count toward the correct rate and the average time;
+-- team answers only toward the correct rate, since when a team saw the
+-- question isn't kept. Timeouts are wrong answers but have no answer time.
+-- Difficulty is mostly the share of wrong answers, plus up to 0.2 for answers
+-- that take up to 30 seconds
+CREATE OR REPLACE FUNCTION refresh_question_difficulty(p_min_answers INTEGER DEFAULT 5)
+RETURNS INTEGER AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  WITH answers AS (
+    SELECT
+      gq.question_id,
+      gq.is_correct,
+      CASE WHEN gq.timed_out THEN NULL ELSE gq.time_to_answer_ms END AS time_ms
+    FROM game_questions gq
+    WHERE gq.answered_at IS NOT NULL
+
+    UNION ALL
+
+    SELECT rq.question_id, ta.is_correct, NULL
+    FROM team_answers ta
+    JOIN round_questions rq ON rq.id = ta.round_question_id
+  ),
+  stats AS (
+    SELECT
+      question_id,
+      COUNT(*) AS answer_count,
+      AVG(CASE WHEN is_correct THEN 1 ELSE 0 END) AS correct_rate,
+      AVG(time_ms) AS average_time_ms
+    FROM answers
+    GROUP BY question_id
+  ),
+  rated AS (
+    SELECT
+      q.id,
+      COALESCE(s.answer_count, 0) AS answer_count,
+      ROUND(s.correct_rate, 3) AS correct_rate,
+      ROUND(s.average_time_ms)::INTEGER AS average_time_ms,
+      CASE
+        WHEN COALESCE(s.answer_count, 0) < p_min_answers THEN NULL
+        WHEN s.average_time_ms IS NULL THEN ROUND(1 - s.correct_rate, 3)
+        ELSE ROUND(0.8 * (1 - s.correct_rate) + 0.2 * LEAST(s.average_time_ms / 30000.0, 1), 3)
+      END AS difficulty
+    FROM questions q
+    LEFT JOIN stats s ON s.question_id = q.id
+  )
+  UPDATE questions q
+  SET
+    answer_count = rated.answer_count,
+    correct_rate = rated.correct_rate,
+    average_time_ms = rated.average_time_ms,
+    difficulty = rated.difficulty,
+    difficulty_updated_at = now()
+  FROM rated
+  WHERE rated.id = q.id
+    AND (q.answer_count, q.correct_rate, q.average_time_ms, q.difficulty)
+      IS DISTINCT FROM (rated.answer_count, rated.correct_rate, rated.average_time_ms, rated.difficulty);
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Refreshing scans every answer, so it runs as a job rather than for players:
+-- nightly with pg_cron where it's enabled, or with `npm run questions -- difficulty`
+REVOKE EXECUTE ON FUNCTION refresh_question_difficulty(INTEGER) FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('refresh-question-difficulty', '15 4 * * *', 'SELECT refresh_question_difficulty()');
+  END IF;
+END;
+$$;
+
+-- Rate questions from the answers already given
+SELECT refresh_question_difficulty();
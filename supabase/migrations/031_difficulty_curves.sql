@@ -0,0 +1,416 @@
+-- Migration: Difficulty-balanced round generation
+-- Purpose: Pick each round's questions to follow a difficulty curve across the
+-- game and spread the selected categories evenly, and let hosts preview and
+-- swap planned questions before the game starts
+
+-- Add the curve to both kinds of game
+-- 'flat' keeps every round medium, 'ramp' gets harder each round, and
+-- 'warm_up' opens with an easy round and ends with a hard one
+ALTER TABLE games
+ADD COLUMN difficulty_curve TEXT DEFAULT 'flat' NOT NULL,
+ADD CONSTRAINT valid_game_difficulty_curve CHECK (difficulty_curve IN ('flat', 'ramp', 'warm_up'));
+
+ALTER TABLE game_sessions
+ADD COLUMN difficulty_curve TEXT DEFAULT 'flat' NOT NULL,
+ADD CONSTRAINT valid_session_difficulty_curve CHECK (difficulty_curve IN ('flat', 'ramp', 'warm_up'));
+
+GRANT INSERT (difficulty_curve) ON game_sessions TO authenticated;
+
+-- Function to get the difficulty a round aims for
+-- Mirrored by getCurveTarget in src/lib/difficulty.ts
+CREATE OR REPLACE FUNCTION difficulty_curve_target(
+  p_curve TEXT,
+  p_round_number INTEGER,
+  p_total_rounds INTEGER
+)
+RETURNS NUMERIC AS $$
+BEGIN
+  IF p_total_rounds <= 1 OR p_curve = 'flat' THEN
+    RETURN 0.5;
+  ELSIF p_curve = 'ramp' THEN
+    RETURN ROUND(0.25 + 0.5 * (p_round_number - 1) / (p_total_rounds - 1)::NUMERIC, 3);
+  ELSIF p_round_number = 1 THEN
+    RETURN 0.25;
+  ELSIF p_round_number = p_total_rounds THEN
+    RETURN 0.75;
+  END IF;
+
+  RETURN 0.5;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Function to pick one round's questions, in the order they'll be asked
+-- Within each category, questions closest to the target difficulty come first,
+-- with a little randomness so repeated plans differ; unrated questions count
+-- as medium. Categories that already have questions in p_picked (the rest of
+-- the game so far) go last, so categories even out across rounds.
+CREATE OR REPLACE FUNCTION pick_balanced_questions(
+  p_categories TEXT[],
+  p_excluded UUID[],
+  p_picked UUID[],
+  p_target NUMERIC,
+  p_count INTEGER
+)
+RETURNS UUID[] AS $$
+BEGIN
+  RETURN ARRAY(
+    SELECT ranked.id
+    FROM (
+      SELECT
+        q.id,
+        q.category,
+        ROW_NUMBER() OVER (
+          PARTITION BY q.category
+          ORDER BY ABS(COALESCE(q.difficulty, 0.5) - p_target) + random() * 0.1
+        ) AS category_rank
+      FROM questions q
+      WHERE q.category = ANY(p_categories)
+        AND q.status = 'approved'
+        AND q.id <> ALL(p_excluded)
+        AND q.id <> ALL(p_picked)
+    ) ranked
+    LEFT JOIN (
+      SELECT category, COUNT(*) AS picked_count
+      FROM questions
+      WHERE id = ANY(p_picked)
+      GROUP BY category
+    ) picked ON picked.category = ranked.category
+    ORDER BY ranked.category_rank + COALESCE(picked.picked_count, 0), random()
+    LIMIT p_count
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION pick_balanced_questions(TEXT[], UUID[], UUID[], NUMERIC, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Redefine create_game to pick each round along the session's difficulty curve
+-- The new parameter changes the signature, so the old function is dropped first
+DROP FUNCTION IF EXISTS public.create_game(integer, integer, text[]);
+
+CREATE OR REPLACE FUNCTION public.create_game(
+  p_total_rounds integer,
+  p_questions_per_round integer,
+  p_selected_categories text[],
+  p_difficulty_curve text DEFAULT 'flat'
+)
+ RETURNS TABLE(game_session_id uuid, questions jsonb)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+AS $function$
+DECLARE
+  v_user_id UUID;
+  v_session_id UUID;
+  v_total_questions INTEGER;
+  v_question_record RECORD;
+  v_questions_array JSONB := '[]'::jsonb;
+  v_answers TEXT[];
+  v_shuffled_answers JSONB;
+  v_question_order INTEGER := 1;
+  v_round_number INTEGER;
+  v_round_question_ids UUID[];
+  v_picked_question_ids UUID[] := ARRAY[]::UUID[];
+  v_game_question_id UUID;
+  v_used_question_ids UUID[];
+  v_available_questions_count INTEGER;
+BEGIN
+  -- Get current user ID
+  v_user_id := auth.uid();
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  IF p_difficulty_curve NOT IN ('flat', 'ramp', 'warm_up') THEN
+    RAISE EXCEPTION 'Unknown difficulty curve: %', p_difficulty_curve;
+  END IF;
+
+  -- Calculate total questions needed
+  v_total_questions := p_total_rounds * p_questions_per_round;
+
+  -- Get all question IDs that this user has already used
+  SELECT ARRAY(
+    SELECT DISTINCT gq.question_id
+    FROM game_questions gq
+    JOIN game_sessions gs ON gq.game_session_id = gs.id
+    WHERE gs.user_id = v_user_id
+  ) INTO v_used_question_ids;
+
+  -- If no previous questions, initialize as empty array
+  IF v_used_question_ids IS NULL THEN
+    v_used_question_ids := ARRAY[]::UUID[];
+  END IF;
+
+  -- Check how many unused questions are available in selected categories
+  SELECT COUNT(*)
+  FROM questions
+  WHERE category = ANY(p_selected_categories)
+    AND status = 'approved'
+    AND id != ALL(v_used_question_ids)
+  INTO v_available_questions_count;
+
+  -- If not enough unused questions available, reset user's history for these categories
+  IF v_available_questions_count < v_total_questions THEN
+    RAISE NOTICE 'Not enough unused questions (% available, % needed). Resetting question history for selected categories.',
+      v_available_questions_count, v_total_questions;
+
+    -- Reset question history for the selected categories only
+    PERFORM reset_user_question_history(v_user_id, p_selected_categories);
+
+    -- Clear the used questions array since we just reset
+    v_used_question_ids := ARRAY[]::UUID[];
+
+    -- Recheck available questions count
+    SELECT COUNT(*)
+    FROM questions
+    WHERE category = ANY(p_selected_categories)
+    AND status = 'approved'
+    INTO v_available_questions_count;
+
+    -- If still not enough questions even after reset, raise error
+    IF v_available_questions_count < v_total_questions THEN
+      RAISE EXCEPTION 'Insufficient questions in selected categories. Available: %, Needed: %',
+        v_available_questions_count, v_total_questions;
+    END IF;
+  END IF;
+
+  -- Create game session
+  INSERT INTO game_sessions (
+    user_id,
+    status,
+    total_rounds,
+    questions_per_round,
+    selected_categories,
+    difficulty_curve,
+    current_round,
+    current_question_index,
+    total_score
+  ) VALUES (
+    v_user_id,
+    'setup',
+    p_total_rounds,
+    p_questions_per_round,
+    p_selected_categories,
+    p_difficulty_curve,
+    1,
+    0,
+    0
+  ) RETURNING id INTO v_session_id;
+
+  -- Pick each round's questions for its point on the curve, excluding previously used ones
+  FOR v_round_number IN 1..p_total_rounds LOOP
+    v_round_question_ids := pick_balanced_questions(
+      p_selected_categories,
+      v_used_question_ids,
+      v_picked_question_ids,
+      difficulty_curve_target(p_difficulty_curve, v_round_number, p_total_rounds),
+      p_questions_per_round
+    );
+    v_picked_question_ids := v_picked_question_ids || v_round_question_ids;
+
+    FOR v_question_record IN
+      SELECT q.id, q.question, q.category, q.a, q.b, q.c, q.d
+      FROM unnest(v_round_question_ids) WITH ORDINALITY AS picked(question_id, position)
+      JOIN questions q ON q.id = picked.question_id
+      ORDER BY picked.position
+    LOOP
+      -- Create shuffled answers array (a is always correct)
+      v_answers := ARRAY[v_question_record.a, v_question_record.b, v_question_record.c, v_question_record.d];
+      v_shuffled_answers := to_jsonb(
+        (SELECT array_agg(elem ORDER BY random())
+         FROM unnest(v_answers) AS elem)
+      );
+
+      -- Insert game question record and get the game_question_id
+      INSERT INTO game_questions (
+        game_session_id,
+        question_id,
+        question_order,
+        round_number,
+        presented_answers,
+        correct_answer,
+        points_awarded
+      ) VALUES (
+        v_session_id,
+        v_question_record.id,
+        v_question_order,
+        v_round_number,
+        v_shuffled_answers,
+        v_question_record.a,  -- Correct answer is always 'a'
+        0  -- No points awarded yet
+      ) RETURNING id INTO v_game_question_id;
+
+      -- Build questions array for return - use game_question_id as the id field
+      v_questions_array := v_questions_array || jsonb_build_object(
+        'id', v_game_question_id,
+        'question', v_question_record.question,
+        'category', v_question_record.category,
+        'answers', v_shuffled_answers,
+        'question_order', v_question_order,
+        'round_number', v_round_number
+      );
+
+      v_question_order := v_question_order + 1;
+    END LOOP;
+  END LOOP;
+
+  -- Check if we got enough questions (this should not happen given our validation above)
+  IF jsonb_array_length(v_questions_array) < v_total_questions THEN
+    RAISE EXCEPTION 'Failed to get enough questions. Needed %, got %',
+      v_total_questions, jsonb_array_length(v_questions_array);
+  END IF;
+
+  -- Return the session ID and questions
+  RETURN QUERY SELECT v_session_id, v_questions_array;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.create_game(integer, integer, text[], text) TO authenticated;
+
+-- Function to plan a hosted game's rounds before it starts
+-- Replaces any earlier plan, so hosts can regenerate after changing the curve.
+-- Planned questions count as used by the host straight away, so other games
+-- being set up don't draw them; replacing a plan releases its questions.
+CREATE OR REPLACE FUNCTION plan_game_rounds(p_game_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_game games%ROWTYPE;
+  v_excluded UUID[];
+  v_picked UUID[] := ARRAY[]::UUID[];
+  v_round_question_ids UUID[];
+  v_round_id UUID;
+  v_round_number INTEGER;
+BEGIN
+  SELECT * INTO v_game FROM games WHERE id = p_game_id FOR UPDATE;
+
+  IF v_game.id IS NULL THEN
+    RAISE EXCEPTION 'Game not found';
+  END IF;
+
+  IF v_game.host_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the host can plan rounds';
+  END IF;
+
+  IF v_game.status <> 'setup' THEN
+    RAISE EXCEPTION 'Rounds can only be planned before the game starts';
+  END IF;
+
+  DELETE FROM host_used_questions
+  WHERE host_id = v_game.host_id
+    AND question_id IN (
+      SELECT rq.question_id
+      FROM round_questions rq
+      JOIN rounds r ON r.id = rq.round_id
+      WHERE r.game_id = p_game_id
+    );
+
+  DELETE FROM rounds WHERE game_id = p_game_id;
+
+  SELECT ARRAY(
+    SELECT question_id FROM host_used_questions WHERE host_id = v_game.host_id
+  ) INTO v_excluded;
+
+  FOR v_round_number IN 1..v_game.total_rounds LOOP
+    v_round_question_ids := pick_balanced_questions(
+      v_game.selected_categories,
+      v_excluded,
+      v_picked,
+      difficulty_curve_target(v_game.difficulty_curve, v_round_number, v_game.total_rounds),
+      v_game.questions_per_round
+    );
+
+    IF COALESCE(array_length(v_round_question_ids, 1), 0) < v_game.questions_per_round THEN
+      RAISE EXCEPTION 'Not enough available questions. Need %, found %',
+        v_game.total_rounds * v_game.questions_per_round,
+        COALESCE(array_length(v_picked, 1), 0) + COALESCE(array_length(v_round_question_ids, 1), 0);
+    END IF;
+
+    INSERT INTO rounds (game_id, round_number, status)
+    VALUES (p_game_id, v_round_number, 'pending')
+    RETURNING id INTO v_round_id;
+
+    INSERT INTO round_questions (round_id, question_id, question_order)
+    SELECT v_round_id, picked.question_id, picked.position
+    FROM unnest(v_round_question_ids) WITH ORDINALITY AS picked(question_id, position);
+
+    v_picked := v_picked || v_round_question_ids;
+  END LOOP;
+
+  INSERT INTO host_used_questions (host_id, question_id)
+  SELECT v_game.host_id, unnest(v_picked)
+  ON CONFLICT (host_id, question_id) DO NOTHING;
+
+  RETURN array_length(v_picked, 1);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to swap one planned question for another
+-- The replacement comes from the same category and is as close as possible to
+-- the round's target difficulty, falling back to any of the game's categories.
+-- Returns the new round question's id.
+CREATE OR REPLACE FUNCTION reshuffle_round_question(p_round_question_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_round_question round_questions%ROWTYPE;
+  v_round rounds%ROWTYPE;
+  v_game games%ROWTYPE;
+  v_category TEXT;
+  v_target NUMERIC;
+  v_excluded UUID[];
+  v_replacement UUID[];
+  v_new_id UUID;
+BEGIN
+  SELECT * INTO v_round_question FROM round_questions WHERE id = p_round_question_id;
+
+  IF v_round_question.id IS NULL THEN
+    RAISE EXCEPTION 'Round question not found';
+  END IF;
+
+  SELECT * INTO v_round FROM rounds WHERE id = v_round_question.round_id;
+  SELECT * INTO v_game FROM games WHERE id = v_round.game_id FOR UPDATE;
+
+  IF v_game.host_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the host can plan rounds';
+  END IF;
+
+  IF v_game.status <> 'setup' THEN
+    RAISE EXCEPTION 'Rounds can only be planned before the game starts';
+  END IF;
+
+  SELECT category INTO v_category FROM questions WHERE id = v_round_question.question_id;
+  v_target := difficulty_curve_target(v_game.difficulty_curve, v_round.round_number, v_game.total_rounds);
+
+  -- The game's own questions are already marked used, so this excludes them too
+  SELECT ARRAY(
+    SELECT question_id FROM host_used_questions WHERE host_id = v_game.host_id
+  ) || v_round_question.question_id INTO v_excluded;
+
+  v_replacement := pick_balanced_questions(ARRAY[v_category], v_excluded, ARRAY[]::UUID[], v_target, 1);
+
+  IF COALESCE(array_length(v_replacement, 1), 0) = 0 THEN
+    v_replacement := pick_balanced_questions(v_game.selected_categories, v_excluded, ARRAY[]::UUID[], v_target, 1);
+  END IF;
+
+  IF COALESCE(array_length(v_replacement, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'No other questions are available';
+  END IF;
+
+  -- Answers are shuffled on insert, so replace the row rather than update it
+  DELETE FROM round_questions WHERE id = p_round_question_id;
+
+  INSERT INTO round_questions (round_id, question_id, question_order)
+  VALUES (v_round_question.round_id, v_replacement[1], v_round_question.question_order)
+  RETURNING id INTO v_new_id;
+
+  DELETE FROM host_used_questions
+  WHERE host_id = v_game.host_id AND question_id = v_round_question.question_id;
+
+  INSERT INTO host_used_questions (host_id, question_id)
+  VALUES (v_game.host_id, v_replacement[1])
+  ON CONFLICT (host_id, question_id) DO NOTHING;
+
+  RETURN v_new_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Grant execute permissions; each function checks for the host itself
+GRANT EXECUTE ON FUNCTION plan_game_rounds(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION reshuffle_round_question(UUID) TO authenticated;
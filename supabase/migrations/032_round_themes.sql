@@ -0,0 +1,203 @@
+-- Migration: Round themes for hosted games
+-- Purpose: Give each round of a hosted game its own title and categories, so
+-- hosts can run themed rounds like "Round 2: Music"
+
+-- Add the theme to rounds
+-- An empty categories list draws from all of the game's selected categories
+ALTER TABLE rounds
+ADD COLUMN title TEXT,
+ADD COLUMN categories TEXT[] DEFAULT '{}' NOT NULL,
+ADD CONSTRAINT valid_round_title CHECK (title IS NULL OR char_length(title) BETWEEN 1 AND 100);
+
+-- Redefine plan_game_rounds to take each round's theme
+-- p_round_themes is a JSON array of { title, categories } in round order, and
+-- can be shorter than the game. Leaving it out keeps the themes of the current
+-- plan, so regenerating or changing the curve doesn't lose them.
+-- The new parameter changes the signature, so the old function is dropped first
+DROP FUNCTION IF EXISTS plan_game_rounds(UUID);
+
+CREATE OR REPLACE FUNCTION plan_game_rounds(p_game_id UUID, p_round_themes JSONB DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  v_game games%ROWTYPE;
+  v_excluded UUID[];
+  v_picked UUID[] := ARRAY[]::UUID[];
+  v_round_question_ids UUID[];
+  v_round_id UUID;
+  v_round_number INTEGER;
+  v_theme JSONB;
+  v_title TEXT;
+  v_categories TEXT[];
+  v_unknown_category TEXT;
+BEGIN
+  SELECT * INTO v_game FROM games WHERE id = p_game_id FOR UPDATE;
+
+  IF v_game.id IS NULL THEN
+    RAISE EXCEPTION 'Game not found';
+  END IF;
+
+  IF v_game.host_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the host can plan rounds';
+  END IF;
+
+  IF v_game.status <> 'setup' THEN
+    RAISE EXCEPTION 'Rounds can only be planned before the game starts';
+  END IF;
+
+  IF p_round_themes IS NULL THEN
+    SELECT jsonb_agg(
+      jsonb_build_object('title', title, 'categories', to_jsonb(categories))
+      ORDER BY round_number
+    )
+    INTO p_round_themes
+    FROM rounds
+    WHERE game_id = p_game_id;
+  ELSIF jsonb_typeof(p_round_themes) <> 'array' THEN
+    RAISE EXCEPTION 'Round themes must be a list';
+  ELSIF jsonb_array_length(p_round_themes) > v_game.total_rounds THEN
+    RAISE EXCEPTION 'The game only has % rounds', v_game.total_rounds;
+  END IF;
+
+  DELETE FROM host_used_questions
+  WHERE host_id = v_game.host_id
+    AND question_id IN (
+      SELECT rq.question_id
+      FROM round_questions rq
+      JOIN rounds r ON r.id = rq.round_id
+      WHERE r.game_id = p_game_id
+    );
+
+  DELETE FROM rounds WHERE game_id = p_game_id;
+
+  SELECT ARRAY(
+    SELECT question_id FROM host_used_questions WHERE host_id = v_game.host_id
+  ) INTO v_excluded;
+
+  FOR v_round_number IN 1..v_game.total_rounds LOOP
+    -- Rounds past the end of the themes are untitled and use every category
+    v_theme := COALESCE(p_round_themes -> (v_round_number - 1), '{}'::JSONB);
+    v_title := NULLIF(btrim(v_theme ->> 'title'), '');
+    v_categories := ARRAY(
+      SELECT DISTINCT jsonb_array_elements_text(COALESCE(v_theme -> 'categories', '[]'::JSONB))
+    );
+
+    SELECT category INTO v_unknown_category
+    FROM unnest(v_categories) AS category
+    WHERE category <> ALL(v_game.selected_categories)
+    LIMIT 1;
+
+    IF v_unknown_category IS NOT NULL THEN
+      RAISE EXCEPTION 'Round % uses a category the game doesn''t include: %', v_round_number, v_unknown_category;
+    END IF;
+
+    v_round_question_ids := pick_balanced_questions(
+      CASE WHEN cardinality(v_categories) = 0 THEN v_game.selected_categories ELSE v_categories END,
+      v_excluded,
+      v_picked,
+      difficulty_curve_target(v_game.difficulty_curve, v_round_number, v_game.total_rounds),
+      v_game.questions_per_round
+    );
+
+    IF COALESCE(array_length(v_round_question_ids, 1), 0) < v_game.questions_per_round THEN
+      RAISE EXCEPTION 'Not enough available questions for round %. Need %, found %',
+        v_round_number,
+        v_game.questions_per_round,
+        COALESCE(array_length(v_round_question_ids, 1), 0);
+    END IF;
+
+    INSERT INTO rounds (game_id, round_number, status, title, categories)
+    VALUES (p_game_id, v_round_number, 'pending', v_title, v_categories)
+    RETURNING id INTO v_round_id;
+
+    INSERT INTO round_questions (round_id, question_id, question_order)
+    SELECT v_round_id, picked.question_id, picked.position
+    FROM unnest(v_round_question_ids) WITH ORDINALITY AS picked(question_id, position);
+
+    v_picked := v_picked || v_round_question_ids;
+  END LOOP;
+
+  INSERT INTO host_used_questions (host_id, question_id)
+  SELECT v_game.host_id, unnest(v_picked)
+  ON CONFLICT (host_id, question_id) DO NOTHING;
+
+  RETURN array_length(v_picked, 1);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Redefine reshuffle_round_question to stay within the round's theme
+-- The replacement comes from the same category where possible, then from any
+-- of the round's categories (the game's, for rounds without a theme)
+CREATE OR REPLACE FUNCTION reshuffle_round_question(p_round_question_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_round_question round_questions%ROWTYPE;
+  v_round rounds%ROWTYPE;
+  v_game games%ROWTYPE;
+  v_category TEXT;
+  v_target NUMERIC;
+  v_excluded UUID[];
+  v_replacement UUID[];
+  v_new_id UUID;
+BEGIN
+  SELECT * INTO v_round_question FROM round_questions WHERE id = p_round_question_id;
+
+  IF v_round_question.id IS NULL THEN
+    RAISE EXCEPTION 'Round question not found';
+  END IF;
+
+  SELECT * INTO v_round FROM rounds WHERE id = v_round_question.round_id;
+  SELECT * INTO v_game FROM games WHERE id = v_round.game_id FOR UPDATE;
+
+  IF v_game.host_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the host can plan rounds';
+  END IF;
+
+  IF v_game.status <> 'setup' THEN
+    RAISE EXCEPTION 'Rounds can only be planned before the game starts';
+  END IF;
+
+  SELECT category INTO v_category FROM questions WHERE id = v_round_question.question_id;
+  v_target := difficulty_curve_target(v_game.difficulty_curve, v_round.round_number, v_game.total_rounds);
+
+  -- The game's own questions are already marked used, so this excludes them too
+  SELECT ARRAY(
+    SELECT question_id FROM host_used_questions WHERE host_id = v_game.host_id
+  ) || v_round_question.question_id INTO v_excluded;
+
+  v_replacement := pick_balanced_questions(ARRAY[v_category], v_excluded, ARRAY[]::UUID[], v_target, 1);
+
+  IF COALESCE(array_length(v_replacement, 1), 0) = 0 THEN
+    v_replacement := pick_balanced_questions(
+      CASE WHEN cardinality(v_round.categories) = 0 THEN v_game.selected_categories ELSE v_round.categories END,
+      v_excluded,
+      ARRAY[]::UUID[],
+      v_target,
+      1
+    );
+  END IF;
+
+  IF COALESCE(array_length(v_replacement, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'No other questions are available';
+  END IF;
+
+  -- Answers are shuffled on insert, so replace the row rather than update it
+  DELETE FROM round_questions WHERE id = p_round_question_id;
+
+  INSERT INTO round_questions (round_id, question_id, question_order)
+  VALUES (v_round_question.round_id, v_replacement[1], v_round_question.question_order)
+  RETURNING id INTO v_new_id;
+
+  DELETE FROM host_used_questions
+  WHERE host_id = v_game.host_id AND question_id = v_round_question.question_id;
+
+  INSERT INTO host_used_questions (host_id, question_id)
+  VALUES (v_game.host_id, v_replacement[1])
+  ON CONFLICT (host_id, question_id) DO NOTHING;
+
+  RETURN v_new_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Grant execute permissions; each function checks for the host itself
+GRANT EXECUTE ON FUNCTION plan_game_rounds(UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION reshuffle_round_question(UUID) TO authenticated;
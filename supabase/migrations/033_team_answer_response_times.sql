@@ -0,0 +1,101 @@
+-- Migration: Team answer response times
+-- Purpose: Keep how long each team took to answer, measured from when the host
+-- opened answering, for game analytics and question difficulty
+
+-- Add the response time to team answers
+-- Answers given before this migration, or while answering had no open time,
+-- stay NULL
+ALTER TABLE team_answers
+ADD COLUMN response_time_ms INTEGER,
+ADD CONSTRAINT non_negative_response_time CHECK (response_time_ms IS NULL OR response_time_ms >= 0);
+
+-- Function to stamp an answer with the time since answering opened
+-- Uses the same clock as the speed bonus, so clients can't report their own time
+CREATE OR REPLACE FUNCTION record_answer_response_time()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_opened_at TIMESTAMPTZ;
+BEGIN
+  SELECT r.question_opened_at
+  INTO v_opened_at
+  FROM round_questions rq
+  JOIN rounds r ON r.id = rq.round_id
+  WHERE rq.id = NEW.round_question_id;
+
+  NEW.response_time_ms := CASE
+    WHEN v_opened_at IS NULL THEN NULL
+    ELSE GREATEST(0, ROUND(EXTRACT(EPOCH FROM (now() - v_opened_at)) * 1000))::INTEGER
+  END;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER record_answer_response_time_before_insert
+  BEFORE INSERT ON team_answers
+  FOR EACH ROW
+  EXECUTE FUNCTION record_answer_response_time();
+
+-- Redefine refresh_question_difficulty to count team answer times
+-- Team answers now count toward the average time as well as the correct rate
+CREATE OR REPLACE FUNCTION refresh_question_difficulty(p_min_answers INTEGER DEFAULT 5)
+RETURNS INTEGER AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  WITH answers AS (
+    SELECT
+      gq.question_id,
+      gq.is_correct,
+      CASE WHEN gq.timed_out THEN NULL ELSE gq.time_to_answer_ms END AS time_ms
+    FROM game_questions gq
+    WHERE gq.answered_at IS NOT NULL
+
+    UNION ALL
+
+    SELECT rq.question_id, ta.is_correct, ta.response_time_ms
+    FROM team_answers ta
+    JOIN round_questions rq ON rq.id = ta.round_question_id
+  ),
+  stats AS (
+    SELECT
+      question_id,
+      COUNT(*) AS answer_count,
+      AVG(CASE WHEN is_correct THEN 1 ELSE 0 END) AS correct_rate,
+      AVG(time_ms) AS average_time_ms
+    FROM answers
+    GROUP BY question_id
+  ),
+  rated AS (
+    SELECT
+      q.id,
+      COALESCE(s.answer_count, 0) AS answer_count,
+      ROUND(s.correct_rate, 3) AS correct_rate,
+      ROUND(s.average_time_ms)::INTEGER AS average_time_ms,
+      CASE
+        WHEN COALESCE(s.answer_count, 0) < p_min_answers THEN NULL
+        WHEN s.average_time_ms IS NULL THEN ROUND(1 - s.correct_rate, 3)
+        ELSE ROUND(0.8 * (1 - s.correct_rate) + 0.2 * LEAST(s.average_time_ms / 30000.0, 1), 3)
+      END AS difficulty
+    FROM questions q
+    LEFT JOIN stats s ON s.question_id = q.id
+  )
+  UPDATE questions q
+  SET
+    answer_count = rated.answer_count,
+    correct_rate = rated.correct_rate,
+    average_time_ms = rated.average_time_ms,
+    difficulty = rated.difficulty,
+    difficulty_updated_at = now()
+  FROM rated
+  WHERE rated.id = q.id
+    AND (q.answer_count, q.correct_rate, q.average_time_ms, q.difficulty)
+      IS DISTINCT FROM (rated.answer_count, rated.correct_rate, rated.average_time_ms, rated.difficulty);
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated;
+END;
+$$ LANGUAGE plpgsql;
+
+-- CREATE OR REPLACE keeps the existing grants, but restate that it's job-only
+REVOKE EXECUTE ON FUNCTION refresh_question_difficulty(INTEGER) FROM PUBLIC, anon, authenticated;
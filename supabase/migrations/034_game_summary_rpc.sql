@@ -0,0 +1,157 @@
+-- Migration: Game summary RPC
+-- Purpose: Build a finished game's summary in one query instead of one query
+-- per team and per round
+
+-- Function to summarize a multi-user game as JSON, matching GameSummaryResponse
+-- Runs with the caller's rights, so hosts see every team's answers and
+-- players only their own, as with the team_answers RLS policies.
+-- Points breakdowns mirror summarizePoints in src/lib/scoring.ts
+CREATE OR REPLACE FUNCTION get_game_summary(p_game_id UUID)
+RETURNS JSONB AS $$
+  WITH game AS (
+    SELECT * FROM games WHERE id = p_game_id
+  ),
+  game_teams AS (
+    SELECT t.*
+    FROM teams t
+    WHERE t.game_id = p_game_id
+  ),
+  game_rounds AS (
+    SELECT r.*
+    FROM rounds r
+    WHERE r.game_id = p_game_id
+  ),
+  -- Each team's answers per round, with the points split by where they came from
+  team_rounds AS (
+    SELECT
+      ta.team_id,
+      rq.round_id,
+      COUNT(*) AS answers,
+      COUNT(*) FILTER (WHERE ta.is_correct) AS correct_answers,
+      SUM(ta.points_earned) AS points,
+      COALESCE(SUM(ta.base_points) FILTER (WHERE ta.wager IS NULL AND ta.is_correct), 0) AS correct_points,
+      COALESCE(SUM(ta.base_points) FILTER (WHERE ta.wager IS NULL AND NOT ta.is_correct), 0) AS incorrect_points,
+      COALESCE(SUM(ta.speed_bonus) FILTER (WHERE ta.wager IS NULL AND ta.is_correct), 0) AS speed_bonus,
+      COALESCE(SUM(ta.points_earned) FILTER (WHERE ta.wager IS NOT NULL), 0) AS wager_points
+    FROM team_answers ta
+    JOIN round_questions rq ON rq.id = ta.round_question_id
+    JOIN game_rounds r ON r.id = rq.round_id
+    GROUP BY ta.team_id, rq.round_id
+  ),
+  team_totals AS (
+    SELECT
+      t.id AS team_id,
+      COALESCE(SUM(tr.answers), 0) AS answers,
+      COALESCE(SUM(tr.correct_answers), 0) AS correct_answers,
+      COALESCE(SUM(tr.points), 0) AS points,
+      COALESCE(SUM(tr.correct_points), 0) AS correct_points,
+      COALESCE(SUM(tr.incorrect_points), 0) AS incorrect_points,
+      COALESCE(SUM(tr.speed_bonus), 0) AS speed_bonus,
+      COALESCE(SUM(tr.wager_points), 0) AS wager_points
+    FROM game_teams t
+    LEFT JOIN team_rounds tr ON tr.team_id = t.id
+    GROUP BY t.id
+  ),
+  -- Teams with their players and totals, in join order
+  teams_json AS (
+    SELECT COALESCE(jsonb_agg(
+      to_jsonb(t) || jsonb_build_object(
+        'players', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object(
+            'id', up.id,
+            'display_name', up.display_name,
+            'avatar_url', up.avatar_url,
+            'joined_at', tp.joined_at
+          ) ORDER BY tp.joined_at)
+          FROM team_players tp
+          JOIN user_profiles up ON up.id = tp.player_id
+          WHERE tp.team_id = t.id
+        ), '[]'::jsonb),
+        'total_score', tt.points,
+        'correct_answers', tt.correct_answers,
+        'total_questions', tt.answers,
+        'accuracy_percentage', CASE WHEN tt.answers > 0 THEN (100.0 * tt.correct_answers / tt.answers)::FLOAT8 ELSE 0 END,
+        'points_breakdown', jsonb_build_object(
+          'correct', tt.correct_points,
+          'incorrect', tt.incorrect_points,
+          'speed_bonus', tt.speed_bonus,
+          'wager', tt.wager_points
+        )
+      )
+      ORDER BY t.created_at
+    ), '[]'::jsonb) AS teams
+    FROM game_teams t
+    JOIN team_totals tt ON tt.team_id = t.id
+  ),
+  -- Rounds in order, each with every team's score for it
+  rounds_json AS (
+    SELECT COALESCE(jsonb_agg(
+      to_jsonb(r) || jsonb_build_object('team_scores', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object(
+          'team_id', t.id,
+          'team_name', t.name,
+          'round_score', COALESCE(tr.points, 0),
+          'correct_answers', COALESCE(tr.correct_answers, 0),
+          'points_breakdown', jsonb_build_object(
+            'correct', COALESCE(tr.correct_points, 0),
+            'incorrect', COALESCE(tr.incorrect_points, 0),
+            'speed_bonus', COALESCE(tr.speed_bonus, 0),
+            'wager', COALESCE(tr.wager_points, 0)
+          )
+        ) ORDER BY t.created_at)
+        FROM game_teams t
+        LEFT JOIN team_rounds tr ON tr.team_id = t.id AND tr.round_id = r.id
+      ), '[]'::jsonb))
+      ORDER BY r.round_number
+    ), '[]'::jsonb) AS rounds
+    FROM game_rounds r
+  ),
+  overall AS (
+    SELECT
+      g.total_rounds * g.questions_per_round * (SELECT COUNT(*) FROM game_teams) AS total_questions,
+      (SELECT COALESCE(SUM(correct_answers), 0) FROM team_totals) AS total_correct_answers,
+      GREATEST(0, ROUND(EXTRACT(EPOCH FROM (
+        COALESCE(g.end_time, now()) - COALESCE(g.start_time, g.end_time, now())
+      )) * 1000)) AS duration_ms
+    FROM game g
+  )
+  SELECT jsonb_build_object(
+    'game', to_jsonb(g),
+    'teams', (SELECT teams FROM teams_json),
+    'rounds', (SELECT rounds FROM rounds_json),
+    'overall_stats', jsonb_build_object(
+      'total_questions', o.total_questions,
+      'total_correct_answers', o.total_correct_answers,
+      'average_accuracy', CASE
+        WHEN o.total_questions > 0 THEN (100.0 * o.total_correct_answers / o.total_questions)::FLOAT8
+        ELSE 0
+      END,
+      'duration_ms', o.duration_ms
+    )
+  )
+  FROM game g
+  CROSS JOIN overall o;
+$$ LANGUAGE sql STABLE;
+
+-- Function to end a multi-user game and return its summary in one round trip
+-- Ending a game that has already ended just returns the summary again
+CREATE OR REPLACE FUNCTION complete_multi_user_game(p_game_id UUID)
+RETURNS JSONB AS $$
+BEGIN
+  UPDATE games
+  SET status = 'completed',
+      end_time = CASE WHEN status = 'completed' THEN end_time ELSE now() END
+  WHERE id = p_game_id
+    AND host_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the host can end the game';
+  END IF;
+
+  RETURN get_game_summary(p_game_id);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Grant execute permissions; both run with the caller's RLS policies
+GRANT EXECUTE ON FUNCTION get_game_summary(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION complete_multi_user_game(UUID) TO authenticated;
@@ -0,0 +1,84 @@
+-- Migration: Stored final results
+-- Purpose: Keep each multi-user game's final standings as it ended, so later
+-- edits or re-scoring don't change prize payouts or league records
+
+-- Create game_results table
+-- One snapshot per game, holding the GameSummaryResponse from when it ended
+CREATE TABLE game_results (
+  game_id UUID PRIMARY KEY REFERENCES games(id) ON DELETE CASCADE,
+  summary JSONB NOT NULL,
+  recorded_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Snapshots are written by complete_multi_user_game and never change
+CREATE OR REPLACE FUNCTION prevent_game_results_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Final results can''t be changed once recorded';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_game_results_update_before_update
+  BEFORE UPDATE ON game_results
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_game_results_update();
+
+ALTER TABLE game_results ENABLE ROW LEVEL SECURITY;
+
+-- Hosts and players can read the results of their games
+CREATE POLICY "Hosts and players can view results of their games"
+ON game_results
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM team_players tp
+    JOIN teams t ON t.id = tp.team_id
+    WHERE t.game_id = game_results.game_id AND tp.player_id = auth.uid()
+  )
+  OR
+  EXISTS (
+    SELECT 1 FROM games
+    WHERE games.id = game_results.game_id AND games.host_id = auth.uid()
+  )
+);
+
+-- Redefine complete_multi_user_game to record the results when the game ends
+-- It now runs as its owner to write the snapshot, so it checks for the host
+-- itself. Ending a game again returns the recorded results unchanged.
+CREATE OR REPLACE FUNCTION complete_multi_user_game(p_game_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_game games%ROWTYPE;
+  v_summary JSONB;
+BEGIN
+  SELECT * INTO v_game FROM games WHERE id = p_game_id FOR UPDATE;
+
+  IF v_game.id IS NULL OR v_game.host_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the host can end the game';
+  END IF;
+
+  SELECT summary INTO v_summary FROM game_results WHERE game_id = p_game_id;
+
+  IF v_summary IS NOT NULL THEN
+    RETURN v_summary;
+  END IF;
+
+  UPDATE games
+  SET status = 'completed',
+      end_time = CASE WHEN status = 'completed' THEN end_time ELSE now() END
+  WHERE id = p_game_id;
+
+  v_summary := get_game_summary(p_game_id);
+
+  INSERT INTO game_results (game_id, summary)
+  VALUES (p_game_id, v_summary);
+
+  RETURN v_summary;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Record results for games that ended before this migration
+INSERT INTO game_results (game_id, summary)
+SELECT id, get_game_summary(id)
+FROM games
+WHERE status = 'completed';
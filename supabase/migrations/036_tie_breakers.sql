@@ -0,0 +1,751 @@
+-- Migration: Tie-breaker rounds
+-- Purpose: Let hosts settle a tie for first with a single closest-number or
+-- sudden-death question for only the tied teams, and record the winner in the
+-- final standings
+
+-- Add the question type
+-- Numeric questions hold their answer in a as a plain number and have no
+-- other choices. They are only drawn for tie-breakers.
+ALTER TABLE questions
+ADD COLUMN question_type TEXT DEFAULT 'multiple_choice' NOT NULL,
+ADD CONSTRAINT valid_question_type CHECK (question_type IN ('multiple_choice', 'numeric')),
+ADD CONSTRAINT valid_numeric_answer CHECK (
+  question_type <> 'numeric' OR (
+    a ~ '^-?[0-9]+(\.[0-9]+)?$' AND b IS NULL AND c IS NULL AND d IS NULL
+  )
+);
+
+GRANT SELECT (question_type) ON questions TO authenticated;
+
+-- Add the tie-breaker mode to games; NULL leaves ties as they are
+ALTER TABLE games
+ADD COLUMN tie_breaker TEXT,
+ADD CONSTRAINT valid_tie_breaker CHECK (tie_breaker IN ('closest_number', 'sudden_death'));
+
+-- Create tie_breakers table
+-- One row per tie-breaker question. The answer isn't stored until the
+-- tie-breaker is resolved, so players can't read it while they play.
+CREATE TABLE tie_breakers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id UUID NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+  question_id UUID NOT NULL REFERENCES questions(id) ON DELETE RESTRICT,
+  mode TEXT NOT NULL,
+  team_ids UUID[] NOT NULL, -- the tied teams playing it
+  presented_answers JSONB, -- sudden death only, in the order shown as A-D
+  status TEXT DEFAULT 'open' NOT NULL,
+  correct_answer TEXT, -- the number or letter, once resolved
+  leading_team_ids UUID[], -- teams that did best; still tied when more than one
+  winner_team_id UUID REFERENCES teams(id) ON DELETE SET NULL,
+  opened_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  resolved_at TIMESTAMPTZ,
+
+  CONSTRAINT valid_tie_breaker_mode CHECK (mode IN ('closest_number', 'sudden_death')),
+  CONSTRAINT valid_tie_breaker_status CHECK (status IN ('open', 'resolved')),
+  CONSTRAINT valid_tie_breaker_teams CHECK (cardinality(team_ids) >= 2)
+);
+
+CREATE INDEX idx_tie_breakers_game ON tie_breakers(game_id, opened_at DESC);
+
+-- At most one tie-breaker is played at a time
+CREATE UNIQUE INDEX idx_tie_breakers_one_open ON tie_breakers(game_id) WHERE status = 'open';
+
+-- Create tie_breaker_answers table
+-- is_correct and distance are filled in when the tie-breaker is resolved
+CREATE TABLE tie_breaker_answers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tie_breaker_id UUID NOT NULL REFERENCES tie_breakers(id) ON DELETE CASCADE,
+  team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  submitted_by UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  answer TEXT NOT NULL,
+  is_correct BOOLEAN,
+  distance NUMERIC, -- closest number only: how far the answer was off
+  submitted_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  CONSTRAINT unique_tie_breaker_team_answer UNIQUE (tie_breaker_id, team_id)
+);
+
+CREATE INDEX idx_tie_breaker_answers_team_id ON tie_breaker_answers(team_id);
+
+ALTER TABLE tie_breakers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tie_breaker_answers ENABLE ROW LEVEL SECURITY;
+
+-- Hosts and players can see their games' tie-breakers
+-- Rows are only written by the functions below
+CREATE POLICY "Hosts and players can view tie-breakers of their games"
+ON tie_breakers
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM team_players tp
+    JOIN teams t ON t.id = tp.team_id
+    WHERE t.game_id = tie_breakers.game_id AND tp.player_id = auth.uid()
+  )
+  OR
+  EXISTS (
+    SELECT 1 FROM games
+    WHERE games.id = tie_breakers.game_id AND games.host_id = auth.uid()
+  )
+);
+
+-- Hosts see every team's tie-breaker answer, players their own team's
+CREATE POLICY "Hosts can view tie-breaker answers for own games"
+ON tie_breaker_answers
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM teams t
+    JOIN games g ON g.id = t.game_id
+    WHERE t.id = tie_breaker_answers.team_id AND g.host_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Team members can view own tie-breaker answers"
+ON tie_breaker_answers
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM team_players tp
+    WHERE tp.team_id = tie_breaker_answers.team_id AND tp.player_id = auth.uid()
+  )
+);
+
+-- Stream tie-breakers to hosts, TV displays and players
+ALTER PUBLICATION supabase_realtime ADD TABLE tie_breakers;
+ALTER PUBLICATION supabase_realtime ADD TABLE tie_breaker_answers;
+ALTER TABLE tie_breakers REPLICA IDENTITY FULL;
+
+-- Function to start a tie-breaker for the teams tied for first
+-- After a tie-breaker that didn't settle it, only the teams that did best in
+-- it play the next one. Questions in the game's categories are preferred, then
+-- any unused question of the right type.
+CREATE OR REPLACE FUNCTION start_tie_breaker(p_game_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_game games%ROWTYPE;
+  v_previous tie_breakers%ROWTYPE;
+  v_team_ids UUID[];
+  v_question questions%ROWTYPE;
+  v_tie_breaker tie_breakers%ROWTYPE;
+BEGIN
+  SELECT * INTO v_game FROM games WHERE id = p_game_id FOR UPDATE;
+
+  IF v_game.id IS NULL OR v_game.host_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the host can start a tie-breaker';
+  END IF;
+
+  IF v_game.tie_breaker IS NULL THEN
+    RAISE EXCEPTION 'This game has no tie-breaker';
+  END IF;
+
+  IF v_game.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Game is not in progress';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM rounds WHERE game_id = p_game_id AND status = 'in_progress') THEN
+    RAISE EXCEPTION 'Finish the current round before the tie-breaker';
+  END IF;
+
+  SELECT * INTO v_previous
+  FROM tie_breakers
+  WHERE game_id = p_game_id
+  ORDER BY opened_at DESC
+  LIMIT 1;
+
+  IF v_previous.status = 'open' THEN
+    RAISE EXCEPTION 'A tie-breaker is already being played';
+  END IF;
+
+  IF v_previous.winner_team_id IS NOT NULL THEN
+    RAISE EXCEPTION 'The tie has already been broken';
+  END IF;
+
+  IF v_previous.id IS NOT NULL THEN
+    v_team_ids := v_previous.leading_team_ids;
+  ELSE
+    SELECT ARRAY(
+      SELECT id FROM teams
+      WHERE game_id = p_game_id
+        AND current_score = (SELECT MAX(current_score) FROM teams WHERE game_id = p_game_id)
+      ORDER BY created_at
+    ) INTO v_team_ids;
+  END IF;
+
+  IF cardinality(v_team_ids) < 2 THEN
+    RAISE EXCEPTION 'No teams are tied for first';
+  END IF;
+
+  SELECT q.* INTO v_question
+  FROM questions q
+  WHERE q.status = 'approved'
+    AND q.question_type = CASE v_game.tie_breaker WHEN 'closest_number' THEN 'numeric' ELSE 'multiple_choice' END
+    AND q.id NOT IN (
+      SELECT question_id FROM host_used_questions WHERE host_id = v_game.host_id
+    )
+  ORDER BY q.category = ANY(v_game.selected_categories) DESC, random()
+  LIMIT 1;
+
+  IF v_question.id IS NULL THEN
+    RAISE EXCEPTION 'No unused % questions are left for a tie-breaker',
+      CASE v_game.tie_breaker WHEN 'closest_number' THEN 'numeric' ELSE 'multiple choice' END;
+  END IF;
+
+  INSERT INTO tie_breakers (game_id, question_id, mode, team_ids, presented_answers)
+  VALUES (
+    p_game_id,
+    v_question.id,
+    v_game.tie_breaker,
+    v_team_ids,
+    CASE WHEN v_game.tie_breaker = 'sudden_death' THEN (
+      SELECT jsonb_agg(answer ORDER BY random())
+      FROM unnest(ARRAY[v_question.a, v_question.b, v_question.c, v_question.d]) AS answer
+    ) END
+  )
+  RETURNING * INTO v_tie_breaker;
+
+  INSERT INTO host_used_questions (host_id, question_id)
+  VALUES (v_game.host_id, v_question.id)
+  ON CONFLICT (host_id, question_id) DO NOTHING;
+
+  RETURN to_jsonb(v_tie_breaker);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function for a tied team to lock in its tie-breaker answer
+-- The first answer from each team counts, as with team_answers
+CREATE OR REPLACE FUNCTION submit_tie_breaker_answer(p_tie_breaker_id UUID, p_answer TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_tie_breaker tie_breakers%ROWTYPE;
+  v_team_id UUID;
+  v_answer TEXT := UPPER(TRIM(p_answer));
+  v_row tie_breaker_answers%ROWTYPE;
+BEGIN
+  SELECT * INTO v_tie_breaker FROM tie_breakers WHERE id = p_tie_breaker_id;
+
+  IF v_tie_breaker.id IS NULL THEN
+    RAISE EXCEPTION 'Tie-breaker not found';
+  END IF;
+
+  SELECT tp.team_id INTO v_team_id
+  FROM team_players tp
+  WHERE tp.player_id = auth.uid() AND tp.team_id = ANY(v_tie_breaker.team_ids);
+
+  IF v_team_id IS NULL THEN
+    RAISE EXCEPTION 'Only the tied teams can answer the tie-breaker';
+  END IF;
+
+  IF v_tie_breaker.status <> 'open' THEN
+    RAISE EXCEPTION 'The tie-breaker is over';
+  END IF;
+
+  IF v_tie_breaker.mode = 'sudden_death' AND v_answer NOT IN ('A', 'B', 'C', 'D') THEN
+    RAISE EXCEPTION 'Answer must be A, B, C or D';
+  END IF;
+
+  IF v_tie_breaker.mode = 'closest_number' AND v_answer !~ '^-?[0-9]+(\.[0-9]+)?$' THEN
+    RAISE EXCEPTION 'Answer must be a number';
+  END IF;
+
+  INSERT INTO tie_breaker_answers (tie_breaker_id, team_id, submitted_by, answer)
+  VALUES (p_tie_breaker_id, v_team_id, auth.uid(), v_answer)
+  ON CONFLICT (tie_breaker_id, team_id) DO NOTHING
+  RETURNING * INTO v_row;
+
+  IF v_row.id IS NULL THEN
+    RAISE EXCEPTION 'Your team has already answered the tie-breaker';
+  END IF;
+
+  RETURN to_jsonb(v_row);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to close a tie-breaker and rank the answers
+-- Closest number: the smallest distance from the answer leads. Sudden death:
+-- the correct teams lead, or everyone if no one was right. A single leader
+-- wins; otherwise the leaders are still tied and can play another.
+-- Mirrored by rankTieBreakerAnswers in src/lib/tieBreaker.ts
+CREATE OR REPLACE FUNCTION resolve_tie_breaker(p_tie_breaker_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_tie_breaker tie_breakers%ROWTYPE;
+  v_answer TEXT;
+  v_correct TEXT;
+  v_leading UUID[];
+BEGIN
+  SELECT * INTO v_tie_breaker FROM tie_breakers WHERE id = p_tie_breaker_id FOR UPDATE;
+
+  IF v_tie_breaker.id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM games WHERE id = v_tie_breaker.game_id AND host_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the host can resolve the tie-breaker';
+  END IF;
+
+  IF v_tie_breaker.status <> 'open' THEN
+    RAISE EXCEPTION 'The tie-breaker has already been resolved';
+  END IF;
+
+  SELECT a INTO v_answer FROM questions WHERE id = v_tie_breaker.question_id;
+
+  IF v_tie_breaker.mode = 'sudden_death' THEN
+    SELECT chr(ascii('A') + ordinality::INTEGER - 1) INTO v_correct
+    FROM jsonb_array_elements_text(v_tie_breaker.presented_answers) WITH ORDINALITY
+    WHERE value = v_answer
+    LIMIT 1;
+
+    UPDATE tie_breaker_answers
+    SET is_correct = (answer = v_correct)
+    WHERE tie_breaker_id = p_tie_breaker_id;
+
+    SELECT ARRAY(
+      SELECT team_id FROM tie_breaker_answers
+      WHERE tie_breaker_id = p_tie_breaker_id AND is_correct
+    ) INTO v_leading;
+  ELSE
+    v_correct := v_answer;
+
+    UPDATE tie_breaker_answers
+    SET distance = ABS(answer::NUMERIC - v_answer::NUMERIC),
+        is_correct = (answer::NUMERIC = v_answer::NUMERIC)
+    WHERE tie_breaker_id = p_tie_breaker_id;
+
+    SELECT ARRAY(
+      SELECT team_id FROM tie_breaker_answers
+      WHERE tie_breaker_id = p_tie_breaker_id
+        AND distance = (SELECT MIN(distance) FROM tie_breaker_answers WHERE tie_breaker_id = p_tie_breaker_id)
+    ) INTO v_leading;
+  END IF;
+
+  IF cardinality(v_leading) = 0 THEN
+    v_leading := v_tie_breaker.team_ids;
+  END IF;
+
+  UPDATE tie_breakers
+  SET status = 'resolved',
+      correct_answer = v_correct,
+      leading_team_ids = v_leading,
+      winner_team_id = CASE WHEN cardinality(v_leading) = 1 THEN v_leading[1] END,
+      resolved_at = NOW()
+  WHERE id = p_tie_breaker_id
+  RETURNING * INTO v_tie_breaker;
+
+  RETURN to_jsonb(v_tie_breaker);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Redefine get_game_summary to include the tie-breaker winner, who places
+-- first among the teams tied on points
+CREATE OR REPLACE FUNCTION get_game_summary(p_game_id UUID)
+RETURNS JSONB AS $$
+  WITH game AS (
+    SELECT * FROM games WHERE id = p_game_id
+  ),
+  game_teams AS (
+    SELECT t.*
+    FROM teams t
+    WHERE t.game_id = p_game_id
+  ),
+  game_rounds AS (
+    SELECT r.*
+    FROM rounds r
+    WHERE r.game_id = p_game_id
+  ),
+  -- Each team's answers per round, with the points split by where they came from
+  team_rounds AS (
+    SELECT
+      ta.team_id,
+      rq.round_id,
+      COUNT(*) AS answers,
+      COUNT(*) FILTER (WHERE ta.is_correct) AS correct_answers,
+      SUM(ta.points_earned) AS points,
+      COALESCE(SUM(ta.base_points) FILTER (WHERE ta.wager IS NULL AND ta.is_correct), 0) AS correct_points,
+      COALESCE(SUM(ta.base_points) FILTER (WHERE ta.wager IS NULL AND NOT ta.is_correct), 0) AS incorrect_points,
+      COALESCE(SUM(ta.speed_bonus) FILTER (WHERE ta.wager IS NULL AND ta.is_correct), 0) AS speed_bonus,
+      COALESCE(SUM(ta.points_earned) FILTER (WHERE ta.wager IS NOT NULL), 0) AS wager_points
+    FROM team_answers ta
+    JOIN round_questions rq ON rq.id = ta.round_question_id
+    JOIN game_rounds r ON r.id = rq.round_id
+    GROUP BY ta.team_id, rq.round_id
+  ),
+  team_totals AS (
+    SELECT
+      t.id AS team_id,
+      COALESCE(SUM(tr.answers), 0) AS answers,
+      COALESCE(SUM(tr.correct_answers), 0) AS correct_answers,
+      COALESCE(SUM(tr.points), 0) AS points,
+      COALESCE(SUM(tr.correct_points), 0) AS correct_points,
+      COALESCE(SUM(tr.incorrect_points), 0) AS incorrect_points,
+      COALESCE(SUM(tr.speed_bonus), 0) AS speed_bonus,
+      COALESCE(SUM(tr.wager_points), 0) AS wager_points
+    FROM game_teams t
+    LEFT JOIN team_rounds tr ON tr.team_id = t.id
+    GROUP BY t.id
+  ),
+  -- Teams with their players and totals, in join order
+  teams_json AS (
+    SELECT COALESCE(jsonb_agg(
+      to_jsonb(t) || jsonb_build_object(
+        'players', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object(
+            'id', up.id,
+            'display_name', up.display_name,
+            'avatar_url', up.avatar_url,
+            'joined_at', tp.joined_at
+          ) ORDER BY tp.joined_at)
+          FROM team_players tp
+          JOIN user_profiles up ON up.id = tp.player_id
+          WHERE tp.team_id = t.id
+        ), '[]'::jsonb),
+        'total_score', tt.points,
+        'correct_answers', tt.correct_answers,
+        'total_questions', tt.answers,
+        'accuracy_percentage', CASE WHEN tt.answers > 0 THEN (100.0 * tt.correct_answers / tt.answers)::FLOAT8 ELSE 0 END,
+        'points_breakdown', jsonb_build_object(
+          'correct', tt.correct_points,
+          'incorrect', tt.incorrect_points,
+          'speed_bonus', tt.speed_bonus,
+          'wager', tt.wager_points
+        )
+      )
+      ORDER BY t.created_at
+    ), '[]'::jsonb) AS teams
+    FROM game_teams t
+    JOIN team_totals tt ON tt.team_id = t.id
+  ),
+  -- Rounds in order, each with every team's score for it
+  rounds_json AS (
+    SELECT COALESCE(jsonb_agg(
+      to_jsonb(r) || jsonb_build_object('team_scores', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object(
+          'team_id', t.id,
+          'team_name', t.name,
+          'round_score', COALESCE(tr.points, 0),
+          'correct_answers', COALESCE(tr.correct_answers, 0),
+          'points_breakdown', jsonb_build_object(
+            'correct', COALESCE(tr.correct_points, 0),
+            'incorrect', COALESCE(tr.incorrect_points, 0),
+            'speed_bonus', COALESCE(tr.speed_bonus, 0),
+            'wager', COALESCE(tr.wager_points, 0)
+          )
+        ) ORDER BY t.created_at)
+        FROM game_teams t
+        LEFT JOIN team_rounds tr ON tr.team_id = t.id AND tr.round_id = r.id
+      ), '[]'::jsonb))
+      ORDER BY r.round_number
+    ), '[]'::jsonb) AS rounds
+    FROM game_rounds r
+  ),
+  overall AS (
+    SELECT
+      g.total_rounds * g.questions_per_round * (SELECT COUNT(*) FROM game_teams) AS total_questions,
+      (SELECT COALESCE(SUM(correct_answers), 0) FROM team_totals) AS total_correct_answers,
+      GREATEST(0, ROUND(EXTRACT(EPOCH FROM (
+        COALESCE(g.end_time, now()) - COALESCE(g.start_time, g.end_time, now())
+      )) * 1000)) AS duration_ms
+    FROM game g
+  )
+  SELECT jsonb_build_object(
+    'game', to_jsonb(g),
+    'teams', (SELECT teams FROM teams_json),
+    'rounds', (SELECT rounds FROM rounds_json),
+    'tie_breaker_winner_id', (
+      SELECT winner_team_id FROM tie_breakers
+      WHERE game_id = p_game_id AND winner_team_id IS NOT NULL
+      LIMIT 1
+    ),
+    'overall_stats', jsonb_build_object(
+      'total_questions', o.total_questions,
+      'total_correct_answers', o.total_correct_answers,
+      'average_accuracy', CASE
+        WHEN o.total_questions > 0 THEN (100.0 * o.total_correct_answers / o.total_questions)::FLOAT8
+        ELSE 0
+      END,
+      'duration_ms', o.duration_ms
+    )
+  )
+  FROM game g
+  CROSS JOIN overall o;
+$$ LANGUAGE sql STABLE;
+
+-- Redefine complete_multi_user_game so a tie-breaker can't be cut short
+CREATE OR REPLACE FUNCTION complete_multi_user_game(p_game_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_game games%ROWTYPE;
+  v_summary JSONB;
+BEGIN
+  SELECT * INTO v_game FROM games WHERE id = p_game_id FOR UPDATE;
+
+  IF v_game.id IS NULL OR v_game.host_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the host can end the game';
+  END IF;
+
+  SELECT summary INTO v_summary FROM game_results WHERE game_id = p_game_id;
+
+  IF v_summary IS NOT NULL THEN
+    RETURN v_summary;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM tie_breakers WHERE game_id = p_game_id AND status = 'open') THEN
+    RAISE EXCEPTION 'Resolve the tie-breaker before ending the game';
+  END IF;
+
+  UPDATE games
+  SET status = 'completed',
+      end_time = CASE WHEN status = 'completed' THEN end_time ELSE now() END
+  WHERE id = p_game_id;
+
+  v_summary := get_game_summary(p_game_id);
+
+  INSERT INTO game_results (game_id, summary)
+  VALUES (p_game_id, v_summary);
+
+  RETURN v_summary;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Redefine the question draws to leave out numeric questions
+-- Rounds, host question lists and single-player skips always show four choices
+CREATE OR REPLACE FUNCTION pick_balanced_questions(
+  p_categories TEXT[],
+  p_excluded UUID[],
+  p_picked UUID[],
+  p_target NUMERIC,
+  p_count INTEGER
+)
+RETURNS UUID[] AS $$
+BEGIN
+  RETURN ARRAY(
+    SELECT ranked.id
+    FROM (
+      SELECT
+        q.id,
+        q.category,
+        ROW_NUMBER() OVER (
+          PARTITION BY q.category
+          ORDER BY ABS(COALESCE(q.difficulty, 0.5) - p_target) + random() * 0.1
+        ) AS category_rank
+      FROM questions q
+      WHERE q.category = ANY(p_categories)
+        AND q.status = 'approved'
+        AND q.question_type = 'multiple_choice'
+        AND q.id <> ALL(p_excluded)
+        AND q.id <> ALL(p_picked)
+    ) ranked
+    LEFT JOIN (
+      SELECT category, COUNT(*) AS picked_count
+      FROM questions
+      WHERE id = ANY(p_picked)
+      GROUP BY category
+    ) picked ON picked.category = ranked.category
+    ORDER BY ranked.category_rank + COALESCE(picked.picked_count, 0), random()
+    LIMIT p_count
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION get_available_questions_for_host(
+  p_host_id UUID,
+  p_categories TEXT[],
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  question_id UUID,
+  category TEXT,
+  question TEXT,
+  a TEXT,
+  b TEXT,
+  c TEXT,
+  d TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    q.id,
+    q.category,
+    q.question,
+    q.a,
+    q.b,
+    q.c,
+    q.d
+  FROM questions q
+  WHERE
+    q.category = ANY(p_categories)
+    AND q.status = 'approved'
+    AND q.question_type = 'multiple_choice'
+    AND q.id NOT IN (
+      SELECT huq.question_id
+      FROM host_used_questions huq
+      WHERE huq.host_id = p_host_id
+    )
+  ORDER BY RANDOM()
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION use_lifeline(
+  p_game_question_id UUID,
+  p_lifeline TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session_id UUID;
+  v_session game_sessions%ROWTYPE;
+  v_question game_questions%ROWTYPE;
+  v_replacement RECORD;
+  v_removed JSONB;
+  v_remaining INTEGER;
+  v_prompt RECORD;
+BEGIN
+  IF p_lifeline NOT IN ('fifty_fifty', 'skip', 'extra_time') THEN
+    RAISE EXCEPTION 'Unknown lifeline: %', p_lifeline;
+  END IF;
+
+  SELECT game_session_id INTO v_session_id FROM game_questions WHERE id = p_game_question_id;
+
+  IF v_session_id IS NULL THEN
+    RAISE EXCEPTION 'Game question not found';
+  END IF;
+
+  -- Lock in the same order as validate_answer so a lifeline and an answer
+  -- for the same question can't interleave
+  SELECT * INTO v_session
+  FROM game_sessions
+  WHERE id = v_session_id
+  FOR UPDATE;
+
+  SELECT * INTO v_question
+  FROM game_questions
+  WHERE id = p_game_question_id
+  FOR UPDATE;
+
+  IF v_session.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Game question not found';
+  END IF;
+
+  IF v_session.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Game is not in progress';
+  END IF;
+
+  IF v_question.answered_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Question has already been answered';
+  END IF;
+
+  IF v_question.question_order <> v_session.current_question_index + 1 THEN
+    RAISE EXCEPTION 'Lifelines can only be used on the current question';
+  END IF;
+
+  v_remaining := (v_session.lifelines_remaining->>p_lifeline)::INTEGER;
+  IF v_remaining < 1 THEN
+    RAISE EXCEPTION 'No % lifelines left', replace(p_lifeline, '_', ' ');
+  END IF;
+
+  IF p_lifeline = 'fifty_fifty' THEN
+    IF v_question.fifty_fifty_used THEN
+      RAISE EXCEPTION '50/50 has already been used on this question';
+    END IF;
+
+    -- Remove two wrong answers at random
+    SELECT jsonb_agg(answer) INTO v_removed
+    FROM (
+      SELECT answer
+      FROM jsonb_array_elements_text(v_question.presented_answers) AS answer
+      WHERE answer <> v_question.correct_answer
+      ORDER BY random()
+      LIMIT 2
+    ) wrong_answers;
+
+    UPDATE game_questions
+    SET fifty_fifty_used = true, removed_answers = v_removed
+    WHERE id = v_question.id;
+
+  ELSIF p_lifeline = 'skip' THEN
+    IF v_question.skipped_question_id IS NOT NULL THEN
+      RAISE EXCEPTION 'This question has already been skipped';
+    END IF;
+
+    -- Prefer a question the player has never seen, then any question not in this game
+    SELECT q.id, q.a, q.b, q.c, q.d INTO v_replacement
+    FROM questions q
+    WHERE q.category = (SELECT category FROM questions WHERE id = v_question.question_id)
+      AND q.status = 'approved'
+      AND q.question_type = 'multiple_choice'
+      AND q.id NOT IN (
+        SELECT question_id FROM game_questions WHERE game_session_id = v_session.id
+      )
+    ORDER BY
+      EXISTS (
+        SELECT 1
+        FROM game_questions gq
+        JOIN game_sessions gs ON gs.id = gq.game_session_id
+        WHERE gs.user_id = v_session.user_id AND gq.question_id = q.id
+      ),
+      random()
+    LIMIT 1;
+
+    IF v_replacement.id IS NULL THEN
+      RAISE EXCEPTION 'No other questions are available in this category';
+    END IF;
+
+    -- Answer a is always the correct one
+    UPDATE game_questions
+    SET
+      question_id = v_replacement.id,
+      correct_answer = v_replacement.a,
+      presented_answers = (
+        SELECT jsonb_agg(answer ORDER BY random())
+        FROM unnest(ARRAY[v_replacement.a, v_replacement.b, v_replacement.c, v_replacement.d]) AS answer
+      ),
+      skipped_question_id = v_question.question_id,
+      removed_answers = NULL,
+      extra_time_seconds = 0
+    WHERE id = v_question.id;
+
+    -- The replacement question starts with a fresh clock
+    UPDATE game_sessions SET question_elapsed_ms = 0 WHERE id = v_session.id;
+
+  ELSE
+    IF v_session.question_time_limit_seconds IS NULL THEN
+      RAISE EXCEPTION 'Extra time needs a question time limit';
+    END IF;
+
+    IF v_question.extra_time_used THEN
+      RAISE EXCEPTION 'Extra time has already been used on this question';
+    END IF;
+
+    UPDATE game_questions
+    SET extra_time_used = true, extra_time_seconds = 15
+    WHERE id = v_question.id;
+  END IF;
+
+  UPDATE game_sessions
+  SET lifelines_remaining = jsonb_set(lifelines_remaining, ARRAY[p_lifeline], to_jsonb(v_remaining - 1))
+  WHERE id = v_session.id
+  RETURNING * INTO v_session;
+
+  SELECT gq.*, q.question, q.category INTO v_prompt
+  FROM game_questions gq
+  JOIN questions q ON q.id = gq.question_id
+  WHERE gq.id = v_question.id;
+
+  RETURN jsonb_build_object(
+    'lifeline', p_lifeline,
+    'question', jsonb_build_object(
+      'id', v_prompt.id,
+      'question', v_prompt.question,
+      'category', v_prompt.category,
+      'answers', v_prompt.presented_answers,
+      'round_number', v_prompt.round_number,
+      'question_number', v_prompt.question_order,
+      'total_questions', v_session.total_rounds * v_session.questions_per_round,
+      'removed_answers', COALESCE(v_prompt.removed_answers, '[]'::jsonb),
+      'extra_time_seconds', v_prompt.extra_time_seconds
+    ),
+    'lifelines_remaining', v_session.lifelines_remaining
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION start_tie_breaker(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION submit_tie_breaker_answer(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION resolve_tie_breaker(UUID) TO authenticated;
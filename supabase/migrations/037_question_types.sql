@@ -0,0 +1,1550 @@
+-- Migration: True/false, numeric and free-text questions
+-- Purpose: Let games mix multiple choice with true/false, numeric "closest
+-- wins" and free-text questions, store each type's answers in game_questions
+-- and team_answers, grade free text with fuzzy matching and let hosts override
+-- free-text grades
+
+-- Levenshtein distance for fuzzy free-text matching
+CREATE EXTENSION IF NOT EXISTS fuzzystrmatch;
+
+-- Widen the question types
+-- Answer a is always the correct one:
+-- - multiple choice: four choices in a-d
+-- - true/false: 'True' or 'False' in a and the other in b
+-- - numeric: a plain number in a, nothing in b-d
+-- - free text: the accepted answer in a, nothing in b-d
+ALTER TABLE questions
+DROP CONSTRAINT valid_question_type,
+DROP CONSTRAINT valid_numeric_answer,
+ADD CONSTRAINT valid_question_type CHECK (question_type IN ('multiple_choice', 'true_false', 'numeric', 'free_text')),
+ADD CONSTRAINT valid_question_answers CHECK (
+  CASE question_type
+    WHEN 'true_false' THEN
+      a IN ('True', 'False') AND b IN ('True', 'False') AND a <> b AND c IS NULL AND d IS NULL
+    WHEN 'numeric' THEN
+      a ~ '^-?[0-9]+(\.[0-9]+)?$' AND b IS NULL AND c IS NULL AND d IS NULL
+    WHEN 'free_text' THEN
+      NULLIF(btrim(a), '') IS NOT NULL AND b IS NULL AND c IS NULL AND d IS NULL
+    ELSE true
+  END
+);
+
+-- Add the question types each kind of game draws from
+-- Numeric questions are closest wins between teams, so single-player games
+-- can't use them
+ALTER TABLE games
+ADD COLUMN question_types TEXT[] DEFAULT '{multiple_choice}' NOT NULL,
+ADD CONSTRAINT valid_game_question_types CHECK (
+  cardinality(question_types) >= 1 AND
+  question_types <@ ARRAY['multiple_choice', 'true_false', 'numeric', 'free_text']
+);
+
+ALTER TABLE game_sessions
+ADD COLUMN question_types TEXT[] DEFAULT '{multiple_choice}' NOT NULL,
+ADD CONSTRAINT valid_session_question_types CHECK (
+  cardinality(question_types) >= 1 AND
+  question_types <@ ARRAY['multiple_choice', 'true_false', 'free_text']
+);
+
+GRANT INSERT (question_types) ON game_sessions TO authenticated;
+
+-- Store the type with each hosted round question
+-- correct_answer is the letter for multiple choice and true/false, and the
+-- answer itself for numeric and free-text questions, which present no choices
+ALTER TABLE round_questions
+ADD COLUMN question_type TEXT DEFAULT 'multiple_choice' NOT NULL,
+ALTER COLUMN correct_answer TYPE TEXT,
+DROP CONSTRAINT valid_presented_answers,
+DROP CONSTRAINT valid_correct_answer,
+ADD CONSTRAINT valid_round_question_type CHECK (question_type IN ('multiple_choice', 'true_false', 'numeric', 'free_text')),
+ADD CONSTRAINT valid_presented_answers CHECK (
+  jsonb_typeof(presented_answers) = 'array' AND
+  jsonb_array_length(presented_answers) = CASE question_type
+    WHEN 'multiple_choice' THEN 4
+    WHEN 'true_false' THEN 2
+    ELSE 0
+  END
+),
+ADD CONSTRAINT valid_correct_answer CHECK (
+  CASE question_type
+    WHEN 'multiple_choice' THEN correct_answer IN ('A', 'B', 'C', 'D')
+    WHEN 'true_false' THEN correct_answer IN ('A', 'B')
+    ELSE char_length(correct_answer) > 0
+  END
+);
+
+-- Store the type with each single-player game question
+-- match_score is how close a free-text answer came, from 0 to 1
+ALTER TABLE game_questions
+ADD COLUMN question_type TEXT DEFAULT 'multiple_choice' NOT NULL,
+ADD COLUMN match_score NUMERIC(4,3),
+DROP CONSTRAINT valid_presented_answers,
+ADD CONSTRAINT valid_game_question_type CHECK (question_type IN ('multiple_choice', 'true_false', 'free_text')),
+ADD CONSTRAINT valid_presented_answers CHECK (
+  jsonb_typeof(presented_answers) = 'array' AND
+  jsonb_array_length(presented_answers) = CASE question_type
+    WHEN 'multiple_choice' THEN 4
+    WHEN 'true_false' THEN 2
+    ELSE 0
+  END
+);
+
+-- Let team answers hold a number or free text as well as a letter
+-- distance is how far a numeric answer was off; match_score as for
+-- game_questions. overridden_by is the host who last regraded a free-text answer.
+ALTER TABLE team_answers
+ALTER COLUMN answer TYPE TEXT,
+DROP CONSTRAINT valid_answer_choice,
+ADD CONSTRAINT valid_answer_length CHECK (char_length(answer) BETWEEN 1 AND 200),
+ADD COLUMN distance NUMERIC,
+ADD COLUMN match_score NUMERIC(4,3),
+ADD COLUMN overridden_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+ADD COLUMN overridden_at TIMESTAMPTZ;
+
+-- Function to put a question's answers in the order players see them
+-- Multiple choice is shuffled, true/false is always True then False, and
+-- numeric and free-text questions show no choices
+CREATE OR REPLACE FUNCTION question_presented_answers(
+  p_question_type TEXT,
+  p_a TEXT,
+  p_b TEXT,
+  p_c TEXT,
+  p_d TEXT
+)
+RETURNS JSONB AS $$
+BEGIN
+  IF p_question_type = 'multiple_choice' THEN
+    RETURN (
+      SELECT jsonb_agg(answer ORDER BY random())
+      FROM unnest(ARRAY[p_a, p_b, p_c, p_d]) AS answer
+    );
+  ELSIF p_question_type = 'true_false' THEN
+    RETURN '["True", "False"]'::JSONB;
+  END IF;
+
+  RETURN '[]'::JSONB;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to put a free-text answer in a form that can be compared
+-- Lowercased, without punctuation, extra spaces or a leading "the", "a" or "an"
+-- Mirrored by normalizeFreeTextAnswer in src/lib/questionTypes.ts
+CREATE OR REPLACE FUNCTION normalize_free_text_answer(p_answer TEXT)
+RETURNS TEXT AS $$
+  SELECT regexp_replace(
+    btrim(regexp_replace(regexp_replace(lower(COALESCE(p_answer, '')), '[^[:alnum:][:space:]]', '', 'g'), '\s+', ' ', 'g')),
+    '^(the|a|an) ',
+    ''
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Function to score how close a free-text answer is to the accepted one
+-- 1 less the edit distance over the longer length, once both are normalized.
+-- An answer scoring 0.8 or more counts as correct.
+-- Mirrored by freeTextMatchScore in src/lib/questionTypes.ts
+CREATE OR REPLACE FUNCTION free_text_match_score(p_answer TEXT, p_correct TEXT)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_answer TEXT := normalize_free_text_answer(p_answer);
+  v_correct TEXT := normalize_free_text_answer(p_correct);
+  v_length INTEGER;
+BEGIN
+  -- levenshtein only takes up to 255 characters
+  v_answer := left(v_answer, 255);
+  v_correct := left(v_correct, 255);
+  v_length := GREATEST(char_length(v_answer), char_length(v_correct));
+
+  IF v_answer = '' OR v_correct = '' THEN
+    RETURN 0;
+  END IF;
+
+  RETURN ROUND(1 - levenshtein(v_answer, v_correct)::NUMERIC / v_length, 3);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Function to work out a scored team answer's points from the game's rules
+-- Correct or incorrect points, scaled by the round multiplier, plus a speed
+-- bonus for correct answers that decays linearly from when answering opened.
+-- Wagers are settled by the callers.
+CREATE OR REPLACE FUNCTION team_answer_points(
+  p_rules JSONB,
+  p_round_number INTEGER,
+  p_is_correct BOOLEAN,
+  p_elapsed_seconds NUMERIC,
+  OUT base_points INTEGER,
+  OUT speed_bonus INTEGER
+) AS $$
+BEGIN
+  base_points := ROUND(
+    CASE WHEN p_is_correct
+      THEN (p_rules->>'correct_points')::INTEGER
+      ELSE (p_rules->>'incorrect_points')::INTEGER
+    END * COALESCE((p_rules->'round_multipliers'->>p_round_number::TEXT)::NUMERIC, 1)
+  );
+  speed_bonus := 0;
+
+  IF p_is_correct AND jsonb_typeof(p_rules->'speed_bonus') = 'object' AND p_elapsed_seconds IS NOT NULL THEN
+    speed_bonus := ROUND(
+      (p_rules->'speed_bonus'->>'max_points')::INTEGER *
+      GREATEST(0, 1 - p_elapsed_seconds / (p_rules->'speed_bonus'->>'window_seconds')::NUMERIC)
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Redefine shuffle_round_question_answers to present each type's answers
+CREATE OR REPLACE FUNCTION shuffle_round_question_answers()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_question questions%ROWTYPE;
+  v_position INTEGER;
+BEGIN
+  IF NEW.presented_answers IS NOT NULL AND NEW.correct_answer IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_question FROM questions WHERE id = NEW.question_id;
+
+  NEW.question_type := v_question.question_type;
+  NEW.presented_answers := question_presented_answers(
+    v_question.question_type, v_question.a, v_question.b, v_question.c, v_question.d
+  );
+
+  IF v_question.question_type IN ('numeric', 'free_text') THEN
+    NEW.correct_answer := v_question.a;
+    RETURN NEW;
+  END IF;
+
+  SELECT ordinality INTO v_position
+  FROM jsonb_array_elements_text(NEW.presented_answers) WITH ORDINALITY
+  WHERE value = v_question.a
+  LIMIT 1;
+
+  NEW.correct_answer := chr(ascii('A') + v_position - 1);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Redefine answer scoring to branch on the question type
+-- Numeric answers are closest wins, so they stay unscored until answering
+-- closes and score_closest_answers compares every team's answer
+CREATE OR REPLACE FUNCTION calculate_answer_correctness()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_question_type TEXT;
+  v_correct_answer TEXT;
+  v_round_number INTEGER;
+  v_opened_at TIMESTAMPTZ;
+  v_total_rounds INTEGER;
+  v_rules JSONB;
+  v_team_score INTEGER;
+  v_points RECORD;
+BEGIN
+  -- Get the correct answer and the game's rules for this question
+  SELECT rq.question_type, rq.correct_answer, r.round_number, r.question_opened_at, g.total_rounds, g.scoring_rules
+  INTO v_question_type, v_correct_answer, v_round_number, v_opened_at, v_total_rounds, v_rules
+  FROM round_questions rq
+  JOIN rounds r ON r.id = rq.round_id
+  JOIN games g ON g.id = r.game_id
+  WHERE rq.id = NEW.round_question_id;
+
+  NEW.answer := btrim(NEW.answer);
+  NEW.distance := NULL;
+  NEW.match_score := NULL;
+  NEW.overridden_by := NULL;
+  NEW.overridden_at := NULL;
+
+  IF NEW.answer = '' THEN
+    RAISE EXCEPTION 'Answer is required';
+  END IF;
+
+  -- Set is_correct based on submitted answer
+  IF v_question_type = 'multiple_choice' THEN
+    NEW.answer := upper(NEW.answer);
+    IF NEW.answer NOT IN ('A', 'B', 'C', 'D') THEN
+      RAISE EXCEPTION 'Answer must be A, B, C or D';
+    END IF;
+    NEW.is_correct := (NEW.answer = v_correct_answer);
+  ELSIF v_question_type = 'true_false' THEN
+    NEW.answer := upper(NEW.answer);
+    IF NEW.answer NOT IN ('A', 'B') THEN
+      RAISE EXCEPTION 'Answer must be A (true) or B (false)';
+    END IF;
+    NEW.is_correct := (NEW.answer = v_correct_answer);
+  ELSIF v_question_type = 'numeric' THEN
+    IF NEW.answer !~ '^-?[0-9]+(\.[0-9]+)?$' THEN
+      RAISE EXCEPTION 'Answer must be a number';
+    END IF;
+    NEW.distance := ABS(NEW.answer::NUMERIC - v_correct_answer::NUMERIC);
+    NEW.is_correct := false;
+  ELSE
+    NEW.match_score := free_text_match_score(NEW.answer, v_correct_answer);
+    NEW.is_correct := NEW.match_score >= 0.8;
+  END IF;
+
+  NEW.base_points := 0;
+  NEW.speed_bonus := 0;
+
+  -- Final round wager: win or lose the amount wagered
+  IF (v_rules->>'final_round_wager')::BOOLEAN AND v_round_number = v_total_rounds THEN
+    SELECT current_score INTO v_team_score FROM teams WHERE id = NEW.team_id;
+
+    IF NEW.wager IS NULL THEN
+      RAISE EXCEPTION 'A wager is required in the final round';
+    END IF;
+
+    IF NEW.wager > GREATEST(v_team_score, 0) THEN
+      RAISE EXCEPTION 'Wager cannot exceed the team''s current score';
+    END IF;
+
+    NEW.points_earned := CASE
+      WHEN v_question_type = 'numeric' THEN 0
+      WHEN NEW.is_correct THEN NEW.wager
+      ELSE -NEW.wager
+    END;
+    RETURN NEW;
+  END IF;
+
+  NEW.wager := NULL;
+
+  IF v_question_type = 'numeric' THEN
+    NEW.points_earned := 0;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_points
+  FROM team_answer_points(
+    v_rules,
+    v_round_number,
+    NEW.is_correct,
+    CASE WHEN v_opened_at IS NULL THEN NULL ELSE EXTRACT(EPOCH FROM (now() - v_opened_at)) END
+  );
+
+  NEW.base_points := v_points.base_points;
+  NEW.speed_bonus := v_points.speed_bonus;
+  NEW.points_earned := NEW.base_points + NEW.speed_bonus;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to score a numeric question once answering has closed
+-- Every team whose answer was closest is correct; the speed bonus runs to
+-- when each team answered. Safe to run again, and team totals are recomputed.
+-- Mirrored by rankClosestAnswers in src/lib/questionTypes.ts
+CREATE OR REPLACE FUNCTION score_closest_answers(p_round_question_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_closest NUMERIC;
+  v_answer RECORD;
+  v_points RECORD;
+  v_team_ids UUID[] := ARRAY[]::UUID[];
+BEGIN
+  SELECT MIN(ta.distance) INTO v_closest
+  FROM team_answers ta
+  JOIN round_questions rq ON rq.id = ta.round_question_id
+  WHERE ta.round_question_id = p_round_question_id
+    AND rq.question_type = 'numeric';
+
+  IF v_closest IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  FOR v_answer IN
+    SELECT
+      ta.id,
+      ta.team_id,
+      ta.distance = v_closest AS is_correct,
+      ta.wager,
+      ta.response_time_ms,
+      r.round_number,
+      g.scoring_rules
+    FROM team_answers ta
+    JOIN round_questions rq ON rq.id = ta.round_question_id
+    JOIN rounds r ON r.id = rq.round_id
+    JOIN games g ON g.id = r.game_id
+    WHERE ta.round_question_id = p_round_question_id
+  LOOP
+    IF v_answer.wager IS NOT NULL THEN
+      UPDATE team_answers
+      SET
+        is_correct = v_answer.is_correct,
+        points_earned = CASE WHEN v_answer.is_correct THEN v_answer.wager ELSE -v_answer.wager END
+      WHERE id = v_answer.id;
+    ELSE
+      SELECT * INTO v_points
+      FROM team_answer_points(
+        v_answer.scoring_rules,
+        v_answer.round_number,
+        v_answer.is_correct,
+        v_answer.response_time_ms / 1000.0
+      );
+
+      UPDATE team_answers
+      SET
+        is_correct = v_answer.is_correct,
+        base_points = v_points.base_points,
+        speed_bonus = v_points.speed_bonus,
+        points_earned = v_points.base_points + v_points.speed_bonus
+      WHERE id = v_answer.id;
+    END IF;
+
+    v_team_ids := array_append(v_team_ids, v_answer.team_id);
+  END LOOP;
+
+  UPDATE teams t
+  SET current_score = (
+    SELECT COALESCE(SUM(points_earned), 0)
+    FROM team_answers
+    WHERE team_id = t.id
+  )
+  WHERE t.id = ANY(v_team_ids);
+
+  RETURN cardinality(v_team_ids);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION score_closest_answers(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Function to score the question that just stopped taking answers
+-- Runs when the host closes or reveals it, moves to another question or ends
+-- the round while answering is open
+CREATE OR REPLACE FUNCTION score_closed_question()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.question_state = 'open' AND OLD.current_round_question_id IS NOT NULL AND (
+    NEW.question_state <> 'open' OR NEW.status <> 'in_progress'
+  ) THEN
+    PERFORM score_closest_answers(OLD.current_round_question_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER score_closed_question_trigger
+  AFTER UPDATE OF current_round_question_id, question_state, status ON rounds
+  FOR EACH ROW
+  EXECUTE FUNCTION score_closed_question();
+
+-- Function for the host to mark a free-text answer right or wrong
+-- Fuzzy matching can't know every acceptable spelling or alias, so the host
+-- has the final say. Points are worked out again from the game's rules,
+-- keeping the speed bonus the answer would have earned.
+CREATE OR REPLACE FUNCTION override_team_answer(p_team_answer_id UUID, p_is_correct BOOLEAN)
+RETURNS JSONB AS $$
+DECLARE
+  v_answer team_answers%ROWTYPE;
+  v_question_type TEXT;
+  v_round_number INTEGER;
+  v_game games%ROWTYPE;
+  v_points RECORD;
+BEGIN
+  SELECT * INTO v_answer FROM team_answers WHERE id = p_team_answer_id FOR UPDATE;
+
+  SELECT rq.question_type, r.round_number INTO v_question_type, v_round_number
+  FROM round_questions rq
+  JOIN rounds r ON r.id = rq.round_id
+  WHERE rq.id = v_answer.round_question_id;
+
+  SELECT g.* INTO v_game
+  FROM games g
+  JOIN teams t ON t.game_id = g.id
+  WHERE t.id = v_answer.team_id;
+
+  IF v_answer.id IS NULL OR v_game.host_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the host can override answers';
+  END IF;
+
+  IF v_question_type <> 'free_text' THEN
+    RAISE EXCEPTION 'Only free-text answers can be overridden';
+  END IF;
+
+  IF v_game.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Answers can only be overridden while the game is in progress';
+  END IF;
+
+  IF p_is_correct IS NULL THEN
+    RAISE EXCEPTION 'Say whether the answer is correct';
+  END IF;
+
+  IF v_answer.wager IS NOT NULL THEN
+    UPDATE team_answers
+    SET
+      is_correct = p_is_correct,
+      points_earned = CASE WHEN p_is_correct THEN wager ELSE -wager END,
+      overridden_by = auth.uid(),
+      overridden_at = NOW()
+    WHERE id = p_team_answer_id
+    RETURNING * INTO v_answer;
+  ELSE
+    SELECT * INTO v_points
+    FROM team_answer_points(v_game.scoring_rules, v_round_number, p_is_correct, v_answer.response_time_ms / 1000.0);
+
+    UPDATE team_answers
+    SET
+      is_correct = p_is_correct,
+      base_points = v_points.base_points,
+      speed_bonus = v_points.speed_bonus,
+      points_earned = v_points.base_points + v_points.speed_bonus,
+      overridden_by = auth.uid(),
+      overridden_at = NOW()
+    WHERE id = p_team_answer_id
+    RETURNING * INTO v_answer;
+  END IF;
+
+  UPDATE teams
+  SET current_score = (
+    SELECT COALESCE(SUM(points_earned), 0)
+    FROM team_answers
+    WHERE team_id = v_answer.team_id
+  )
+  WHERE id = v_answer.team_id;
+
+  RETURN to_jsonb(v_answer);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Redefine the question draw to take the game's question types
+-- Types take turns within each category, so a game using several types gets
+-- a mix rather than whichever type has the most questions
+-- The new parameter changes the signature, so the old function is dropped first
+DROP FUNCTION IF EXISTS pick_balanced_questions(TEXT[], UUID[], UUID[], NUMERIC, INTEGER);
+
+CREATE OR REPLACE FUNCTION pick_balanced_questions(
+  p_categories TEXT[],
+  p_excluded UUID[],
+  p_picked UUID[],
+  p_target NUMERIC,
+  p_count INTEGER,
+  p_question_types TEXT[] DEFAULT ARRAY['multiple_choice']
+)
+RETURNS UUID[] AS $$
+BEGIN
+  RETURN ARRAY(
+    SELECT ranked.id
+    FROM (
+      SELECT
+        typed.id,
+        typed.category,
+        ROW_NUMBER() OVER (
+          PARTITION BY typed.category
+          ORDER BY typed.type_rank, typed.fit
+        ) AS category_rank
+      FROM (
+        SELECT
+          q.id,
+          q.category,
+          ABS(COALESCE(q.difficulty, 0.5) - p_target) + random() * 0.1 AS fit,
+          ROW_NUMBER() OVER (
+            PARTITION BY q.category, q.question_type
+            ORDER BY ABS(COALESCE(q.difficulty, 0.5) - p_target) + random() * 0.1
+          ) AS type_rank
+        FROM questions q
+        WHERE q.category = ANY(p_categories)
+          AND q.status = 'approved'
+          AND q.question_type = ANY(p_question_types)
+          AND q.id <> ALL(p_excluded)
+          AND q.id <> ALL(p_picked)
+      ) typed
+    ) ranked
+    LEFT JOIN (
+      SELECT category, COUNT(*) AS picked_count
+      FROM questions
+      WHERE id = ANY(p_picked)
+      GROUP BY category
+    ) picked ON picked.category = ranked.category
+    ORDER BY ranked.category_rank + COALESCE(picked.picked_count, 0), random()
+    LIMIT p_count
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION pick_balanced_questions(TEXT[], UUID[], UUID[], NUMERIC, INTEGER, TEXT[]) FROM PUBLIC, anon, authenticated;
+
+-- Redefine plan_game_rounds to draw from the game's question types
+CREATE OR REPLACE FUNCTION plan_game_rounds(p_game_id UUID, p_round_themes JSONB DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  v_game games%ROWTYPE;
+  v_excluded UUID[];
+  v_picked UUID[] := ARRAY[]::UUID[];
+  v_round_question_ids UUID[];
+  v_round_id UUID;
+  v_round_number INTEGER;
+  v_theme JSONB;
+  v_title TEXT;
+  v_categories TEXT[];
+  v_unknown_category TEXT;
+BEGIN
+  SELECT * INTO v_game FROM games WHERE id = p_game_id FOR UPDATE;
+
+  IF v_game.id IS NULL THEN
+    RAISE EXCEPTION 'Game not found';
+  END IF;
+
+  IF v_game.host_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the host can plan rounds';
+  END IF;
+
+  IF v_game.status <> 'setup' THEN
+    RAISE EXCEPTION 'Rounds can only be planned before the game starts';
+  END IF;
+
+  IF p_round_themes IS NULL THEN
+    SELECT jsonb_agg(
+      jsonb_build_object('title', title, 'categories', to_jsonb(categories))
+      ORDER BY round_number
+    )
+    INTO p_round_themes
+    FROM rounds
+    WHERE game_id = p_game_id;
+  ELSIF jsonb_typeof(p_round_themes) <> 'array' THEN
+    RAISE EXCEPTION 'Round themes must be a list';
+  ELSIF jsonb_array_length(p_round_themes) > v_game.total_rounds THEN
+    RAISE EXCEPTION 'The game only has % rounds', v_game.total_rounds;
+  END IF;
+
+  DELETE FROM host_used_questions
+  WHERE host_id = v_game.host_id
+    AND question_id IN (
+      SELECT rq.question_id
+      FROM round_questions rq
+      JOIN rounds r ON r.id = rq.round_id
+      WHERE r.game_id = p_game_id
+    );
+
+  DELETE FROM rounds WHERE game_id = p_game_id;
+
+  SELECT ARRAY(
+    SELECT question_id FROM host_used_questions WHERE host_id = v_game.host_id
+  ) INTO v_excluded;
+
+  FOR v_round_number IN 1..v_game.total_rounds LOOP
+    -- Rounds past the end of the themes are untitled and use every category
+    v_theme := COALESCE(p_round_themes -> (v_round_number - 1), '{}'::JSONB);
+    v_title := NULLIF(btrim(v_theme ->> 'title'), '');
+    v_categories := ARRAY(
+      SELECT DISTINCT jsonb_array_elements_text(COALESCE(v_theme -> 'categories', '[]'::JSONB))
+    );
+
+    SELECT category INTO v_unknown_category
+    FROM unnest(v_categories) AS category
+    WHERE category <> ALL(v_game.selected_categories)
+    LIMIT 1;
+
+    IF v_unknown_category IS NOT NULL THEN
+      RAISE EXCEPTION 'Round % uses a category the game doesn''t include: %', v_round_number, v_unknown_category;
+    END IF;
+
+    v_round_question_ids := pick_balanced_questions(
+      CASE WHEN cardinality(v_categories) = 0 THEN v_game.selected_categories ELSE v_categories END,
+      v_excluded,
+      v_picked,
+      difficulty_curve_target(v_game.difficulty_curve, v_round_number, v_game.total_rounds),
+      v_game.questions_per_round,
+      v_game.question_types
+    );
+
+    IF COALESCE(array_length(v_round_question_ids, 1), 0) < v_game.questions_per_round THEN
+      RAISE EXCEPTION 'Not enough available questions for round %. Need %, found %',
+        v_round_number,
+        v_game.questions_per_round,
+        COALESCE(array_length(v_round_question_ids, 1), 0);
+    END IF;
+
+    INSERT INTO rounds (game_id, round_number, status, title, categories)
+    VALUES (p_game_id, v_round_number, 'pending', v_title, v_categories)
+    RETURNING id INTO v_round_id;
+
+    INSERT INTO round_questions (round_id, question_id, question_order)
+    SELECT v_round_id, picked.question_id, picked.position
+    FROM unnest(v_round_question_ids) WITH ORDINALITY AS picked(question_id, position);
+
+    v_picked := v_picked || v_round_question_ids;
+  END LOOP;
+
+  INSERT INTO host_used_questions (host_id, question_id)
+  SELECT v_game.host_id, unnest(v_picked)
+  ON CONFLICT (host_id, question_id) DO NOTHING;
+
+  RETURN array_length(v_picked, 1);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Redefine reshuffle_round_question to keep the question's type where possible
+-- The replacement comes from the same category and type, then the same
+-- category in any of the game's types, then any of the round's categories
+CREATE OR REPLACE FUNCTION reshuffle_round_question(p_round_question_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_round_question round_questions%ROWTYPE;
+  v_round rounds%ROWTYPE;
+  v_game games%ROWTYPE;
+  v_category TEXT;
+  v_target NUMERIC;
+  v_excluded UUID[];
+  v_replacement UUID[];
+  v_new_id UUID;
+BEGIN
+  SELECT * INTO v_round_question FROM round_questions WHERE id = p_round_question_id;
+
+  IF v_round_question.id IS NULL THEN
+    RAISE EXCEPTION 'Round question not found';
+  END IF;
+
+  SELECT * INTO v_round FROM rounds WHERE id = v_round_question.round_id;
+  SELECT * INTO v_game FROM games WHERE id = v_round.game_id FOR UPDATE;
+
+  IF v_game.host_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the host can plan rounds';
+  END IF;
+
+  IF v_game.status <> 'setup' THEN
+    RAISE EXCEPTION 'Rounds can only be planned before the game starts';
+  END IF;
+
+  SELECT category INTO v_category FROM questions WHERE id = v_round_question.question_id;
+  v_target := difficulty_curve_target(v_game.difficulty_curve, v_round.round_number, v_game.total_rounds);
+
+  -- The game's own questions are already marked used, so this excludes them too
+  SELECT ARRAY(
+    SELECT question_id FROM host_used_questions WHERE host_id = v_game.host_id
+  ) || v_round_question.question_id INTO v_excluded;
+
+  v_replacement := pick_balanced_questions(
+    ARRAY[v_category], v_excluded, ARRAY[]::UUID[], v_target, 1, ARRAY[v_round_question.question_type]
+  );
+
+  IF COALESCE(array_length(v_replacement, 1), 0) = 0 THEN
+    v_replacement := pick_balanced_questions(
+      ARRAY[v_category], v_excluded, ARRAY[]::UUID[], v_target, 1, v_game.question_types
+    );
+  END IF;
+
+  IF COALESCE(array_length(v_replacement, 1), 0) = 0 THEN
+    v_replacement := pick_balanced_questions(
+      CASE WHEN cardinality(v_round.categories) = 0 THEN v_game.selected_categories ELSE v_round.categories END,
+      v_excluded,
+      ARRAY[]::UUID[],
+      v_target,
+      1,
+      v_game.question_types
+    );
+  END IF;
+
+  IF COALESCE(array_length(v_replacement, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'No other questions are available';
+  END IF;
+
+  -- Answers are shuffled on insert, so replace the row rather than update it
+  DELETE FROM round_questions WHERE id = p_round_question_id;
+
+  INSERT INTO round_questions (round_id, question_id, question_order)
+  VALUES (v_round_question.round_id, v_replacement[1], v_round_question.question_order)
+  RETURNING id INTO v_new_id;
+
+  DELETE FROM host_used_questions
+  WHERE host_id = v_game.host_id AND question_id = v_round_question.question_id;
+
+  INSERT INTO host_used_questions (host_id, question_id)
+  VALUES (v_game.host_id, v_replacement[1])
+  ON CONFLICT (host_id, question_id) DO NOTHING;
+
+  RETURN v_new_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Redefine create_game to draw from the session's question types
+-- The new parameter changes the signature, so the old function is dropped first
+DROP FUNCTION IF EXISTS public.create_game(integer, integer, text[], text);
+
+CREATE OR REPLACE FUNCTION public.create_game(
+  p_total_rounds integer,
+  p_questions_per_round integer,
+  p_selected_categories text[],
+  p_difficulty_curve text DEFAULT 'flat',
+  p_question_types text[] DEFAULT '{multiple_choice}'
+)
+ RETURNS TABLE(game_session_id uuid, questions jsonb)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+AS $function$
+DECLARE
+  v_user_id UUID;
+  v_session_id UUID;
+  v_total_questions INTEGER;
+  v_question_record RECORD;
+  v_questions_array JSONB := '[]'::jsonb;
+  v_presented_answers JSONB;
+  v_question_order INTEGER := 1;
+  v_round_number INTEGER;
+  v_round_question_ids UUID[];
+  v_picked_question_ids UUID[] := ARRAY[]::UUID[];
+  v_game_question_id UUID;
+  v_used_question_ids UUID[];
+  v_available_questions_count INTEGER;
+BEGIN
+  -- Get current user ID
+  v_user_id := auth.uid();
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  IF p_difficulty_curve NOT IN ('flat', 'ramp', 'warm_up') THEN
+    RAISE EXCEPTION 'Unknown difficulty curve: %', p_difficulty_curve;
+  END IF;
+
+  IF cardinality(p_question_types) = 0 OR NOT p_question_types <@ ARRAY['multiple_choice', 'true_false', 'free_text'] THEN
+    RAISE EXCEPTION 'Question types must be multiple_choice, true_false or free_text';
+  END IF;
+
+  -- Calculate total questions needed
+  v_total_questions := p_total_rounds * p_questions_per_round;
+
+  -- Get all question IDs that this user has already used
+  SELECT ARRAY(
+    SELECT DISTINCT gq.question_id
+    FROM game_questions gq
+    JOIN game_sessions gs ON gq.game_session_id = gs.id
+    WHERE gs.user_id = v_user_id
+  ) INTO v_used_question_ids;
+
+  -- If no previous questions, initialize as empty array
+  IF v_used_question_ids IS NULL THEN
+    v_used_question_ids := ARRAY[]::UUID[];
+  END IF;
+
+  -- Check how many unused questions are available in selected categories
+  SELECT COUNT(*)
+  FROM questions
+  WHERE category = ANY(p_selected_categories)
+    AND status = 'approved'
+    AND question_type = ANY(p_question_types)
+    AND id != ALL(v_used_question_ids)
+  INTO v_available_questions_count;
+
+  -- If not enough unused questions available, reset user's history for these categories
+  IF v_available_questions_count < v_total_questions THEN
+    RAISE NOTICE 'Not enough unused questions (% available, % needed). Resetting question history for selected categories.',
+      v_available_questions_count, v_total_questions;
+
+    -- Reset question history for the selected categories only
+    PERFORM reset_user_question_history(v_user_id, p_selected_categories);
+
+    -- Clear the used questions array since we just reset
+    v_used_question_ids := ARRAY[]::UUID[];
+
+    -- Recheck available questions count
+    SELECT COUNT(*)
+    FROM questions
+    WHERE category = ANY(p_selected_categories)
+    AND status = 'approved'
+    AND question_type = ANY(p_question_types)
+    INTO v_available_questions_count;
+
+    -- If still not enough questions even after reset, raise error
+    IF v_available_questions_count < v_total_questions THEN
+      RAISE EXCEPTION 'Insufficient questions in selected categories. Available: %, Needed: %',
+        v_available_questions_count, v_total_questions;
+    END IF;
+  END IF;
+
+  -- Create game session
+  INSERT INTO game_sessions (
+    user_id,
+    status,
+    total_rounds,
+    questions_per_round,
+    selected_categories,
+    difficulty_curve,
+    question_types,
+    current_round,
+    current_question_index,
+    total_score
+  ) VALUES (
+    v_user_id,
+    'setup',
+    p_total_rounds,
+    p_questions_per_round,
+    p_selected_categories,
+    p_difficulty_curve,
+    p_question_types,
+    1,
+    0,
+    0
+  ) RETURNING id INTO v_session_id;
+
+  -- Pick each round's questions for its point on the curve, excluding previously used ones
+  FOR v_round_number IN 1..p_total_rounds LOOP
+    v_round_question_ids := pick_balanced_questions(
+      p_selected_categories,
+      v_used_question_ids,
+      v_picked_question_ids,
+      difficulty_curve_target(p_difficulty_curve, v_round_number, p_total_rounds),
+      p_questions_per_round,
+      p_question_types
+    );
+    v_picked_question_ids := v_picked_question_ids || v_round_question_ids;
+
+    FOR v_question_record IN
+      SELECT q.id, q.question, q.category, q.question_type, q.a, q.b, q.c, q.d
+      FROM unnest(v_round_question_ids) WITH ORDINALITY AS picked(question_id, position)
+      JOIN questions q ON q.id = picked.question_id
+      ORDER BY picked.position
+    LOOP
+      -- Multiple choice answers are shuffled (a is always correct)
+      v_presented_answers := question_presented_answers(
+        v_question_record.question_type,
+        v_question_record.a,
+        v_question_record.b,
+        v_question_record.c,
+        v_question_record.d
+      );
+
+      -- Insert game question record and get the game_question_id
+      INSERT INTO game_questions (
+        game_session_id,
+        question_id,
+        question_order,
+        round_number,
+        question_type,
+        presented_answers,
+        correct_answer,
+        points_awarded
+      ) VALUES (
+        v_session_id,
+        v_question_record.id,
+        v_question_order,
+        v_round_number,
+        v_question_record.question_type,
+        v_presented_answers,
+        v_question_record.a,  -- Correct answer is always 'a'
+        0  -- No points awarded yet
+      ) RETURNING id INTO v_game_question_id;
+
+      -- Build questions array for return - use game_question_id as the id field
+      v_questions_array := v_questions_array || jsonb_build_object(
+        'id', v_game_question_id,
+        'question', v_question_record.question,
+        'category', v_question_record.category,
+        'question_type', v_question_record.question_type,
+        'answers', v_presented_answers,
+        'question_order', v_question_order,
+        'round_number', v_round_number
+      );
+
+      v_question_order := v_question_order + 1;
+    END LOOP;
+  END LOOP;
+
+  -- Check if we got enough questions (this should not happen given our validation above)
+  IF jsonb_array_length(v_questions_array) < v_total_questions THEN
+    RAISE EXCEPTION 'Failed to get enough questions. Needed %, got %',
+      v_total_questions, jsonb_array_length(v_questions_array);
+  END IF;
+
+  -- Return the session ID and questions
+  RETURN QUERY SELECT v_session_id, v_questions_array;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.create_game(integer, integer, text[], text, text[]) TO authenticated;
+
+-- Redefine the game question check so free-text answers are matched fuzzily
+-- rather than against presented answers
+CREATE OR REPLACE FUNCTION validate_game_question_answer()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.user_answer IS NOT NULL THEN
+    IF NEW.question_type = 'free_text' THEN
+      NEW.match_score := free_text_match_score(NEW.user_answer, NEW.correct_answer);
+      NEW.is_correct := NEW.match_score >= 0.8;
+      RETURN NEW;
+    END IF;
+
+    -- If user_answer is provided, validate it's in presented_answers
+    IF NOT (NEW.presented_answers ? NEW.user_answer) THEN
+      RAISE EXCEPTION 'User answer must be one of the presented answers';
+    END IF;
+
+    -- Auto-calculate is_correct based on user_answer vs correct_answer
+    NEW.is_correct := (NEW.user_answer = NEW.correct_answer);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Redefine validate_answer to grade free-text answers
+-- Free text is trimmed and fuzzily matched; other types must still be one of
+-- the presented answers. The next question includes its type.
+CREATE OR REPLACE FUNCTION validate_answer(
+  p_game_question_id UUID,
+  p_user_answer TEXT,
+  p_time_to_answer_ms BIGINT
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session_id UUID;
+  v_question game_questions%ROWTYPE;
+  v_session game_sessions%ROWTYPE;
+  v_user_answer TEXT := p_user_answer;
+  v_limit_ms BIGINT;
+  v_timed_out BOOLEAN;
+  v_time_to_answer_ms BIGINT;
+  v_is_correct BOOLEAN;
+  v_assisted BOOLEAN;
+  v_points INTEGER;
+  v_next_index INTEGER;
+  v_total_questions INTEGER;
+  v_game_complete BOOLEAN;
+  v_next_question JSONB;
+BEGIN
+  SELECT game_session_id INTO v_session_id FROM game_questions WHERE id = p_game_question_id;
+
+  IF v_session_id IS NULL THEN
+    RAISE EXCEPTION 'Game question not found';
+  END IF;
+
+  -- Lock the session, then the question, so concurrent submissions from
+  -- double clicks or other tabs run one at a time
+  SELECT * INTO v_session
+  FROM game_sessions
+  WHERE id = v_session_id
+  FOR UPDATE;
+
+  SELECT * INTO v_question
+  FROM game_questions
+  WHERE id = p_game_question_id
+  FOR UPDATE;
+
+  IF v_session.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Game question not found';
+  END IF;
+
+  IF v_session.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Game is not in progress';
+  END IF;
+
+  IF v_question.answered_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Question has already been answered';
+  END IF;
+
+  IF v_question.question_order <> v_session.current_question_index + 1 THEN
+    RAISE EXCEPTION 'Only the current question can be answered';
+  END IF;
+
+  v_limit_ms := (v_session.question_time_limit_seconds + v_question.extra_time_seconds) * 1000;
+  v_time_to_answer_ms := GREATEST(COALESCE(p_time_to_answer_ms, 1), 1);
+
+  IF v_question.question_type = 'free_text' THEN
+    v_user_answer := NULLIF(btrim(v_user_answer), '');
+
+    IF char_length(v_user_answer) > 200 THEN
+      RAISE EXCEPTION 'User answer must be 200 characters or fewer';
+    END IF;
+  END IF;
+
+  IF v_user_answer IS NULL AND v_limit_ms IS NULL THEN
+    RAISE EXCEPTION 'User answer is required when questions have no time limit';
+  END IF;
+
+  IF v_user_answer IS NOT NULL AND v_question.question_type <> 'free_text'
+    AND NOT (v_question.presented_answers ? v_user_answer) THEN
+    RAISE EXCEPTION 'User answer must be one of the presented answers';
+  END IF;
+
+  IF COALESCE(v_question.removed_answers ? v_user_answer, false) THEN
+    RAISE EXCEPTION 'User answer was removed by 50/50';
+  END IF;
+
+  v_timed_out := v_user_answer IS NULL OR COALESCE(v_time_to_answer_ms > v_limit_ms, false);
+
+  IF v_timed_out THEN
+    v_time_to_answer_ms := LEAST(v_time_to_answer_ms, v_limit_ms);
+    v_is_correct := false;
+  ELSIF v_question.question_type = 'free_text' THEN
+    v_is_correct := free_text_match_score(v_user_answer, v_question.correct_answer) >= 0.8;
+  ELSE
+    v_is_correct := v_user_answer = v_question.correct_answer;
+  END IF;
+
+  v_assisted := v_question.removed_answers IS NOT NULL OR v_question.extra_time_seconds > 0;
+  v_points := CASE WHEN v_is_correct AND NOT v_assisted THEN 1 ELSE 0 END;
+
+  UPDATE game_questions
+  SET
+    user_answer = CASE WHEN v_timed_out THEN NULL ELSE v_user_answer END,
+    is_correct = v_is_correct,
+    time_to_answer_ms = v_time_to_answer_ms,
+    answered_at = NOW(),
+    points_awarded = v_points,
+    timed_out = v_timed_out
+  WHERE id = v_question.id;
+
+  v_next_index := v_session.current_question_index + 1;
+  v_total_questions := v_session.total_rounds * v_session.questions_per_round;
+  v_game_complete := v_next_index >= v_total_questions;
+
+  -- The next question starts with a fresh clock
+  UPDATE game_sessions
+  SET
+    total_score = total_score + v_points,
+    current_question_index = v_next_index,
+    current_round = LEAST(v_next_index / questions_per_round + 1, total_rounds),
+    question_elapsed_ms = 0,
+    status = CASE WHEN v_game_complete THEN 'completed'::game_session_status ELSE status END,
+    end_time = CASE WHEN v_game_complete THEN NOW() ELSE end_time END
+  WHERE id = v_session.id
+  RETURNING * INTO v_session;
+
+  IF NOT v_game_complete THEN
+    SELECT jsonb_build_object(
+      'id', gq.id,
+      'question', q.question,
+      'category', q.category,
+      'question_type', gq.question_type,
+      'answers', gq.presented_answers,
+      'round_number', gq.round_number,
+      'question_number', gq.question_order,
+      'total_questions', v_total_questions
+    )
+    INTO v_next_question
+    FROM game_questions gq
+    JOIN questions q ON q.id = gq.question_id
+    WHERE gq.game_session_id = v_session.id
+      AND gq.question_order = v_next_index + 1;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'is_correct', v_is_correct,
+    'correct_answer', v_question.correct_answer,
+    'timed_out', v_timed_out,
+    'points_awarded', v_points,
+    'game_question_updated', true,
+    'session_stats', jsonb_build_object(
+      'current_score', v_session.total_score,
+      'current_round', v_session.current_round,
+      'current_question_index', v_session.current_question_index,
+      'round_complete', v_next_index % v_session.questions_per_round = 0,
+      'game_complete', v_game_complete
+    ),
+    'next_question', v_next_question
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Redefine use_lifeline for the new question types
+-- 50/50 needs four choices, so it only works on multiple choice; a skip
+-- replaces the question with another of the same type
+CREATE OR REPLACE FUNCTION use_lifeline(
+  p_game_question_id UUID,
+  p_lifeline TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session_id UUID;
+  v_session game_sessions%ROWTYPE;
+  v_question game_questions%ROWTYPE;
+  v_replacement RECORD;
+  v_removed JSONB;
+  v_remaining INTEGER;
+  v_prompt RECORD;
+BEGIN
+  IF p_lifeline NOT IN ('fifty_fifty', 'skip', 'extra_time') THEN
+    RAISE EXCEPTION 'Unknown lifeline: %', p_lifeline;
+  END IF;
+
+  SELECT game_session_id INTO v_session_id FROM game_questions WHERE id = p_game_question_id;
+
+  IF v_session_id IS NULL THEN
+    RAISE EXCEPTION 'Game question not found';
+  END IF;
+
+  -- Lock in the same order as validate_answer so a lifeline and an answer
+  -- for the same question can't interleave
+  SELECT * INTO v_session
+  FROM game_sessions
+  WHERE id = v_session_id
+  FOR UPDATE;
+
+  SELECT * INTO v_question
+  FROM game_questions
+  WHERE id = p_game_question_id
+  FOR UPDATE;
+
+  IF v_session.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Game question not found';
+  END IF;
+
+  IF v_session.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Game is not in progress';
+  END IF;
+
+  IF v_question.answered_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Question has already been answered';
+  END IF;
+
+  IF v_question.question_order <> v_session.current_question_index + 1 THEN
+    RAISE EXCEPTION 'Lifelines can only be used on the current question';
+  END IF;
+
+  v_remaining := (v_session.lifelines_remaining->>p_lifeline)::INTEGER;
+  IF v_remaining < 1 THEN
+    RAISE EXCEPTION 'No % lifelines left', replace(p_lifeline, '_', ' ');
+  END IF;
+
+  IF p_lifeline = 'fifty_fifty' THEN
+    IF v_question.question_type <> 'multiple_choice' THEN
+      RAISE EXCEPTION '50/50 only works on multiple choice questions';
+    END IF;
+
+    IF v_question.fifty_fifty_used THEN
+      RAISE EXCEPTION '50/50 has already been used on this question';
+    END IF;
+
+    -- Remove two wrong answers at random
+    SELECT jsonb_agg(answer) INTO v_removed
+    FROM (
+      SELECT answer
+      FROM jsonb_array_elements_text(v_question.presented_answers) AS answer
+      WHERE answer <> v_question.correct_answer
+      ORDER BY random()
+      LIMIT 2
+    ) wrong_answers;
+
+    UPDATE game_questions
+    SET fifty_fifty_used = true, removed_answers = v_removed
+    WHERE id = v_question.id;
+
+  ELSIF p_lifeline = 'skip' THEN
+    IF v_question.skipped_question_id IS NOT NULL THEN
+      RAISE EXCEPTION 'This question has already been skipped';
+    END IF;
+
+    -- Prefer a question the player has never seen, then any question not in this game
+    SELECT q.id, q.question_type, q.a, q.b, q.c, q.d INTO v_replacement
+    FROM questions q
+    WHERE q.category = (SELECT category FROM questions WHERE id = v_question.question_id)
+      AND q.status = 'approved'
+      AND q.question_type = v_question.question_type
+      AND q.id NOT IN (
+        SELECT question_id FROM game_questions WHERE game_session_id = v_session.id
+      )
+    ORDER BY
+      EXISTS (
+        SELECT 1
+        FROM game_questions gq
+        JOIN game_sessions gs ON gs.id = gq.game_session_id
+        WHERE gs.user_id = v_session.user_id AND gq.question_id = q.id
+      ),
+      random()
+    LIMIT 1;
+
+    IF v_replacement.id IS NULL THEN
+      RAISE EXCEPTION 'No other questions are available in this category';
+    END IF;
+
+    -- Answer a is always the correct one
+    UPDATE game_questions
+    SET
+      question_id = v_replacement.id,
+      correct_answer = v_replacement.a,
+      presented_answers = question_presented_answers(
+        v_replacement.question_type, v_replacement.a, v_replacement.b, v_replacement.c, v_replacement.d
+      ),
+      skipped_question_id = v_question.question_id,
+      removed_answers = NULL,
+      extra_time_seconds = 0
+    WHERE id = v_question.id;
+
+    -- The replacement question starts with a fresh clock
+    UPDATE game_sessions SET question_elapsed_ms = 0 WHERE id = v_session.id;
+
+  ELSE
+    IF v_session.question_time_limit_seconds IS NULL THEN
+      RAISE EXCEPTION 'Extra time needs a question time limit';
+    END IF;
+
+    IF v_question.extra_time_used THEN
+      RAISE EXCEPTION 'Extra time has already been used on this question';
+    END IF;
+
+    UPDATE game_questions
+    SET extra_time_used = true, extra_time_seconds = 15
+    WHERE id = v_question.id;
+  END IF;
+
+  UPDATE game_sessions
+  SET lifelines_remaining = jsonb_set(lifelines_remaining, ARRAY[p_lifeline], to_jsonb(v_remaining - 1))
+  WHERE id = v_session.id
+  RETURNING * INTO v_session;
+
+  SELECT gq.*, q.question, q.category INTO v_prompt
+  FROM game_questions gq
+  JOIN questions q ON q.id = gq.question_id
+  WHERE gq.id = v_question.id;
+
+  RETURN jsonb_build_object(
+    'lifeline', p_lifeline,
+    'question', jsonb_build_object(
+      'id', v_prompt.id,
+      'question', v_prompt.question,
+      'category', v_prompt.category,
+      'question_type', v_prompt.question_type,
+      'answers', v_prompt.presented_answers,
+      'round_number', v_prompt.round_number,
+      'question_number', v_prompt.question_order,
+      'total_questions', v_session.total_rounds * v_session.questions_per_round,
+      'removed_answers', COALESCE(v_prompt.removed_answers, '[]'::jsonb),
+      'extra_time_seconds', v_prompt.extra_time_seconds
+    ),
+    'lifelines_remaining', v_session.lifelines_remaining
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Redefine the game state snapshot to include the current question's type
+CREATE OR REPLACE FUNCTION get_game_state(p_game_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_game games%ROWTYPE;
+  v_round rounds%ROWTYPE;
+  v_is_host BOOLEAN;
+  v_player_team_id UUID;
+  v_teams JSONB;
+  v_question JSONB;
+  v_answers JSONB;
+BEGIN
+  SELECT * INTO v_game FROM games WHERE id = p_game_id;
+
+  IF v_game.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_is_host := v_game.host_id = auth.uid();
+
+  SELECT t.id INTO v_player_team_id
+  FROM teams t
+  JOIN team_players tp ON tp.team_id = t.id
+  WHERE t.game_id = p_game_id AND tp.player_id = auth.uid();
+
+  -- Same visibility as the games RLS policies
+  IF NOT v_is_host AND v_player_team_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_round
+  FROM rounds
+  WHERE game_id = p_game_id AND status = 'in_progress'
+  ORDER BY round_number
+  LIMIT 1;
+
+  -- Teams with their players, in join order
+  SELECT COALESCE(jsonb_agg(
+    to_jsonb(t) || jsonb_build_object('players', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', up.id,
+        'display_name', up.display_name,
+        'avatar_url', up.avatar_url,
+        'joined_at', tp.joined_at
+      ) ORDER BY tp.joined_at)
+      FROM team_players tp
+      JOIN user_profiles up ON up.id = tp.player_id
+      WHERE tp.team_id = t.id
+    ), '[]'::jsonb))
+    ORDER BY t.created_at
+  ), '[]'::jsonb)
+  INTO v_teams
+  FROM teams t
+  WHERE t.game_id = p_game_id;
+
+  IF v_round.current_round_question_id IS NOT NULL THEN
+    SELECT jsonb_build_object(
+      'id', rq.id,
+      'round_id', rq.round_id,
+      'question_id', rq.question_id,
+      'question_order', rq.question_order,
+      'question_type', rq.question_type,
+      'question', jsonb_build_object(
+        'category', q.category,
+        'question', q.question
+      ),
+      'presented_answers', rq.presented_answers,
+      'correct_answer', rq.correct_answer,
+      'created_at', rq.created_at
+    )
+    INTO v_question
+    FROM round_questions rq
+    JOIN questions q ON q.id = rq.question_id
+    WHERE rq.id = v_round.current_round_question_id;
+
+    -- Players only see their own team's answer, matching team_answers RLS
+    SELECT COALESCE(jsonb_agg(to_jsonb(ta) ORDER BY ta.submitted_at), '[]'::jsonb)
+    INTO v_answers
+    FROM team_answers ta
+    WHERE ta.round_question_id = v_round.current_round_question_id
+      AND (v_is_host OR ta.team_id = v_player_team_id);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'game', to_jsonb(v_game),
+    'current_round', CASE WHEN v_round.id IS NULL THEN NULL ELSE to_jsonb(v_round) END,
+    'teams', v_teams,
+    'current_question', v_question,
+    'team_answers', COALESCE(v_answers, '[]'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Redefine the question audit log to record type changes
+CREATE OR REPLACE FUNCTION log_question_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old JSONB := CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(OLD) ELSE '{}'::jsonb END;
+  v_new JSONB := to_jsonb(NEW);
+  v_changes JSONB := '{}'::jsonb;
+  v_field TEXT;
+  v_action TEXT;
+BEGIN
+  FOREACH v_field IN ARRAY ARRAY['category', 'question', 'question_type', 'a', 'b', 'c', 'd', 'metadata', 'status'] LOOP
+    IF v_old->v_field IS DISTINCT FROM v_new->v_field THEN
+      v_changes := v_changes || jsonb_build_object(
+        v_field, jsonb_build_object('old', v_old->v_field, 'new', v_new->v_field)
+      );
+    END IF;
+  END LOOP;
+
+  IF TG_OP = 'INSERT' THEN
+    v_action := 'created';
+  ELSIF v_changes = '{}'::jsonb THEN
+    RETURN NULL;
+  ELSIF v_changes - 'status' <> '{}'::jsonb THEN
+    v_action := 'edited';
+  ELSE
+    v_action := CASE NEW.status
+      WHEN 'approved' THEN 'approved'
+      WHEN 'retired' THEN 'retired'
+      ELSE 'reopened'
+    END;
+  END IF;
+
+  INSERT INTO question_audit_log (question_id, changed_by, action, changes)
+  VALUES (NEW.id, auth.uid(), v_action, v_changes);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Redefine save_question to take the question type
+-- Multiple choice needs four different answers; true/false takes 'True' or
+-- 'False' as the answer and fills in the other; numeric and free-text
+-- questions take only the answer
+-- The new parameter changes the signature, so the old function is dropped first
+DROP FUNCTION IF EXISTS save_question(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, JSONB);
+
+CREATE OR REPLACE FUNCTION save_question(
+  p_question_id UUID,
+  p_category TEXT,
+  p_question TEXT,
+  p_a TEXT,
+  p_b TEXT,
+  p_c TEXT,
+  p_d TEXT,
+  p_metadata JSONB DEFAULT '{}'::jsonb,
+  p_question_type TEXT DEFAULT 'multiple_choice'
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_answers TEXT[] := ARRAY[TRIM(p_a), TRIM(p_b), TRIM(p_c), TRIM(p_d)];
+  v_question questions%ROWTYPE;
+BEGIN
+  IF NOT is_question_admin() THEN
+    RAISE EXCEPTION 'Only admins can manage questions';
+  END IF;
+
+  IF NULLIF(TRIM(p_category), '') IS NULL OR NULLIF(TRIM(p_question), '') IS NULL THEN
+    RAISE EXCEPTION 'Category and question are required';
+  END IF;
+
+  IF p_question_type NOT IN ('multiple_choice', 'true_false', 'numeric', 'free_text') THEN
+    RAISE EXCEPTION 'Unknown question type: %', p_question_type;
+  END IF;
+
+  IF p_question_type = 'multiple_choice' THEN
+    IF EXISTS (SELECT 1 FROM unnest(v_answers) AS answer WHERE NULLIF(answer, '') IS NULL) THEN
+      RAISE EXCEPTION 'All four answers are required';
+    END IF;
+
+    IF (SELECT COUNT(DISTINCT lower(answer)) FROM unnest(v_answers) AS answer) < 4 THEN
+      RAISE EXCEPTION 'Answers must all be different';
+    END IF;
+  ELSIF p_question_type = 'true_false' THEN
+    IF lower(v_answers[1]) NOT IN ('true', 'false') THEN
+      RAISE EXCEPTION 'The answer must be True or False';
+    END IF;
+
+    v_answers := CASE WHEN lower(v_answers[1]) = 'true'
+      THEN ARRAY['True', 'False', NULL, NULL]
+      ELSE ARRAY['False', 'True', NULL, NULL]
+    END;
+  ELSIF p_question_type = 'numeric' THEN
+    IF v_answers[1] !~ '^-?[0-9]+(\.[0-9]+)?$' THEN
+      RAISE EXCEPTION 'The answer must be a number';
+    END IF;
+
+    v_answers := ARRAY[v_answers[1], NULL, NULL, NULL];
+  ELSE
+    IF NULLIF(v_answers[1], '') IS NULL THEN
+      RAISE EXCEPTION 'The answer is required';
+    END IF;
+
+    v_answers := ARRAY[v_answers[1], NULL, NULL, NULL];
+  END IF;
+
+  IF jsonb_typeof(COALESCE(p_metadata, '{}'::jsonb)) <> 'object' THEN
+    RAISE EXCEPTION 'Metadata must be a JSON object';
+  END IF;
+
+  IF p_question_id IS NULL THEN
+    INSERT INTO questions (category, question, question_type, a, b, c, d, metadata, status, created_at, updated_at)
+    VALUES (TRIM(p_category), TRIM(p_question), p_question_type, v_answers[1], v_answers[2], v_answers[3], v_answers[4],
+            COALESCE(p_metadata, '{}'::jsonb), 'draft', NOW(), NOW())
+    RETURNING * INTO v_question;
+  ELSE
+    UPDATE questions
+    SET
+      category = TRIM(p_category),
+      question = TRIM(p_question),
+      question_type = p_question_type,
+      a = v_answers[1],
+      b = v_answers[2],
+      c = v_answers[3],
+      d = v_answers[4],
+      metadata = COALESCE(p_metadata, '{}'::jsonb),
+      status = 'draft',
+      updated_at = NOW()
+    WHERE id = p_question_id
+      AND (category, question, question_type, a, b, c, d, metadata)
+        IS DISTINCT FROM (TRIM(p_category), TRIM(p_question), p_question_type, v_answers[1], v_answers[2], v_answers[3], v_answers[4], COALESCE(p_metadata, '{}'::jsonb))
+    RETURNING * INTO v_question;
+
+    -- Saving without changes leaves the question as it was
+    IF v_question.id IS NULL THEN
+      SELECT * INTO v_question FROM questions WHERE id = p_question_id;
+    END IF;
+
+    IF v_question.id IS NULL THEN
+      RAISE EXCEPTION 'Question not found';
+    END IF;
+  END IF;
+
+  RETURN to_jsonb(v_question);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Grant execute permissions; each function checks the caller itself
+GRANT EXECUTE ON FUNCTION override_team_answer(UUID, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION save_question(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, JSONB, TEXT) TO authenticated;
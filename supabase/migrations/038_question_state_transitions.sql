@@ -0,0 +1,43 @@
+-- Migration: Question state transitions
+-- Purpose: Only let the live question move forward through
+-- pending -> open -> closed -> revealed, so a revealed answer can never be
+-- reopened for answering
+
+-- Replace the answer window trigger function with one that rejects any other
+-- change of question_state. Moving to another question still resets it to
+-- pending.
+CREATE OR REPLACE FUNCTION track_question_answer_window()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- A new question always starts with answering not yet open
+  IF NEW.current_round_question_id IS DISTINCT FROM OLD.current_round_question_id THEN
+    NEW.question_state = 'pending';
+    NEW.question_opened_at = NULL;
+    NEW.question_closed_at = NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.question_state IS DISTINCT FROM OLD.question_state THEN
+    IF NEW.current_round_question_id IS NULL AND NEW.question_state <> 'pending' THEN
+      RAISE EXCEPTION 'Round has no current question';
+    END IF;
+
+    IF NOT (
+      (OLD.question_state = 'pending' AND NEW.question_state = 'open') OR
+      (OLD.question_state = 'open' AND NEW.question_state = 'closed') OR
+      (OLD.question_state = 'closed' AND NEW.question_state = 'revealed')
+    ) THEN
+      RAISE EXCEPTION 'Question cannot move from % to %', OLD.question_state, NEW.question_state;
+    END IF;
+
+    IF NEW.question_state = 'open' THEN
+      NEW.question_opened_at = now();
+      NEW.question_closed_at = NULL;
+    ELSIF NEW.question_state = 'closed' THEN
+      NEW.question_closed_at = now();
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
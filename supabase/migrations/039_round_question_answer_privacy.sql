@@ -0,0 +1,165 @@
+-- Migration: Round question answer privacy
+-- Purpose: Keep round_questions.correct_answer from players until the host
+-- reveals it. Players could read it straight from the table or the game state
+-- snapshot while answering was still open.
+
+-- The answer column is no longer readable by clients
+REVOKE SELECT ON round_questions FROM anon, authenticated;
+GRANT SELECT (
+  id,
+  round_id,
+  question_id,
+  question_order,
+  question_type,
+  presented_answers,
+  created_at
+) ON round_questions TO authenticated;
+
+-- Answer scoring runs as the answering player, who can no longer read the answer
+ALTER FUNCTION calculate_answer_correctness() SECURITY DEFINER SET search_path = public;
+
+-- Migration 037 replaced the shuffle without keeping it SECURITY DEFINER, and
+-- the host can't read answer a directly
+ALTER FUNCTION shuffle_round_question_answers() SECURITY DEFINER SET search_path = public;
+
+-- Redefine the game state snapshot to only include the current question's
+-- answer for the host, or for everyone once it's revealed
+CREATE OR REPLACE FUNCTION get_game_state(p_game_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_game games%ROWTYPE;
+  v_round rounds%ROWTYPE;
+  v_is_host BOOLEAN;
+  v_player_team_id UUID;
+  v_teams JSONB;
+  v_question JSONB;
+  v_answers JSONB;
+BEGIN
+  SELECT * INTO v_game FROM games WHERE id = p_game_id;
+
+  IF v_game.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_is_host := v_game.host_id = auth.uid();
+
+  SELECT t.id INTO v_player_team_id
+  FROM teams t
+  JOIN team_players tp ON tp.team_id = t.id
+  WHERE t.game_id = p_game_id AND tp.player_id = auth.uid();
+
+  -- Same visibility as the games RLS policies
+  IF NOT v_is_host AND v_player_team_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_round
+  FROM rounds
+  WHERE game_id = p_game_id AND status = 'in_progress'
+  ORDER BY round_number
+  LIMIT 1;
+
+  -- Teams with their players, in join order
+  SELECT COALESCE(jsonb_agg(
+    to_jsonb(t) || jsonb_build_object('players', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', up.id,
+        'display_name', up.display_name,
+        'avatar_url', up.avatar_url,
+        'joined_at', tp.joined_at
+      ) ORDER BY tp.joined_at)
+      FROM team_players tp
+      JOIN user_profiles up ON up.id = tp.player_id
+      WHERE tp.team_id = t.id
+    ), '[]'::jsonb))
+    ORDER BY t.created_at
+  ), '[]'::jsonb)
+  INTO v_teams
+  FROM teams t
+  WHERE t.game_id = p_game_id;
+
+  IF v_round.current_round_question_id IS NOT NULL THEN
+    SELECT jsonb_build_object(
+      'id', rq.id,
+      'round_id', rq.round_id,
+      'question_id', rq.question_id,
+      'question_order', rq.question_order,
+      'question_type', rq.question_type,
+      'question', jsonb_build_object(
+        'category', q.category,
+        'question', q.question
+      ),
+      'presented_answers', rq.presented_answers,
+      'created_at', rq.created_at
+    ) || CASE
+      WHEN v_is_host OR v_round.question_state = 'revealed'
+        THEN jsonb_build_object('correct_answer', rq.correct_answer)
+      ELSE '{}'::jsonb
+    END
+    INTO v_question
+    FROM round_questions rq
+    JOIN questions q ON q.id = rq.question_id
+    WHERE rq.id = v_round.current_round_question_id;
+
+    -- Players only see their own team's answer, matching team_answers RLS
+    SELECT COALESCE(jsonb_agg(to_jsonb(ta) ORDER BY ta.submitted_at), '[]'::jsonb)
+    INTO v_answers
+    FROM team_answers ta
+    WHERE ta.round_question_id = v_round.current_round_question_id
+      AND (v_is_host OR ta.team_id = v_player_team_id);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'game', to_jsonb(v_game),
+    'current_round', CASE WHEN v_round.id IS NULL THEN NULL ELSE to_jsonb(v_round) END,
+    'teams', v_teams,
+    'current_question', v_question,
+    'team_answers', COALESCE(v_answers, '[]'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Function for the host to read every round question in a game with its
+-- answer, round and question, for the post-game report
+CREATE OR REPLACE FUNCTION get_game_round_questions(p_game_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_host_id UUID;
+  v_questions JSONB;
+BEGIN
+  SELECT host_id INTO v_host_id FROM games WHERE id = p_game_id;
+
+  IF v_host_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the host can view round question answers';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', rq.id,
+    'question_id', rq.question_id,
+    'question_order', rq.question_order,
+    'question_type', rq.question_type,
+    'presented_answers', rq.presented_answers,
+    'correct_answer', rq.correct_answer,
+    'rounds', jsonb_build_object(
+      'game_id', r.game_id,
+      'round_number', r.round_number,
+      'title', r.title
+    ),
+    'questions', jsonb_build_object(
+      'question', q.question,
+      'category', q.category,
+      'difficulty', q.difficulty,
+      'average_time_ms', q.average_time_ms
+    )
+  ) ORDER BY r.round_number, rq.question_order), '[]'::jsonb)
+  INTO v_questions
+  FROM round_questions rq
+  JOIN rounds r ON r.id = rq.round_id
+  JOIN questions q ON q.id = rq.question_id
+  WHERE r.game_id = p_game_id;
+
+  RETURN v_questions;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+GRANT EXECUTE ON FUNCTION get_game_round_questions(UUID) TO authenticated;
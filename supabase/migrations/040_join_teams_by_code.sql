@@ -0,0 +1,74 @@
+-- Migration: Join teams by join code
+-- Purpose: Let players create and join teams in a game they found by its join
+-- code. They aren't in the game yet, so games RLS hides it from them and the
+-- teams and team_players policies can't see it either.
+
+-- Function to create a team in the game with the given join code
+CREATE OR REPLACE FUNCTION create_team(
+  p_join_code TEXT,
+  p_name TEXT,
+  p_display_color TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_game_id UUID;
+  v_team teams%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to create a team';
+  END IF;
+
+  SELECT id INTO v_game_id FROM games WHERE join_code = upper(trim(p_join_code));
+
+  IF v_game_id IS NULL THEN
+    RAISE EXCEPTION 'Game not found';
+  END IF;
+
+  -- The setup-only rule and max_teams are enforced by check_team_creation
+  INSERT INTO teams (game_id, name, display_color, current_score)
+  VALUES (v_game_id, trim(p_name), COALESCE(p_display_color, '#FF0000'), 0)
+  RETURNING * INTO v_team;
+
+  RETURN to_jsonb(v_team);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to add the caller to a team in the game with the given join code
+CREATE OR REPLACE FUNCTION join_team(p_join_code TEXT, p_team_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_game_id UUID;
+  v_team_player team_players%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to join a team';
+  END IF;
+
+  SELECT g.id INTO v_game_id
+  FROM games g
+  JOIN teams t ON t.game_id = g.id
+  WHERE g.join_code = upper(trim(p_join_code)) AND t.id = p_team_id;
+
+  IF v_game_id IS NULL THEN
+    RAISE EXCEPTION 'Team not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM team_players tp
+    JOIN teams t ON t.id = tp.team_id
+    WHERE t.game_id = v_game_id AND tp.player_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Player is already in a team for this game';
+  END IF;
+
+  -- The setup-only rule and max_players_per_team are enforced by triggers
+  INSERT INTO team_players (team_id, player_id)
+  VALUES (p_team_id, auth.uid())
+  RETURNING * INTO v_team_player;
+
+  RETURN to_jsonb(v_team_player);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION create_team(TEXT, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION join_team(TEXT, UUID) TO authenticated;
@@ -0,0 +1,66 @@
+-- Migration: Team limit triggers run as their owner
+-- Purpose: The team count, team size and setup-only roster triggers read the
+-- game as the caller. A player who can't see the game yet got no row back, so
+-- the limits compared against NULL and let the change through.
+
+-- Redefine team creation checks to fail if the game can't be found
+CREATE OR REPLACE FUNCTION check_team_creation()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_game games%ROWTYPE;
+  v_team_count INTEGER;
+BEGIN
+  -- Lock the game so concurrent team creation cannot exceed max_teams
+  SELECT * INTO v_game FROM games WHERE id = NEW.game_id FOR UPDATE;
+
+  IF v_game.id IS NULL THEN
+    RAISE EXCEPTION 'Game not found';
+  END IF;
+
+  IF v_game.status <> 'setup' THEN
+    RAISE EXCEPTION 'Teams can only be created while the game is in setup';
+  END IF;
+
+  SELECT COUNT(*) INTO v_team_count FROM teams WHERE game_id = NEW.game_id;
+
+  IF v_team_count >= v_game.max_teams THEN
+    RAISE EXCEPTION 'Game cannot have more than % teams', v_game.max_teams;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Redefine the team size check to fail if the team can't be found
+CREATE OR REPLACE FUNCTION check_team_size_limit()
+RETURNS TRIGGER AS $$
+DECLARE
+  team_count INTEGER;
+  max_players INTEGER;
+BEGIN
+  SELECT g.max_players_per_team INTO max_players
+  FROM teams t
+  JOIN games g ON g.id = t.game_id
+  WHERE t.id = NEW.team_id
+  FOR UPDATE OF t;
+
+  IF max_players IS NULL THEN
+    RAISE EXCEPTION 'Team not found';
+  END IF;
+
+  SELECT COUNT(*) INTO team_count
+  FROM team_players
+  WHERE team_id = NEW.team_id;
+
+  -- Check if adding this player would exceed limit
+  IF team_count >= max_players THEN
+    RAISE EXCEPTION 'Team cannot have more than % players', max_players;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The roster check lets changes through when the game is gone, for cascades,
+-- so it too has to see every game
+ALTER FUNCTION check_roster_change_during_setup() SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,173 @@
+-- Migration: Host-issued guest upgrade codes
+-- Purpose: Let a host move a guest's games onto a full account. Guests can
+-- upgrade themselves while still signed in, but one who has lost their guest
+-- session can't. The host issues a one-time code for the guest, who registers
+-- or signs in and claims their teams, answers and solo games with it.
+
+CREATE TABLE guest_upgrade_codes (
+  code VARCHAR(8) PRIMARY KEY,
+  guest_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  issued_by UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  game_id UUID NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  expires_at TIMESTAMPTZ DEFAULT NOW() + INTERVAL '7 days' NOT NULL,
+  claimed_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+  claimed_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_guest_upgrade_codes_guest_id ON guest_upgrade_codes(guest_id);
+
+-- RLS enabled with no policies; codes are only issued and claimed through the functions below
+ALTER TABLE guest_upgrade_codes ENABLE ROW LEVEL SECURITY;
+
+-- Seats only change hands when a guest's games are claimed, so clients can't
+-- update team memberships at all
+REVOKE UPDATE ON team_players FROM anon, authenticated;
+
+-- Redefine the roster check to let claims move a guest's seat to their new
+-- account after the game has started. Only SECURITY DEFINER functions can
+-- update team_players now.
+CREATE OR REPLACE FUNCTION check_roster_change_during_setup()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_team_id UUID;
+  v_status VARCHAR;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.team_id = OLD.team_id THEN
+    RETURN NEW;
+  END IF;
+
+  v_team_id := CASE WHEN TG_OP = 'DELETE' THEN OLD.team_id ELSE NEW.team_id END;
+
+  SELECT g.status INTO v_status
+  FROM teams t
+  JOIN games g ON g.id = t.game_id
+  WHERE t.id = v_team_id;
+
+  -- The team or game is being deleted; let the cascade through
+  IF v_status IS NOT NULL AND v_status <> 'setup' THEN
+    RAISE EXCEPTION 'Team rosters can only change while the game is in setup';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function for the host to issue an upgrade code for a guest who played in their game
+CREATE OR REPLACE FUNCTION create_guest_upgrade_code(p_game_id UUID, p_player_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  v_alphabet TEXT := 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+  v_code VARCHAR(8);
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM games WHERE id = p_game_id AND host_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only the host can issue upgrade codes';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM team_players tp
+    JOIN teams t ON t.id = tp.team_id
+    WHERE t.game_id = p_game_id AND tp.player_id = p_player_id
+  ) THEN
+    RAISE EXCEPTION 'Player is not in this game';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = p_player_id AND is_anonymous) THEN
+    RAISE EXCEPTION 'Only guests can be upgraded';
+  END IF;
+
+  LOOP
+    SELECT string_agg(substr(v_alphabet, 1 + floor(random() * length(v_alphabet))::INTEGER, 1), '')
+    INTO v_code
+    FROM generate_series(1, 8);
+
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM guest_upgrade_codes WHERE code = v_code);
+  END LOOP;
+
+  INSERT INTO guest_upgrade_codes (code, guest_id, issued_by, game_id)
+  VALUES (v_code, p_player_id, auth.uid(), p_game_id);
+
+  RETURN v_code;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function for a full account to claim a guest's games with an upgrade code
+-- Moves the guest's team seats and the answers they gave, except in games the
+-- account already played, and their solo games and stats
+CREATE OR REPLACE FUNCTION claim_guest_history(p_code TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_code guest_upgrade_codes%ROWTYPE;
+  v_teams UUID[];
+  v_sessions INTEGER;
+BEGIN
+  IF auth.uid() IS NULL OR is_guest_user() THEN
+    RAISE EXCEPTION 'Sign in with a full account to claim guest games';
+  END IF;
+
+  SELECT * INTO v_code
+  FROM guest_upgrade_codes
+  WHERE code = upper(trim(p_code))
+  FOR UPDATE;
+
+  IF v_code.code IS NULL OR v_code.claimed_at IS NOT NULL OR v_code.expires_at < NOW() THEN
+    RAISE EXCEPTION 'Upgrade code is invalid or has expired';
+  END IF;
+
+  IF v_code.guest_id = auth.uid() THEN
+    RAISE EXCEPTION 'This account already has these games';
+  END IF;
+
+  -- One team per player per game, so games both accounts played stay with the guest
+  SELECT COALESCE(array_agg(tp.team_id), '{}') INTO v_teams
+  FROM team_players tp
+  JOIN teams t ON t.id = tp.team_id
+  WHERE tp.player_id = v_code.guest_id
+    AND NOT EXISTS (
+      SELECT 1 FROM team_players mine
+      JOIN teams mine_t ON mine_t.id = mine.team_id
+      WHERE mine.player_id = auth.uid() AND mine_t.game_id = t.game_id
+    );
+
+  UPDATE team_players SET player_id = auth.uid()
+  WHERE player_id = v_code.guest_id AND team_id = ANY(v_teams);
+
+  UPDATE team_answers SET submitted_by = auth.uid()
+  WHERE submitted_by = v_code.guest_id AND team_id = ANY(v_teams);
+
+  UPDATE tie_breaker_answers SET submitted_by = auth.uid()
+  WHERE submitted_by = v_code.guest_id AND team_id = ANY(v_teams);
+
+  UPDATE game_sessions SET user_id = auth.uid()
+  WHERE user_id = v_code.guest_id;
+  GET DIAGNOSTICS v_sessions = ROW_COUNT;
+
+  UPDATE user_profiles me
+  SET
+    total_games_played = me.total_games_played + guest.total_games_played,
+    total_correct_answers = me.total_correct_answers + guest.total_correct_answers,
+    total_questions_answered = me.total_questions_answered + guest.total_questions_answered
+  FROM user_profiles guest
+  WHERE me.id = auth.uid() AND guest.id = v_code.guest_id;
+
+  UPDATE user_profiles
+  SET total_games_played = 0, total_correct_answers = 0, total_questions_answered = 0
+  WHERE id = v_code.guest_id;
+
+  UPDATE guest_upgrade_codes
+  SET claimed_by = auth.uid(), claimed_at = NOW()
+  WHERE code = v_code.code;
+
+  RETURN jsonb_build_object(
+    'teams_claimed', cardinality(v_teams),
+    'sessions_claimed', v_sessions
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION create_guest_upgrade_code(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION claim_guest_history(TEXT) TO authenticated;
@@ -0,0 +1,223 @@
+-- Migration: Server-side question clock
+-- Purpose: validate_answer timed answers with the time the client reported, and
+-- players could rewind the saved clock by writing question_elapsed_ms. The
+-- session now records when the current question's clock started, and the
+-- server works out the time spent from that and the time banked before pauses.
+
+-- When the current question's clock last started; NULL while it isn't running
+ALTER TABLE game_sessions
+ADD COLUMN question_opened_at TIMESTAMPTZ;
+
+-- Sessions already in progress start counting now
+UPDATE game_sessions SET question_opened_at = NOW() WHERE status = 'in_progress';
+
+-- Only the server moves the clock
+REVOKE UPDATE (question_elapsed_ms) ON game_sessions FROM authenticated;
+
+-- Function to get the time spent on a session's current question
+CREATE OR REPLACE FUNCTION session_question_elapsed_ms(p_session game_sessions)
+RETURNS BIGINT AS $$
+  SELECT p_session.question_elapsed_ms + COALESCE(
+    (EXTRACT(EPOCH FROM (NOW() - p_session.question_opened_at)) * 1000)::BIGINT,
+    0
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Function to restart the clock when the server hands out a fresh question
+-- Clients can't write question_elapsed_ms, so any update that sets it comes
+-- from validate_answer or a skip
+CREATE OR REPLACE FUNCTION restart_session_question_clock()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.question_opened_at := CASE WHEN NEW.status = 'in_progress' THEN NOW() END;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to bank the clock when a session is paused or finished, and start
+-- it again when the session starts or resumes
+CREATE OR REPLACE FUNCTION track_session_question_clock()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'in_progress' AND (TG_OP = 'INSERT' OR OLD.status <> 'in_progress') THEN
+    NEW.question_opened_at := NOW();
+  ELSIF TG_OP = 'UPDATE' AND OLD.status = 'in_progress' AND NEW.status <> 'in_progress' THEN
+    NEW.question_elapsed_ms := session_question_elapsed_ms(NEW);
+    NEW.question_opened_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Triggers fire in name order, so a restart is seen before a finishing game is banked
+CREATE TRIGGER restart_session_question_clock_trigger
+  BEFORE UPDATE OF question_elapsed_ms ON game_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION restart_session_question_clock();
+
+CREATE TRIGGER track_session_question_clock_trigger
+  BEFORE INSERT OR UPDATE OF status ON game_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION track_session_question_clock();
+
+-- Redefine validate_answer to time answers with the session clock
+-- p_time_to_answer_ms is kept so clients already loaded keep working, but it is ignored
+CREATE OR REPLACE FUNCTION validate_answer(
+  p_game_question_id UUID,
+  p_user_answer TEXT,
+  p_time_to_answer_ms BIGINT
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session_id UUID;
+  v_question game_questions%ROWTYPE;
+  v_session game_sessions%ROWTYPE;
+  v_user_answer TEXT := p_user_answer;
+  v_limit_ms BIGINT;
+  v_elapsed_ms BIGINT;
+  v_timed_out BOOLEAN;
+  v_time_to_answer_ms BIGINT;
+  v_is_correct BOOLEAN;
+  v_assisted BOOLEAN;
+  v_points INTEGER;
+  v_next_index INTEGER;
+  v_total_questions INTEGER;
+  v_game_complete BOOLEAN;
+  v_next_question JSONB;
+BEGIN
+  SELECT game_session_id INTO v_session_id FROM game_questions WHERE id = p_game_question_id;
+
+  IF v_session_id IS NULL THEN
+    RAISE EXCEPTION 'Game question not found';
+  END IF;
+
+  -- Lock the session, then the question, so concurrent submissions from
+  -- double clicks or other tabs run one at a time
+  SELECT * INTO v_session
+  FROM game_sessions
+  WHERE id = v_session_id
+  FOR UPDATE;
+
+  SELECT * INTO v_question
+  FROM game_questions
+  WHERE id = p_game_question_id
+  FOR UPDATE;
+
+  IF v_session.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Game question not found';
+  END IF;
+
+  IF v_session.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Game is not in progress';
+  END IF;
+
+  IF v_question.answered_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Question has already been answered';
+  END IF;
+
+  IF v_question.question_order <> v_session.current_question_index + 1 THEN
+    RAISE EXCEPTION 'Only the current question can be answered';
+  END IF;
+
+  v_limit_ms := (v_session.question_time_limit_seconds + v_question.extra_time_seconds) * 1000;
+  v_elapsed_ms := session_question_elapsed_ms(v_session);
+  v_time_to_answer_ms := GREATEST(LEAST(v_elapsed_ms, v_limit_ms), 1);
+
+  IF v_question.question_type = 'free_text' THEN
+    v_user_answer := NULLIF(btrim(v_user_answer), '');
+
+    IF char_length(v_user_answer) > 200 THEN
+      RAISE EXCEPTION 'User answer must be 200 characters or fewer';
+    END IF;
+  END IF;
+
+  IF v_user_answer IS NULL AND v_limit_ms IS NULL THEN
+    RAISE EXCEPTION 'User answer is required when questions have no time limit';
+  END IF;
+
+  IF v_user_answer IS NOT NULL AND v_question.question_type <> 'free_text'
+    AND NOT (v_question.presented_answers ? v_user_answer) THEN
+    RAISE EXCEPTION 'User answer must be one of the presented answers';
+  END IF;
+
+  IF COALESCE(v_question.removed_answers ? v_user_answer, false) THEN
+    RAISE EXCEPTION 'User answer was removed by 50/50';
+  END IF;
+
+  -- A short grace period covers answers that were in flight at the buzzer
+  v_timed_out := v_user_answer IS NULL OR COALESCE(v_elapsed_ms > v_limit_ms + 2000, false);
+
+  IF v_timed_out THEN
+    v_is_correct := false;
+  ELSIF v_question.question_type = 'free_text' THEN
+    v_is_correct := free_text_match_score(v_user_answer, v_question.correct_answer) >= 0.8;
+  ELSE
+    v_is_correct := v_user_answer = v_question.correct_answer;
+  END IF;
+
+  v_assisted := v_question.removed_answers IS NOT NULL OR v_question.extra_time_seconds > 0;
+  v_points := CASE WHEN v_is_correct AND NOT v_assisted THEN 1 ELSE 0 END;
+
+  UPDATE game_questions
+  SET
+    user_answer = CASE WHEN v_timed_out THEN NULL ELSE v_user_answer END,
+    is_correct = v_is_correct,
+    time_to_answer_ms = v_time_to_answer_ms,
+    answered_at = NOW(),
+    points_awarded = v_points,
+    timed_out = v_timed_out
+  WHERE id = v_question.id;
+
+  v_next_index := v_session.current_question_index + 1;
+  v_total_questions := v_session.total_rounds * v_session.questions_per_round;
+  v_game_complete := v_next_index >= v_total_questions;
+
+  -- The next question starts with a fresh clock, restarted by the trigger
+  UPDATE game_sessions
+  SET
+    total_score = total_score + v_points,
+    current_question_index = v_next_index,
+    current_round = LEAST(v_next_index / questions_per_round + 1, total_rounds),
+    question_elapsed_ms = 0,
+    status = CASE WHEN v_game_complete THEN 'completed'::game_session_status ELSE status END,
+    end_time = CASE WHEN v_game_complete THEN NOW() ELSE end_time END
+  WHERE id = v_session.id
+  RETURNING * INTO v_session;
+
+  IF NOT v_game_complete THEN
+    SELECT jsonb_build_object(
+      'id', gq.id,
+      'question', q.question,
+      'category', q.category,
+      'question_type', gq.question_type,
+      'answers', gq.presented_answers,
+      'round_number', gq.round_number,
+      'question_number', gq.question_order,
+      'total_questions', v_total_questions
+    )
+    INTO v_next_question
+    FROM game_questions gq
+    JOIN questions q ON q.id = gq.question_id
+    WHERE gq.game_session_id = v_session.id
+      AND gq.question_order = v_next_index + 1;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'is_correct', v_is_correct,
+    'correct_answer', v_question.correct_answer,
+    'timed_out', v_timed_out,
+    'points_awarded', v_points,
+    'game_question_updated', true,
+    'session_stats', jsonb_build_object(
+      'current_score', v_session.total_score,
+      'current_round', v_session.current_round,
+      'current_question_index', v_session.current_question_index,
+      'round_complete', v_next_index % v_session.questions_per_round = 0,
+      'game_complete', v_game_complete
+    ),
+    'next_question', v_next_question
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
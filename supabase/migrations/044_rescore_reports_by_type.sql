@@ -0,0 +1,274 @@
+-- Migration: Re-score question reports for every question type
+-- Purpose: resolve_question_reports only knew multiple choice, and re-scored
+-- team answers without the speed bonus the game's rules give. It now takes a
+-- new answer for each question type and works team points out with
+-- team_answer_points, like the scoring trigger and host overrides do.
+
+-- Redefine resolve_question_reports for every question type
+-- 'answer_was_wrong' makes p_correct_answer the question's answer:
+-- - multiple choice: one of the other choices, swapped into a
+-- - true/false: the other of True and False
+-- - numeric: any number
+-- - free text: any answer
+-- Games still being played use it from now on, and with p_rescore past
+-- single-player and team answers are re-scored too:
+-- - single-player answers earn 1 point when now correct, unless a lifeline helped
+-- - team answers are graded again and earn points from the game's rules,
+--   including the speed bonus from how long the team took, or win or lose their
+--   wager. Numeric questions are scored closest wins again once answering has
+--   closed. Free-text grades a host overrode are kept.
+-- Session and team totals are recomputed from the re-scored answers
+CREATE OR REPLACE FUNCTION resolve_question_reports(
+  p_question_id UUID,
+  p_resolution TEXT,
+  p_correct_answer TEXT DEFAULT NULL,
+  p_rescore BOOLEAN DEFAULT false,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_question questions%ROWTYPE;
+  v_old_answer TEXT;
+  v_new_answer TEXT;
+  v_resolved INTEGER := 0;
+  v_game_question_ids UUID[] := ARRAY[]::UUID[];
+  v_session_ids UUID[] := ARRAY[]::UUID[];
+  v_team_ids UUID[] := ARRAY[]::UUID[];
+  v_team_answers INTEGER := 0;
+  v_answer RECORD;
+  v_points RECORD;
+  v_round_question RECORD;
+BEGIN
+  IF NOT is_question_admin() THEN
+    RAISE EXCEPTION 'Only admins can manage questions';
+  END IF;
+
+  IF p_resolution NOT IN ('answer_was_wrong', 'fixed', 'dismissed') THEN
+    RAISE EXCEPTION 'Unknown resolution: %', p_resolution;
+  END IF;
+
+  SELECT * INTO v_question FROM questions WHERE id = p_question_id FOR UPDATE;
+
+  IF v_question.id IS NULL THEN
+    RAISE EXCEPTION 'Question not found';
+  END IF;
+
+  IF p_resolution = 'answer_was_wrong' THEN
+    v_old_answer := v_question.a;
+    v_new_answer := NULLIF(TRIM(p_correct_answer), '');
+
+    IF v_question.question_type IN ('multiple_choice', 'true_false') THEN
+      -- True/false questions have no c or d, so NULLs count as no match
+      IF NOT COALESCE(v_new_answer IN (v_question.b, v_question.c, v_question.d), false) THEN
+        RAISE EXCEPTION 'The correct answer must be one of the question''s other choices';
+      END IF;
+    ELSIF v_question.question_type = 'numeric' THEN
+      IF v_new_answer IS NULL OR v_new_answer !~ '^-?[0-9]+(\.[0-9]+)?$' THEN
+        RAISE EXCEPTION 'The correct answer must be a number';
+      END IF;
+    ELSIF v_new_answer IS NULL OR char_length(v_new_answer) > 200 THEN
+      RAISE EXCEPTION 'The correct answer must be 1 to 200 characters';
+    END IF;
+
+    IF v_new_answer = v_old_answer THEN
+      RAISE EXCEPTION 'The correct answer must differ from the current one';
+    END IF;
+
+    -- Answer a is always the correct one, so swap it with the chosen choice;
+    -- numeric and free-text questions have no other choices
+    UPDATE questions
+    SET
+      a = v_new_answer,
+      b = CASE WHEN b = v_new_answer THEN v_old_answer ELSE b END,
+      c = CASE WHEN c = v_new_answer THEN v_old_answer ELSE c END,
+      d = CASE WHEN d = v_new_answer THEN v_old_answer ELSE d END,
+      updated_at = NOW()
+    WHERE id = p_question_id;
+
+    -- Single-player answers whose correctness changes, graded as validate_answer does
+    IF p_rescore THEN
+      SELECT
+        COALESCE(array_agg(id), ARRAY[]::UUID[]),
+        COALESCE(array_agg(DISTINCT game_session_id), ARRAY[]::UUID[])
+      INTO v_game_question_ids, v_session_ids
+      FROM game_questions
+      WHERE question_id = p_question_id
+        AND answered_at IS NOT NULL
+        AND NOT timed_out
+        AND is_correct IS DISTINCT FROM COALESCE(
+          CASE WHEN question_type = 'free_text'
+            THEN free_text_match_score(user_answer, v_new_answer) >= 0.8
+            ELSE user_answer = v_new_answer
+          END,
+          false
+        );
+    END IF;
+
+    -- Unanswered questions always take the new answer; answered ones only when re-scored.
+    -- A 50/50 that removed the new answer removes the old one instead.
+    UPDATE game_questions
+    SET
+      correct_answer = v_new_answer,
+      removed_answers = CASE
+        WHEN removed_answers ? v_new_answer THEN (removed_answers - v_new_answer) || to_jsonb(v_old_answer)
+        ELSE removed_answers
+      END,
+      is_correct = CASE WHEN id = ANY(v_game_question_ids) THEN NOT is_correct ELSE is_correct END,
+      points_awarded = CASE
+        WHEN id <> ALL(v_game_question_ids) THEN points_awarded
+        WHEN NOT is_correct AND removed_answers IS NULL AND extra_time_seconds = 0 THEN 1
+        ELSE 0
+      END
+    WHERE question_id = p_question_id
+      AND (answered_at IS NULL OR id = ANY(v_game_question_ids));
+
+    UPDATE game_sessions gs
+    SET total_score = (
+      SELECT COALESCE(SUM(points_awarded), 0)
+      FROM game_questions
+      WHERE game_session_id = gs.id
+    )
+    WHERE gs.id = ANY(v_session_ids);
+
+    -- Round questions keep their shuffle; only the correct letter moves.
+    -- Numeric and free-text round questions hold the answer itself.
+    UPDATE round_questions
+    SET correct_answer = CASE
+      WHEN question_type IN ('numeric', 'free_text') THEN v_new_answer
+      ELSE (
+        SELECT chr(ascii('A') + answer.position::INTEGER - 1)
+        FROM jsonb_array_elements_text(presented_answers) WITH ORDINALITY AS answer(value, position)
+        WHERE answer.value = v_new_answer
+      )
+    END
+    WHERE question_id = p_question_id;
+
+    -- How far off numeric answers are, for questions still taking answers too,
+    -- so they are scored against the new answer when answering closes
+    UPDATE team_answers ta
+    SET distance = ABS(ta.answer::NUMERIC - v_new_answer::NUMERIC)
+    FROM round_questions rq
+    JOIN rounds r ON r.id = rq.round_id
+    WHERE rq.id = ta.round_question_id
+      AND rq.question_id = p_question_id
+      AND rq.question_type = 'numeric'
+      AND (p_rescore OR (r.current_round_question_id = rq.id AND r.question_state = 'open'));
+
+    IF p_rescore THEN
+      FOR v_answer IN
+        SELECT
+          ta.id,
+          ta.team_id,
+          answer_grade.match_score,
+          answer_grade.is_correct,
+          ta.wager,
+          ta.response_time_ms,
+          r.round_number,
+          g.scoring_rules
+        FROM team_answers ta
+        JOIN round_questions rq ON rq.id = ta.round_question_id
+        JOIN rounds r ON r.id = rq.round_id
+        JOIN games g ON g.id = r.game_id
+        CROSS JOIN LATERAL (
+          SELECT
+            score.match_score,
+            CASE WHEN rq.question_type = 'free_text'
+              THEN score.match_score >= 0.8
+              ELSE ta.answer = rq.correct_answer
+            END AS is_correct
+          FROM (
+            SELECT CASE WHEN rq.question_type = 'free_text' THEN free_text_match_score(ta.answer, v_new_answer) END AS match_score
+          ) score
+        ) answer_grade
+        WHERE rq.question_id = p_question_id
+          AND rq.question_type <> 'numeric'
+          AND ta.overridden_by IS NULL
+          AND ta.is_correct IS DISTINCT FROM answer_grade.is_correct
+      LOOP
+        IF v_answer.wager IS NOT NULL THEN
+          UPDATE team_answers
+          SET
+            is_correct = v_answer.is_correct,
+            match_score = v_answer.match_score,
+            points_earned = CASE WHEN v_answer.is_correct THEN v_answer.wager ELSE -v_answer.wager END
+          WHERE id = v_answer.id;
+        ELSE
+          SELECT * INTO v_points
+          FROM team_answer_points(
+            v_answer.scoring_rules,
+            v_answer.round_number,
+            v_answer.is_correct,
+            v_answer.response_time_ms / 1000.0
+          );
+
+          UPDATE team_answers
+          SET
+            is_correct = v_answer.is_correct,
+            match_score = v_answer.match_score,
+            base_points = v_points.base_points,
+            speed_bonus = v_points.speed_bonus,
+            points_earned = v_points.base_points + v_points.speed_bonus
+          WHERE id = v_answer.id;
+        END IF;
+
+        v_team_answers := v_team_answers + 1;
+        IF NOT v_answer.team_id = ANY(v_team_ids) THEN
+          v_team_ids := array_append(v_team_ids, v_answer.team_id);
+        END IF;
+      END LOOP;
+
+      UPDATE teams t
+      SET current_score = (
+        SELECT COALESCE(SUM(points_earned), 0)
+        FROM team_answers
+        WHERE team_id = t.id
+      )
+      WHERE t.id = ANY(v_team_ids);
+
+      -- Numeric questions are closest wins, so every answer to one that has
+      -- stopped taking answers is scored again; score_closest_answers also
+      -- recomputes those teams' totals
+      FOR v_round_question IN
+        SELECT rq.id
+        FROM round_questions rq
+        JOIN rounds r ON r.id = rq.round_id
+        WHERE rq.question_id = p_question_id
+          AND rq.question_type = 'numeric'
+          AND NOT (r.current_round_question_id = rq.id AND r.question_state = 'open')
+      LOOP
+        FOR v_answer IN
+          SELECT ta.team_id
+          FROM team_answers ta
+          WHERE ta.round_question_id = v_round_question.id
+        LOOP
+          v_team_answers := v_team_answers + 1;
+          IF NOT v_answer.team_id = ANY(v_team_ids) THEN
+            v_team_ids := array_append(v_team_ids, v_answer.team_id);
+          END IF;
+        END LOOP;
+
+        PERFORM score_closest_answers(v_round_question.id);
+      END LOOP;
+    END IF;
+  END IF;
+
+  UPDATE question_reports
+  SET
+    status = CASE WHEN p_resolution = 'dismissed' THEN 'dismissed' ELSE 'resolved' END,
+    resolution = p_resolution,
+    resolution_note = NULLIF(TRIM(p_note), ''),
+    resolved_by = auth.uid(),
+    resolved_at = NOW()
+  WHERE question_id = p_question_id AND status = 'open';
+
+  GET DIAGNOSTICS v_resolved = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'resolved_reports', v_resolved,
+    'rescored_game_questions', COALESCE(array_length(v_game_question_ids, 1), 0),
+    'rescored_team_answers', v_team_answers,
+    'updated_sessions', COALESCE(array_length(v_session_ids, 1), 0),
+    'updated_teams', COALESCE(array_length(v_team_ids, 1), 0)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
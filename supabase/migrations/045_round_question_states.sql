@@ -0,0 +1,108 @@
+-- Migration: Keep each round question's answer window
+-- Purpose: Moving to another question reset the live state to pending, so a
+-- host could go back to a question that was already revealed and open it
+-- again. Each round question now records when it was opened, closed and
+-- revealed, going back to one picks up where it was left, and a question can
+-- only be opened once.
+
+ALTER TABLE round_questions
+ADD COLUMN opened_at TIMESTAMPTZ,
+ADD COLUMN closed_at TIMESTAMPTZ,
+ADD COLUMN revealed_at TIMESTAMPTZ;
+
+-- The live question in each round takes the round's window
+UPDATE round_questions rq
+SET
+  opened_at = r.question_opened_at,
+  closed_at = r.question_closed_at,
+  revealed_at = CASE WHEN r.question_state = 'revealed' THEN COALESCE(r.question_closed_at, NOW()) END
+FROM rounds r
+WHERE r.current_round_question_id = rq.id
+  AND r.question_state <> 'pending';
+
+-- Earlier questions that teams answered were opened, and are closed by now
+UPDATE round_questions rq
+SET
+  opened_at = answers.first_submitted_at,
+  closed_at = answers.last_submitted_at
+FROM (
+  SELECT round_question_id, MIN(submitted_at) AS first_submitted_at, MAX(submitted_at) AS last_submitted_at
+  FROM team_answers
+  GROUP BY round_question_id
+) answers
+WHERE answers.round_question_id = rq.id
+  AND rq.opened_at IS NULL;
+
+-- Hosts and players can see where each question got to
+GRANT SELECT (opened_at, closed_at, revealed_at) ON round_questions TO authenticated;
+
+-- Only the answer window trigger sets these. Hosts add round questions but
+-- never change or remove them (reshuffling runs as the definer), so they
+-- can't clear opened_at or replace a played question to open it again
+REVOKE UPDATE, DELETE ON round_questions FROM anon, authenticated;
+REVOKE INSERT ON round_questions FROM anon, authenticated;
+GRANT INSERT (round_id, question_id, question_order) ON round_questions TO authenticated;
+
+-- Replace the answer window trigger function to keep each question's window
+-- on the question itself. Returning to a question restores its state, and
+-- only a question that was never opened can be opened.
+CREATE OR REPLACE FUNCTION track_question_answer_window()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_round_question round_questions%ROWTYPE;
+BEGIN
+  IF NEW.current_round_question_id IS DISTINCT FROM OLD.current_round_question_id THEN
+    -- Leaving a question while answering is open closes it
+    IF OLD.current_round_question_id IS NOT NULL AND OLD.question_state = 'open' THEN
+      UPDATE round_questions SET closed_at = now() WHERE id = OLD.current_round_question_id;
+    END IF;
+
+    SELECT * INTO v_round_question FROM round_questions WHERE id = NEW.current_round_question_id;
+
+    NEW.question_state = CASE
+      WHEN v_round_question.revealed_at IS NOT NULL THEN 'revealed'
+      WHEN v_round_question.opened_at IS NOT NULL THEN 'closed'
+      ELSE 'pending'
+    END;
+    NEW.question_opened_at = v_round_question.opened_at;
+    NEW.question_closed_at = v_round_question.closed_at;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.question_state IS DISTINCT FROM OLD.question_state THEN
+    IF NEW.current_round_question_id IS NULL AND NEW.question_state <> 'pending' THEN
+      RAISE EXCEPTION 'Round has no current question';
+    END IF;
+
+    IF NOT (
+      (OLD.question_state = 'pending' AND NEW.question_state = 'open') OR
+      (OLD.question_state = 'open' AND NEW.question_state = 'closed') OR
+      (OLD.question_state = 'closed' AND NEW.question_state = 'revealed')
+    ) THEN
+      RAISE EXCEPTION 'Question cannot move from % to %', OLD.question_state, NEW.question_state;
+    END IF;
+
+    SELECT * INTO v_round_question
+    FROM round_questions
+    WHERE id = NEW.current_round_question_id
+    FOR UPDATE;
+
+    IF NEW.question_state = 'open' THEN
+      IF v_round_question.opened_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Question has already been opened';
+      END IF;
+
+      NEW.question_opened_at = now();
+      NEW.question_closed_at = NULL;
+      UPDATE round_questions SET opened_at = NEW.question_opened_at WHERE id = v_round_question.id;
+    ELSIF NEW.question_state = 'closed' THEN
+      NEW.question_closed_at = now();
+      UPDATE round_questions SET closed_at = NEW.question_closed_at WHERE id = v_round_question.id;
+    ELSE
+      UPDATE round_questions SET revealed_at = now() WHERE id = v_round_question.id;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,76 @@
+-- Migration: Session status transitions
+-- Purpose: Players could write game_sessions.status directly, so a session
+-- could go back to setup, have its lifelines and time limit changed, and carry
+-- on. Status now only moves forward, and players change it through
+-- set_session_status instead of updating the row.
+
+-- Function to only let a session's status move forward:
+-- setup → in_progress ⇄ paused → completed
+CREATE OR REPLACE FUNCTION guard_session_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'setup' THEN
+      RAISE EXCEPTION 'Game sessions start in setup';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'setup' AND NEW.status = 'in_progress') OR
+    (OLD.status = 'in_progress' AND NEW.status IN ('paused', 'completed')) OR
+    (OLD.status = 'paused' AND NEW.status IN ('in_progress', 'completed'))
+  ) THEN
+    RAISE EXCEPTION 'Game cannot move from % to %', OLD.status, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Triggers fire in name order, so a refused change never reaches the clock
+CREATE TRIGGER guard_session_status_trigger
+  BEFORE INSERT OR UPDATE OF status ON game_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_session_status();
+
+-- Function to start, pause, resume or finish the caller's session
+-- Starting stamps start_time and finishing stamps end_time; the question clock
+-- triggers bank and restart the clock
+CREATE OR REPLACE FUNCTION set_session_status(
+  p_session_id UUID,
+  p_status game_session_status
+)
+RETURNS game_sessions AS $$
+DECLARE
+  v_session game_sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_session FROM game_sessions WHERE id = p_session_id FOR UPDATE;
+
+  IF v_session.id IS NULL OR v_session.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Game session not found';
+  END IF;
+
+  UPDATE game_sessions
+  SET
+    status = p_status,
+    start_time = CASE WHEN status = 'setup' AND p_status = 'in_progress' THEN NOW() ELSE start_time END,
+    end_time = CASE WHEN p_status = 'completed' THEN COALESCE(end_time, NOW()) ELSE end_time END
+  WHERE id = p_session_id
+  RETURNING * INTO v_session;
+
+  RETURN v_session;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION set_session_status(UUID, game_session_status) TO authenticated;
+
+-- Sessions are created in setup, and only set_session_status and the game
+-- functions move them on
+REVOKE INSERT (status) ON game_sessions FROM authenticated;
+REVOKE UPDATE (status, start_time, end_time) ON game_sessions FROM authenticated;
@@ -0,0 +1,18 @@
+-- Migration: Keep the time limit fixed once a session starts
+-- Purpose: lock_session_time_limit only checked the session was past setup,
+-- which meant nothing while players could put the status back to setup.
+-- Status only moves forward since migration 046, and the limit is now also
+-- locked once the session has a start time.
+
+-- Redefine lock_session_time_limit to lock the limit once the session has started
+CREATE OR REPLACE FUNCTION lock_session_time_limit()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (OLD.status <> 'setup' OR OLD.start_time IS NOT NULL)
+     AND NEW.question_time_limit_seconds IS DISTINCT FROM OLD.question_time_limit_seconds THEN
+    RAISE EXCEPTION 'Time limit can only be changed during setup';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
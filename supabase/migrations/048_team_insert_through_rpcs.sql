@@ -0,0 +1,13 @@
+-- Migration: Teams are only created and joined through create_team and join_team
+-- Purpose: The setup policies from migrations 011 and 022 still let any player
+-- insert teams and memberships directly, skipping the checks create_team and
+-- join_team (migration 040) make, and see every team of every game in setup.
+-- Players now find a game's teams with get_game_lobby and go through the RPCs.
+
+DROP POLICY IF EXISTS "Players can create teams during setup" ON teams;
+DROP POLICY IF EXISTS "Players can view teams in games during setup" ON teams;
+DROP POLICY IF EXISTS "Players can join teams during setup" ON team_players;
+
+-- create_team and join_team run as the definer, so clients don't need to insert
+REVOKE INSERT ON teams FROM anon, authenticated;
+REVOKE INSERT ON team_players FROM anon, authenticated;
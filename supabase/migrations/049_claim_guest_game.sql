@@ -0,0 +1,72 @@
+-- Migration: Upgrade codes only claim the game they were issued for
+-- Purpose: claim_guest_history moved the guest's seats and answers in every
+-- game, plus their solo games and stats, on a code a host issued for one game.
+-- It now only moves the guest's seat and answers in the code's game, and the
+-- host who issued the code can't claim it.
+
+-- Redefine claim_guest_history to claim the guest's team in the code's game
+CREATE OR REPLACE FUNCTION claim_guest_history(p_code TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_code guest_upgrade_codes%ROWTYPE;
+  v_team teams%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL OR is_guest_user() THEN
+    RAISE EXCEPTION 'Sign in with a full account to claim guest games';
+  END IF;
+
+  SELECT * INTO v_code
+  FROM guest_upgrade_codes
+  WHERE code = upper(trim(p_code))
+  FOR UPDATE;
+
+  IF v_code.code IS NULL OR v_code.claimed_at IS NOT NULL OR v_code.expires_at < NOW() THEN
+    RAISE EXCEPTION 'Upgrade code is invalid or has expired';
+  END IF;
+
+  IF v_code.guest_id = auth.uid() THEN
+    RAISE EXCEPTION 'This account already has these games';
+  END IF;
+
+  IF v_code.issued_by = auth.uid() THEN
+    RAISE EXCEPTION 'The host who issued an upgrade code can''t claim it';
+  END IF;
+
+  SELECT t.* INTO v_team
+  FROM team_players tp
+  JOIN teams t ON t.id = tp.team_id
+  WHERE tp.player_id = v_code.guest_id AND t.game_id = v_code.game_id;
+
+  IF v_team.id IS NULL THEN
+    RAISE EXCEPTION 'Guest is no longer in this game';
+  END IF;
+
+  -- One team per player per game
+  IF EXISTS (
+    SELECT 1 FROM team_players tp
+    JOIN teams t ON t.id = tp.team_id
+    WHERE tp.player_id = auth.uid() AND t.game_id = v_code.game_id
+  ) THEN
+    RAISE EXCEPTION 'This account already played in this game';
+  END IF;
+
+  UPDATE team_players SET player_id = auth.uid()
+  WHERE player_id = v_code.guest_id AND team_id = v_team.id;
+
+  UPDATE team_answers SET submitted_by = auth.uid()
+  WHERE submitted_by = v_code.guest_id AND team_id = v_team.id;
+
+  UPDATE tie_breaker_answers SET submitted_by = auth.uid()
+  WHERE submitted_by = v_code.guest_id AND team_id = v_team.id;
+
+  UPDATE guest_upgrade_codes
+  SET claimed_by = auth.uid(), claimed_at = NOW()
+  WHERE code = v_code.code;
+
+  RETURN jsonb_build_object(
+    'game_id', v_code.game_id,
+    'team_id', v_team.id,
+    'team_name', v_team.name
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
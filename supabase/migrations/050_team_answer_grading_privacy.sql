@@ -0,0 +1,338 @@
+-- Migration: Team answer grading privacy
+-- Purpose: Players could read whether their team's answer was right, and the
+-- points, distance and match score it earned, before the host revealed the
+-- answer, from team_answers itself, its real-time changes and the game state
+-- snapshot. Those columns are no longer readable by clients; hosts get them
+-- through get_game_state and get_team_answers, and players once the question
+-- is revealed.
+
+-- The grading columns are no longer readable by clients, which also keeps them
+-- out of real-time changes
+REVOKE SELECT ON team_answers FROM anon, authenticated;
+GRANT SELECT (
+  id,
+  team_id,
+  round_question_id,
+  submitted_by,
+  answer,
+  wager,
+  response_time_ms,
+  submitted_at
+) ON team_answers TO authenticated;
+
+-- Function to turn a team answer into JSON, leaving out how it was graded
+-- unless p_graded is set
+CREATE OR REPLACE FUNCTION team_answer_json(p_answer team_answers, p_graded BOOLEAN)
+RETURNS JSONB AS $$
+  SELECT CASE
+    WHEN p_graded THEN to_jsonb(p_answer)
+    ELSE to_jsonb(p_answer)
+      - 'is_correct'
+      - 'points_earned'
+      - 'base_points'
+      - 'speed_bonus'
+      - 'distance'
+      - 'match_score'
+      - 'overridden_by'
+      - 'overridden_at'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Redefine the game state snapshot to only grade players' answers once the
+-- current question is revealed
+CREATE OR REPLACE FUNCTION get_game_state(p_game_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_game games%ROWTYPE;
+  v_round rounds%ROWTYPE;
+  v_is_host BOOLEAN;
+  v_player_team_id UUID;
+  v_teams JSONB;
+  v_question JSONB;
+  v_answers JSONB;
+BEGIN
+  SELECT * INTO v_game FROM games WHERE id = p_game_id;
+
+  IF v_game.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_is_host := v_game.host_id = auth.uid();
+
+  SELECT t.id INTO v_player_team_id
+  FROM teams t
+  JOIN team_players tp ON tp.team_id = t.id
+  WHERE t.game_id = p_game_id AND tp.player_id = auth.uid();
+
+  -- Same visibility as the games RLS policies
+  IF NOT v_is_host AND v_player_team_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_round
+  FROM rounds
+  WHERE game_id = p_game_id AND status = 'in_progress'
+  ORDER BY round_number
+  LIMIT 1;
+
+  -- Teams with their players, in join order
+  SELECT COALESCE(jsonb_agg(
+    to_jsonb(t) || jsonb_build_object('players', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', up.id,
+        'display_name', up.display_name,
+        'avatar_url', up.avatar_url,
+        'joined_at', tp.joined_at
+      ) ORDER BY tp.joined_at)
+      FROM team_players tp
+      JOIN user_profiles up ON up.id = tp.player_id
+      WHERE tp.team_id = t.id
+    ), '[]'::jsonb))
+    ORDER BY t.created_at
+  ), '[]'::jsonb)
+  INTO v_teams
+  FROM teams t
+  WHERE t.game_id = p_game_id;
+
+  IF v_round.current_round_question_id IS NOT NULL THEN
+    SELECT jsonb_build_object(
+      'id', rq.id,
+      'round_id', rq.round_id,
+      'question_id', rq.question_id,
+      'question_order', rq.question_order,
+      'question_type', rq.question_type,
+      'question', jsonb_build_object(
+        'category', q.category,
+        'question', q.question
+      ),
+      'presented_answers', rq.presented_answers,
+      'created_at', rq.created_at
+    ) || CASE
+      WHEN v_is_host OR v_round.question_state = 'revealed'
+        THEN jsonb_build_object('correct_answer', rq.correct_answer)
+      ELSE '{}'::jsonb
+    END
+    INTO v_question
+    FROM round_questions rq
+    JOIN questions q ON q.id = rq.question_id
+    WHERE rq.id = v_round.current_round_question_id;
+
+    -- Players only see their own team's answer, and only see how it was
+    -- graded once the answer is revealed
+    SELECT COALESCE(jsonb_agg(
+      team_answer_json(ta, v_is_host OR v_round.question_state = 'revealed')
+      ORDER BY ta.submitted_at
+    ), '[]'::jsonb)
+    INTO v_answers
+    FROM team_answers ta
+    WHERE ta.round_question_id = v_round.current_round_question_id
+      AND (v_is_host OR ta.team_id = v_player_team_id);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'game', to_jsonb(v_game),
+    'current_round', CASE WHEN v_round.id IS NULL THEN NULL ELSE to_jsonb(v_round) END,
+    'teams', v_teams,
+    'current_question', v_question,
+    'team_answers', COALESCE(v_answers, '[]'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE SET search_path = public;
+
+-- Function to read team answers with their grading where the caller may see it
+-- Filters by team, round or game, any of which may be NULL. Hosts get every
+-- answer in their games; players get their own team's, graded once each
+-- question is revealed.
+CREATE OR REPLACE FUNCTION get_team_answers(
+  p_team_id UUID DEFAULT NULL,
+  p_round_id UUID DEFAULT NULL,
+  p_game_id UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+BEGIN
+  IF p_team_id IS NULL AND p_round_id IS NULL AND p_game_id IS NULL THEN
+    RAISE EXCEPTION 'Choose a team, round or game';
+  END IF;
+
+  RETURN (
+    SELECT COALESCE(jsonb_agg(
+      team_answer_json(ta, g.host_id = auth.uid() OR rq.revealed_at IS NOT NULL)
+      ORDER BY ta.submitted_at
+    ), '[]'::jsonb)
+    FROM team_answers ta
+    JOIN round_questions rq ON rq.id = ta.round_question_id
+    JOIN rounds r ON r.id = rq.round_id
+    JOIN games g ON g.id = r.game_id
+    WHERE (p_team_id IS NULL OR ta.team_id = p_team_id)
+      AND (p_round_id IS NULL OR r.id = p_round_id)
+      AND (p_game_id IS NULL OR g.id = p_game_id)
+      AND (
+        g.host_id = auth.uid() OR
+        EXISTS (
+          SELECT 1 FROM team_players tp
+          WHERE tp.team_id = ta.team_id AND tp.player_id = auth.uid()
+        )
+      )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_team_answers(UUID, UUID, UUID) TO authenticated;
+
+-- The team score trigger sums points_earned as the answering player, who can
+-- no longer read it
+ALTER FUNCTION update_team_score() SECURITY DEFINER SET search_path = public;
+
+-- Redefine get_game_summary to run as its owner, since clients can't read the
+-- grading columns it totals. It keeps the visibility RLS gave it: hosts see
+-- every team's answers, and players their own team's once each is revealed.
+CREATE OR REPLACE FUNCTION get_game_summary(p_game_id UUID)
+RETURNS JSONB AS $$
+  -- Same visibility as the games RLS policies
+  WITH game AS (
+    SELECT * FROM games g
+    WHERE g.id = p_game_id
+      AND (
+        g.host_id = auth.uid() OR
+        EXISTS (
+          SELECT 1 FROM teams t
+          JOIN team_players tp ON tp.team_id = t.id
+          WHERE t.game_id = g.id AND tp.player_id = auth.uid()
+        )
+      )
+  ),
+  game_teams AS (
+    SELECT t.*
+    FROM teams t
+    WHERE t.game_id = (SELECT id FROM game)
+  ),
+  game_rounds AS (
+    SELECT r.*
+    FROM rounds r
+    WHERE r.game_id = (SELECT id FROM game)
+  ),
+  -- Each team's answers per round, with the points split by where they came from
+  team_rounds AS (
+    SELECT
+      ta.team_id,
+      rq.round_id,
+      COUNT(*) AS answers,
+      COUNT(*) FILTER (WHERE ta.is_correct) AS correct_answers,
+      SUM(ta.points_earned) AS points,
+      COALESCE(SUM(ta.base_points) FILTER (WHERE ta.wager IS NULL AND ta.is_correct), 0) AS correct_points,
+      COALESCE(SUM(ta.base_points) FILTER (WHERE ta.wager IS NULL AND NOT ta.is_correct), 0) AS incorrect_points,
+      COALESCE(SUM(ta.speed_bonus) FILTER (WHERE ta.wager IS NULL AND ta.is_correct), 0) AS speed_bonus,
+      COALESCE(SUM(ta.points_earned) FILTER (WHERE ta.wager IS NOT NULL), 0) AS wager_points
+    FROM team_answers ta
+    JOIN round_questions rq ON rq.id = ta.round_question_id
+    JOIN game_rounds r ON r.id = rq.round_id
+    -- Hosts count every answer; players their own team's once revealed
+    WHERE EXISTS (SELECT 1 FROM game WHERE host_id = auth.uid())
+      OR (
+        rq.revealed_at IS NOT NULL AND
+        EXISTS (
+          SELECT 1 FROM team_players tp
+          WHERE tp.team_id = ta.team_id AND tp.player_id = auth.uid()
+        )
+      )
+    GROUP BY ta.team_id, rq.round_id
+  ),
+  team_totals AS (
+    SELECT
+      t.id AS team_id,
+      COALESCE(SUM(tr.answers), 0) AS answers,
+      COALESCE(SUM(tr.correct_answers), 0) AS correct_answers,
+      COALESCE(SUM(tr.points), 0) AS points,
+      COALESCE(SUM(tr.correct_points), 0) AS correct_points,
+      COALESCE(SUM(tr.incorrect_points), 0) AS incorrect_points,
+      COALESCE(SUM(tr.speed_bonus), 0) AS speed_bonus,
+      COALESCE(SUM(tr.wager_points), 0) AS wager_points
+    FROM game_teams t
+    LEFT JOIN team_rounds tr ON tr.team_id = t.id
+    GROUP BY t.id
+  ),
+  -- Teams with their players and totals, in join order
+  teams_json AS (
+    SELECT COALESCE(jsonb_agg(
+      to_jsonb(t) || jsonb_build_object(
+        'players', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object(
+            'id', up.id,
+            'display_name', up.display_name,
+            'avatar_url', up.avatar_url,
+            'joined_at', tp.joined_at
+          ) ORDER BY tp.joined_at)
+          FROM team_players tp
+          JOIN user_profiles up ON up.id = tp.player_id
+          WHERE tp.team_id = t.id
+        ), '[]'::jsonb),
+        'total_score', tt.points,
+        'correct_answers', tt.correct_answers,
+        'total_questions', tt.answers,
+        'accuracy_percentage', CASE WHEN tt.answers > 0 THEN (100.0 * tt.correct_answers / tt.answers)::FLOAT8 ELSE 0 END,
+        'points_breakdown', jsonb_build_object(
+          'correct', tt.correct_points,
+          'incorrect', tt.incorrect_points,
+          'speed_bonus', tt.speed_bonus,
+          'wager', tt.wager_points
+        )
+      )
+      ORDER BY t.created_at
+    ), '[]'::jsonb) AS teams
+    FROM game_teams t
+    JOIN team_totals tt ON tt.team_id = t.id
+  ),
+  -- Rounds in order, each with every team's score for it
+  rounds_json AS (
+    SELECT COALESCE(jsonb_agg(
+      to_jsonb(r) || jsonb_build_object('team_scores', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object(
+          'team_id', t.id,
+          'team_name', t.name,
+          'round_score', COALESCE(tr.points, 0),
+          'correct_answers', COALESCE(tr.correct_answers, 0),
+          'points_breakdown', jsonb_build_object(
+            'correct', COALESCE(tr.correct_points, 0),
+            'incorrect', COALESCE(tr.incorrect_points, 0),
+            'speed_bonus', COALESCE(tr.speed_bonus, 0),
+            'wager', COALESCE(tr.wager_points, 0)
+          )
+        ) ORDER BY t.created_at)
+        FROM game_teams t
+        LEFT JOIN team_rounds tr ON tr.team_id = t.id AND tr.round_id = r.id
+      ), '[]'::jsonb))
+      ORDER BY r.round_number
+    ), '[]'::jsonb) AS rounds
+    FROM game_rounds r
+  ),
+  overall AS (
+    SELECT
+      g.total_rounds * g.questions_per_round * (SELECT COUNT(*) FROM game_teams) AS total_questions,
+      (SELECT COALESCE(SUM(correct_answers), 0) FROM team_totals) AS total_correct_answers,
+      GREATEST(0, ROUND(EXTRACT(EPOCH FROM (
+        COALESCE(g.end_time, now()) - COALESCE(g.start_time, g.end_time, now())
+      )) * 1000)) AS duration_ms
+    FROM game g
+  )
+  SELECT jsonb_build_object(
+    'game', to_jsonb(g),
+    'teams', (SELECT teams FROM teams_json),
+    'rounds', (SELECT rounds FROM rounds_json),
+    'tie_breaker_winner_id', (
+      SELECT winner_team_id FROM tie_breakers
+      WHERE game_id = p_game_id AND winner_team_id IS NOT NULL
+      LIMIT 1
+    ),
+    'overall_stats', jsonb_build_object(
+      'total_questions', o.total_questions,
+      'total_correct_answers', o.total_correct_answers,
+      'average_accuracy', CASE
+        WHEN o.total_questions > 0 THEN (100.0 * o.total_correct_answers / o.total_questions)::FLOAT8
+        ELSE 0
+      END,
+      'duration_ms', o.duration_ms
+    )
+  )
+  FROM game g
+  CROSS JOIN overall o;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,12 @@
+-- Migration: Put the default replica identity back on realtime tables
+-- Purpose: Migrations 016 and 036 set REPLICA IDENTITY FULL so UPDATE and
+-- DELETE payloads would carry the previous row. With RLS on, Supabase Realtime
+-- only sends the primary key in old rows, and doesn't filter deletes at all, so
+-- subscribers compare changes with the rows they last saw instead. Full
+-- identity only made every update log the whole old row.
+
+ALTER TABLE games REPLICA IDENTITY DEFAULT;
+ALTER TABLE rounds REPLICA IDENTITY DEFAULT;
+ALTER TABLE teams REPLICA IDENTITY DEFAULT;
+ALTER TABLE team_players REPLICA IDENTITY DEFAULT;
+ALTER TABLE tie_breakers REPLICA IDENTITY DEFAULT;
@@ -0,0 +1,111 @@
+-- Answer submission locking tests
+-- Run with `supabase test db`. Two submissions for the same game question run
+-- on their own connections through dblink: the second waits on the first's
+-- locks and is then rejected, so the question is scored exactly once.
+-- The fixtures have to be committed for those connections to see them, so they
+-- are added and removed through a third connection.
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+CREATE EXTENSION IF NOT EXISTS dblink WITH SCHEMA extensions;
+
+SELECT plan(5);
+
+SELECT dblink_connect('setup', format('dbname=%s user=postgres password=postgres host=localhost', current_database()));
+SELECT dblink_connect('first', format('dbname=%s user=postgres password=postgres host=localhost', current_database()));
+SELECT dblink_connect('second', format('dbname=%s user=postgres password=postgres host=localhost', current_database()));
+
+-- A single-player game in progress on its first question
+SELECT dblink_exec('setup', $$
+  DELETE FROM auth.users WHERE id = '00000000-0000-0000-0000-0000000000c1';
+  DELETE FROM questions WHERE id = '00000000-0000-0000-0000-0000000000d1';
+
+  INSERT INTO auth.users (id, email, is_anonymous)
+  VALUES ('00000000-0000-0000-0000-0000000000c1', 'solo@example.com', false);
+
+  INSERT INTO user_profiles (id, username)
+  VALUES ('00000000-0000-0000-0000-0000000000c1', 'solo');
+
+  INSERT INTO questions (id, category, question, a, b, c, d, status)
+  VALUES ('00000000-0000-0000-0000-0000000000d1', 'Geography', 'What is the capital of France?', 'Paris', 'Lyon', 'Marseille', 'Nice', 'approved');
+
+  INSERT INTO game_sessions (id, user_id, total_rounds, questions_per_round, selected_categories)
+  VALUES ('00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000c1', 1, 2, '{Geography}');
+
+  UPDATE game_sessions SET status = 'in_progress'
+  WHERE id = '00000000-0000-0000-0000-0000000000e1';
+
+  INSERT INTO game_rounds (id, game_session_id, round_number, categories, questions_count)
+  VALUES ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-0000000000e1', 1, '{Geography}', 2);
+
+  INSERT INTO game_questions (id, game_session_id, game_round_id, question_id, question_order, presented_answers, correct_answer)
+  VALUES (
+    '00000000-0000-0000-0000-0000000000a1',
+    '00000000-0000-0000-0000-0000000000e1',
+    '00000000-0000-0000-0000-0000000000f1',
+    '00000000-0000-0000-0000-0000000000d1',
+    1,
+    '["Lyon", "Paris", "Marseille", "Nice"]',
+    'Paris'
+  );
+$$);
+
+-- Both connections submit as the player, as a double click or a second tab would
+SELECT dblink_exec(conn, $$
+  BEGIN;
+  SET LOCAL ROLE authenticated;
+  SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000c1", "role": "authenticated"}', true);
+$$)
+FROM unnest(ARRAY['first', 'second']) AS conn;
+
+-- The first submission holds its locks until it commits
+SELECT dblink_exec('first', $$ SELECT validate_answer('00000000-0000-0000-0000-0000000000a1', 'Paris', 1500) $$);
+
+SELECT dblink_send_query('second', $$ SELECT validate_answer('00000000-0000-0000-0000-0000000000a1', 'Lyon', 1500)::text $$);
+SELECT pg_sleep(0.5);
+
+SELECT ok(
+  EXISTS (
+    SELECT 1 FROM pg_stat_activity
+    WHERE wait_event_type = 'Lock' AND query LIKE '%validate_answer%''Lyon''%'
+  ),
+  'The second submission waits for the first to finish'
+);
+
+SELECT dblink_exec('first', 'COMMIT');
+
+SELECT throws_ok(
+  $$ SELECT * FROM dblink_get_result('second') AS result(answer TEXT) $$,
+  'Question has already been answered',
+  'The second submission is rejected once the first is in'
+);
+
+SELECT dblink_exec('second', 'ROLLBACK');
+
+SELECT is(
+  (SELECT user_answer FROM game_questions WHERE id = '00000000-0000-0000-0000-0000000000a1'),
+  'Paris',
+  'The first answer is kept'
+);
+
+SELECT results_eq(
+  $$ SELECT total_score, current_question_index FROM game_sessions WHERE id = '00000000-0000-0000-0000-0000000000e1' $$,
+  $$ VALUES (1, 1) $$,
+  'The question is scored once'
+);
+
+SELECT is(
+  (SELECT count(*) FROM game_questions WHERE game_session_id = '00000000-0000-0000-0000-0000000000e1' AND answered_at IS NOT NULL),
+  1::BIGINT,
+  'Only one question is answered'
+);
+
+SELECT dblink_exec('setup', $$
+  DELETE FROM auth.users WHERE id = '00000000-0000-0000-0000-0000000000c1';
+  DELETE FROM questions WHERE id = '00000000-0000-0000-0000-0000000000d1';
+$$);
+
+SELECT dblink_disconnect(conn) FROM unnest(ARRAY['setup', 'first', 'second']) AS conn;
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,79 @@
+-- Guest upgrade code tests
+-- Run with `supabase test db`. Claims only move the guest's seat in the code's
+-- game, and neither the issuing host nor the guest can claim the code.
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(5);
+
+INSERT INTO auth.users (id, email, is_anonymous) VALUES
+  ('00000000-0000-0000-0000-00000000000a', 'host@example.com', false),
+  ('00000000-0000-0000-0000-00000000000b', NULL, true),
+  ('00000000-0000-0000-0000-00000000000c', 'player@example.com', false);
+
+INSERT INTO user_profiles (id, username) VALUES
+  ('00000000-0000-0000-0000-00000000000a', 'host'),
+  ('00000000-0000-0000-0000-00000000000b', 'guest'),
+  ('00000000-0000-0000-0000-00000000000c', 'player');
+
+-- The guest played on a team in two of the host's games
+INSERT INTO games (id, host_id, title, scheduled_date, total_rounds, questions_per_round) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-00000000000a', 'Pub Night', '2024-01-01', 1, 1),
+  ('00000000-0000-0000-0000-0000000000a2', '00000000-0000-0000-0000-00000000000a', 'Quiz Night', '2024-01-08', 1, 1);
+
+INSERT INTO teams (id, game_id, name) VALUES
+  ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a1', 'Quizzly Bears'),
+  ('00000000-0000-0000-0000-0000000000b2', '00000000-0000-0000-0000-0000000000a2', 'Know-It-Owls');
+
+INSERT INTO team_players (team_id, player_id) VALUES
+  ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-00000000000b'),
+  ('00000000-0000-0000-0000-0000000000b2', '00000000-0000-0000-0000-00000000000b');
+
+-- The host issued a code for the first game only
+INSERT INTO guest_upgrade_codes (code, guest_id, issued_by, game_id) VALUES
+  ('ABCD2345', '00000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-0000000000a1');
+
+SET LOCAL ROLE authenticated;
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000a", "role": "authenticated"}', true);
+SELECT throws_ok(
+  $$ SELECT claim_guest_history('ABCD2345') $$,
+  'The host who issued an upgrade code can''t claim it',
+  'The issuing host cannot claim the code'
+);
+
+-- A guest who has since upgraded in place already owns the games
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000b", "role": "authenticated"}', true);
+SELECT throws_ok(
+  $$ SELECT claim_guest_history('ABCD2345') $$,
+  'This account already has these games',
+  'The guest cannot claim their own code'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000c", "role": "authenticated"}', true);
+SELECT is(
+  claim_guest_history('ABCD2345') ->> 'team_id',
+  '00000000-0000-0000-0000-0000000000b1',
+  'A full account claims the guest''s team in the code''s game'
+);
+
+RESET ROLE;
+
+SELECT results_eq(
+  $$ SELECT team_id, player_id FROM team_players ORDER BY team_id $$,
+  $$ VALUES
+    ('00000000-0000-0000-0000-0000000000b1'::UUID, '00000000-0000-0000-0000-00000000000c'::UUID),
+    ('00000000-0000-0000-0000-0000000000b2'::UUID, '00000000-0000-0000-0000-00000000000b'::UUID)
+  $$,
+  'The guest keeps their seat in the game the code was not issued for'
+);
+
+SELECT isnt(
+  (SELECT claimed_at FROM guest_upgrade_codes WHERE code = 'ABCD2345'),
+  NULL,
+  'The code is used up'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,47 @@
+-- Team answer grading tests
+-- Run with `supabase test db`. Clients can't read how an answer was graded,
+-- and team_answer_json leaves the grading out until it's asked for.
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(5);
+
+SELECT ok(
+  has_column_privilege('authenticated', 'team_answers', 'answer', 'SELECT'),
+  'Players can read the answers their team locked in'
+);
+
+SELECT ok(
+  NOT has_column_privilege('authenticated', 'team_answers', 'is_correct', 'SELECT')
+    AND NOT has_column_privilege('authenticated', 'team_answers', 'points_earned', 'SELECT')
+    AND NOT has_column_privilege('authenticated', 'team_answers', 'distance', 'SELECT')
+    AND NOT has_column_privilege('authenticated', 'team_answers', 'match_score', 'SELECT'),
+  'Players can''t read how an answer was graded'
+);
+
+SELECT ok(
+  NOT has_column_privilege('anon', 'team_answers', 'answer', 'SELECT'),
+  'Signed out users can''t read answers'
+);
+
+SELECT is(
+  team_answer_json(
+    jsonb_populate_record(NULL::team_answers, '{"answer": "B", "is_correct": true, "points_earned": 12, "match_score": 1}'),
+    false
+  ) ?| ARRAY['is_correct', 'points_earned', 'base_points', 'speed_bonus', 'distance', 'match_score'],
+  false,
+  'Ungraded answers leave out the grading'
+);
+
+SELECT is(
+  team_answer_json(
+    jsonb_populate_record(NULL::team_answers, '{"answer": "B", "is_correct": true, "points_earned": 12}'),
+    true
+  ) ->> 'points_earned',
+  '12',
+  'Graded answers include the points earned'
+);
+
+SELECT * FROM finish();
+ROLLBACK;